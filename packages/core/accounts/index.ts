@@ -13,3 +13,15 @@ export { KernelFactoryV2Abi } from "./kernel/v2/abi/KernelFactoryV2Abi.js"
 export { EIP1271Abi } from "./kernel/abi/EIP1271Abi.js"
 export { addressToEmptyAccount } from "./addressToEmptyAccount.js"
 export * from "./utils/index.js"
+export {
+    decodeKernelCallData,
+    type DecodedKernelCallData
+} from "./kernel/utils/common/decodeKernelCallData.js"
+export {
+    describeUserOperation,
+    type DescribeUserOperationParameters,
+    type DescribeUserOperationReturnType,
+    type DescribedExecution,
+    type KernelValidationDescription,
+    type TokenIntent
+} from "./kernel/utils/common/describeUserOperation.js"
@@ -31,6 +31,7 @@ import {
     zeroAddress
 } from "viem"
 import { KernelVersionToAddressesMap } from "../../constants.js"
+import { UnsupportedKernelVersionError } from "../../errors/index.js"
 import type {
     GetKernelVersion,
     KernelEncodeCallDataArgs,
@@ -318,7 +319,7 @@ const getDefaultAddresses = <entryPoint extends EntryPoint>(
 
     const addresses = KernelVersionToAddressesMap[kernelVersion]
     if (!addresses) {
-        throw new Error(
+        throw new UnsupportedKernelVersionError(
             `No addresses found for kernel version ${kernelVersion}`
         )
     }
@@ -0,0 +1,123 @@
+import {
+    type Address,
+    type Hex,
+    decodeFunctionData,
+    getAddress,
+    toFunctionSelector
+} from "viem"
+import { CALL_TYPE } from "../../../../../constants.js"
+import type { CallType, DecodedExecution } from "../../../../../types/kernel.js"
+import {
+    MULTISEND_ADDRESS,
+    decodeMultiSend,
+    multiSendAbi
+} from "../../../../utils/multisend.js"
+import { KernelExecuteAbi } from "../../../abi/KernelAccountAbi.js"
+import { executeAndRevertAbi } from "../../../v1/createKernelAccountV1.js"
+
+const expandMultiSend = (
+    to: Address,
+    data: Hex,
+    callType: CallType
+): DecodedExecution[] | undefined => {
+    if (
+        callType !== "delegatecall" ||
+        to.toLowerCase() !== MULTISEND_ADDRESS.toLowerCase() ||
+        data.slice(0, 10).toLowerCase() !==
+            toFunctionSelector("multiSend(bytes)")
+    ) {
+        return undefined
+    }
+    const { args } = decodeFunctionData({ abi: multiSendAbi, data })
+    return decodeMultiSend((args as [Hex])[0]).map((call) => ({
+        target: call.to,
+        value: call.value,
+        callData: call.data,
+        callType: call.callType
+    }))
+}
+
+const toDecodedCallData = (
+    to: Address,
+    value: bigint,
+    data: Hex,
+    callType: CallType
+): { callType: CALL_TYPE; executions: DecodedExecution[] } => {
+    const multiSendExecutions = expandMultiSend(to, data, callType)
+    if (multiSendExecutions) {
+        return { callType: CALL_TYPE.BATCH, executions: multiSendExecutions }
+    }
+    return {
+        callType:
+            callType === "delegatecall"
+                ? CALL_TYPE.DELEGATE_CALL
+                : CALL_TYPE.SINGLE,
+        executions: [{ target: to, value, callData: data, callType }]
+    }
+}
+
+/**
+ * Decode the callData of a Kernel v0.0.2 - v0.2.x account (EntryPoint v0.6)
+ * into the executions it will perform. Multisend batches are expanded.
+ * @param callData
+ */
+export const decodeCallData = (
+    callData: Hex
+): {
+    callType: CALL_TYPE
+    executions: DecodedExecution[]
+} => {
+    const selector = callData.slice(0, 10).toLowerCase()
+
+    if (
+        selector ===
+        toFunctionSelector("executeAndRevert(address,uint256,bytes,uint8)")
+    ) {
+        const { args } = decodeFunctionData({
+            abi: executeAndRevertAbi,
+            data: callData
+        })
+        const [to, value, data, operation] = args as [
+            Address,
+            bigint,
+            Hex,
+            number
+        ]
+        return toDecodedCallData(
+            getAddress(to),
+            value,
+            data,
+            Number(operation) === 1 ? "delegatecall" : "call"
+        )
+    }
+
+    const { functionName, args } = decodeFunctionData({
+        abi: KernelExecuteAbi,
+        data: callData
+    })
+
+    if (functionName === "execute") {
+        const [to, value, data, operation] = args
+        return toDecodedCallData(
+            to,
+            value,
+            data,
+            operation === 1 ? "delegatecall" : "call"
+        )
+    }
+
+    if (functionName === "executeBatch") {
+        return {
+            callType: CALL_TYPE.BATCH,
+            executions: args[0].map((call) => ({
+                target: call.to,
+                value: call.value,
+                callData: call.data,
+                callType: "call"
+            }))
+        }
+    }
+
+    const [to, data] = args
+    return toDecodedCallData(to, 0n, data, "delegatecall")
+}
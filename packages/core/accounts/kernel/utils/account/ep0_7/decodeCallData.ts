@@ -0,0 +1,135 @@
+import {
+    type Hex,
+    decodeAbiParameters,
+    decodeFunctionData,
+    getAbiItem,
+    getAddress,
+    hexToBigInt,
+    size,
+    slice,
+    toFunctionSelector
+} from "viem"
+import { CALL_TYPE, EXEC_TYPE } from "../../../../../constants.js"
+import type { DecodedExecution } from "../../../../../types/kernel.js"
+import { KernelV3ExecuteAbi } from "../../../abi/kernel_v_3_0_0/KernelAccountAbi.js"
+
+export type DecodedExecMode = {
+    callType: CALL_TYPE
+    execType: EXEC_TYPE
+}
+
+/**
+ * Parse the `ExecMode` (bytes32) of a Kernel v3 `execute` call
+ * @param execMode
+ */
+export const decodeExecMode = (execMode: Hex): DecodedExecMode => {
+    const callTypeByte = slice(execMode, 0, 1).toLowerCase()
+    const execTypeByte = slice(execMode, 1, 2).toLowerCase()
+    const callType = Object.values(CALL_TYPE).find(
+        (type) => type.toLowerCase() === callTypeByte
+    )
+    const execType = Object.values(EXEC_TYPE).find(
+        (type) => type.toLowerCase() === execTypeByte
+    )
+    if (!callType) {
+        throw new Error(`Unsupported call type ${callTypeByte}`)
+    }
+    if (!execType) {
+        throw new Error(`Unsupported exec type ${execTypeByte}`)
+    }
+    return { callType, execType }
+}
+
+/**
+ * Decode the callData of a Kernel v3 account (EntryPoint v0.7) into the
+ * executions it will perform. Reverses `encodeCallData`, including the
+ * `executeUserOp` prefix used when a hook is installed.
+ * @param callData
+ */
+export const decodeCallData = (
+    callData: Hex
+): DecodedExecMode & {
+    includeHooks: boolean
+    executions: DecodedExecution[]
+} => {
+    const executeUserOpSig = toFunctionSelector(
+        getAbiItem({ abi: KernelV3ExecuteAbi, name: "executeUserOp" })
+    )
+    const includeHooks =
+        slice(callData, 0, 4).toLowerCase() === executeUserOpSig.toLowerCase()
+
+    const { functionName, args } = decodeFunctionData({
+        abi: KernelV3ExecuteAbi,
+        data: includeHooks ? slice(callData, 4) : callData
+    })
+    if (functionName !== "execute" && functionName !== "executeFromExecutor") {
+        throw new Error(`Unsupported Kernel v3 function ${functionName}`)
+    }
+
+    const [execMode, executionCalldata] = args
+    const { callType, execType } = decodeExecMode(execMode)
+
+    if (callType === CALL_TYPE.BATCH) {
+        const [executionBatch] = decodeAbiParameters(
+            [
+                {
+                    name: "executionBatch",
+                    type: "tuple[]",
+                    components: [
+                        { name: "target", type: "address" },
+                        { name: "value", type: "uint256" },
+                        { name: "callData", type: "bytes" }
+                    ]
+                }
+            ],
+            executionCalldata
+        )
+        return {
+            callType,
+            execType,
+            includeHooks,
+            executions: executionBatch.map((execution) => ({
+                ...execution,
+                callType: "call"
+            }))
+        }
+    }
+
+    if (callType === CALL_TYPE.DELEGATE_CALL) {
+        // [0:20] - target, [20:] - callData (no value)
+        return {
+            callType,
+            execType,
+            includeHooks,
+            executions: [
+                {
+                    target: getAddress(slice(executionCalldata, 0, 20)),
+                    value: 0n,
+                    callData:
+                        size(executionCalldata) > 20
+                            ? slice(executionCalldata, 20)
+                            : "0x",
+                    callType: "delegatecall"
+                }
+            ]
+        }
+    }
+
+    // [0:20] - target, [20:52] - value, [52:] - callData
+    return {
+        callType,
+        execType,
+        includeHooks,
+        executions: [
+            {
+                target: getAddress(slice(executionCalldata, 0, 20)),
+                value: hexToBigInt(slice(executionCalldata, 20, 52)),
+                callData:
+                    size(executionCalldata) > 52
+                        ? slice(executionCalldata, 52)
+                        : "0x",
+                callType: "call"
+            }
+        ]
+    }
+}
@@ -0,0 +1,52 @@
+import type { EntryPointVersion } from "permissionless/types/entrypoint"
+import { type Hex, getAbiItem, toFunctionSelector } from "viem"
+import { type CALL_TYPE, EXEC_TYPE } from "../../../../constants.js"
+import type { DecodedExecution } from "../../../../types/kernel.js"
+import { KernelV3ExecuteAbi } from "../../abi/kernel_v_3_0_0/KernelAccountAbi.js"
+import { decodeCallData as decodeCallDataEpV06 } from "../account/ep0_6/decodeCallData.js"
+import { decodeCallData as decodeCallDataEpV07 } from "../account/ep0_7/decodeCallData.js"
+
+export type DecodedKernelCallData = {
+    entryPointVersion: EntryPointVersion
+    callType: CALL_TYPE
+    execType: EXEC_TYPE
+    includeHooks: boolean
+    executions: DecodedExecution[]
+}
+
+const kernelV3Selectors = (
+    ["execute", "executeFromExecutor", "executeUserOp"] as const
+).map((name) =>
+    toFunctionSelector(getAbiItem({ abi: KernelV3ExecuteAbi, name }))
+)
+
+/**
+ * Decode the callData of any Kernel account (v0.0.2 to v0.3.x) into the
+ * executions it will perform. This is the inverse of the account's `encodeCallData`.
+ * @param callData
+ * @param entryPointVersion - skips the version detection based on the function selector
+ */
+export const decodeKernelCallData = (
+    callData: Hex,
+    entryPointVersion?: EntryPointVersion
+): DecodedKernelCallData => {
+    const version =
+        entryPointVersion ??
+        (kernelV3Selectors.includes(callData.slice(0, 10).toLowerCase() as Hex)
+            ? "v0.7"
+            : "v0.6")
+
+    if (version === "v0.6") {
+        return {
+            entryPointVersion: version,
+            execType: EXEC_TYPE.DEFAULT,
+            includeHooks: false,
+            ...decodeCallDataEpV06(callData)
+        }
+    }
+
+    return {
+        entryPointVersion: version,
+        ...decodeCallDataEpV07(callData)
+    }
+}
@@ -0,0 +1,450 @@
+import { getEntryPointVersion } from "permissionless"
+import type {
+    EntryPoint,
+    GetEntryPointVersion
+} from "permissionless/types/entrypoint"
+import type { UserOperation } from "permissionless/types/userOperation"
+import {
+    type Abi,
+    type Address,
+    type Hex,
+    decodeAbiParameters,
+    decodeFunctionData,
+    getAddress,
+    hexToBigInt,
+    hexToNumber,
+    pad,
+    parseAbiParameters,
+    size,
+    slice,
+    toHex
+} from "viem"
+import {
+    CALL_TYPE,
+    EXEC_TYPE,
+    VALIDATOR_MODE,
+    VALIDATOR_TYPE
+} from "../../../../constants.js"
+import {
+    type DecodedExecution,
+    ValidatorMode
+} from "../../../../types/kernel.js"
+import {
+    type DecodedKernelCallData,
+    decodeKernelCallData
+} from "./decodeKernelCallData.js"
+
+export type TokenIntent =
+    | {
+          standard: "native"
+          type: "transfer"
+          from: Address
+          to: Address
+          amount: bigint
+      }
+    | {
+          standard: "erc20"
+          type: "transfer"
+          token: Address
+          from: Address
+          to: Address
+          amount: bigint
+      }
+    | {
+          standard: "erc20"
+          type: "approve"
+          token: Address
+          owner: Address
+          spender: Address
+          amount: bigint
+      }
+    | {
+          standard: "erc721"
+          type: "transfer"
+          token: Address
+          from: Address
+          to: Address
+          tokenId: bigint
+      }
+    | {
+          standard: "erc721"
+          type: "approve"
+          token: Address
+          owner: Address
+          spender: Address
+          tokenId: bigint
+      }
+    | {
+          standard: "erc1155"
+          type: "transfer"
+          token: Address
+          from: Address
+          to: Address
+          ids: readonly bigint[]
+          amounts: readonly bigint[]
+      }
+    | {
+          standard: "erc721" | "erc1155"
+          type: "approvalForAll"
+          token: Address
+          owner: Address
+          operator: Address
+          approved: boolean
+      }
+
+export type DescribedExecution = DecodedExecution & {
+    functionName?: string
+    args?: readonly unknown[]
+    intents: TokenIntent[]
+}
+
+export type KernelValidationDescription =
+    | {
+          entryPointVersion: "v0.6"
+          mode: ValidatorMode
+          enable?: {
+              selector: Hex
+              validUntil: number
+              validAfter: number
+              validator: Address
+              executor: Address
+              enableData: Hex
+              enableSignature: Hex
+          }
+      }
+    | {
+          entryPointVersion: "v0.7"
+          mode: VALIDATOR_MODE
+          validatorType: keyof typeof VALIDATOR_TYPE
+          identifier: Hex
+          customNonceKey: bigint
+          enable?: {
+              hook: Address
+              validatorData: Hex
+              hookData: Hex
+              selector: Hex
+              executor: Address
+              executorHook: Address
+              enableSignature: Hex
+          }
+      }
+
+export type DescribeUserOperationParameters<entryPoint extends EntryPoint> = {
+    userOperation: UserOperation<GetEntryPointVersion<entryPoint>>
+    entryPoint: entryPoint
+    /**
+     * ABIs of the called contracts keyed by target address, used to decode
+     * the function called by each execution and its token intents
+     */
+    abis?: Record<Address, Abi>
+    /**
+     * ABI used for the targets that are not present in `abis`
+     */
+    defaultAbi?: Abi
+}
+
+export type DescribeUserOperationReturnType = Omit<
+    DecodedKernelCallData,
+    "executions"
+> & {
+    sender: Address
+    nonce: bigint
+    validation: KernelValidationDescription
+    executions: DescribedExecution[]
+}
+
+const hasFunction = (abi: Abi, name: string) =>
+    abi.some((item) => item.type === "function" && item.name === name)
+
+const getTokenStandard = (
+    abi: Abi
+): "erc20" | "erc721" | "erc1155" | undefined => {
+    if (hasFunction(abi, "safeBatchTransferFrom")) return "erc1155"
+    if (hasFunction(abi, "ownerOf")) return "erc721"
+    if (hasFunction(abi, "transfer") && hasFunction(abi, "allowance"))
+        return "erc20"
+    return undefined
+}
+
+const decodeTokenIntent = (
+    sender: Address,
+    token: Address,
+    abi: Abi,
+    functionName: string,
+    // biome-ignore lint/suspicious/noExplicitAny: args are typed by the supplied abi
+    args: readonly any[]
+): TokenIntent | undefined => {
+    const standard = getTokenStandard(abi)
+    if (standard === "erc20") {
+        if (functionName === "transfer")
+            return {
+                standard,
+                type: "transfer",
+                token,
+                from: sender,
+                to: args[0],
+                amount: args[1]
+            }
+        if (functionName === "transferFrom")
+            return {
+                standard,
+                type: "transfer",
+                token,
+                from: args[0],
+                to: args[1],
+                amount: args[2]
+            }
+        if (functionName === "approve")
+            return {
+                standard,
+                type: "approve",
+                token,
+                owner: sender,
+                spender: args[0],
+                amount: args[1]
+            }
+    }
+    if (standard === "erc721") {
+        if (
+            functionName === "transferFrom" ||
+            functionName === "safeTransferFrom"
+        )
+            return {
+                standard,
+                type: "transfer",
+                token,
+                from: args[0],
+                to: args[1],
+                tokenId: args[2]
+            }
+        if (functionName === "approve")
+            return {
+                standard,
+                type: "approve",
+                token,
+                owner: sender,
+                spender: args[0],
+                tokenId: args[1]
+            }
+    }
+    if (standard === "erc1155") {
+        if (functionName === "safeTransferFrom")
+            return {
+                standard,
+                type: "transfer",
+                token,
+                from: args[0],
+                to: args[1],
+                ids: [args[2]],
+                amounts: [args[3]]
+            }
+        if (functionName === "safeBatchTransferFrom")
+            return {
+                standard,
+                type: "transfer",
+                token,
+                from: args[0],
+                to: args[1],
+                ids: args[2],
+                amounts: args[3]
+            }
+    }
+    if (
+        (standard === "erc721" || standard === "erc1155") &&
+        functionName === "setApprovalForAll"
+    )
+        return {
+            standard,
+            type: "approvalForAll",
+            token,
+            owner: sender,
+            operator: args[0],
+            approved: args[1]
+        }
+    return undefined
+}
+
+const describeExecution = (
+    sender: Address,
+    execution: DecodedExecution,
+    abi?: Abi
+): DescribedExecution => {
+    const intents: TokenIntent[] = []
+    if (execution.callType === "call" && execution.value > 0n) {
+        intents.push({
+            standard: "native",
+            type: "transfer",
+            from: sender,
+            to: execution.target,
+            amount: execution.value
+        })
+    }
+    if (!abi || size(execution.callData) < 4) {
+        return { ...execution, intents }
+    }
+    try {
+        const { functionName, args = [] } = decodeFunctionData({
+            abi,
+            data: execution.callData
+        })
+        const intent =
+            execution.callType === "call"
+                ? decodeTokenIntent(
+                      sender,
+                      execution.target,
+                      abi,
+                      functionName,
+                      args
+                  )
+                : undefined
+        if (intent) intents.push(intent)
+        return { ...execution, functionName, args, intents }
+    } catch {
+        return { ...execution, intents }
+    }
+}
+
+const describeValidationV06 = (
+    callData: Hex,
+    signature: Hex
+): KernelValidationDescription => {
+    // An unsigned UserOperation is described as using the sudo validator
+    const mode =
+        size(signature) >= 4
+            ? (slice(signature, 0, 4) as ValidatorMode)
+            : ValidatorMode.sudo
+    if (mode !== ValidatorMode.enable) {
+        return { entryPointVersion: "v0.6", mode }
+    }
+    // See `getEncodedPluginsData` (ep0_6) for the layout
+    const enableDataLength = hexToNumber(slice(signature, 56, 88))
+    const enableSignatureLength = hexToNumber(
+        slice(signature, 88 + enableDataLength, 120 + enableDataLength)
+    )
+    return {
+        entryPointVersion: "v0.6",
+        mode,
+        enable: {
+            selector: slice(callData, 0, 4),
+            validUntil: hexToNumber(slice(signature, 4, 10)),
+            validAfter: hexToNumber(slice(signature, 10, 16)),
+            validator: getAddress(slice(signature, 16, 36)),
+            executor: getAddress(slice(signature, 36, 56)),
+            enableData:
+                enableDataLength > 0
+                    ? slice(signature, 88, 88 + enableDataLength)
+                    : "0x",
+            enableSignature: slice(
+                signature,
+                120 + enableDataLength,
+                120 + enableDataLength + enableSignatureLength
+            )
+        }
+    }
+}
+
+const describeValidationV07 = (
+    nonce: bigint,
+    signature: Hex
+): KernelValidationDescription => {
+    // The nonce key is built in `toKernelPluginManager.getNonceKey`:
+    // [0:1] - validator mode, [1:2] - validator type, [2:22] - identifier, [22:24] - custom nonce key
+    const nonceKey = pad(toHex(nonce >> 64n), { size: 24 })
+    const mode = slice(nonceKey, 0, 1) as VALIDATOR_MODE
+    const validatorTypeByte = slice(nonceKey, 1, 2)
+    const validatorType = (
+        Object.keys(VALIDATOR_TYPE) as (keyof typeof VALIDATOR_TYPE)[]
+    ).find((key) => VALIDATOR_TYPE[key] === validatorTypeByte)
+    if (!validatorType) {
+        throw new Error(`Unknown validator type ${validatorTypeByte}`)
+    }
+    const identifier = slice(nonceKey, 2, 22)
+    const customNonceKey = hexToBigInt(slice(nonceKey, 22, 24))
+    // The enable data can only be read once the UserOperation is signed
+    if (mode !== VALIDATOR_MODE.ENABLE || size(signature) <= 20) {
+        return {
+            entryPointVersion: "v0.7",
+            mode,
+            validatorType,
+            identifier,
+            customNonceKey
+        }
+    }
+    // See `getEncodedPluginsData` (ep0_7) for the layout
+    const [validatorData, hookData, selectorData, enableSignature] =
+        decodeAbiParameters(
+            parseAbiParameters(
+                "bytes validatorData, bytes hookData, bytes selectorData, bytes enableSig, bytes userOpSig"
+            ),
+            slice(signature, 20)
+        )
+    return {
+        entryPointVersion: "v0.7",
+        mode,
+        validatorType,
+        identifier,
+        customNonceKey,
+        enable: {
+            hook: getAddress(slice(signature, 0, 20)),
+            validatorData,
+            hookData,
+            selector: slice(selectorData, 0, 4),
+            executor: getAddress(slice(selectorData, 4, 24)),
+            executorHook: getAddress(slice(selectorData, 24, 44)),
+            enableSignature
+        }
+    }
+}
+
+/**
+ * Describe what a Kernel UserOperation will do: the validation mode it uses
+ * (including the plugin enable data, if any) and the decoded executions with
+ * their token intents.
+ * @param userOperation
+ * @param entryPoint
+ * @param abis
+ * @param defaultAbi
+ */
+export const describeUserOperation = <entryPoint extends EntryPoint>({
+    userOperation,
+    entryPoint: entryPointAddress,
+    abis = {},
+    defaultAbi
+}: DescribeUserOperationParameters<entryPoint>): DescribeUserOperationReturnType => {
+    const entryPointVersion = getEntryPointVersion(entryPointAddress)
+    const { sender, nonce, callData, signature } = userOperation
+
+    let decoded: DecodedKernelCallData
+    try {
+        decoded = decodeKernelCallData(callData, entryPointVersion)
+    } catch {
+        // `encodeCallData` passes calls to the account itself through unchanged
+        decoded = {
+            entryPointVersion,
+            callType: CALL_TYPE.SINGLE,
+            execType: EXEC_TYPE.DEFAULT,
+            includeHooks: false,
+            executions: [
+                { target: sender, value: 0n, callData, callType: "call" }
+            ]
+        }
+    }
+
+    const getAbi = (target: Address) =>
+        Object.entries(abis).find(
+            ([address]) => address.toLowerCase() === target.toLowerCase()
+        )?.[1] ?? defaultAbi
+
+    return {
+        ...decoded,
+        sender,
+        nonce,
+        validation:
+            entryPointVersion === "v0.6"
+                ? describeValidationV06(callData, signature)
+                : describeValidationV07(nonce, signature),
+        executions: decoded.executions.map((execution) =>
+            describeExecution(sender, execution, getAbi(execution.target))
+        )
+    }
+}
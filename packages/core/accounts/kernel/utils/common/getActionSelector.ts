@@ -1,5 +1,6 @@
 import type { EntryPointVersion } from "permissionless/types/entrypoint"
 import { type Hex, getAbiItem, toFunctionSelector } from "viem"
+import { UnsupportedKernelVersionError } from "../../../../errors/index.js"
 import { KernelAccountAbi } from "../../abi/KernelAccountAbi.js"
 import { KernelV3AccountAbi } from "../../abi/kernel_v_3_0_0/KernelAccountAbi.js"
 
@@ -15,6 +16,9 @@ export const getActionSelector = (
             getAbiItem({ abi: KernelV3AccountAbi, name: "execute" })
         )
     } else {
-        throw new Error("Unsupported entry point version")
+        throw new UnsupportedKernelVersionError(
+            "Unsupported entry point version",
+            { code: "UNSUPPORTED_ENTRYPOINT_VERSION" }
+        )
     }
 }
@@ -29,6 +29,7 @@ import {
 } from "viem"
 import { toAccount } from "viem/accounts"
 import { getChainId, signMessage, signTypedData } from "viem/actions"
+import { UnsupportedKernelVersionError } from "../../../errors/index.js"
 import type { KernelEncodeCallDataArgs } from "../../../types/kernel.js"
 import { wrapSignatureWith6492 } from "../../utils/6492.js"
 import { parseFactoryAddressAndCallDataFromAccountInitCode } from "../../utils/index.js"
@@ -67,7 +68,7 @@ const createAccountAbi = [
     }
 ]
 
-const executeAndRevertAbi = [
+export const executeAndRevertAbi = [
     {
         inputs: [
             { internalType: "address", name: "to", type: "address" },
@@ -114,7 +115,10 @@ export async function createKernelAccountV1<
         entryPointVersion !== "v0.6" ||
         entryPointAddress !== ENTRYPOINT_ADDRESS_V06
     ) {
-        throw new Error("Only EntryPoint 0.6 is supported")
+        throw new UnsupportedKernelVersionError(
+            "Only EntryPoint 0.6 is supported",
+            { code: "UNSUPPORTED_ENTRYPOINT_VERSION" }
+        )
     }
 
     const viemSigner: LocalAccount = {
@@ -28,6 +28,7 @@ import {
     validateTypedData
 } from "viem"
 import { toAccount } from "viem/accounts"
+import { UnsupportedKernelVersionError } from "../../../errors/index.js"
 import type {
     GetKernelVersion,
     KernelEncodeCallDataArgs,
@@ -164,7 +165,10 @@ export async function createKernelAccountV0_2<
     const entryPointVersion = getEntryPointVersion(entryPointAddress)
 
     if (entryPointVersion !== "v0.6") {
-        throw new Error("Only EntryPoint 0.6 is supported")
+        throw new UnsupportedKernelVersionError(
+            "Only EntryPoint 0.6 is supported",
+            { code: "UNSUPPORTED_ENTRYPOINT_VERSION" }
+        )
     }
     const kernelPluginManager = isKernelPluginManager<entryPoint>(plugins)
         ? plugins
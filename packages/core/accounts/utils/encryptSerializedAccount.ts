@@ -0,0 +1,294 @@
+import { type Hex, hexToBytes, toHex } from "viem"
+import { KernelError } from "../../errors/index.js"
+
+export type SerializedAccountEncryption =
+    | {
+          /**
+           * The password the AES-GCM key is derived from, with PBKDF2
+           */
+          password: string
+          /**
+           * The PBKDF2 iterations. Defaults to 600000, at most 10000000
+           */
+          iterations?: number
+      }
+    | {
+          /**
+           * The P-256 ECDH public key of the recipient, as a CryptoKey or its
+           * raw uncompressed encoding. Only the matching private key decrypts
+           * the account
+           */
+          recipientPublicKey: Hex | CryptoKey
+      }
+
+export type SerializedAccountDecryption =
+    | { password: string }
+    | {
+          /**
+           * The P-256 ECDH private key of the recipient
+           */
+          privateKey: CryptoKey
+      }
+
+type EnvelopeHeader = {
+    type: typeof ENVELOPE_TYPE
+    version: number
+    kdf:
+        | { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: Hex }
+        | { name: "ECDH"; namedCurve: "P-256"; ephemeralPublicKey: Hex }
+    cipher: { name: "AES-GCM"; iv: Hex }
+}
+
+type Envelope = EnvelopeHeader & { ciphertext: Hex }
+
+const ENVELOPE_TYPE = "kernel-encrypted-account"
+const ENVELOPE_VERSION = 1
+const DEFAULT_ITERATIONS = 600_000
+// The iterations are read from the envelope, an unbounded count would let a
+// crafted envelope hang the decryption
+const MAX_ITERATIONS = 10_000_000
+
+const encoder = new TextEncoder()
+
+// The header is authenticated with the ciphertext, tampering with any of
+// them makes the decryption fail
+const getAdditionalData = ({ type, version, kdf, cipher }: EnvelopeHeader) =>
+    encoder.encode(JSON.stringify({ type, version, kdf, cipher }))
+
+const deriveKeyFromPassword = async (
+    password: string,
+    salt: Hex,
+    iterations: number,
+    usage: KeyUsage
+) => {
+    if (
+        !Number.isSafeInteger(iterations) ||
+        iterations <= 0 ||
+        iterations > MAX_ITERATIONS
+    ) {
+        throw new KernelError(`Invalid PBKDF2 iterations ${iterations}`, {
+            code: "INVALID_SERIALIZED_ACCOUNT"
+        })
+    }
+    const baseKey = await crypto.subtle.importKey(
+        "raw",
+        encoder.encode(password),
+        "PBKDF2",
+        false,
+        ["deriveKey"]
+    )
+    return crypto.subtle.deriveKey(
+        { name: "PBKDF2", hash: "SHA-256", salt: hexToBytes(salt), iterations },
+        baseKey,
+        { name: "AES-GCM", length: 256 },
+        false,
+        [usage]
+    )
+}
+
+const deriveKeyFromSharedSecret = async (
+    privateKey: CryptoKey,
+    publicKey: CryptoKey,
+    ephemeralPublicKey: Hex,
+    usage: KeyUsage
+) => {
+    const sharedSecret = await crypto.subtle.deriveBits(
+        { name: "ECDH", public: publicKey },
+        privateKey,
+        256
+    )
+    const baseKey = await crypto.subtle.importKey(
+        "raw",
+        sharedSecret,
+        "HKDF",
+        false,
+        ["deriveKey"]
+    )
+    return crypto.subtle.deriveKey(
+        {
+            name: "HKDF",
+            hash: "SHA-256",
+            salt: hexToBytes(ephemeralPublicKey),
+            info: encoder.encode(ENVELOPE_TYPE)
+        },
+        baseKey,
+        { name: "AES-GCM", length: 256 },
+        false,
+        [usage]
+    )
+}
+
+const importPublicKey = (publicKey: Hex) =>
+    crypto.subtle.importKey(
+        "raw",
+        hexToBytes(publicKey),
+        { name: "ECDH", namedCurve: "P-256" },
+        true,
+        []
+    )
+
+const parseEnvelope = (serializedAccount: string): Envelope | undefined => {
+    try {
+        const envelope = JSON.parse(atob(serializedAccount))
+        return envelope?.type === ENVELOPE_TYPE ? envelope : undefined
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * Whether a serialized account is wrapped in an encrypted envelope
+ * @param serializedAccount
+ */
+export const isEncryptedSerializedAccount = (serializedAccount: string) =>
+    parseEnvelope(serializedAccount) !== undefined
+
+/**
+ * Encrypts a serialized account, e.g. the output of `serializePermissionAccount`,
+ * with AES-GCM. The key is derived from a password, or agreed with the public
+ * key of the recipient. The envelope is versioned and its header is
+ * authenticated with the encrypted account
+ * @param serializedAccount
+ * @param encryption - {@link SerializedAccountEncryption}
+ * @returns The base64 encoded envelope
+ */
+export const encryptSerializedAccount = async (
+    serializedAccount: string,
+    encryption: SerializedAccountEncryption
+): Promise<string> => {
+    const iv = toHex(crypto.getRandomValues(new Uint8Array(12)))
+
+    let kdf: EnvelopeHeader["kdf"]
+    let key: CryptoKey
+    if ("password" in encryption) {
+        const { password, iterations = DEFAULT_ITERATIONS } = encryption
+        const salt = toHex(crypto.getRandomValues(new Uint8Array(16)))
+        kdf = { name: "PBKDF2", hash: "SHA-256", iterations, salt }
+        key = await deriveKeyFromPassword(password, salt, iterations, "encrypt")
+    } else {
+        const recipientPublicKey =
+            typeof encryption.recipientPublicKey === "string"
+                ? await importPublicKey(encryption.recipientPublicKey)
+                : encryption.recipientPublicKey
+        const ephemeralKeyPair = await crypto.subtle.generateKey(
+            { name: "ECDH", namedCurve: "P-256" },
+            true,
+            ["deriveBits"]
+        )
+        const ephemeralPublicKey = toHex(
+            new Uint8Array(
+                await crypto.subtle.exportKey("raw", ephemeralKeyPair.publicKey)
+            )
+        )
+        kdf = { name: "ECDH", namedCurve: "P-256", ephemeralPublicKey }
+        key = await deriveKeyFromSharedSecret(
+            ephemeralKeyPair.privateKey,
+            recipientPublicKey,
+            ephemeralPublicKey,
+            "encrypt"
+        )
+    }
+
+    const header: EnvelopeHeader = {
+        type: ENVELOPE_TYPE,
+        version: ENVELOPE_VERSION,
+        kdf,
+        cipher: { name: "AES-GCM", iv }
+    }
+    const ciphertext = await crypto.subtle.encrypt(
+        {
+            name: "AES-GCM",
+            iv: hexToBytes(iv),
+            additionalData: getAdditionalData(header)
+        },
+        key,
+        encoder.encode(serializedAccount)
+    )
+    return btoa(
+        JSON.stringify({
+            ...header,
+            ciphertext: toHex(new Uint8Array(ciphertext))
+        })
+    )
+}
+
+/**
+ * Decrypts a serialized account encrypted with {@link encryptSerializedAccount}.
+ * A plaintext serialized account is returned as is when no `decryption` is
+ * given, and rejected otherwise
+ * @param serializedAccount
+ * @param decryption - {@link SerializedAccountDecryption}
+ * @returns The serialized account
+ */
+export const decryptSerializedAccount = async (
+    serializedAccount: string,
+    decryption?: SerializedAccountDecryption
+): Promise<string> => {
+    const envelope = parseEnvelope(serializedAccount)
+    if (!envelope) {
+        // The caller expects an encrypted account, a plaintext one may have
+        // been swapped in
+        if (decryption) {
+            throw new KernelError("The serialized account is not encrypted", {
+                code: "INVALID_SERIALIZED_ACCOUNT"
+            })
+        }
+        return serializedAccount
+    }
+
+    if (envelope.version !== ENVELOPE_VERSION) {
+        throw new KernelError(
+            `Unsupported encrypted account version ${envelope.version}`,
+            { code: "INVALID_SERIALIZED_ACCOUNT" }
+        )
+    }
+    const { kdf } = envelope
+    let key: CryptoKey
+    if (kdf.name === "PBKDF2" && decryption && "password" in decryption) {
+        key = await deriveKeyFromPassword(
+            decryption.password,
+            kdf.salt,
+            kdf.iterations,
+            "decrypt"
+        )
+    } else if (
+        kdf.name === "ECDH" &&
+        decryption &&
+        "privateKey" in decryption
+    ) {
+        key = await deriveKeyFromSharedSecret(
+            decryption.privateKey,
+            await importPublicKey(kdf.ephemeralPublicKey),
+            kdf.ephemeralPublicKey,
+            "decrypt"
+        )
+    } else {
+        throw new KernelError(
+            kdf.name === "PBKDF2"
+                ? "The serialized account is encrypted with a password"
+                : "The serialized account is encrypted for a recipient private key",
+            { code: "INVALID_SERIALIZED_ACCOUNT" }
+        )
+    }
+
+    try {
+        const plaintext = await crypto.subtle.decrypt(
+            {
+                name: "AES-GCM",
+                iv: hexToBytes(envelope.cipher.iv),
+                additionalData: getAdditionalData(envelope)
+            },
+            key,
+            hexToBytes(envelope.ciphertext)
+        )
+        return new TextDecoder().decode(plaintext)
+    } catch (error) {
+        throw new KernelError(
+            "Cannot decrypt the serialized account, the key is wrong or the envelope was tampered with",
+            {
+                code: "INVALID_SERIALIZED_ACCOUNT",
+                cause: error instanceof Error ? error : undefined
+            }
+        )
+    }
+}
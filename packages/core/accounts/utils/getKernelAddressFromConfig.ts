@@ -0,0 +1,251 @@
+import {
+    ENTRYPOINT_ADDRESS_V06,
+    ENTRYPOINT_ADDRESS_V07,
+    getEntryPointVersion
+} from "permissionless"
+import type { EntryPoint } from "permissionless/types"
+import { satisfies } from "semver"
+import {
+    type Address,
+    type Hex,
+    concatHex,
+    encodeFunctionData,
+    getContractAddress,
+    hexToBigInt,
+    isAddressEqual,
+    keccak256,
+    maxUint96,
+    pad,
+    toHex,
+    zeroAddress
+} from "viem"
+import {
+    KernelFactoryToInitCodeHashMap,
+    KernelVersionToAddressesMap,
+    VALIDATOR_TYPE
+} from "../../constants.js"
+import {
+    KernelValidationError,
+    UnsupportedKernelVersionError
+} from "../../errors/index.js"
+import type {
+    GetKernelVersion,
+    KERNEL_VERSION_TYPE
+} from "../../types/kernel.js"
+import { validateKernelVersionWithEntryPoint } from "../../utils.js"
+import { KernelInitAbi } from "../kernel/abi/KernelAccountAbi.js"
+import { KernelV3InitAbi } from "../kernel/abi/kernel_v_3_0_0/KernelAccountAbi.js"
+import { KernelV3_1AccountAbi } from "../kernel/abi/kernel_v_3_1/KernelAccountAbi.js"
+
+export type GetKernelAddressFromConfigParameters<
+    entryPoint extends EntryPoint
+> = {
+    entryPoint: entryPoint
+    kernelVersion: GetKernelVersion<entryPoint>
+    /**
+     * The root validator of the account, the default validator of a Kernel v2 account
+     */
+    validatorAddress?: Address
+    /**
+     * The validation id of the Kernel v3 root validator, the validator type
+     * followed by the validator address or the permission id. Defaults to
+     * `validatorAddress` installed as a secondary validator
+     */
+    validationId?: Hex
+    /**
+     * The data the root validator is enabled with, e.g. the owner address of the ECDSA validator
+     */
+    enableData: Hex
+    index?: bigint
+    hookAddress?: Address
+    hookData?: Hex
+    initConfig?: Hex[]
+    /**
+     * Defaults to the factory of the Kernel version
+     */
+    factoryAddress?: Address
+    /**
+     * The hash of the proxy init code deployed by the factory. Defaults to the
+     * known hash of the factory or of the Kernel version
+     */
+    initCodeHash?: Hex
+}
+
+export type FindKernelAddressConfigParameters = Omit<
+    GetKernelAddressFromConfigParameters<EntryPoint>,
+    "entryPoint" | "kernelVersion" | "index" | "factoryAddress" | "initCodeHash"
+> & {
+    address: Address
+    /**
+     * The searched Kernel versions, in order. Defaults to all the versions
+     * from the newest. Kernel v2 versions share the same factory, so the
+     * address of a Kernel v2 account doesn't tell its version
+     */
+    kernelVersions?: KERNEL_VERSION_TYPE[]
+    /**
+     * The searched indexes, inclusive. Default to 0 and 100
+     */
+    fromIndex?: bigint
+    toIndex?: bigint
+}
+
+export type FindKernelAddressConfigReturnType = {
+    entryPoint: EntryPoint
+    kernelVersion: KERNEL_VERSION_TYPE
+    index: bigint
+    factoryAddress: Address
+}
+
+const getInitCodeHash = (
+    kernelVersion: KERNEL_VERSION_TYPE,
+    factoryAddress: Address
+): Hex | undefined => {
+    const factory = (
+        Object.keys(KernelFactoryToInitCodeHashMap) as Address[]
+    ).find((address) => isAddressEqual(address, factoryAddress))
+    if (factory) return KernelFactoryToInitCodeHashMap[factory]
+    const { factoryAddress: versionFactory, initCodeHash } =
+        KernelVersionToAddressesMap[kernelVersion]
+    return isAddressEqual(versionFactory, factoryAddress)
+        ? initCodeHash
+        : undefined
+}
+
+/**
+ * Computes the counterfactual address of a Kernel account without RPC
+ * access, from the CREATE2 salt the factory derives from the initialization
+ * data and the index of the account
+ * @param parameters - {@link GetKernelAddressFromConfigParameters}
+ */
+export const getKernelAddressFromConfig = <entryPoint extends EntryPoint>({
+    entryPoint: entryPointAddress,
+    kernelVersion,
+    validatorAddress,
+    validationId,
+    enableData,
+    index = 0n,
+    hookAddress = zeroAddress,
+    hookData = "0x",
+    initConfig = [],
+    factoryAddress = KernelVersionToAddressesMap[kernelVersion].factoryAddress,
+    initCodeHash = getInitCodeHash(kernelVersion, factoryAddress)
+}: GetKernelAddressFromConfigParameters<entryPoint>): Address => {
+    validateKernelVersionWithEntryPoint(entryPointAddress, kernelVersion)
+    if (kernelVersion === "0.0.2" || !initCodeHash) {
+        throw new UnsupportedKernelVersionError(
+            `The address of a Kernel ${kernelVersion} account deployed by ${factoryAddress} cannot be computed offline`
+        )
+    }
+
+    if (getEntryPointVersion(entryPointAddress) === "v0.6") {
+        if (!validatorAddress) {
+            throw new KernelValidationError(
+                "The default validator of a Kernel v2 account is required",
+                { code: "VALIDATOR_NOT_SET" }
+            )
+        }
+        const initData = encodeFunctionData({
+            abi: KernelInitAbi,
+            functionName: "initialize",
+            args: [validatorAddress, enableData]
+        })
+        // The Kernel v2 factory only keeps the low 96 bits of the salt, the
+        // high bits are reserved to the deployer address
+        const salt = toHex(
+            hexToBigInt(
+                keccak256(concatHex([initData, toHex(index, { size: 32 })]))
+            ) & maxUint96,
+            { size: 32 }
+        )
+        return getContractAddress({
+            opcode: "CREATE2",
+            from: factoryAddress,
+            salt,
+            bytecodeHash: initCodeHash
+        })
+    }
+
+    if (!validationId && !validatorAddress) {
+        throw new KernelValidationError(
+            "The root validator of a Kernel v3 account is required",
+            { code: "VALIDATOR_NOT_SET" }
+        )
+    }
+    const rootValidationId = pad(
+        validationId ??
+            concatHex([VALIDATOR_TYPE.SECONDARY, validatorAddress as Address]),
+        { size: 21, dir: "right" }
+    )
+    const initData =
+        kernelVersion === "0.3.0"
+            ? encodeFunctionData({
+                  abi: KernelV3InitAbi,
+                  functionName: "initialize",
+                  args: [rootValidationId, hookAddress, enableData, hookData]
+              })
+            : encodeFunctionData({
+                  abi: KernelV3_1AccountAbi,
+                  functionName: "initialize",
+                  args: [
+                      rootValidationId,
+                      hookAddress,
+                      enableData,
+                      hookData,
+                      initConfig
+                  ]
+              })
+    return getContractAddress({
+        opcode: "CREATE2",
+        from: factoryAddress,
+        salt: keccak256(concatHex([initData, toHex(index, { size: 32 })])),
+        bytecodeHash: initCodeHash
+    })
+}
+
+/**
+ * Searches the Kernel version and the index an account address was derived
+ * with, given the configuration of its root validator. Use it to recover an
+ * account without RPC access
+ * @param parameters - {@link FindKernelAddressConfigParameters}
+ * @returns The matching configuration, or undefined if none of the searched ones matches
+ */
+export const findKernelAddressConfig = ({
+    address,
+    kernelVersions = ["0.3.1", "0.3.0", "0.2.4", "0.2.3", "0.2.2"],
+    fromIndex = 0n,
+    toIndex = 100n,
+    ...config
+}: FindKernelAddressConfigParameters):
+    | FindKernelAddressConfigReturnType
+    | undefined => {
+    const candidates = kernelVersions
+        .map((kernelVersion) => ({
+            kernelVersion,
+            entryPoint: satisfies(kernelVersion, ">=0.3.0")
+                ? ENTRYPOINT_ADDRESS_V07
+                : ENTRYPOINT_ADDRESS_V06,
+            factoryAddress:
+                KernelVersionToAddressesMap[kernelVersion].factoryAddress
+        }))
+        .filter(
+            ({ kernelVersion, entryPoint, factoryAddress }) =>
+                getInitCodeHash(kernelVersion, factoryAddress) !== undefined &&
+                // Kernel v2 accounts are derived from the validator address only
+                (entryPoint === ENTRYPOINT_ADDRESS_V07 ||
+                    config.validatorAddress !== undefined)
+        )
+
+    for (let index = fromIndex; index <= toIndex; index++) {
+        for (const candidate of candidates) {
+            const candidateAddress = getKernelAddressFromConfig({
+                ...config,
+                ...candidate,
+                index
+            } as GetKernelAddressFromConfigParameters<EntryPoint>)
+            if (isAddressEqual(candidateAddress, address)) {
+                return { ...candidate, index }
+            }
+        }
+    }
+    return undefined
+}
@@ -12,3 +12,46 @@ export const parseFactoryAddressAndCallDataFromAccountInitCode = (
 }
 
 export { getCustomNonceKeyFromString } from "./getCustomNonceKeyFromString.js"
+export {
+    createNonceLaneManager,
+    getNonceLaneManager,
+    type CreateNonceLaneManagerParameters,
+    type NonceLaneManager
+} from "./nonceLaneManager.js"
+export {
+    getKernelAddressFromConfig,
+    findKernelAddressConfig,
+    type GetKernelAddressFromConfigParameters,
+    type FindKernelAddressConfigParameters,
+    type FindKernelAddressConfigReturnType
+} from "./getKernelAddressFromConfig.js"
+export {
+    encryptSerializedAccount,
+    decryptSerializedAccount,
+    isEncryptedSerializedAccount,
+    type SerializedAccountEncryption,
+    type SerializedAccountDecryption
+} from "./encryptSerializedAccount.js"
+export {
+    serializeKernelAccount,
+    parseSerializedKernelAccount,
+    deserializeKernelAccount,
+    toKernelAccountExport,
+    assertKernelAccountExport,
+    KERNEL_ACCOUNT_EXPORT_VERSION,
+    KERNEL_ACCOUNT_VALIDATOR_TYPES,
+    type KernelAccountExport,
+    type KernelAccountValidatorType,
+    type KernelAccountDeserializer,
+    type DeserializeKernelAccountParameters
+} from "./serializeKernelAccount.js"
+export {
+    toCallCapability,
+    toPermissionCapabilities,
+    type PermissionCapabilities,
+    type CallCapability,
+    type ParamConstraintCapability,
+    type ParamConstraintCondition,
+    type RateLimitCapability,
+    type ToCallCapabilityParameters
+} from "./permissionCapabilities.js"
@@ -1,4 +1,11 @@
-import { type Address, type Hex, encodePacked, toBytes } from "viem"
+import {
+    type Address,
+    type Hex,
+    encodePacked,
+    getAddress,
+    hexToBigInt,
+    toBytes
+} from "viem"
 import type { CallType, KernelEncodeCallDataArgs } from "../../types/index.js"
 
 export const MULTISEND_ADDRESS = "0x8ae01fcf7c655655ff2c6ef907b8b4718ab4e17c"
@@ -38,3 +45,46 @@ export const encodeMultiSend = (calls: KernelEncodeCallDataArgs): Hex => {
 
     return `0x${calls.map((call) => encodeCall(call)).join("")}`
 }
+
+export const decodeMultiSend = (
+    transactions: Hex
+): {
+    to: Address
+    value: bigint
+    data: Hex
+    callType: CallType
+}[] => {
+    const calls: {
+        to: Address
+        value: bigint
+        data: Hex
+        callType: CallType
+    }[] = []
+    const encoded = transactions.slice(2)
+    let offset = 0
+    // Each call is packed as operation (1 byte), to (20 bytes), value (32 bytes), data length (32 bytes), data
+    while (offset < encoded.length) {
+        const operation = Number.parseInt(encoded.slice(offset, offset + 2), 16)
+        const to = getAddress(`0x${encoded.slice(offset + 2, offset + 42)}`)
+        const value = hexToBigInt(
+            `0x${encoded.slice(offset + 42, offset + 106)}`
+        )
+        const dataLength = Number(
+            hexToBigInt(`0x${encoded.slice(offset + 106, offset + 170)}`)
+        )
+        const dataEnd = offset + 170 + dataLength * 2
+        if (dataEnd > encoded.length) {
+            throw new Error(
+                "Invalid multiSend transactions, data out of bounds"
+            )
+        }
+        calls.push({
+            to,
+            value,
+            data: `0x${encoded.slice(offset + 170, dataEnd)}`,
+            callType: operation === 1 ? "delegatecall" : "call"
+        })
+        offset = dataEnd
+    }
+    return calls
+}
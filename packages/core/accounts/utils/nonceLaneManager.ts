@@ -0,0 +1,211 @@
+import { getEntryPointVersion } from "permissionless"
+import type { EntryPoint } from "permissionless/types"
+import { maxUint16, maxUint192 } from "viem"
+import { VALIDATOR_MODE } from "../../constants.js"
+import { NonceConflictError } from "../../errors/index.js"
+import type { KernelSmartAccount } from "../kernel/createKernelAccount.js"
+import { getCustomNonceKeyFromString } from "./getCustomNonceKeyFromString.js"
+
+export type NonceLaneManager = {
+    /**
+     * The custom nonce key allocated to the lane
+     */
+    getLaneKey: (lane: string) => bigint
+    /**
+     * Reserves the next nonce of the lane. Nonces are handed out locally, so
+     * several UserOperations of the same lane can be prepared concurrently
+     */
+    reserveNonce: (lane: string) => Promise<bigint>
+    /**
+     * Hands back a reserved nonce whose UserOperation was not sent, it is
+     * reserved again before the lane moves on
+     */
+    releaseNonce: (lane: string, nonce: bigint) => void
+    /**
+     * Forgets the nonces in flight on the lane, the next nonce is read on
+     * chain. Use it once a UserOperation of the lane was dropped
+     */
+    resetLane: (lane: string) => void
+    /**
+     * Reads the nonce of the lane on chain and stops tracking the nonces
+     * that are used
+     */
+    syncLane: (lane: string) => Promise<void>
+    /**
+     * The reserved nonces of the lane that are not known to be used on chain
+     */
+    getInFlightNonces: (lane: string) => bigint[]
+}
+
+export type CreateNonceLaneManagerParameters<entryPoint extends EntryPoint> = {
+    account: KernelSmartAccount<entryPoint>
+    /**
+     * Custom nonce keys of the lanes, the key of the other lanes is derived
+     * from their name with `getCustomNonceKeyFromString`
+     */
+    lanes?: Record<string, bigint>
+}
+
+type LaneState = {
+    key: bigint
+    next?: bigint
+    inFlight: Set<bigint>
+    released: bigint[]
+    queue: Promise<unknown>
+}
+
+// The sequence is the low 64 bits of the nonce, the key the high 192 bits
+const getNonceSequence = (nonce: bigint) => nonce & ((1n << 64n) - 1n)
+
+// See `toKernelPluginManager.getNonceKey`, the validator mode is the first byte of the v0.7 nonce key
+const isEnableModeNonce = (nonce: bigint) =>
+    nonce >> 248n === BigInt(VALIDATOR_MODE.ENABLE)
+
+/**
+ * Allocates an independent 2D nonce key (a lane) per logical stream of
+ * UserOperations, and tracks the nonces in flight on each lane locally.
+ * The nonce keys are built by the account's `kernelPluginManager`, so they
+ * keep the validator prefixed layout of the v0.7 nonce keys.
+ * @param account
+ * @param lanes
+ */
+export const createNonceLaneManager = <entryPoint extends EntryPoint>({
+    account,
+    lanes: fixedKeys = {}
+}: CreateNonceLaneManagerParameters<entryPoint>): NonceLaneManager => {
+    const entryPointVersion = getEntryPointVersion(account.entryPoint)
+    const maxKey = entryPointVersion === "v0.6" ? maxUint192 : maxUint16
+    const lanes = new Map<string, LaneState>()
+
+    const getLane = (lane: string): LaneState => {
+        const existing = lanes.get(lane)
+        if (existing) return existing
+
+        const usedKeys = new Set([...lanes.values()].map(({ key }) => key))
+        let key = fixedKeys[lane]
+        if (key === undefined) {
+            key = getCustomNonceKeyFromString(lane, account.entryPoint)
+            // The key 0 is the one of the UserOperations sent without a lane
+            while (
+                key === 0n ||
+                usedKeys.has(key) ||
+                Object.values(fixedKeys).includes(key)
+            ) {
+                key = key === maxKey ? 0n : key + 1n
+            }
+        } else if (key > maxKey) {
+            throw new Error(
+                `Nonce key of lane ${lane} must be equal or less than ${maxKey}`
+            )
+        } else if (usedKeys.has(key)) {
+            throw new Error(`Nonce key ${key} is already used by another lane`)
+        }
+
+        const state: LaneState = {
+            key,
+            inFlight: new Set(),
+            released: [],
+            queue: Promise.resolve()
+        }
+        lanes.set(lane, state)
+        return state
+    }
+
+    const reserve = async (lane: string, state: LaneState) => {
+        if (state.released.length > 0) {
+            state.released.sort((a, b) => (a < b ? -1 : 1))
+            const nonce = state.released.shift() as bigint
+            state.inFlight.add(nonce)
+            return nonce
+        }
+
+        let nonce = state.next
+        if (nonce === undefined) {
+            nonce = await account.getNonce(state.key)
+            for (const inFlight of state.inFlight) {
+                if (inFlight < nonce) state.inFlight.delete(inFlight)
+            }
+        }
+
+        // The key of a validator that is not enabled yet changes once it is,
+        // so the next nonce can only be known after the enabling UserOperation is included
+        if (entryPointVersion === "v0.7" && isEnableModeNonce(nonce)) {
+            if (state.inFlight.has(nonce)) {
+                throw new NonceConflictError(
+                    `The validator of lane ${lane} is being enabled, wait for nonce ${getNonceSequence(
+                        nonce
+                    )} to be included`
+                )
+            }
+            state.next = undefined
+        } else {
+            state.next = nonce + 1n
+        }
+        state.inFlight.add(nonce)
+        return nonce
+    }
+
+    return {
+        getLaneKey: (lane) => getLane(lane).key,
+        reserveNonce: (lane) => {
+            const state = getLane(lane)
+            // Reservations of a lane run one after the other, so concurrent
+            // callers never read the same nonce
+            const nonce = state.queue.then(() => reserve(lane, state))
+            state.queue = nonce.catch(() => undefined)
+            return nonce
+        },
+        releaseNonce: (lane, nonce) => {
+            const state = getLane(lane)
+            if (!state.inFlight.delete(nonce)) return
+            if (state.next === nonce + 1n) {
+                state.next = nonce
+            } else {
+                state.released.push(nonce)
+            }
+        },
+        resetLane: (lane) => {
+            const state = getLane(lane)
+            state.next = undefined
+            state.inFlight.clear()
+            state.released = []
+        },
+        syncLane: async (lane) => {
+            const state = getLane(lane)
+            const sync = state.queue.then(async () => {
+                const nonce = await account.getNonce(state.key)
+                for (const inFlight of state.inFlight) {
+                    if (inFlight < nonce) state.inFlight.delete(inFlight)
+                }
+                state.released = state.released.filter(
+                    (released) => released >= nonce
+                )
+                // The lane may be used by UserOperations sent without the manager
+                if (state.next !== undefined && state.next < nonce) {
+                    state.next = nonce
+                }
+            })
+            state.queue = sync.catch(() => undefined)
+            return sync
+        },
+        getInFlightNonces: (lane) =>
+            [...getLane(lane).inFlight].sort((a, b) => (a < b ? -1 : 1))
+    }
+}
+
+const managers = new WeakMap<object, NonceLaneManager>()
+
+/**
+ * The nonce lane manager of the account, shared by all the clients of the account
+ * @param account
+ */
+export const getNonceLaneManager = <entryPoint extends EntryPoint>(
+    account: KernelSmartAccount<entryPoint>
+): NonceLaneManager => {
+    let manager = managers.get(account)
+    if (!manager) {
+        manager = createNonceLaneManager({ account })
+        managers.set(account, manager)
+    }
+    return manager
+}
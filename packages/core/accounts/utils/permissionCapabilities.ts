@@ -0,0 +1,363 @@
+import {
+    type Abi,
+    type AbiFunction,
+    type AbiParameter,
+    type Address,
+    type Hex,
+    decodeAbiParameters,
+    isAddressEqual,
+    pad,
+    toFunctionSelector,
+    toFunctionSignature,
+    zeroAddress
+} from "viem"
+
+export type ParamConstraintCondition =
+    | "equal"
+    | "greaterThan"
+    | "lessThan"
+    | "greaterThanOrEqual"
+    | "lessThanOrEqual"
+    | "notEqual"
+    | "oneOf"
+
+export type ParamConstraintCapability = {
+    /**
+     * The offset of the 32 bytes word in the arguments of the call
+     */
+    offset: number
+    /**
+     * The parameter encoded in the word, e.g. `params.recipient`, when the
+     * ABI of the function resolves it
+     */
+    parameter?: string
+    condition: ParamConstraintCondition
+    values: Hex[]
+    /**
+     * The values decoded with the type of the parameter
+     */
+    decodedValues?: unknown[]
+    description: string
+}
+
+export type RateLimitCapability = {
+    /**
+     * The UserOperations the permission can send in total
+     */
+    count: number
+    /**
+     * The seconds each UserOperation moves the start of the next one by.
+     * 0 doesn't space them
+     */
+    interval: number
+    startAt: number
+}
+
+export type CallCapability = {
+    /**
+     * The zero address allows any target
+     */
+    target: Address
+    /**
+     * The zero selector allows the calls without function, e.g. native
+     * transfers
+     */
+    selector: Hex
+    functionName?: string
+    functionSignature?: string
+    callType: "call" | "delegatecall"
+    valueLimit: bigint
+    constraints: ParamConstraintCapability[]
+    rateLimit?: RateLimitCapability
+    description: string
+}
+
+export type PermissionCapabilities = {
+    /**
+     * Whether any call is allowed
+     */
+    sudo: boolean
+    calls: CallCapability[]
+    validAfter?: number
+    validUntil?: number
+    rateLimits: RateLimitCapability[]
+    gas?: {
+        allowance?: bigint
+        paymaster?: Address
+        enforcePaymaster: boolean
+    }
+    spendingLimits: { token: Address; allowance: bigint; interval: number }[]
+    /**
+     * The contracts allowed to verify the signatures of the key
+     */
+    signatureCallers?: Address[]
+    /**
+     * One human-readable sentence per capability
+     */
+    summary: string[]
+}
+
+export type ToCallCapabilityParameters = {
+    target: Address
+    selector?: Hex
+    callType?: "call" | "delegatecall"
+    valueLimit?: bigint
+    rules?: {
+        offset: number
+        condition: ParamConstraintCondition
+        values: Hex[]
+    }[]
+    rateLimit?: RateLimitCapability
+    /**
+     * The ABI the permission was created from
+     */
+    abi?: Abi
+    /**
+     * ABIs of the targets keyed by address, used to resolve the functions
+     */
+    abis?: Record<Address, Abi>
+    /**
+     * ABI used for the targets that are not present in `abis`
+     */
+    defaultAbi?: Abi
+}
+
+const conditionLabels: Record<ParamConstraintCondition, string> = {
+    equal: "equal to",
+    greaterThan: "greater than",
+    lessThan: "less than",
+    greaterThanOrEqual: "greater than or equal to",
+    lessThanOrEqual: "less than or equal to",
+    notEqual: "not equal to",
+    oneOf: "one of"
+}
+
+const formatValue = (value: unknown) =>
+    typeof value === "bigint" ? value.toString() : String(value)
+
+type WordParameter = { name: string; param: AbiParameter }
+
+// The parameters encoded in a static word of the arguments, by offset. The
+// static tuples and arrays are encoded in place, the dynamic parameters only
+// have their offset in the head
+const getWordParameters = (
+    params: WordParameter[],
+    offset = 0
+): Map<number, WordParameter> => {
+    const words = new Map<number, WordParameter>()
+    let head = offset
+    for (const { name, param } of params) {
+        const size = getStaticSize(param)
+        if (size === undefined) {
+            head += 32
+            continue
+        }
+        const array = param.type.match(/^(.*)\[(\d+)\]$/)
+        const components = (param as { components?: readonly AbiParameter[] })
+            .components
+        const inner = array
+            ? Array.from({ length: Number(array[2]) }, (_, i) => ({
+                  name: `${name}[${i}]`,
+                  param: { ...param, type: array[1] } as AbiParameter
+              }))
+            : param.type === "tuple" && components
+              ? components.map((component, i) => ({
+                    name: `${name}.${component.name || i}`,
+                    param: component
+                }))
+              : undefined
+        if (inner) {
+            for (const [wordOffset, word] of getWordParameters(inner, head)) {
+                words.set(wordOffset, word)
+            }
+        } else {
+            words.set(head, { name, param })
+        }
+        head += size
+    }
+    return words
+}
+
+const decodeValues = (param: AbiParameter, values: Hex[]) => {
+    try {
+        return values.map((value) => decodeAbiParameters([param], value)[0])
+    } catch {
+        return undefined
+    }
+}
+
+const getStaticSize = (param: AbiParameter): number | undefined => {
+    if (param.type === "bytes" || param.type === "string") return undefined
+    const array = param.type.match(/^(.*)\[(\d*)\]$/)
+    if (array) {
+        if (array[2] === "") return undefined
+        const size = getStaticSize({ ...param, type: array[1] })
+        return size === undefined ? undefined : size * Number(array[2])
+    }
+    if (param.type === "tuple") {
+        let size = 0
+        for (const component of (
+            param as { components: readonly AbiParameter[] }
+        ).components) {
+            const componentSize = getStaticSize(component)
+            if (componentSize === undefined) return undefined
+            size += componentSize
+        }
+        return size
+    }
+    return 32
+}
+
+/**
+ * Describes a call allowed by a permission, with the function and the
+ * parameters resolved from the ABIs
+ * @param parameters - {@link ToCallCapabilityParameters}
+ * @returns {@link CallCapability}
+ */
+export const toCallCapability = ({
+    target,
+    selector = pad("0x", { size: 4 }),
+    callType = "call",
+    valueLimit = 0n,
+    rules = [],
+    rateLimit,
+    abi,
+    abis = {},
+    defaultAbi
+}: ToCallCapabilityParameters): CallCapability => {
+    const targetAbi =
+        Object.entries(abis).find(([address]) =>
+            isAddressEqual(address as Address, target)
+        )?.[1] ?? defaultAbi
+    const abiFunction = [...(abi ?? []), ...(targetAbi ?? [])].find(
+        (item): item is AbiFunction =>
+            item.type === "function" &&
+            toFunctionSelector(item) === selector.toLowerCase()
+    )
+    const words = abiFunction
+        ? getWordParameters(
+              abiFunction.inputs.map((param, i) => ({
+                  name: param.name || `${i}`,
+                  param
+              }))
+          )
+        : undefined
+
+    const constraints = rules.map(({ offset, condition, values }) => {
+        const word = words?.get(offset)
+        const decodedValues = word
+            ? decodeValues(word.param, values)
+            : undefined
+        const parameter = word?.name
+        return {
+            offset,
+            parameter,
+            condition,
+            values,
+            decodedValues,
+            description: `${
+                parameter ?? `The word at offset ${offset}`
+            } must be ${conditionLabels[condition]} ${(decodedValues ?? values)
+                .map(formatValue)
+                .join(", ")}`
+        }
+    })
+
+    const isAnyTarget = isAddressEqual(target, zeroAddress)
+    const isPlainCall = selector === pad("0x", { size: 4 })
+    const call = abiFunction
+        ? `call ${abiFunction.name}`
+        : isPlainCall
+          ? "send plain calls"
+          : `call the function ${selector}`
+    const description = [
+        `Can ${call} on ${isAnyTarget ? "any contract" : target}`,
+        callType === "delegatecall" ? "with delegatecall" : undefined,
+        valueLimit > 0n ? `with up to ${valueLimit} wei` : "without value",
+        rateLimit
+            ? `${rateLimit.count} times${
+                  rateLimit.interval ? ` every ${rateLimit.interval}s` : ""
+              }`
+            : undefined,
+        constraints.length
+            ? `if ${constraints
+                  .map(({ description }) => description.toLowerCase())
+                  .join(" and ")}`
+            : undefined
+    ]
+        .filter(Boolean)
+        .join(" ")
+
+    return {
+        target,
+        selector,
+        functionName: abiFunction?.name,
+        functionSignature: abiFunction
+            ? toFunctionSignature(abiFunction)
+            : undefined,
+        callType,
+        valueLimit,
+        constraints,
+        rateLimit,
+        description
+    }
+}
+
+/**
+ * Completes the capabilities of a permission with their human-readable
+ * summary
+ * @param capabilities - The capabilities, without summary
+ * @returns {@link PermissionCapabilities}
+ */
+export const toPermissionCapabilities = (
+    capabilities: Omit<PermissionCapabilities, "summary">
+): PermissionCapabilities => {
+    const {
+        sudo,
+        calls,
+        validAfter,
+        validUntil,
+        rateLimits,
+        gas,
+        spendingLimits,
+        signatureCallers
+    } = capabilities
+    const summary: string[] = []
+    if (sudo) summary.push("Can send any call")
+    summary.push(...calls.map(({ description }) => description))
+    if (!sudo && calls.length === 0) summary.push("Cannot send any call")
+    if (validAfter) {
+        summary.push(`Valid after ${new Date(validAfter * 1000).toISOString()}`)
+    }
+    if (validUntil) {
+        summary.push(`Valid until ${new Date(validUntil * 1000).toISOString()}`)
+    }
+    for (const { count, interval } of rateLimits) {
+        summary.push(
+            interval
+                ? `Limited to ${count} UserOperations, one every ${interval}s`
+                : `Limited to ${count} UserOperations`
+        )
+    }
+    if (gas?.allowance !== undefined) {
+        summary.push(`Can spend up to ${gas.allowance} wei of gas`)
+    }
+    if (gas?.paymaster && !isAddressEqual(gas.paymaster, zeroAddress)) {
+        summary.push(`Must use the paymaster ${gas.paymaster}`)
+    } else if (gas?.enforcePaymaster) {
+        summary.push("Must use a paymaster")
+    }
+    for (const { token, allowance, interval } of spendingLimits) {
+        summary.push(
+            `Can spend up to ${allowance} of the token ${token}${
+                interval ? ` every ${interval}s` : ""
+            }`
+        )
+    }
+    if (signatureCallers) {
+        summary.push(
+            `Signatures can only be verified by ${signatureCallers.join(", ")}`
+        )
+    }
+    return { ...capabilities, summary }
+}
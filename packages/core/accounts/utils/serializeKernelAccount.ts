@@ -0,0 +1,551 @@
+import {
+    ENTRYPOINT_ADDRESS_V06,
+    ENTRYPOINT_ADDRESS_V07,
+    getEntryPointVersion
+} from "permissionless"
+import type { EntryPoint } from "permissionless/types"
+import {
+    type Address,
+    type Chain,
+    type Client,
+    type Hex,
+    type Transport,
+    decodeFunctionData,
+    hexToBigInt,
+    isAddress,
+    isAddressEqual,
+    isHex,
+    sliceHex
+} from "viem"
+import { KernelVersionToAddressesMap } from "../../constants.js"
+import { KernelError } from "../../errors/index.js"
+import type { KERNEL_VERSION_TYPE } from "../../types/kernel.js"
+import { KernelFactoryAbi } from "../kernel/abi/KernelFactoryAbi.js"
+import { KernelFactoryStakerAbi } from "../kernel/abi/kernel_v_3_0_0/KernelFactoryStakerAbi.js"
+import type { KernelSmartAccount } from "../kernel/createKernelAccount.js"
+import { KernelFactoryV2Abi } from "../kernel/v2/abi/KernelFactoryV2Abi.js"
+import {
+    type SerializedAccountDecryption,
+    type SerializedAccountEncryption,
+    decryptSerializedAccount,
+    encryptSerializedAccount
+} from "./encryptSerializedAccount.js"
+
+export const KERNEL_ACCOUNT_EXPORT_VERSION = 1
+
+export const KERNEL_ACCOUNT_VALIDATOR_TYPES = [
+    "ecdsa",
+    "passkey",
+    "weighted",
+    "permission",
+    "session-key",
+    "modular-permission"
+] as const
+
+export type KernelAccountValidatorType =
+    (typeof KERNEL_ACCOUNT_VALIDATOR_TYPES)[number]
+
+/**
+ * The versioned export of a Kernel account. The validator params are owned
+ * by the plugin of the validator type, their bigints are kept as bigints
+ * through the serialization
+ */
+export type KernelAccountExport<
+    TType extends KernelAccountValidatorType = KernelAccountValidatorType,
+    TParams = unknown
+> = {
+    format: typeof KERNEL_ACCOUNT_EXPORT_FORMAT
+    version: number
+    entryPoint: EntryPoint
+    kernelVersion: KERNEL_VERSION_TYPE
+    account: {
+        address: Address
+        index: bigint
+        initCode: Hex
+    }
+    validator: {
+        type: TType
+        params: TParams
+    }
+}
+
+export type KernelAccountDeserializer<
+    TType extends KernelAccountValidatorType = KernelAccountValidatorType
+> = (
+    client: Client<Transport, Chain | undefined, undefined>,
+    accountExport: KernelAccountExport<TType>
+) => Promise<KernelSmartAccount<EntryPoint>>
+
+export type DeserializeKernelAccountParameters = {
+    /**
+     * The deserializers of the validator types to support, e.g.
+     * `{ permission: importPermissionAccount }`
+     */
+    deserializers: {
+        [TType in KernelAccountValidatorType]?: KernelAccountDeserializer<TType>
+    }
+    decryption?: SerializedAccountDecryption
+} & ParseSerializedKernelAccountParameters
+
+export type ParseSerializedKernelAccountParameters = {
+    /**
+     * The Kernel version of an account serialized in the legacy format of
+     * the permission, session key or modular permission plugin. The legacy
+     * format doesn't record it, it is read from the initCode unless the
+     * account was serialized once deployed
+     */
+    kernelVersion?: KERNEL_VERSION_TYPE
+}
+
+const KERNEL_ACCOUNT_EXPORT_FORMAT = "kernel-account"
+
+const invalidExport = (reason: string) =>
+    new KernelError(`Invalid serialized Kernel account: ${reason}`, {
+        code: "INVALID_SERIALIZED_ACCOUNT"
+    })
+
+// Bigints are tagged instead of being turned into strings, so that they are
+// restored as bigints. They are tagged before `JSON.stringify` rather than in
+// a replacer, which runs after a `BigInt.prototype.toJSON` set by another
+// library already turned them into strings
+const tagBigInts = (value: unknown): unknown => {
+    if (typeof value === "bigint") return { $bigint: value.toString() }
+    if (Array.isArray(value)) return value.map(tagBigInts)
+    if (typeof value !== "object" || value === null) return value
+    const prototype = Object.getPrototypeOf(value)
+    if (prototype !== Object.prototype && prototype !== null) return value
+    return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, tagBigInts(entry)])
+    )
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: JSON value
+const reviver = (_: string, value: any) =>
+    typeof value === "object" &&
+    value !== null &&
+    Object.keys(value).length === 1 &&
+    typeof value.$bigint === "string"
+        ? BigInt(value.$bigint)
+        : value
+
+const toBase64 = (value: string) =>
+    btoa(
+        Array.from(new TextEncoder().encode(value), (byte) =>
+            String.fromCodePoint(byte)
+        ).join("")
+    )
+
+const fromBase64 = (value: string) =>
+    new TextDecoder().decode(
+        Uint8Array.from(atob(value), (char) => char.codePointAt(0) as number)
+    )
+
+const getIndexFromInitCode = (
+    initCode: Hex,
+    entryPoint: EntryPoint,
+    kernelVersion: KERNEL_VERSION_TYPE
+): bigint => {
+    const factoryData: Hex = `0x${initCode.slice(42)}`
+    if (getEntryPointVersion(entryPoint) === "v0.7") {
+        const { args } = decodeFunctionData({
+            abi: KernelFactoryStakerAbi,
+            data: factoryData
+        })
+        return hexToBigInt(args[2] as Hex)
+    }
+    const { args } = decodeFunctionData({
+        abi: kernelVersion === "0.0.2" ? KernelFactoryV2Abi : KernelFactoryAbi,
+        data: factoryData
+    })
+    return args[2] as bigint
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: JSON value
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isOptionalHex = (value: unknown) => value === undefined || isHex(value)
+
+const isAction = (value: unknown) =>
+    isObject(value) && isAddress(value.address) && isHex(value.selector)
+
+const isValidityData = (value: unknown) =>
+    isObject(value) &&
+    typeof value.validAfter === "number" &&
+    typeof value.validUntil === "number"
+
+const isOptionalArray = (value: unknown) =>
+    value === undefined || Array.isArray(value)
+
+// The params of the plugins enabled with an enable signature, the data of
+// the plugin is checked by its deserializer
+const getPluginParamsError = (
+    // biome-ignore lint/suspicious/noExplicitAny: JSON value
+    params: Record<string, any>,
+    pluginParams: string,
+    listField: string
+) => {
+    if (
+        !isObject(params[pluginParams]) ||
+        !isOptionalArray(params[pluginParams][listField])
+    ) {
+        return pluginParams
+    }
+    if (!isAction(params.action)) return "action"
+    if (!isValidityData(params.validityData)) return "validityData"
+    if (!isOptionalHex(params.enableSignature)) return "enableSignature"
+    if (!isOptionalHex(params.privateKey)) return "privateKey"
+    return undefined
+}
+
+// Returns the first invalid field of the validator params
+const validatorParamsCheckers: {
+    [TType in KernelAccountValidatorType]: (
+        // biome-ignore lint/suspicious/noExplicitAny: JSON value
+        params: Record<string, any>
+    ) => string | undefined
+} = {
+    ecdsa: (params) => {
+        if (!isAddress(params.validatorAddress)) return "validatorAddress"
+        if (!isAddress(params.owner)) return "owner"
+        return undefined
+    },
+    passkey: (params) => {
+        if (!isAddress(params.validatorAddress)) return "validatorAddress"
+        if (typeof params.pubKeyX !== "bigint") return "pubKeyX"
+        if (typeof params.pubKeyY !== "bigint") return "pubKeyY"
+        if (typeof params.authenticatorId !== "string") {
+            return "authenticatorId"
+        }
+        if (!isHex(params.authenticatorIdHash)) return "authenticatorIdHash"
+        return undefined
+    },
+    weighted: (params) => {
+        if (!isAddress(params.validatorAddress)) return "validatorAddress"
+        const { config } = params
+        if (
+            !isObject(config) ||
+            !Array.isArray(config.signers) ||
+            !config.signers.every(
+                (signer: unknown) =>
+                    isObject(signer) &&
+                    isAddress(signer.address) &&
+                    typeof signer.weight === "number"
+            ) ||
+            typeof config.threshold !== "number" ||
+            typeof config.delay !== "number"
+        ) {
+            return "config"
+        }
+        return undefined
+    },
+    permission: (params) =>
+        getPluginParamsError(params, "permissionParams", "policies"),
+    "session-key": (params) => {
+        if (
+            params.validatorAddress !== undefined &&
+            !isAddress(params.validatorAddress)
+        ) {
+            return "validatorAddress"
+        }
+        return getPluginParamsError(params, "sessionKeyParams", "permissions")
+    },
+    "modular-permission": (params) =>
+        getPluginParamsError(params, "modularPermissionParams", "policies")
+}
+
+// The plugins serialized their accounts in their own format before the
+// versioned export, identified by the field of their plugin params
+const LEGACY_VALIDATOR_TYPES = {
+    permissionParams: {
+        type: "permission",
+        entryPoint: ENTRYPOINT_ADDRESS_V07
+    },
+    sessionKeyParams: {
+        type: "session-key",
+        entryPoint: ENTRYPOINT_ADDRESS_V06
+    },
+    modularPermissionParams: {
+        type: "modular-permission",
+        entryPoint: ENTRYPOINT_ADDRESS_V06
+    }
+} as const
+
+const getKernelVersionFromInitCode = (
+    initCode: Hex,
+    entryPoint: EntryPoint
+): KERNEL_VERSION_TYPE | undefined => {
+    if (initCode.length <= 42) return undefined
+    const factory = sliceHex(initCode, 0, 20)
+    const factoryData: Hex = `0x${initCode.slice(42)}`
+    const versions = Object.keys(
+        KernelVersionToAddressesMap
+    ) as KERNEL_VERSION_TYPE[]
+    if (getEntryPointVersion(entryPoint) === "v0.7") {
+        const { args } = decodeFunctionData({
+            abi: KernelFactoryStakerAbi,
+            data: factoryData
+        })
+        return versions.find((version) =>
+            isAddressEqual(
+                KernelVersionToAddressesMap[version].factoryAddress,
+                args[0] as Address
+            )
+        )
+    }
+    if (
+        isAddressEqual(
+            factory,
+            KernelVersionToAddressesMap["0.0.2"].factoryAddress
+        )
+    ) {
+        return "0.0.2"
+    }
+    const { args } = decodeFunctionData({
+        abi: KernelFactoryAbi,
+        data: factoryData
+    })
+    return versions.find(
+        (version) =>
+            version !== "0.0.2" &&
+            isAddressEqual(
+                KernelVersionToAddressesMap[version]
+                    .accountImplementationAddress,
+                args[0] as Address
+            )
+    )
+}
+
+/**
+ * Converts an account serialized in the legacy format of the permission,
+ * session key or modular permission plugin to the versioned export. The
+ * bigints of the legacy format are strings, the plugins parse them
+ * @param value - The parsed legacy account
+ * @param parameters - {@link ParseSerializedKernelAccountParameters}
+ * @returns The export, or undefined if the value is not a legacy account
+ */
+const fromLegacySerializedAccount = (
+    value: unknown,
+    { kernelVersion: kernelVersion_ }: ParseSerializedKernelAccountParameters
+): KernelAccountExport | undefined => {
+    if (!isObject(value) || !isObject(value.accountParams)) return undefined
+    const { accountParams, ...params } = value
+    const pluginParams = (
+        Object.keys(
+            LEGACY_VALIDATOR_TYPES
+        ) as (keyof typeof LEGACY_VALIDATOR_TYPES)[]
+    ).find((field) => field in params)
+    if (!pluginParams) return undefined
+    const { type, entryPoint } = LEGACY_VALIDATOR_TYPES[pluginParams]
+
+    const { initCode, accountAddress } = accountParams
+    if (!isAddress(accountAddress) || !isHex(initCode)) {
+        throw invalidExport("the account address or initCode is invalid")
+    }
+    let kernelVersion: KERNEL_VERSION_TYPE | undefined
+    try {
+        kernelVersion =
+            getKernelVersionFromInitCode(initCode, entryPoint) ?? kernelVersion_
+    } catch {
+        throw invalidExport("the initCode is not a Kernel initCode")
+    }
+    if (!kernelVersion) {
+        throw invalidExport(
+            "the Kernel version of an account serialized once deployed is unknown, set `kernelVersion`"
+        )
+    }
+    return {
+        format: KERNEL_ACCOUNT_EXPORT_FORMAT,
+        version: KERNEL_ACCOUNT_EXPORT_VERSION,
+        entryPoint,
+        kernelVersion,
+        account: {
+            address: accountAddress,
+            // The deserializers of the legacy validator types read the
+            // index from the initCode, which a deployed account has none of
+            index:
+                initCode === "0x"
+                    ? 0n
+                    : getIndexFromInitCode(initCode, entryPoint, kernelVersion),
+            initCode
+        },
+        validator: { type, params }
+    }
+}
+
+/**
+ * Checks the schema of a Kernel account export and of the params of its
+ * validator type
+ * @param value - The parsed export
+ */
+export function assertKernelAccountExport(
+    value: unknown
+): asserts value is KernelAccountExport {
+    // biome-ignore lint/suspicious/noExplicitAny: checked below
+    const accountExport = value as any
+    if (accountExport?.format !== KERNEL_ACCOUNT_EXPORT_FORMAT) {
+        throw invalidExport(
+            "not a versioned Kernel account export nor a legacy permission, session key or modular permission account"
+        )
+    }
+    if (typeof accountExport.version !== "number") {
+        throw invalidExport("the version is missing")
+    }
+    if (accountExport.version > KERNEL_ACCOUNT_EXPORT_VERSION) {
+        throw invalidExport(
+            `the version ${accountExport.version} was serialized by a newer SDK, the supported version is ${KERNEL_ACCOUNT_EXPORT_VERSION}`
+        )
+    }
+    if (
+        !isAddress(accountExport.entryPoint) ||
+        ![ENTRYPOINT_ADDRESS_V06, ENTRYPOINT_ADDRESS_V07].some((entryPoint) =>
+            isAddressEqual(entryPoint, accountExport.entryPoint)
+        )
+    ) {
+        throw invalidExport(
+            `unsupported EntryPoint ${accountExport.entryPoint}`
+        )
+    }
+    if (!(accountExport.kernelVersion in KernelVersionToAddressesMap)) {
+        throw invalidExport(
+            `unsupported Kernel version ${accountExport.kernelVersion}`
+        )
+    }
+    const { account, validator } = accountExport
+    if (
+        !isAddress(account?.address) ||
+        typeof account.index !== "bigint" ||
+        !isHex(account.initCode)
+    ) {
+        throw invalidExport("the account address, index or initCode is invalid")
+    }
+    if (!KERNEL_ACCOUNT_VALIDATOR_TYPES.includes(validator?.type)) {
+        throw invalidExport(`unsupported validator type ${validator?.type}`)
+    }
+    if (!isObject(validator.params)) {
+        throw invalidExport("the validator params are missing")
+    }
+    const invalidParams = validatorParamsCheckers[
+        validator.type as KernelAccountValidatorType
+    ](validator.params)
+    if (invalidParams) {
+        throw invalidExport(
+            `the ${validator.type} validator params have an invalid ${invalidParams}`
+        )
+    }
+}
+
+/**
+ * Builds the export of a Kernel account, the plugin of the validator
+ * provides its params
+ * @param account - The Kernel account
+ * @param validator - The validator type and params
+ */
+export const toKernelAccountExport = async <
+    entryPoint extends EntryPoint,
+    TType extends KernelAccountValidatorType,
+    TParams
+>(
+    account: KernelSmartAccount<entryPoint>,
+    validator: { type: TType; params: TParams }
+): Promise<KernelAccountExport<TType, TParams>> => {
+    const initCode = await account.generateInitCode()
+    return {
+        format: KERNEL_ACCOUNT_EXPORT_FORMAT,
+        version: KERNEL_ACCOUNT_EXPORT_VERSION,
+        entryPoint: account.entryPoint,
+        kernelVersion: account.kernelVersion,
+        account: {
+            address: account.address,
+            index: getIndexFromInitCode(
+                initCode,
+                account.entryPoint,
+                account.kernelVersion
+            ),
+            initCode
+        },
+        validator
+    }
+}
+
+/**
+ * Serializes a Kernel account export to a base64 string, optionally
+ * encrypted with {@link encryptSerializedAccount}
+ * @param accountExport - {@link KernelAccountExport}
+ * @param encryption - {@link SerializedAccountEncryption}
+ */
+export const serializeKernelAccount = async (
+    accountExport: KernelAccountExport,
+    encryption?: SerializedAccountEncryption
+): Promise<string> => {
+    assertKernelAccountExport(accountExport)
+    const serializedAccount = toBase64(
+        JSON.stringify(tagBigInts(accountExport))
+    )
+    return encryption
+        ? encryptSerializedAccount(serializedAccount, encryption)
+        : serializedAccount
+}
+
+/**
+ * Parses and checks a serialized Kernel account export, without creating
+ * the account. An account serialized in the legacy format of the permission,
+ * session key or modular permission plugin is converted to the export
+ * @param serializedAccount - The output of {@link serializeKernelAccount}
+ * @param decryption - {@link SerializedAccountDecryption}
+ * @param parameters - {@link ParseSerializedKernelAccountParameters}
+ */
+export const parseSerializedKernelAccount = async (
+    serializedAccount: string,
+    decryption?: SerializedAccountDecryption,
+    parameters: ParseSerializedKernelAccountParameters = {}
+): Promise<KernelAccountExport> => {
+    let accountExport: unknown
+    try {
+        accountExport = JSON.parse(
+            fromBase64(
+                await decryptSerializedAccount(serializedAccount, decryption)
+            ),
+            reviver
+        )
+    } catch (error) {
+        if (error instanceof KernelError) throw error
+        throw invalidExport("malformed base64 JSON")
+    }
+    accountExport =
+        fromLegacySerializedAccount(accountExport, parameters) ?? accountExport
+    assertKernelAccountExport(accountExport)
+    return accountExport
+}
+
+/**
+ * Creates a Kernel account from its serialized export, with the deserializer
+ * of its validator type
+ * @param client - The client the account is created with
+ * @param serializedAccount - The output of {@link serializeKernelAccount}
+ * @param parameters - {@link DeserializeKernelAccountParameters}
+ */
+export const deserializeKernelAccount = async (
+    client: Client<Transport, Chain | undefined, undefined>,
+    serializedAccount: string,
+    {
+        deserializers,
+        decryption,
+        ...parameters
+    }: DeserializeKernelAccountParameters
+): Promise<KernelSmartAccount<EntryPoint>> => {
+    const accountExport = await parseSerializedKernelAccount(
+        serializedAccount,
+        decryption,
+        parameters
+    )
+    const deserializer = deserializers[accountExport.validator.type] as
+        | KernelAccountDeserializer
+        | undefined
+    if (!deserializer) {
+        throw invalidExport(
+            `no deserializer was given for the validator type ${accountExport.validator.type}`
+        )
+    }
+    return deserializer(client, accountExport)
+}
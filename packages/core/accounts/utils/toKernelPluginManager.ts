@@ -22,6 +22,10 @@ import {
     VALIDATOR_MODE,
     VALIDATOR_TYPE
 } from "../../constants.js"
+import {
+    KernelValidationError,
+    UnsupportedKernelVersionError
+} from "../../errors/index.js"
 import {
     type KernelPluginManager,
     type KernelPluginManagerParams,
@@ -66,7 +70,7 @@ export async function toKernelPluginManager<
         (sudo && !satisfies(kernelVersion, sudo?.supportedKernelVersions)) ||
         (regular && !satisfies(kernelVersion, regular?.supportedKernelVersions))
     ) {
-        throw new Error(
+        throw new UnsupportedKernelVersionError(
             "Either sudo or/and regular validator version mismatch. Update to latest plugin package and use the proper plugin version"
         )
     }
@@ -74,7 +78,10 @@ export async function toKernelPluginManager<
     let chainId: number
     const activeValidator = regular || sudo
     if (!activeValidator) {
-        throw new Error("One of `sudo` or `regular` validator must be set")
+        throw new KernelValidationError(
+            "One of `sudo` or `regular` validator must be set",
+            { code: "VALIDATOR_NOT_SET" }
+        )
     }
     action = {
         selector: action?.selector ?? getActionSelector(entryPointVersion),
@@ -93,7 +100,9 @@ export async function toKernelPluginManager<
     }
 
     if (!action) {
-        throw new Error("Action data must be set")
+        throw new KernelValidationError("Action data must be set", {
+            code: "ACTION_NOT_SET"
+        })
     }
 
     const getSignatureData = async (
@@ -102,7 +111,9 @@ export async function toKernelPluginManager<
         userOpSignature: Hex = "0x"
     ): Promise<Hex> => {
         if (!action) {
-            throw new Error("Action data must be set")
+            throw new KernelValidationError("Action data must be set", {
+                code: "ACTION_NOT_SET"
+            })
         }
         if (entryPointVersion === "v0.6") {
             if (regular) {
@@ -126,8 +137,9 @@ export async function toKernelPluginManager<
             } else if (sudo) {
                 return ValidatorMode.sudo
             } else {
-                throw new Error(
-                    "One of `sudo` or `regular` validator must be set"
+                throw new KernelValidationError(
+                    "One of `sudo` or `regular` validator must be set",
+                    { code: "VALIDATOR_NOT_SET" }
                 )
             }
         }
@@ -147,15 +159,23 @@ export async function toKernelPluginManager<
         } else if (sudo) {
             return userOpSignature
         } else {
-            throw new Error("One of `sudo` or `regular` validator must be set")
+            throw new KernelValidationError(
+                "One of `sudo` or `regular` validator must be set",
+                { code: "VALIDATOR_NOT_SET" }
+            )
         }
     }
 
     const isPluginEnabled = async (accountAddress: Address, selector: Hex) => {
         if (!action) {
-            throw new Error("Action data must be set")
+            throw new KernelValidationError("Action data must be set", {
+                code: "ACTION_NOT_SET"
+            })
         }
-        if (!regular) throw new Error("regular validator not set")
+        if (!regular)
+            throw new KernelValidationError("regular validator not set", {
+                code: "VALIDATOR_NOT_SET"
+            })
         if (entryPointVersion === "v0.6") {
             return regular.isEnabled(accountAddress, selector)
         }
@@ -167,14 +187,20 @@ export async function toKernelPluginManager<
 
     const getPluginEnableSignature = async (accountAddress: Address) => {
         if (!action) {
-            throw new Error("Action data must be set")
+            throw new KernelValidationError("Action data must be set", {
+                code: "ACTION_NOT_SET"
+            })
         }
         if (pluginEnableSignature) return pluginEnableSignature
         if (!sudo)
-            throw new Error(
-                "sudo validator not set -- need it to enable the validator"
+            throw new KernelValidationError(
+                "sudo validator not set -- need it to enable the validator",
+                { code: "VALIDATOR_NOT_SET" }
             )
-        if (!regular) throw new Error("regular validator not set")
+        if (!regular)
+            throw new KernelValidationError("regular validator not set", {
+                code: "VALIDATOR_NOT_SET"
+            })
 
         const { version } = await accountMetadata(
             client,
@@ -224,13 +250,19 @@ export async function toKernelPluginManager<
 
     const getPluginsEnableTypedData = async (accountAddress: Address) => {
         if (!action) {
-            throw new Error("Action data must be set")
+            throw new KernelValidationError("Action data must be set", {
+                code: "ACTION_NOT_SET"
+            })
         }
         if (!sudo)
-            throw new Error(
-                "sudo validator not set -- need it to enable the validator"
+            throw new KernelValidationError(
+                "sudo validator not set -- need it to enable the validator",
+                { code: "VALIDATOR_NOT_SET" }
             )
-        if (!regular) throw new Error("regular validator not set")
+        if (!regular)
+            throw new KernelValidationError("regular validator not set", {
+                code: "VALIDATOR_NOT_SET"
+            })
 
         const { version } = await accountMetadata(
             client,
@@ -262,9 +294,14 @@ export async function toKernelPluginManager<
         getIdentifier,
         encodeModuleInstallCallData: async (accountAddress: Address) => {
             if (!action) {
-                throw new Error("Action data must be set")
+                throw new KernelValidationError("Action data must be set", {
+                    code: "ACTION_NOT_SET"
+                })
             }
-            if (!regular) throw new Error("regular validator not set")
+            if (!regular)
+                throw new KernelValidationError("regular validator not set", {
+                    code: "VALIDATOR_NOT_SET"
+                })
             if (entryPointVersion === "v0.6") {
                 return await encodeModuleInstallCallDataEpV06({
                     accountAddress,
@@ -276,7 +313,10 @@ export async function toKernelPluginManager<
                     enableData: await regular.getEnableData(accountAddress)
                 })
             }
-            throw new Error("EntryPoint v0.7 not supported yet")
+            throw new UnsupportedKernelVersionError(
+                "EntryPoint v0.7 not supported yet",
+                { code: "UNSUPPORTED_ENTRYPOINT_VERSION" }
+            )
         },
         signUserOperation: async (userOperation) => {
             const userOpSig =
@@ -298,7 +338,9 @@ export async function toKernelPluginManager<
         },
         getAction: () => {
             if (!action) {
-                throw new Error("Action data must be set")
+                throw new KernelValidationError("Action data must be set", {
+                    code: "ACTION_NOT_SET"
+                })
             }
             return action
         },
@@ -329,7 +371,9 @@ export async function toKernelPluginManager<
             customNonceKey = 0n
         ) => {
             if (!action) {
-                throw new Error("Action data must be set")
+                throw new KernelValidationError("Action data must be set", {
+                    code: "ACTION_NOT_SET"
+                })
             }
             if (entryPointVersion === "v0.6") {
                 if (customNonceKey > maxUint192) {
@@ -0,0 +1,438 @@
+import type { EntryPoint, Prettify } from "permissionless/types"
+import {
+    AccountOrClientNotFoundError,
+    getEntryPointVersion,
+    parseAccount
+} from "permissionless/utils"
+import {
+    type Address,
+    type BlockNumber,
+    type Chain,
+    type Client,
+    type Hex,
+    type Transport,
+    concatHex,
+    getAddress,
+    pad,
+    size,
+    sliceHex,
+    zeroAddress
+} from "viem"
+import { getBlockNumber, getCode, getLogs, readContract } from "viem/actions"
+import { getAction } from "viem/utils"
+import type { KernelSmartAccount } from "../../accounts/index.js"
+import { KernelV3AccountAbi } from "../../accounts/kernel/abi/kernel_v_3_0_0/KernelAccountAbi.js"
+import { PLUGIN_TYPE, VALIDATOR_TYPE } from "../../constants.js"
+import { UnsupportedKernelVersionError } from "../../errors/index.js"
+
+export type GetKernelAccountStateParameters<
+    entryPoint extends EntryPoint,
+    TAccount extends KernelSmartAccount<entryPoint> | undefined =
+        | KernelSmartAccount<entryPoint>
+        | undefined
+> = {
+    /**
+     * First block of the replayed `ModuleInstalled`, `ValidatorInstalled`,
+     * `PermissionInstalled` and `SelectorSet` events. Defaults to the
+     * deployment block of the account
+     */
+    fromBlock?: BlockNumber
+    /**
+     * Last block of the replayed events. Defaults to the latest block
+     */
+    toBlock?: BlockNumber
+    /**
+     * Selectors whose mapping is read on top of the ones found in the events,
+     * e.g. the selectors of the installed fallbacks
+     */
+    selectors?: Hex[]
+} & (TAccount extends undefined
+    ? { account: KernelSmartAccount<entryPoint> }
+    : { account?: KernelSmartAccount<entryPoint> })
+
+type KernelValidationStateBase = {
+    /**
+     * The 21 bytes validation id, the validator type followed by the
+     * validator address or the permission id
+     */
+    validationId: Hex
+    isRoot: boolean
+    /**
+     * The nonce the validation was installed with
+     */
+    nonce: number
+    /**
+     * Whether the validation is still usable, i.e. its nonce was not
+     * invalidated with `invalidateNonce`. The root validation always is
+     */
+    isValid: boolean
+    /**
+     * The hook run around the UserOperations of the validation
+     */
+    hook?: Address
+    /**
+     * The selectors the validation is allowed to call
+     */
+    selectors: Hex[]
+}
+
+export type KernelValidatorState = KernelValidationStateBase & {
+    type: "validator"
+    validator: Address
+}
+
+export type KernelPermissionState = KernelValidationStateBase & {
+    type: "permission"
+    permissionId: Hex
+    permissionFlag: Hex
+    signer: Address
+    policies: { policy: Address; flag: Hex }[]
+}
+
+export type GetKernelAccountStateReturnType = {
+    address: Address
+    deployed: boolean
+    accountId?: string
+    rootValidator?: Hex
+    currentNonce?: number
+    validNonceFrom?: number
+    validations: (KernelValidatorState | KernelPermissionState)[]
+    executors: { executor: Address; hook?: Address }[]
+    /**
+     * The selectors routed to a fallback or an executor of the account
+     */
+    selectors: {
+        selector: Hex
+        target: Address
+        callType: Hex
+        hook?: Address
+    }[]
+    /**
+     * The hooks used by the validations, the executors and the selectors
+     */
+    hooks: Address[]
+}
+
+// A config hook set to address(1) means the module is installed without a hook
+const NO_HOOK_ADDRESS = "0x0000000000000000000000000000000000000001"
+
+const parseHook = (hook: Address): Address | undefined =>
+    hook === zeroAddress || hook === NO_HOOK_ADDRESS ? undefined : hook
+
+const getValidatorValidationId = (validator: Address) =>
+    concatHex([VALIDATOR_TYPE.SECONDARY, validator]).toLowerCase() as Hex
+
+const getPermissionValidationId = (permissionId: Hex) =>
+    concatHex([
+        VALIDATOR_TYPE.PERMISSION,
+        pad(permissionId, { size: 20, dir: "right" })
+    ]).toLowerCase() as Hex
+
+// The first block the account has code at, found by a binary search. A node
+// without the historical state falls back to the earliest block
+export const getDeploymentBlock = async (
+    client: Client,
+    address: Address,
+    toBlock: bigint
+): Promise<bigint> => {
+    let low = 0n
+    let high = toBlock
+    try {
+        while (low < high) {
+            const middle = (low + high) / 2n
+            const code = await getAction(
+                client,
+                getCode,
+                "getCode"
+            )({ address, blockNumber: middle })
+            if (code && code !== "0x") high = middle
+            else low = middle + 1n
+        }
+    } catch {
+        return 0n
+    }
+    return low
+}
+
+// The nodes limit the block range or the number of logs of `eth_getLogs`,
+// a rejected range is split in halves
+export const getLogsInRanges = async <TLog>(
+    getLogsInRange: (fromBlock: bigint, toBlock: bigint) => Promise<TLog[]>,
+    fromBlock: bigint,
+    toBlock: bigint
+): Promise<TLog[]> => {
+    try {
+        return await getLogsInRange(fromBlock, toBlock)
+    } catch (error) {
+        if (fromBlock >= toBlock) throw error
+        const middle = (fromBlock + toBlock) / 2n
+        return [
+            ...(await getLogsInRanges(getLogsInRange, fromBlock, middle)),
+            ...(await getLogsInRanges(getLogsInRange, middle + 1n, toBlock))
+        ]
+    }
+}
+
+const getKernelLogs = (
+    client: Client,
+    address: Address,
+    fromBlock: bigint,
+    toBlock: bigint
+) =>
+    getLogsInRanges(
+        (fromBlock, toBlock) =>
+            getAction(
+                client,
+                getLogs,
+                "getLogs"
+            )({
+                address,
+                events: KernelV3AccountAbi.filter(
+                    (item) => item.type === "event"
+                ),
+                fromBlock,
+                toBlock,
+                strict: true
+            }),
+        fromBlock,
+        toBlock
+    )
+
+/**
+ * Enumerates the root validator, the installed validators and permissions,
+ * the executors, the hooks and the selector mappings of a Kernel v3 account,
+ * by replaying the install events of the account and reading its storage.
+ *
+ * @param client
+ * @param args - {@link GetKernelAccountStateParameters}
+ * @returns {@link GetKernelAccountStateReturnType}
+ */
+export async function getKernelAccountState<
+    entryPoint extends EntryPoint,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined,
+    TAccount extends KernelSmartAccount<entryPoint> | undefined =
+        | KernelSmartAccount<entryPoint>
+        | undefined
+>(
+    client: Client<TTransport, TChain, TAccount>,
+    args: Prettify<GetKernelAccountStateParameters<entryPoint, TAccount>>
+): Promise<GetKernelAccountStateReturnType> {
+    const {
+        account: account_ = client.account,
+        fromBlock: fromBlock_,
+        toBlock: toBlock_,
+        selectors: extraSelectors = []
+    } = args
+    if (!account_) throw new AccountOrClientNotFoundError()
+
+    const account = parseAccount(account_) as KernelSmartAccount<entryPoint>
+    if (getEntryPointVersion(account.entryPoint) !== "v0.7") {
+        throw new UnsupportedKernelVersionError(
+            "The account state can only be read for Kernel v3 accounts",
+            { code: "UNSUPPORTED_ENTRYPOINT_VERSION" }
+        )
+    }
+    const publicClient = account.client
+    const address = account.address
+
+    const code = await getAction(publicClient, getCode, "getCode")({ address })
+    if (!code || code === "0x") {
+        return {
+            address,
+            deployed: false,
+            validations: [],
+            executors: [],
+            selectors: [],
+            hooks: []
+        }
+    }
+
+    const toBlock =
+        toBlock_ ??
+        (await getAction(publicClient, getBlockNumber, "getBlockNumber")({}))
+    const fromBlock =
+        fromBlock_ ?? (await getDeploymentBlock(publicClient, address, toBlock))
+    const read = getAction(publicClient, readContract, "readContract")
+    const [rootValidator, currentNonce, validNonceFrom, accountId, logs] =
+        await Promise.all([
+            read({
+                abi: KernelV3AccountAbi,
+                address,
+                functionName: "rootValidator"
+            }),
+            read({
+                abi: KernelV3AccountAbi,
+                address,
+                functionName: "currentNonce"
+            }),
+            read({
+                abi: KernelV3AccountAbi,
+                address,
+                functionName: "validNonceFrom"
+            }),
+            read({
+                abi: KernelV3AccountAbi,
+                address,
+                functionName: "accountId"
+            }).catch(() => undefined),
+            getKernelLogs(publicClient, address, fromBlock, toBlock)
+        ])
+
+    // Replay the events to find the modules that were installed at some
+    // point, the storage tells whether they still are
+    const validationIds = new Set<Hex>([rootValidator.toLowerCase() as Hex])
+    const executors = new Set<Address>()
+    const selectors = new Set<Hex>(
+        extraSelectors.map((selector) => selector.toLowerCase() as Hex)
+    )
+    const allowedSelectors = new Map<Hex, Set<Hex>>()
+    for (const log of logs) {
+        if (log.eventName === "ValidatorInstalled") {
+            validationIds.add(getValidatorValidationId(log.args.validator))
+        } else if (log.eventName === "PermissionInstalled") {
+            validationIds.add(getPermissionValidationId(log.args.permission))
+        } else if (log.eventName === "RootValidatorUpdated") {
+            validationIds.add(log.args.rootValidator.toLowerCase() as Hex)
+        } else if (
+            log.eventName === "ModuleInstalled" &&
+            log.args.moduleTypeId === BigInt(PLUGIN_TYPE.EXECUTOR)
+        ) {
+            executors.add(getAddress(log.args.module))
+        } else if (log.eventName === "SelectorSet") {
+            const selector = log.args.selector.toLowerCase() as Hex
+            const validationId = log.args.vId.toLowerCase() as Hex
+            selectors.add(selector)
+            const allowed = allowedSelectors.get(validationId) ?? new Set()
+            if (log.args.allowed) allowed.add(selector)
+            else allowed.delete(selector)
+            allowedSelectors.set(validationId, allowed)
+        }
+    }
+
+    const validations = (
+        await Promise.all(
+            [...validationIds].map(
+                async (
+                    validationId
+                ): Promise<
+                    KernelValidatorState | KernelPermissionState | undefined
+                > => {
+                    const { nonce, hook } = await read({
+                        abi: KernelV3AccountAbi,
+                        address,
+                        functionName: "validationConfig",
+                        args: [validationId]
+                    })
+                    if (hook === zeroAddress) return undefined
+
+                    const isRoot = validationId === rootValidator.toLowerCase()
+                    const common = {
+                        validationId,
+                        isRoot,
+                        nonce,
+                        isValid: isRoot || nonce >= validNonceFrom,
+                        hook: parseHook(hook),
+                        selectors: [
+                            ...(allowedSelectors.get(validationId) ?? [])
+                        ]
+                    }
+                    const type = sliceHex(validationId, 0, 1)
+                    if (type === VALIDATOR_TYPE.PERMISSION) {
+                        const permissionId = sliceHex(validationId, 1, 5)
+                        const { permissionFlag, signer, policyData } =
+                            await read({
+                                abi: KernelV3AccountAbi,
+                                address,
+                                functionName: "permissionConfig",
+                                args: [permissionId]
+                            })
+                        return {
+                            ...common,
+                            type: "permission",
+                            permissionId,
+                            permissionFlag,
+                            signer,
+                            // Each policy is packed as its 2 bytes flag followed by its address
+                            policies: policyData.map((data) => ({
+                                flag: sliceHex(data, 0, 2),
+                                policy: getAddress(
+                                    sliceHex(data, 2, size(data))
+                                )
+                            }))
+                        }
+                    }
+                    return {
+                        ...common,
+                        type: "validator",
+                        validator: getAddress(sliceHex(validationId, 1))
+                    }
+                }
+            )
+        )
+    ).filter((validation) => validation !== undefined) as (
+        | KernelValidatorState
+        | KernelPermissionState
+    )[]
+
+    const installedExecutors = (
+        await Promise.all(
+            [...executors].map(async (executor) => {
+                const { hook } = await read({
+                    abi: KernelV3AccountAbi,
+                    address,
+                    functionName: "executorConfig",
+                    args: [executor]
+                })
+                return hook === zeroAddress
+                    ? undefined
+                    : { executor, hook: parseHook(hook) }
+            })
+        )
+    ).filter((executor) => executor !== undefined) as {
+        executor: Address
+        hook?: Address
+    }[]
+
+    const selectorMappings = (
+        await Promise.all(
+            [...selectors].map(async (selector) => {
+                const { hook, target, callType } = await read({
+                    abi: KernelV3AccountAbi,
+                    address,
+                    functionName: "selectorConfig",
+                    args: [selector]
+                })
+                return target === zeroAddress
+                    ? undefined
+                    : { selector, target, callType, hook: parseHook(hook) }
+            })
+        )
+    ).filter((mapping) => mapping !== undefined) as {
+        selector: Hex
+        target: Address
+        callType: Hex
+        hook?: Address
+    }[]
+
+    const hooks = [
+        ...new Set(
+            [...validations, ...installedExecutors, ...selectorMappings]
+                .map(({ hook }) => hook)
+                .filter((hook): hook is Address => hook !== undefined)
+        )
+    ]
+
+    return {
+        address,
+        deployed: true,
+        accountId,
+        rootValidator,
+        currentNonce,
+        validNonceFrom,
+        validations,
+        executors: installedExecutors,
+        selectors: selectorMappings,
+        hooks
+    }
+}
@@ -0,0 +1,104 @@
+import type { EntryPoint } from "permissionless/types"
+import {
+    AccountOrClientNotFoundError,
+    parseAccount
+} from "permissionless/utils"
+import type { Chain, Client, Transport } from "viem"
+import type { KernelSmartAccount } from "../../accounts/index.js"
+import { getNonceLaneManager } from "../../accounts/utils/nonceLaneManager.js"
+
+export type NonceLaneParameters<
+    entryPoint extends EntryPoint,
+    TAccount extends KernelSmartAccount<entryPoint> | undefined =
+        | KernelSmartAccount<entryPoint>
+        | undefined
+> = {
+    lane: string
+} & (TAccount extends undefined
+    ? { account: KernelSmartAccount<entryPoint> }
+    : { account?: KernelSmartAccount<entryPoint> })
+
+export type ReleaseNonceParameters<
+    entryPoint extends EntryPoint,
+    TAccount extends KernelSmartAccount<entryPoint> | undefined =
+        | KernelSmartAccount<entryPoint>
+        | undefined
+> = NonceLaneParameters<entryPoint, TAccount> & {
+    nonce: bigint
+}
+
+const getManager = <entryPoint extends EntryPoint>(
+    client: Client,
+    account_: KernelSmartAccount<entryPoint> | undefined
+) => {
+    const account = account_ ?? client.account
+    if (!account) throw new AccountOrClientNotFoundError()
+    return getNonceLaneManager(
+        parseAccount(account) as KernelSmartAccount<entryPoint>
+    )
+}
+
+/**
+ * Reserves the next nonce of a lane, a nonce key dedicated to a logical stream
+ * of UserOperations. The nonces are tracked locally, so the UserOperations of a
+ * lane can be prepared concurrently, and the lanes don't block each other.
+ *
+ * @param client
+ * @param args - {@link NonceLaneParameters}
+ * @returns The nonce to set on the UserOperation
+ */
+export async function reserveNonce<
+    entryPoint extends EntryPoint,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined,
+    TAccount extends KernelSmartAccount<entryPoint> | undefined =
+        | KernelSmartAccount<entryPoint>
+        | undefined
+>(
+    client: Client<TTransport, TChain, TAccount>,
+    { lane, account }: NonceLaneParameters<entryPoint, TAccount>
+): Promise<bigint> {
+    return getManager(client, account).reserveNonce(lane)
+}
+
+/**
+ * Hands back a nonce reserved with {@link reserveNonce} whose UserOperation
+ * could not be sent
+ *
+ * @param client
+ * @param args - {@link ReleaseNonceParameters}
+ */
+export function releaseNonce<
+    entryPoint extends EntryPoint,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined,
+    TAccount extends KernelSmartAccount<entryPoint> | undefined =
+        | KernelSmartAccount<entryPoint>
+        | undefined
+>(
+    client: Client<TTransport, TChain, TAccount>,
+    { lane, nonce, account }: ReleaseNonceParameters<entryPoint, TAccount>
+): void {
+    getManager(client, account).releaseNonce(lane, nonce)
+}
+
+/**
+ * Forgets the nonces in flight on a lane, e.g. after one of its UserOperations
+ * was dropped. The next nonce of the lane is read on chain
+ *
+ * @param client
+ * @param args - {@link NonceLaneParameters}
+ */
+export function resetNonceLane<
+    entryPoint extends EntryPoint,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined,
+    TAccount extends KernelSmartAccount<entryPoint> | undefined =
+        | KernelSmartAccount<entryPoint>
+        | undefined
+>(
+    client: Client<TTransport, TChain, TAccount>,
+    { lane, account }: NonceLaneParameters<entryPoint, TAccount>
+): void {
+    getManager(client, account).resetLane(lane)
+}
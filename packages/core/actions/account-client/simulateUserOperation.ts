@@ -0,0 +1,393 @@
+import type {
+    EntryPoint,
+    GetEntryPointVersion,
+    Prettify,
+    UserOperation
+} from "permissionless/types"
+import type { StateOverrides } from "permissionless/types/bundler"
+import {
+    AccountOrClientNotFoundError,
+    getEntryPointVersion,
+    getPackedUserOperation,
+    getUserOperationHash,
+    parseAccount
+} from "permissionless/utils"
+import {
+    type Abi,
+    type Address,
+    BaseError,
+    type Chain,
+    type Client,
+    type Hex,
+    type StateOverride,
+    type Transport,
+    decodeErrorResult,
+    decodeFunctionResult,
+    encodeFunctionData,
+    isAddressEqual
+} from "viem"
+import { call, getChainId, getCode } from "viem/actions"
+import { getAction } from "viem/utils"
+import type { KernelSmartAccount } from "../../accounts/index.js"
+import {
+    EntryPointSimulationsAbi,
+    EntryPointSimulationsDeployedBytecode,
+    EntryPointV06SimulationsAbi
+} from "../../accounts/kernel/abi/EntryPointSimulationsAbi.js"
+import { KernelV3ExecuteAbi } from "../../accounts/kernel/abi/kernel_v_3_0_0/KernelAccountAbi.js"
+import {
+    type TokenIntent,
+    describeUserOperation
+} from "../../accounts/kernel/utils/common/describeUserOperation.js"
+import {
+    type DecodedRevertError,
+    decodeKernelRevertError,
+    getRevertData
+} from "../../errors/decodeKernelRevertError.js"
+
+export type SimulateUserOperationParameters<
+    entryPoint extends EntryPoint,
+    TAccount extends KernelSmartAccount<entryPoint> | undefined =
+        | KernelSmartAccount<entryPoint>
+        | undefined
+> = {
+    /**
+     * The UserOperation to simulate. Its signature isn't checked, a dummy
+     * signature can be used
+     */
+    userOperation: UserOperation<GetEntryPointVersion<entryPoint>>
+    stateOverrides?: StateOverrides
+    /**
+     * ABIs of the validators, policies and called contracts used to decode the revert errors
+     */
+    errorAbis?: Abi[]
+    /**
+     * ABIs of the called contracts keyed by address, used to decode the intents
+     */
+    abis?: Record<Address, Abi>
+} & (TAccount extends undefined
+    ? { account: KernelSmartAccount<entryPoint> }
+    : { account?: KernelSmartAccount<entryPoint> })
+
+export type SimulateUserOperationReturnType = {
+    success: boolean
+    /**
+     * Whether the account was deployed before the UserOperation
+     */
+    deployed: boolean
+    validation: {
+        success: boolean
+        validAfter?: number
+        validUntil?: number
+        gasUsed?: bigint
+        error?: DecodedRevertError
+    }
+    execution: {
+        success: boolean
+        returnData?: Hex
+        error?: DecodedRevertError
+    }
+    /**
+     * The token transfers and approvals decoded from the calldata of the
+     * UserOperation. They aren't read from the simulation: a call that
+     * moves tokens without a decodable transfer isn't reported
+     */
+    intents: TokenIntent[]
+}
+
+const toRevertError = (error: unknown, abis: Abi[]): DecodedRevertError => {
+    const data = getRevertData(error)
+    const message =
+        error instanceof BaseError
+            ? error.shortMessage
+            : (error as Error).message
+    return data
+        ? { ...decodeKernelRevertError(data, abis), message }
+        : { data: "0x", source: "unknown", message }
+}
+
+const toStateOverride = (stateOverrides?: StateOverrides): StateOverride =>
+    Object.entries(stateOverrides ?? {}).map(
+        ([address, { balance, nonce, code, state, stateDiff }]) => ({
+            address: address as Address,
+            balance,
+            nonce: nonce === undefined ? undefined : Number(nonce),
+            code,
+            ...(state
+                ? {
+                      state: Object.entries(state).map(([slot, value]) => ({
+                          slot: slot as Hex,
+                          value
+                      }))
+                  }
+                : {
+                      stateDiff: stateDiff
+                          ? Object.entries(stateDiff).map(([slot, value]) => ({
+                                slot: slot as Hex,
+                                value
+                            }))
+                          : undefined
+                  })
+        })
+    )
+
+type SimulationError =
+    | {
+          errorName: "ExecutionResult"
+          args: readonly [bigint, bigint, number, number, boolean, Hex]
+      }
+    | {
+          errorName: "FailedOp" | "FailedOpWithRevert"
+          error: DecodedRevertError
+      }
+
+// The result of `simulateHandleOp` v0.6 and the validation errors
+const decodeSimulationError = (
+    data: Hex,
+    abis: Abi[]
+): SimulationError | undefined => {
+    try {
+        const { errorName, args } = decodeErrorResult({
+            abi: [...EntryPointV06SimulationsAbi, ...EntryPointSimulationsAbi],
+            data
+        })
+        switch (errorName) {
+            case "ExecutionResult":
+                return { errorName, args }
+            case "FailedOpWithRevert":
+                return {
+                    errorName,
+                    error: {
+                        ...decodeKernelRevertError(args[2], abis),
+                        message: args[1]
+                    }
+                }
+            default:
+                return {
+                    errorName,
+                    error: { data, source: "unknown", message: args[1] }
+                }
+        }
+    } catch {
+        return undefined
+    }
+}
+
+// See the EntryPoint `_parseValidationData`: the low 20 bytes are the aggregator
+// or the signature failure flag, then `validUntil` and `validAfter` on 6 bytes each
+const parseValidationData = (validationData: bigint) => ({
+    validUntil: Number((validationData >> 160n) & ((1n << 48n) - 1n)),
+    validAfter: Number(validationData >> 208n)
+})
+
+/**
+ * Simulates the validation and the execution of a UserOperation with the
+ * `simulateHandleOp` of the EntryPoint, with optional state overrides, before
+ * any gas is spent. Returns the validation gas used, the decoded Kernel,
+ * validator and policy revert errors, and the token intents decoded from the
+ * calldata of the UserOperation.
+ *
+ * @param client
+ * @param args - {@link SimulateUserOperationParameters}
+ * @returns {@link SimulateUserOperationReturnType}
+ */
+export async function simulateUserOperation<
+    entryPoint extends EntryPoint,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined,
+    TAccount extends KernelSmartAccount<entryPoint> | undefined =
+        | KernelSmartAccount<entryPoint>
+        | undefined
+>(
+    client: Client<TTransport, TChain, TAccount>,
+    args: Prettify<SimulateUserOperationParameters<entryPoint, TAccount>>
+): Promise<SimulateUserOperationReturnType> {
+    const {
+        account: account_ = client.account,
+        userOperation,
+        stateOverrides,
+        errorAbis = [],
+        abis
+    } = args
+    if (!account_) throw new AccountOrClientNotFoundError()
+
+    const account = parseAccount(account_) as KernelSmartAccount<entryPoint>
+    const publicClient = account.client
+    const entryPointVersion = getEntryPointVersion(account.entryPoint)
+    const stateOverride = toStateOverride(stateOverrides)
+
+    const { includeHooks, executions } = describeUserOperation({
+        userOperation,
+        entryPoint: account.entryPoint,
+        abis
+    })
+    const intents = executions.flatMap(({ intents }) => intents)
+
+    // An undeployed account is deployed by the simulated UserOperation
+    const code =
+        stateOverrides?.[userOperation.sender]?.code ??
+        (await getAction(
+            publicClient,
+            getCode,
+            "getCode"
+        )({ address: userOperation.sender }))
+    const deployed = !!code && code !== "0x"
+
+    // The calls of the UserOperation are run as the target of
+    // `simulateHandleOp`, after the validation, so that their result can be
+    // read. The simulated UserOperation has no call gas for them not to run
+    // twice, which changes its hash: its signature can't be checked
+    const simulatedUserOperation = { ...userOperation, callGasLimit: 0n }
+    const chainId =
+        publicClient.chain?.id ??
+        (await getAction(publicClient, getChainId, "getChainId")({}))
+    const userOpHash = getUserOperationHash({
+        userOperation: simulatedUserOperation,
+        entryPoint: account.entryPoint,
+        chainId
+    })
+    // The EntryPoint v0.7 passes the whole UserOperation to `executeUserOp`
+    const targetCallData = includeHooks
+        ? encodeFunctionData({
+              abi: KernelV3ExecuteAbi,
+              functionName: "executeUserOp",
+              args: [
+                  getPackedUserOperation(
+                      simulatedUserOperation as UserOperation<"v0.7">
+                  ),
+                  userOpHash
+              ]
+          })
+        : userOperation.callData
+
+    let result: {
+        preOpGas: bigint
+        validAfter: number
+        validUntil: number
+        targetSuccess: boolean
+        targetResult: Hex
+    }
+    try {
+        if (entryPointVersion === "v0.6") {
+            // The EntryPoint v0.6 always reverts with the result
+            await getAction(
+                publicClient,
+                call,
+                "call"
+            )({
+                to: account.entryPoint,
+                data: encodeFunctionData({
+                    abi: EntryPointV06SimulationsAbi,
+                    functionName: "simulateHandleOp",
+                    args: [
+                        simulatedUserOperation as UserOperation<"v0.6">,
+                        userOperation.sender,
+                        targetCallData
+                    ]
+                }),
+                stateOverride
+            })
+            throw new BaseError("simulateHandleOp did not revert")
+        }
+        const { data = "0x" } = await getAction(
+            publicClient,
+            call,
+            "call"
+        )({
+            to: account.entryPoint,
+            data: encodeFunctionData({
+                abi: EntryPointSimulationsAbi,
+                functionName: "simulateHandleOp",
+                args: [
+                    getPackedUserOperation(
+                        simulatedUserOperation as UserOperation<"v0.7">
+                    ),
+                    userOperation.sender,
+                    targetCallData
+                ]
+            }),
+            stateOverride: [
+                ...stateOverride.filter(
+                    ({ address }) =>
+                        !isAddressEqual(address, account.entryPoint)
+                ),
+                {
+                    address: account.entryPoint,
+                    code: EntryPointSimulationsDeployedBytecode
+                }
+            ]
+        })
+        const { preOpGas, accountValidationData, targetSuccess, targetResult } =
+            decodeFunctionResult({
+                abi: EntryPointSimulationsAbi,
+                functionName: "simulateHandleOp",
+                data
+            })
+        result = {
+            preOpGas,
+            ...parseValidationData(accountValidationData),
+            targetSuccess,
+            targetResult
+        }
+    } catch (error) {
+        const data = getRevertData(error)
+        const simulation = data
+            ? decodeSimulationError(data, errorAbis)
+            : undefined
+        if (simulation?.errorName !== "ExecutionResult") {
+            return {
+                success: false,
+                deployed,
+                validation: {
+                    success: false,
+                    error: simulation?.error ?? toRevertError(error, errorAbis)
+                },
+                execution: { success: false },
+                intents
+            }
+        }
+        const [
+            preOpGas,
+            ,
+            validAfter,
+            validUntil,
+            targetSuccess,
+            targetResult
+        ] = simulation.args
+        result = {
+            preOpGas,
+            validAfter,
+            validUntil,
+            targetSuccess,
+            targetResult
+        }
+    }
+
+    const validation: SimulateUserOperationReturnType["validation"] = {
+        success: true,
+        validAfter: result.validAfter,
+        validUntil: result.validUntil,
+        gasUsed: result.preOpGas - userOperation.preVerificationGas
+    }
+    const execution: SimulateUserOperationReturnType["execution"] =
+        result.targetSuccess
+            ? { success: true, returnData: result.targetResult }
+            : {
+                  success: false,
+                  error: {
+                      ...decodeKernelRevertError(
+                          result.targetResult,
+                          errorAbis
+                      ),
+                      message: "execution reverted"
+                  }
+              }
+
+    return {
+        success: validation.success && execution.success,
+        deployed,
+        validation,
+        execution,
+        intents
+    }
+}
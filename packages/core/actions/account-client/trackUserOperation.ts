@@ -0,0 +1,349 @@
+import {
+    type GetUserOperationReceiptReturnType,
+    WaitForUserOperationReceiptTimeoutError,
+    getUserOperationReceipt,
+    sendUserOperation
+} from "permissionless/actions"
+import type { Middleware } from "permissionless/actions/smartAccount"
+import type {
+    EntryPoint,
+    GetEntryPointVersion,
+    Prettify,
+    UserOperation
+} from "permissionless/types"
+import type { BundlerRpcSchema } from "permissionless/types/bundler"
+import {
+    AccountOrClientNotFoundError,
+    parseAccount
+} from "permissionless/utils"
+import type { Chain, Client, Hash, Transport } from "viem"
+import { getAction } from "viem/utils"
+import type { KernelSmartAccount } from "../../accounts/index.js"
+import { getKernelError } from "../../errors/getKernelError.js"
+import { KernelBundlerError, KernelError } from "../../errors/kernel.js"
+
+export type UserOperationLifecycleEvent<entryPoint extends EntryPoint> =
+    | {
+          type: "submitted"
+          hash: Hash
+          userOperation: UserOperation<GetEntryPointVersion<entryPoint>>
+      }
+    | { type: "pending"; hash: Hash }
+    | { type: "bundled"; hash: Hash; transactionHash: Hash }
+    | {
+          type: "included" | "reverted"
+          hash: Hash
+          receipt: GetUserOperationReceiptReturnType
+      }
+    | { type: "dropped"; hash: Hash }
+    | {
+          type: "replaced"
+          hash: Hash
+          replacementHash: Hash
+          userOperation: UserOperation<GetEntryPointVersion<entryPoint>>
+      }
+
+export type TrackUserOperationParameters<
+    entryPoint extends EntryPoint,
+    TAccount extends KernelSmartAccount<entryPoint> | undefined =
+        | KernelSmartAccount<entryPoint>
+        | undefined
+> = {
+    /**
+     * The signed UserOperation. It is submitted by the tracker unless `hash`
+     * is given, and is the base of the fee bumped replacements
+     */
+    userOperation: UserOperation<GetEntryPointVersion<entryPoint>>
+    /**
+     * Hash of the UserOperation if it was already submitted
+     */
+    hash?: Hash
+    onEvent?: (event: UserOperationLifecycleEvent<entryPoint>) => void
+    /**
+     * Time in milliseconds between two status checks, defaults to the client polling interval
+     */
+    pollingInterval?: number
+    /**
+     * Time in milliseconds a UserOperation may stay in the mempool before it
+     * is replaced
+     */
+    stuckTimeout?: number
+    /**
+     * Percentage by which the fees of a replacement are bumped. Bundlers
+     * reject replacements bumping the fees by less than 10%
+     */
+    feeBumpPercentage?: number
+    /**
+     * Maximum number of replacements, 0 disables the replacement
+     */
+    maxReplacements?: number
+    /**
+     * Upper bound of the `maxFeePerGas` of a replacement
+     */
+    maxFeePerGasLimit?: bigint
+    /**
+     * Time in milliseconds after which the tracking gives up, defaults to 5 minutes
+     */
+    timeout?: number
+} & (TAccount extends undefined
+    ? { account: KernelSmartAccount<entryPoint> }
+    : { account?: KernelSmartAccount<entryPoint> }) &
+    Middleware<entryPoint>
+
+export type TrackUserOperationReturnType = GetUserOperationReceiptReturnType
+
+type TrackedUserOperation = {
+    hash: Hash
+    submittedAt: number
+    seen: boolean
+    bundled: boolean
+    dropped: boolean
+}
+
+const isSponsored = (userOperation: UserOperation<"v0.6" | "v0.7">) =>
+    "paymasterAndData" in userOperation
+        ? userOperation.paymasterAndData !== "0x"
+        : !!userOperation.paymaster
+
+const bumpFee = (fee: bigint, percentage: number) =>
+    (fee * BigInt(100 + percentage) + 99n) / 100n
+
+/**
+ * Follows a UserOperation until it is included on chain, emitting its
+ * lifecycle events. A UserOperation that stays in the mempool for longer than
+ * `stuckTimeout`, or that is dropped, is replaced by the same UserOperation
+ * with bumped fees, re-signed with the same nonce by the account's
+ * `kernelPluginManager`. A sponsored UserOperation is only replaced when the
+ * `sponsorUserOperation` middleware can sponsor the replacement again. The
+ * receipt of whichever UserOperation gets included is returned. A dropped
+ * UserOperation that can't be replaced throws a {@link KernelBundlerError},
+ * or a `NonceConflictError` when its nonce was used by another UserOperation.
+ *
+ * @param client
+ * @param args - {@link TrackUserOperationParameters}
+ * @returns The receipt of the included UserOperation. {@link TrackUserOperationReturnType}
+ */
+export async function trackUserOperation<
+    entryPoint extends EntryPoint,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined,
+    TAccount extends KernelSmartAccount<entryPoint> | undefined =
+        | KernelSmartAccount<entryPoint>
+        | undefined
+>(
+    client: Client<TTransport, TChain, TAccount>,
+    args: Prettify<TrackUserOperationParameters<entryPoint, TAccount>>
+): Promise<TrackUserOperationReturnType> {
+    const {
+        account: account_ = client.account,
+        middleware,
+        onEvent,
+        pollingInterval = client.pollingInterval,
+        stuckTimeout = 60_000,
+        feeBumpPercentage = 15,
+        maxReplacements = 3,
+        maxFeePerGasLimit,
+        timeout = 300_000
+    } = args
+    if (!account_) throw new AccountOrClientNotFoundError()
+
+    const account = parseAccount(account_) as KernelSmartAccount<entryPoint>
+    const bundlerClient = client as Client<
+        TTransport,
+        TChain,
+        TAccount,
+        BundlerRpcSchema<entryPoint>
+    >
+
+    const submit = async (
+        userOperation: UserOperation<GetEntryPointVersion<entryPoint>>
+    ) =>
+        // Not resolved with `getAction`, the `sendUserOperation` of an account
+        // client would prepare and sign the UserOperation again
+        sendUserOperation(bundlerClient, {
+            userOperation,
+            entryPoint: account.entryPoint
+        })
+
+    let userOperation = args.userOperation
+    const startedAt = Date.now()
+    const tracked: TrackedUserOperation[] = [
+        {
+            hash: args.hash ?? (await submit(userOperation)),
+            submittedAt: Date.now(),
+            seen: false,
+            bundled: false,
+            dropped: false
+        }
+    ]
+    onEvent?.({ type: "submitted", hash: tracked[0].hash, userOperation })
+
+    const replace = async (current: TrackedUserOperation) => {
+        // The paymaster signs over the fees, so a sponsored replacement has to
+        // be sponsored again
+        const sponsorUserOperation =
+            typeof middleware === "object"
+                ? middleware.sponsorUserOperation
+                : undefined
+        if (isSponsored(userOperation) && !sponsorUserOperation) return false
+
+        let replacement = {
+            ...userOperation,
+            maxFeePerGas: bumpFee(
+                userOperation.maxFeePerGas,
+                feeBumpPercentage
+            ),
+            maxPriorityFeePerGas: bumpFee(
+                userOperation.maxPriorityFeePerGas,
+                feeBumpPercentage
+            )
+        }
+        if (typeof middleware === "object" && middleware.gasPrice) {
+            const gasPrice = await middleware.gasPrice()
+            if (gasPrice.maxFeePerGas > replacement.maxFeePerGas) {
+                replacement.maxFeePerGas = gasPrice.maxFeePerGas
+            }
+            if (
+                gasPrice.maxPriorityFeePerGas > replacement.maxPriorityFeePerGas
+            ) {
+                replacement.maxPriorityFeePerGas = gasPrice.maxPriorityFeePerGas
+            }
+        }
+        if (
+            maxFeePerGasLimit !== undefined &&
+            replacement.maxFeePerGas > maxFeePerGasLimit
+        ) {
+            return false
+        }
+        if (isSponsored(replacement) && sponsorUserOperation) {
+            replacement.signature =
+                await account.kernelPluginManager.getDummySignature(replacement)
+            replacement = {
+                ...replacement,
+                ...(await sponsorUserOperation({
+                    userOperation: replacement,
+                    entryPoint: account.entryPoint
+                }))
+            }
+        }
+        replacement.signature =
+            await account.kernelPluginManager.signUserOperation(replacement)
+
+        const hash = await submit(replacement)
+        userOperation = replacement
+        tracked.push({
+            hash,
+            submittedAt: Date.now(),
+            seen: false,
+            bundled: false,
+            dropped: false
+        })
+        onEvent?.({
+            type: "replaced",
+            hash: current.hash,
+            replacementHash: hash,
+            userOperation: replacement
+        })
+        onEvent?.({ type: "submitted", hash, userOperation: replacement })
+        return true
+    }
+
+    // The bundlers may reject a replacement, e.g. when the UserOperation is
+    // about to be bundled. The error is returned then, to try again later
+    const tryReplace = async (
+        current: TrackedUserOperation
+    ): Promise<boolean | KernelError> => {
+        try {
+            return await replace(current)
+        } catch (error) {
+            return getKernelError(error)
+        }
+    }
+
+    while (true) {
+        // A replaced UserOperation can still be the one to get included
+        for (const { hash } of tracked) {
+            const receipt = await getAction(
+                bundlerClient,
+                getUserOperationReceipt,
+                "getUserOperationReceipt"
+            )({ hash })
+            if (receipt) {
+                onEvent?.({
+                    type: receipt.success ? "included" : "reverted",
+                    hash,
+                    receipt
+                })
+                return receipt
+            }
+        }
+
+        const current = tracked[tracked.length - 1]
+        // `getUserOperationByHash` can't parse the null block number of a pending UserOperation
+        const status = await bundlerClient.request({
+            method: "eth_getUserOperationByHash",
+            params: [current.hash]
+        })
+        const replacementsLeft = tracked.length - 1 < maxReplacements
+
+        if (!status) {
+            if (current.seen) {
+                if (!current.dropped) {
+                    current.dropped = true
+                    onEvent?.({ type: "dropped", hash: current.hash })
+                }
+                const replaced = replacementsLeft
+                    ? await tryReplace(current)
+                    : false
+                // The nonce was used by another UserOperation, the tracked
+                // ones have no receipt
+                if (
+                    replaced instanceof KernelError &&
+                    replaced.code === "NONCE_CONFLICT"
+                ) {
+                    throw replaced
+                }
+                if (replaced === false) {
+                    throw new KernelBundlerError(
+                        `UserOperation ${current.hash} was dropped from the mempool`,
+                        { retryable: true }
+                    )
+                }
+            }
+        } else if (status.transactionHash) {
+            current.seen = true
+            if (!current.bundled) {
+                current.bundled = true
+                onEvent?.({
+                    type: "bundled",
+                    hash: current.hash,
+                    transactionHash: status.transactionHash
+                })
+            }
+        } else {
+            if (!current.seen) {
+                current.seen = true
+                onEvent?.({ type: "pending", hash: current.hash })
+            }
+            if (
+                replacementsLeft &&
+                Date.now() - current.submittedAt >= stuckTimeout
+            ) {
+                const replaced = await tryReplace(current)
+                // Give up on replacing once the fee limit is reached
+                if (replaced === false) {
+                    current.submittedAt = Number.POSITIVE_INFINITY
+                } else if (replaced instanceof KernelError) {
+                    current.submittedAt = Date.now()
+                }
+            }
+        }
+
+        if (Date.now() - startedAt >= timeout) {
+            throw new WaitForUserOperationReceiptTimeoutError({
+                hash: current.hash
+            })
+        }
+        await new Promise((resolve) => setTimeout(resolve, pollingInterval))
+    }
+}
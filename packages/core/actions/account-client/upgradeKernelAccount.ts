@@ -0,0 +1,538 @@
+import {
+    type SendTransactionsWithPaymasterParameters,
+    sendTransactions
+} from "permissionless/actions/smartAccount"
+import type {
+    ENTRYPOINT_ADDRESS_V07_TYPE,
+    EntryPoint,
+    Prettify
+} from "permissionless/types"
+import {
+    AccountOrClientNotFoundError,
+    parseAccount
+} from "permissionless/utils"
+import { satisfies } from "semver"
+import {
+    type Address,
+    type Chain,
+    type Client,
+    type Hash,
+    type Hex,
+    type Transport,
+    concatHex,
+    encodeFunctionData,
+    getAbiItem,
+    getAddress,
+    pad,
+    parseAbi,
+    sliceHex,
+    toFunctionSelector,
+    zeroAddress
+} from "viem"
+import {
+    getBlockNumber,
+    getCode,
+    getLogs,
+    getStorageAt,
+    readContract
+} from "viem/actions"
+import { getAction } from "viem/utils"
+import type { KernelSmartAccount } from "../../accounts/index.js"
+import { KernelAccountAbi } from "../../accounts/kernel/abi/KernelAccountAbi.js"
+import {
+    KernelV3AccountAbi,
+    KernelV3InitAbi
+} from "../../accounts/kernel/abi/kernel_v_3_0_0/KernelAccountAbi.js"
+import { KernelV3_1AccountAbi } from "../../accounts/kernel/abi/kernel_v_3_1/KernelAccountAbi.js"
+import { KernelVersionToAddressesMap, VALIDATOR_TYPE } from "../../constants.js"
+import {
+    KernelError,
+    KernelValidationError,
+    UnsupportedKernelVersionError
+} from "../../errors/index.js"
+import type {
+    KERNEL_VERSION_TYPE,
+    KernelValidator,
+    KernelValidatorHook
+} from "../../types/kernel.js"
+import { getDeploymentBlock, getLogsInRanges } from "./getKernelAccountState.js"
+
+export type UpgradeKernelAccountParameters<
+    entryPoint extends EntryPoint,
+    TAccount extends KernelSmartAccount<entryPoint> | undefined =
+        | KernelSmartAccount<entryPoint>
+        | undefined
+> = Prettify<
+    Omit<
+        SendTransactionsWithPaymasterParameters<entryPoint, TAccount>,
+        "transactions"
+    > & {
+        /**
+         * The Kernel version to upgrade to
+         */
+        kernelVersion: KERNEL_VERSION_TYPE
+        /**
+         * The root validator installed in the Kernel v3 format. Defaults to
+         * the v3 ECDSA validator of the owner when the default validator of
+         * a Kernel v2 account is the ECDSA validator, and is required to
+         * upgrade a Kernel v2 account with another default validator
+         */
+        rootValidator?: KernelValidator<ENTRYPOINT_ADDRESS_V07_TYPE>
+        hook?: KernelValidatorHook
+        /**
+         * The validators installed next to the root validator, in the Kernel v3 format
+         */
+        plugins?: KernelValidator<ENTRYPOINT_ADDRESS_V07_TYPE>[]
+        initConfig?: Hex[]
+        /**
+         * Upgrades a Kernel v2 account even though plugins are enabled on it.
+         * The Kernel v2 plugins can't be carried over to Kernel v3, the
+         * upgrade throws unless they are explicitly discarded
+         */
+        discardV2Plugins?: boolean
+        /**
+         * Returns the upgrade plan without sending it
+         */
+        dryRun?: boolean
+    }
+>
+
+export type KernelUpgradePlan = {
+    address: Address
+    currentVersion: KERNEL_VERSION_TYPE
+    currentImplementation: Address
+    targetVersion: KERNEL_VERSION_TYPE
+    targetImplementation: Address
+    /**
+     * Whether the account moves from the EntryPoint v0.6 to the v0.7. The
+     * UserOperations of the upgraded account are sent to the new EntryPoint
+     */
+    entryPointChange: boolean
+    /**
+     * The default validator of a Kernel v2 account, or the root validation id
+     * of a Kernel v3 account
+     */
+    currentRootValidator: Hex
+    rootValidator?: { validationId: Hex; address: Address }
+    plugins: { validationId: Hex; address: Address }[]
+    /**
+     * The plugins enabled on the Kernel v2 account, discarded by the upgrade
+     */
+    discardedPlugins: { selector: Hex; executor: Address; validator: Address }[]
+    calls: { to: Address; value: bigint; data: Hex; description: string }[]
+    warnings: string[]
+}
+
+export type UpgradeKernelAccountReturnType = {
+    plan: KernelUpgradePlan
+    /**
+     * The hash of the upgrade transaction, unless `dryRun` is set
+     */
+    hash?: Hash
+}
+
+// keccak256("eip1967.proxy.implementation") - 1
+const IMPLEMENTATION_SLOT =
+    "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc"
+
+// The Kernel v2 ECDSA validator and its Kernel v3 versions, both keep the
+// owner of the account
+const KERNEL_V2_ECDSA_VALIDATOR: Address =
+    "0xd9AB5096a832b9ce79914329DAEE236f8Eea0390"
+const KERNEL_V3_ECDSA_VALIDATORS: { [key: string]: Address } = {
+    "0.3.0": "0x8104e3Ad430EA6d354d013A6789fDFc71E671c43",
+    "0.3.1": "0x845ADb2C711129d4f3966735eD98a9F09fC4cE57"
+}
+
+const KernelV2ECDSAValidatorAbi = parseAbi([
+    "function ecdsaValidatorStorage(address kernel) view returns (address owner)"
+])
+
+// The selectors a Kernel v2 plugin is usually enabled for with the enable
+// mode, which doesn't emit `ExecutionChanged`
+const KERNEL_V2_EXECUTE_SELECTORS = [
+    toFunctionSelector("execute(address,uint256,bytes,uint8)"),
+    toFunctionSelector("executeBatch((address,uint256,bytes)[])"),
+    toFunctionSelector("executeDelegateCall(address,bytes)")
+]
+
+const getValidationId = (
+    validator: KernelValidator<ENTRYPOINT_ADDRESS_V07_TYPE>
+) =>
+    pad(
+        concatHex([
+            VALIDATOR_TYPE[validator.validatorType],
+            validator.getIdentifier()
+        ]),
+        { size: 21, dir: "right" }
+    )
+
+const isKernelV3 = (version: KERNEL_VERSION_TYPE) =>
+    satisfies(version, ">=0.3.0")
+
+// The executions of a Kernel v2 account that still have a validator, found
+// in the `ExecutionChanged` events and among the execute selectors
+const getKernelV2Plugins = async (
+    client: Client,
+    address: Address
+): Promise<KernelUpgradePlan["discardedPlugins"]> => {
+    const toBlock = await getAction(
+        client,
+        getBlockNumber,
+        "getBlockNumber"
+    )({})
+    const fromBlock = await getDeploymentBlock(client, address, toBlock)
+    const logs = await getLogsInRanges(
+        (fromBlock, toBlock) =>
+            getAction(
+                client,
+                getLogs,
+                "getLogs"
+            )({
+                address,
+                event: getAbiItem({
+                    abi: KernelAccountAbi,
+                    name: "ExecutionChanged"
+                }),
+                fromBlock,
+                toBlock,
+                strict: true
+            }),
+        fromBlock,
+        toBlock
+    )
+    const selectors = [
+        ...new Set([
+            ...KERNEL_V2_EXECUTE_SELECTORS,
+            ...logs.map(({ args }) => args.selector)
+        ])
+    ]
+    const now = Math.floor(Date.now() / 1000)
+    const executions = await Promise.all(
+        selectors.map((selector) =>
+            getAction(
+                client,
+                readContract,
+                "readContract"
+            )({
+                abi: KernelAccountAbi,
+                address,
+                functionName: "getExecution",
+                args: [selector]
+            })
+        )
+    )
+    return executions
+        .map(({ validUntil, executor, validator }, index) => ({
+            selector: selectors[index],
+            executor,
+            validator,
+            expired: validUntil !== 0 && validUntil <= now
+        }))
+        .filter(
+            ({ validator, expired }) => validator !== zeroAddress && !expired
+        )
+        .map(({ selector, executor, validator }) => ({
+            selector,
+            executor,
+            validator
+        }))
+}
+
+/**
+ * Upgrades a Kernel account to a newer implementation. The current
+ * implementation is read from the ERC-1967 slot of the account. Upgrading a
+ * Kernel v2 account to v3 also initializes the v3 storage with the given
+ * root validator, or the v3 ECDSA validator of the owner of an account using
+ * the v2 ECDSA validator, and installs the given plugins, in the same
+ * transaction. The plugins enabled on the Kernel v2 account can't be carried
+ * over, the upgrade throws unless `discardV2Plugins` is set.
+ * The upgraded account is then used with `createKernelAccount` and the
+ * `deployedAccountAddress` of the account, on the EntryPoint v0.7.
+ *
+ * @param client
+ * @param args - {@link UpgradeKernelAccountParameters}
+ * @returns The upgrade plan and the transaction hash. {@link UpgradeKernelAccountReturnType}
+ */
+export async function upgradeKernelAccount<
+    entryPoint extends EntryPoint,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined,
+    TAccount extends KernelSmartAccount<entryPoint> | undefined =
+        | KernelSmartAccount<entryPoint>
+        | undefined
+>(
+    client: Client<TTransport, TChain, TAccount>,
+    args: UpgradeKernelAccountParameters<entryPoint, TAccount>
+): Promise<UpgradeKernelAccountReturnType> {
+    const {
+        account: account_ = client.account,
+        kernelVersion: targetVersion,
+        rootValidator,
+        hook,
+        plugins = [],
+        initConfig = [],
+        discardV2Plugins = false,
+        dryRun = false,
+        ...sendArgs
+    } = args
+    if (!account_) throw new AccountOrClientNotFoundError()
+
+    const account = parseAccount(account_) as KernelSmartAccount<entryPoint>
+    const address = account.address
+    const publicClient = account.client
+    const read = getAction(publicClient, readContract, "readContract")
+
+    const code = await getAction(publicClient, getCode, "getCode")({ address })
+    if (!code || code === "0x") {
+        throw new KernelError(
+            "The account is not deployed, create it with the target Kernel version instead",
+            { code: "ACCOUNT_NOT_DEPLOYED" }
+        )
+    }
+
+    const slot = await getAction(
+        publicClient,
+        getStorageAt,
+        "getStorageAt"
+    )({ address, slot: IMPLEMENTATION_SLOT })
+    const currentImplementation = getAddress(
+        sliceHex(slot ?? pad("0x"), 12, 32)
+    )
+    const currentVersion = (
+        Object.keys(KernelVersionToAddressesMap) as KERNEL_VERSION_TYPE[]
+    ).find(
+        (version) =>
+            currentImplementation !== zeroAddress &&
+            KernelVersionToAddressesMap[
+                version
+            ].accountImplementationAddress.toLowerCase() ===
+                currentImplementation.toLowerCase()
+    )
+    if (!currentVersion) {
+        throw new UnsupportedKernelVersionError(
+            `Unknown Kernel implementation ${currentImplementation}`
+        )
+    }
+    if (!satisfies(targetVersion, `>${currentVersion}`)) {
+        throw new UnsupportedKernelVersionError(
+            `Cannot upgrade Kernel ${currentVersion} to ${targetVersion}`
+        )
+    }
+    const targetImplementation =
+        KernelVersionToAddressesMap[targetVersion].accountImplementationAddress
+    const entryPointChange =
+        !isKernelV3(currentVersion) && isKernelV3(targetVersion)
+
+    for (const validator of [
+        ...(entryPointChange && rootValidator ? [rootValidator] : []),
+        ...plugins
+    ]) {
+        if (!satisfies(targetVersion, validator.supportedKernelVersions)) {
+            throw new UnsupportedKernelVersionError(
+                `Validator ${validator.address} doesn't support Kernel ${targetVersion}`
+            )
+        }
+    }
+
+    const currentRootValidator = isKernelV3(currentVersion)
+        ? await read({
+              abi: KernelV3AccountAbi,
+              address,
+              functionName: "rootValidator"
+          })
+        : await read({
+              abi: KernelAccountAbi,
+              address,
+              functionName: "getDefaultValidator"
+          })
+
+    // The v3 storage of a v2 account is empty, so the upgraded account is
+    // initialized like a new account
+    let rootValidation:
+        | (NonNullable<KernelUpgradePlan["rootValidator"]> & {
+              validatorData: Hex
+          })
+        | undefined
+    if (entryPointChange && rootValidator) {
+        rootValidation = {
+            validationId: getValidationId(rootValidator),
+            address: rootValidator.address,
+            validatorData: await rootValidator.getEnableData(address)
+        }
+    } else if (
+        entryPointChange &&
+        KERNEL_V3_ECDSA_VALIDATORS[targetVersion] &&
+        currentRootValidator.toLowerCase() ===
+            KERNEL_V2_ECDSA_VALIDATOR.toLowerCase()
+    ) {
+        const ecdsaValidator = KERNEL_V3_ECDSA_VALIDATORS[targetVersion]
+        const owner = await read({
+            abi: KernelV2ECDSAValidatorAbi,
+            address: KERNEL_V2_ECDSA_VALIDATOR,
+            functionName: "ecdsaValidatorStorage",
+            args: [address]
+        })
+        rootValidation = {
+            validationId: pad(
+                concatHex([VALIDATOR_TYPE.SECONDARY, ecdsaValidator]),
+                { size: 21, dir: "right" }
+            ),
+            address: ecdsaValidator,
+            validatorData: owner
+        }
+    } else if (entryPointChange) {
+        throw new KernelValidationError(
+            `The default validator ${currentRootValidator} has no known Kernel v3 version, a root validator in the Kernel v3 format is required to upgrade the account`,
+            { code: "VALIDATOR_NOT_SET" }
+        )
+    }
+
+    const discardedPlugins = entryPointChange
+        ? await getKernelV2Plugins(publicClient, address)
+        : []
+    if (discardedPlugins.length > 0 && !discardV2Plugins) {
+        throw new KernelError(
+            "Plugins are enabled on the Kernel v2 account and can't be carried over to Kernel v3",
+            {
+                code: "PLUGIN_NOT_MIGRATED",
+                metaMessages: [
+                    ...discardedPlugins.map(
+                        ({ selector, validator }) =>
+                            `Selector ${selector}: validator ${validator}`
+                    ),
+                    "Install their Kernel v3 version with `plugins` and set `discardV2Plugins` to upgrade the account"
+                ]
+            }
+        )
+    }
+
+    const warnings: string[] = []
+    const calls: KernelUpgradePlan["calls"] = [
+        {
+            to: address,
+            value: 0n,
+            data: encodeFunctionData({
+                abi: isKernelV3(currentVersion)
+                    ? KernelV3AccountAbi
+                    : KernelAccountAbi,
+                functionName: "upgradeTo",
+                args: [targetImplementation]
+            }),
+            description: `Upgrade the implementation from Kernel ${currentVersion} to ${targetVersion}`
+        }
+    ]
+
+    if (rootValidation) {
+        const { validationId, validatorData } = rootValidation
+        const hookAddress = hook ? hook.getIdentifier() : zeroAddress
+        const hookData = hook ? await hook.getEnableData(address) : "0x"
+        calls.push({
+            to: address,
+            value: 0n,
+            data:
+                targetVersion === "0.3.0"
+                    ? encodeFunctionData({
+                          abi: KernelV3InitAbi,
+                          functionName: "initialize",
+                          args: [
+                              validationId,
+                              hookAddress,
+                              validatorData,
+                              hookData
+                          ]
+                      })
+                    : encodeFunctionData({
+                          abi: KernelV3_1AccountAbi,
+                          functionName: "initialize",
+                          args: [
+                              validationId,
+                              hookAddress,
+                              validatorData,
+                              hookData,
+                              initConfig
+                          ]
+                      }),
+            description: `Install ${rootValidation.address} as the root validator`
+        })
+    } else if (rootValidator) {
+        warnings.push(
+            "The root validator of a Kernel v3 account is kept, `rootValidator` is ignored"
+        )
+    }
+    if (discardedPlugins.length > 0) {
+        warnings.push(
+            `The plugins enabled on the Kernel v2 account for ${discardedPlugins
+                .map(({ selector }) => selector)
+                .join(", ")} are discarded`
+        )
+    }
+
+    const installedPlugins = await Promise.all(
+        plugins.map(async (plugin) => ({
+            validationId: getValidationId(plugin),
+            address: plugin.address,
+            enableData: await plugin.getEnableData(address)
+        }))
+    )
+    if (installedPlugins.length > 0) {
+        // A freshly initialized account is at nonce 1
+        const nonce = entryPointChange
+            ? 1
+            : await read({
+                  abi: KernelV3AccountAbi,
+                  address,
+                  functionName: "currentNonce"
+              })
+        calls.push({
+            to: address,
+            value: 0n,
+            data: encodeFunctionData({
+                abi: KernelV3AccountAbi,
+                functionName: "installValidations",
+                args: [
+                    installedPlugins.map(({ validationId }) => validationId),
+                    installedPlugins.map(() => ({ nonce, hook: zeroAddress })),
+                    installedPlugins.map(({ enableData }) => enableData),
+                    installedPlugins.map((): Hex => "0x")
+                ]
+            }),
+            description: `Install the validators ${installedPlugins
+                .map(({ address }) => address)
+                .join(", ")}`
+        })
+    }
+
+    const plan: KernelUpgradePlan = {
+        address,
+        currentVersion,
+        currentImplementation,
+        targetVersion,
+        targetImplementation,
+        entryPointChange,
+        currentRootValidator,
+        rootValidator: rootValidation && {
+            validationId: rootValidation.validationId,
+            address: rootValidation.address
+        },
+        plugins: installedPlugins.map(({ validationId, address }) => ({
+            validationId,
+            address
+        })),
+        discardedPlugins,
+        calls,
+        warnings
+    }
+    if (dryRun) return { plan }
+
+    const hash = await getAction(
+        client,
+        sendTransactions<TChain, TAccount, entryPoint>,
+        "sendTransactions"
+    )({
+        ...sendArgs,
+        transactions: calls.map(({ to, value, data }) => ({ to, value, data })),
+        account
+    } as SendTransactionsWithPaymasterParameters<entryPoint, TAccount>)
+    return { plan, hash }
+}
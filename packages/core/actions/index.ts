@@ -25,3 +25,39 @@ export {
     type EstimateGasInERC20Parameters,
     type EstimateGasInERC20ReturnType
 } from "./paymaster/estimateGasInERC20.js"
+
+export {
+    trackUserOperation,
+    type TrackUserOperationParameters,
+    type TrackUserOperationReturnType,
+    type UserOperationLifecycleEvent
+} from "./account-client/trackUserOperation.js"
+
+export {
+    reserveNonce,
+    releaseNonce,
+    resetNonceLane,
+    type NonceLaneParameters,
+    type ReleaseNonceParameters
+} from "./account-client/nonceLanes.js"
+
+export {
+    simulateUserOperation,
+    type SimulateUserOperationParameters,
+    type SimulateUserOperationReturnType
+} from "./account-client/simulateUserOperation.js"
+
+export {
+    getKernelAccountState,
+    type GetKernelAccountStateParameters,
+    type GetKernelAccountStateReturnType,
+    type KernelValidatorState,
+    type KernelPermissionState
+} from "./account-client/getKernelAccountState.js"
+
+export {
+    upgradeKernelAccount,
+    type UpgradeKernelAccountParameters,
+    type UpgradeKernelAccountReturnType,
+    type KernelUpgradePlan
+} from "./account-client/upgradeKernelAccount.js"
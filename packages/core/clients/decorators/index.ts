@@ -2,3 +2,9 @@ export {
     zerodevPaymasterActions,
     type ZeroDevPaymasterClientActions
 } from "./kernel.js"
+export {
+    kernelAccountClientMiddlewareActions,
+    composeMiddleware,
+    type KernelAccountClientMiddleware,
+    type KernelAccountClientMiddlewareActions
+} from "./middleware.js"
@@ -3,6 +3,11 @@ import type { Middleware } from "permissionless/actions/smartAccount"
 import type { EntryPoint, Prettify } from "permissionless/types"
 import type { Chain, Client, Hash, Transport } from "viem"
 import type { KernelSmartAccount } from "../../accounts/index.js"
+import {
+    type GetKernelAccountStateParameters,
+    type GetKernelAccountStateReturnType,
+    getKernelAccountState
+} from "../../actions/account-client/getKernelAccountState.js"
 import {
     type GetKernelV3ModuleCurrentNonceParameters,
     getKernelV3ModuleCurrentNonce
@@ -15,12 +20,35 @@ import {
     type InvalidateNonceParameters,
     invalidateNonce
 } from "../../actions/account-client/invalidateNonce.js"
+import {
+    type NonceLaneParameters,
+    type ReleaseNonceParameters,
+    releaseNonce,
+    reserveNonce,
+    resetNonceLane
+} from "../../actions/account-client/nonceLanes.js"
+import {
+    type SimulateUserOperationParameters,
+    type SimulateUserOperationReturnType,
+    simulateUserOperation
+} from "../../actions/account-client/simulateUserOperation.js"
+import {
+    type UpgradeKernelAccountParameters,
+    type UpgradeKernelAccountReturnType,
+    upgradeKernelAccount
+} from "../../actions/account-client/upgradeKernelAccount.js"
 import type {
     SignUserOperationParameters,
     SignUserOperationReturnType,
+    TrackUserOperationParameters,
+    TrackUserOperationReturnType,
     UninstallPluginParameters
 } from "../../actions/index.js"
-import { signUserOperation, uninstallPlugin } from "../../actions/index.js"
+import {
+    signUserOperation,
+    trackUserOperation,
+    uninstallPlugin
+} from "../../actions/index.js"
 import {
     type EstimateGasInERC20Parameters,
     type EstimateGasInERC20ReturnType,
@@ -150,6 +178,71 @@ export type KernelAccountClientActions<
             TChainOverride
         >
     ) => Promise<number>
+    /**
+     * Follows a signed UserOperation until it is included on chain, emitting its lifecycle events.
+     * A UserOperation stuck in the mempool is replaced by the same UserOperation with bumped fees.
+     *
+     * @param args - {@link TrackUserOperationParameters}
+     * @returns The receipt of the included UserOperation. {@link TrackUserOperationReturnType}
+     */
+    trackUserOperation: (
+        args: TrackUserOperationParameters<entryPoint, TSmartAccount>
+    ) => Promise<TrackUserOperationReturnType>
+    /**
+     * Reserves the next nonce of a lane, a nonce key dedicated to a logical stream of UserOperations.
+     * The nonces are tracked locally, so several UserOperations can be prepared concurrently.
+     *
+     * @param args - {@link NonceLaneParameters}
+     * @returns The nonce to set on the UserOperation
+     */
+    reserveNonce: (
+        args: NonceLaneParameters<entryPoint, TSmartAccount>
+    ) => Promise<bigint>
+    /**
+     * Hands back a reserved nonce whose UserOperation could not be sent.
+     *
+     * @param args - {@link ReleaseNonceParameters}
+     */
+    releaseNonce: (
+        args: ReleaseNonceParameters<entryPoint, TSmartAccount>
+    ) => void
+    /**
+     * Forgets the nonces in flight on a lane, e.g. after one of its UserOperations was dropped.
+     *
+     * @param args - {@link NonceLaneParameters}
+     */
+    resetNonceLane: (
+        args: NonceLaneParameters<entryPoint, TSmartAccount>
+    ) => void
+    /**
+     * Simulates the validation and the execution of a UserOperation with the `simulateHandleOp` of the EntryPoint, with optional state overrides.
+     *
+     * @param args - {@link SimulateUserOperationParameters}
+     * @returns The validation gas used, the decoded revert errors and the token intents decoded from the calldata. {@link SimulateUserOperationReturnType}
+     */
+    simulateUserOperation: (
+        args: SimulateUserOperationParameters<entryPoint, TSmartAccount>
+    ) => Promise<SimulateUserOperationReturnType>
+    /**
+     * Enumerates the root validator, the installed validators and permissions,
+     * the executors, the hooks and the selector mappings of a Kernel v3 account.
+     *
+     * @param args - {@link GetKernelAccountStateParameters}
+     * @returns The installed modules and their config. {@link GetKernelAccountStateReturnType}
+     */
+    getKernelAccountState: (
+        args?: GetKernelAccountStateParameters<entryPoint, TSmartAccount>
+    ) => Promise<GetKernelAccountStateReturnType>
+    /**
+     * Upgrades the Kernel implementation of the account, re-installing the root validator
+     * and the plugins in the Kernel v3 format when upgrading a Kernel v2 account.
+     *
+     * @param args - {@link UpgradeKernelAccountParameters}
+     * @returns The upgrade plan and, unless `dryRun` is set, the [Transaction](https://viem.sh/docs/glossary/terms.html#transaction) hash. {@link UpgradeKernelAccountReturnType}
+     */
+    upgradeKernelAccount: (
+        args: UpgradeKernelAccountParameters<entryPoint, TSmartAccount>
+    ) => Promise<UpgradeKernelAccountReturnType>
 }
 
 export function kernelAccountClientActions<entryPoint extends EntryPoint>({
@@ -199,6 +292,46 @@ export function kernelAccountClientActions<entryPoint extends EntryPoint>({
                 entryPoint,
                 TChain,
                 TSmartAccount
-            >)
+            >),
+        trackUserOperation: async (args) =>
+            trackUserOperation<entryPoint, TTransport, TChain, TSmartAccount>(
+                client,
+                {
+                    ...args,
+                    middleware
+                } as TrackUserOperationParameters<entryPoint, TSmartAccount>
+            ),
+        reserveNonce: async (args) => reserveNonce(client, args),
+        releaseNonce: (args) => releaseNonce(client, args),
+        resetNonceLane: (args) => resetNonceLane(client, args),
+        simulateUserOperation: async (args) =>
+            simulateUserOperation<
+                entryPoint,
+                TTransport,
+                TChain,
+                TSmartAccount
+            >(client, args),
+        getKernelAccountState: async (args) =>
+            getKernelAccountState<
+                entryPoint,
+                TTransport,
+                TChain,
+                TSmartAccount
+            >(
+                client,
+                args ??
+                    ({} as GetKernelAccountStateParameters<
+                        entryPoint,
+                        TSmartAccount
+                    >)
+            ),
+        upgradeKernelAccount: async (args) =>
+            upgradeKernelAccount<entryPoint, TTransport, TChain, TSmartAccount>(
+                client,
+                {
+                    ...args,
+                    middleware
+                } as UpgradeKernelAccountParameters<entryPoint, TSmartAccount>
+            )
     })
 }
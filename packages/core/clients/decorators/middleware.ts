@@ -0,0 +1,290 @@
+import type { SmartAccount } from "permissionless/accounts/types"
+import { sendUserOperation as sendUserOperationBundler } from "permissionless/actions"
+import {
+    type Middleware,
+    type SendUserOperationParameters,
+    prepareUserOperationRequest
+} from "permissionless/actions/smartAccount"
+import type {
+    PrepareUserOperationRequestParameters,
+    PrepareUserOperationRequestReturnType,
+    SponsorUserOperationReturnType
+} from "permissionless/actions/smartAccount/prepareUserOperationRequest"
+import type {
+    EntryPoint,
+    GetEntryPointVersion,
+    UserOperation
+} from "permissionless/types"
+import type { StateOverrides } from "permissionless/types/bundler"
+import {
+    AccountOrClientNotFoundError,
+    parseAccount
+} from "permissionless/utils"
+import type { Chain, Client, Hash, Transport } from "viem"
+import type { SignUserOperationReturnType } from "../../actions/account-client/signUserOperation.js"
+
+type MiddlewareStageArgs<entryPoint extends EntryPoint, TUserOperation> = {
+    userOperation: TUserOperation
+    entryPoint: entryPoint
+    account: SmartAccount<entryPoint>
+}
+
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * A stage of the KernelAccountClient middleware pipeline.
+ * Every hook is optional; the hooks returning a UserOperation replace the one
+ * passed to the next stage, returning nothing keeps it unchanged.
+ */
+export type KernelAccountClientMiddleware<entryPoint extends EntryPoint> = {
+    name?: string
+    /**
+     * Runs on the partial UserOperation, before the gas price, the gas limits
+     * and the paymaster data are resolved
+     */
+    beforeSponsorUserOperation?: (
+        args: MiddlewareStageArgs<
+            entryPoint,
+            PrepareUserOperationRequestParameters<entryPoint>["userOperation"]
+        >
+    ) => MaybePromise<
+        | PrepareUserOperationRequestParameters<entryPoint>["userOperation"]
+        | undefined
+    >
+    /**
+     * Gas price oracle. When several stages set it, the last one wins
+     */
+    gasPrice?: () => Promise<{
+        maxFeePerGas: bigint
+        maxPriorityFeePerGas: bigint
+    }>
+    /**
+     * Paymaster. When several stages set it, the last one wins
+     */
+    sponsorUserOperation?: (args: {
+        userOperation: UserOperation<GetEntryPointVersion<entryPoint>>
+        entryPoint: entryPoint
+    }) => Promise<SponsorUserOperationReturnType<entryPoint>>
+    /**
+     * Runs on the prepared (gas and paymaster filled) UserOperation
+     */
+    afterSponsorUserOperation?: (
+        args: MiddlewareStageArgs<
+            entryPoint,
+            UserOperation<GetEntryPointVersion<entryPoint>>
+        >
+    ) => MaybePromise<
+        UserOperation<GetEntryPointVersion<entryPoint>> | undefined
+    >
+    /**
+     * Runs right before the UserOperation is signed by the account
+     */
+    beforeSignUserOperation?: (
+        args: MiddlewareStageArgs<
+            entryPoint,
+            UserOperation<GetEntryPointVersion<entryPoint>>
+        >
+    ) => MaybePromise<
+        UserOperation<GetEntryPointVersion<entryPoint>> | undefined
+    >
+    /**
+     * Runs on the signed UserOperation, before it is sent to the bundler
+     */
+    afterSignUserOperation?: (
+        args: MiddlewareStageArgs<
+            entryPoint,
+            UserOperation<GetEntryPointVersion<entryPoint>>
+        >
+    ) => MaybePromise<
+        UserOperation<GetEntryPointVersion<entryPoint>> | undefined
+    >
+}
+
+type UserOperationStage = Extract<
+    keyof KernelAccountClientMiddleware<EntryPoint>,
+    | "beforeSponsorUserOperation"
+    | "afterSponsorUserOperation"
+    | "beforeSignUserOperation"
+    | "afterSignUserOperation"
+>
+
+const runStage = async <entryPoint extends EntryPoint, TUserOperation>(
+    middlewares: KernelAccountClientMiddleware<entryPoint>[],
+    stage: UserOperationStage,
+    args: MiddlewareStageArgs<entryPoint, TUserOperation>
+): Promise<TUserOperation> => {
+    let userOperation = args.userOperation
+    for (const middleware of middlewares) {
+        const handler = middleware[stage] as
+            | ((
+                  args: MiddlewareStageArgs<entryPoint, TUserOperation>
+              ) => MaybePromise<TUserOperation | undefined>)
+            | undefined
+        if (!handler) continue
+        userOperation =
+            (await handler({ ...args, userOperation })) ?? userOperation
+    }
+    return userOperation
+}
+
+/**
+ * Merges the gas price oracle and paymaster of the pipeline stages into the
+ * permissionless middleware. Stages take precedence over `middleware`, and
+ * later stages over earlier ones.
+ */
+export const composeMiddleware = <entryPoint extends EntryPoint>(
+    middlewares: KernelAccountClientMiddleware<entryPoint>[],
+    middleware?: Middleware<entryPoint>["middleware"]
+): Middleware<entryPoint>["middleware"] => {
+    // A function middleware prepares the whole UserOperation by itself
+    if (typeof middleware === "function") return middleware
+
+    const gasPrice = [...middlewares]
+        .reverse()
+        .find((stage) => stage.gasPrice)?.gasPrice
+    const sponsorUserOperation = [...middlewares]
+        .reverse()
+        .find((stage) => stage.sponsorUserOperation)?.sponsorUserOperation
+
+    if (!gasPrice && !sponsorUserOperation) return middleware
+    return {
+        ...middleware,
+        gasPrice: gasPrice ?? middleware?.gasPrice,
+        sponsorUserOperation:
+            sponsorUserOperation ?? middleware?.sponsorUserOperation
+    }
+}
+
+export type KernelAccountClientMiddlewareActions<
+    entryPoint extends EntryPoint
+> = {
+    prepareUserOperationRequest: (
+        args: PrepareUserOperationRequestParameters<entryPoint>,
+        stateOverrides?: StateOverrides
+    ) => Promise<PrepareUserOperationRequestReturnType<entryPoint>>
+    signUserOperation: (
+        args: PrepareUserOperationRequestParameters<entryPoint>
+    ) => Promise<SignUserOperationReturnType<entryPoint>>
+    sendUserOperation: (
+        args: SendUserOperationParameters<entryPoint>
+    ) => Promise<Hash>
+}
+
+/**
+ * Runs the prepare, sign and send steps of a UserOperation through the given
+ * middleware pipeline. The returned actions call permissionless directly so
+ * they can override the ones the other decorators resolve with `getAction`.
+ */
+export function kernelAccountClientMiddlewareActions<
+    entryPoint extends EntryPoint
+>({
+    middlewares,
+    middleware
+}: Middleware<entryPoint> & {
+    middlewares: KernelAccountClientMiddleware<entryPoint>[]
+}) {
+    return <
+        TTransport extends Transport,
+        TChain extends Chain | undefined = Chain | undefined,
+        TSmartAccount extends SmartAccount<entryPoint> | undefined =
+            | SmartAccount<entryPoint>
+            | undefined
+    >(
+        client: Client<TTransport, TChain, TSmartAccount>
+    ): KernelAccountClientMiddlewareActions<entryPoint> => {
+        const composedMiddleware = composeMiddleware(middlewares, middleware)
+
+        const prepare = async (
+            args: PrepareUserOperationRequestParameters<entryPoint>,
+            stateOverrides?: StateOverrides
+        ) => {
+            const { account: account_ = client.account } = args
+            if (!account_) throw new AccountOrClientNotFoundError()
+            const account = parseAccount(account_) as SmartAccount<entryPoint>
+
+            const partialUserOperation = await runStage(
+                middlewares,
+                "beforeSponsorUserOperation",
+                {
+                    userOperation: args.userOperation,
+                    entryPoint: account.entryPoint,
+                    account
+                }
+            )
+            const userOperation = await prepareUserOperationRequest<
+                entryPoint,
+                TTransport,
+                TChain,
+                TSmartAccount
+            >(
+                client,
+                {
+                    ...args,
+                    userOperation: partialUserOperation,
+                    account,
+                    middleware: composedMiddleware
+                } as PrepareUserOperationRequestParameters<
+                    entryPoint,
+                    TSmartAccount
+                >,
+                stateOverrides
+            )
+            return {
+                account,
+                userOperation: await runStage(
+                    middlewares,
+                    "afterSponsorUserOperation",
+                    {
+                        userOperation: userOperation as UserOperation<
+                            GetEntryPointVersion<entryPoint>
+                        >,
+                        entryPoint: account.entryPoint,
+                        account
+                    }
+                )
+            }
+        }
+
+        const sign = async (
+            args: PrepareUserOperationRequestParameters<entryPoint>
+        ) => {
+            const { account, userOperation: preparedUserOperation } =
+                await prepare(args)
+            const userOperation = await runStage(
+                middlewares,
+                "beforeSignUserOperation",
+                {
+                    userOperation: preparedUserOperation,
+                    entryPoint: account.entryPoint,
+                    account
+                }
+            )
+            userOperation.signature =
+                await account.signUserOperation(userOperation)
+            return {
+                account,
+                userOperation: await runStage(
+                    middlewares,
+                    "afterSignUserOperation",
+                    { userOperation, entryPoint: account.entryPoint, account }
+                )
+            }
+        }
+
+        return {
+            prepareUserOperationRequest: async (args, stateOverrides) =>
+                (await prepare(args, stateOverrides))
+                    .userOperation as PrepareUserOperationRequestReturnType<entryPoint>,
+            signUserOperation: async (args) =>
+                (await sign(args))
+                    .userOperation as SignUserOperationReturnType<entryPoint>,
+            sendUserOperation: async (args) => {
+                const { account, userOperation } = await sign(args)
+                return sendUserOperationBundler(client, {
+                    userOperation,
+                    entryPoint: account.entryPoint
+                })
+            }
+        }
+    }
+}
@@ -1,8 +1,114 @@
+import { sendUserOperation as sendUserOperationBundler } from "permissionless/actions"
+import {
+    deployContract,
+    sendTransaction,
+    sendTransactions,
+    writeContract
+} from "permissionless/actions/smartAccount"
 import type { EntryPoint } from "permissionless/types"
-import type { Chain, Transport } from "viem"
+import {
+    AccountOrClientNotFoundError,
+    parseAccount
+} from "permissionless/utils"
+import type { Chain, Hash, Transport } from "viem"
 import type { KernelSmartAccount } from "../accounts/index.js"
+import { invalidateNonce } from "../actions/account-client/invalidateNonce.js"
+import { trackUserOperation } from "../actions/account-client/trackUserOperation.js"
+import { uninstallPlugin } from "../actions/account-client/uninstallPlugin.js"
+import { upgradeKernelAccount } from "../actions/account-client/upgradeKernelAccount.js"
+import { getKernelError } from "../errors/getKernelError.js"
 import type { KernelAccountClient } from "./kernelAccountClient.js"
 
+export type FallbackRetryPolicy = {
+    /**
+     * Number of attempts before giving up, the endpoints are cycled through
+     * in ranking order. Defaults to the number of endpoints
+     */
+    maxAttempts?: number
+    /**
+     * Delay in milliseconds before the next attempt
+     */
+    retryDelay?: number
+    /**
+     * Whether the next endpoint should be tried after this error. Errors that
+     * are not retried don't count against the endpoint health. Defaults to
+     * the `retryable` flag of {@link getKernelError}, so the UserOperations
+     * rejected by the EntryPoint are not resubmitted
+     */
+    shouldRetry?: (error: Error) => boolean
+}
+
+export type FallbackKernelAccountClientOptions = {
+    onError?: (error: Error, clientUrl: string) => Promise<void>
+    /**
+     * Relative preference of each client, defaults to 1 for all of them
+     */
+    weights?: number[]
+    /**
+     * Consecutive failures after which the circuit of an endpoint opens
+     */
+    failureThreshold?: number
+    /**
+     * Time in milliseconds an open circuit waits before letting a trial call through
+     */
+    cooldown?: number
+    defaultRetryPolicy?: FallbackRetryPolicy
+    /**
+     * Retry policies keyed by action name, e.g. `sendUserOperation`
+     */
+    retryPolicies?: Record<string, FallbackRetryPolicy>
+}
+
+export type FallbackEndpointHealth = {
+    url: string
+    weight: number
+    /**
+     * Exponentially weighted success rate, between 0 and 1
+     */
+    successRate: number
+    /**
+     * Exponentially weighted latency of the successful calls, in milliseconds
+     */
+    latency: number
+    consecutiveFailures: number
+    circuit: "closed" | "open" | "half-open"
+    openedAt?: number
+    score: number
+}
+
+export type FallbackKernelAccountClient<
+    TEntryPoint extends EntryPoint,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined,
+    TSmartAccount extends KernelSmartAccount<TEntryPoint> | undefined =
+        | KernelSmartAccount<TEntryPoint>
+        | undefined
+> = KernelAccountClient<TEntryPoint, TTransport, TChain, TSmartAccount> & {
+    /**
+     * Health of the endpoints, in ranking order
+     */
+    getEndpointsHealth: () => FallbackEndpointHealth[]
+}
+
+const SMOOTHING_FACTOR = 0.3
+
+// Actions sending a UserOperation are never retried as a whole, they run once
+// against the fallback client so that the UserOperation is only signed once
+const SENDING_ACTIONS: Record<
+    string,
+    // biome-ignore lint/suspicious/noExplicitAny: expected any
+    (client: any, args: any) => Promise<unknown>
+> = {
+    sendTransaction,
+    sendTransactions,
+    writeContract,
+    deployContract,
+    uninstallPlugin,
+    invalidateNonce,
+    trackUserOperation,
+    upgradeKernelAccount
+}
+
 export const createFallbackKernelAccountClient = <
     TEntryPoint extends EntryPoint,
     TTransport extends Transport,
@@ -12,71 +118,212 @@ export const createFallbackKernelAccountClient = <
     clients: Array<
         KernelAccountClient<TEntryPoint, TTransport, TChain, TSmartAccount>
     >,
-    onError?: (error: Error, clientUrl: string) => Promise<void>
-): KernelAccountClient<TEntryPoint, TTransport, TChain, TSmartAccount> => {
-    // Function to create a fallback method for a given property.
-    // This method will try each client in sequence until one succeeds or all fail.
-    function createFallbackMethod(prop: PropertyKey) {
-        // biome-ignore lint/suspicious/noExplicitAny: expected any
-        return async (...args: any[]) => {
-            for (let i = 0; i < clients.length; i++) {
-                try {
-                    const method = Reflect.get(clients[i], prop)
-                    if (typeof method === "function") {
-                        return await method(...args)
-                    }
-                } catch (error) {
-                    console.error(
-                        `Action ${String(prop)} failed with client ${
-                            clients[i].transport.url
-                        }, trying next if available.`
+    onErrorOrOptions?:
+        | ((error: Error, clientUrl: string) => Promise<void>)
+        | FallbackKernelAccountClientOptions
+): FallbackKernelAccountClient<
+    TEntryPoint,
+    TTransport,
+    TChain,
+    TSmartAccount
+> => {
+    const options =
+        typeof onErrorOrOptions === "function"
+            ? { onError: onErrorOrOptions }
+            : onErrorOrOptions ?? {}
+    const {
+        onError,
+        weights = [],
+        failureThreshold = 3,
+        cooldown = 30_000,
+        defaultRetryPolicy = {},
+        retryPolicies = {}
+    } = options
+
+    const health: FallbackEndpointHealth[] = clients.map((client, i) => ({
+        url: client.transport.url,
+        weight: weights[i] ?? 1,
+        successRate: 1,
+        latency: 0,
+        consecutiveFailures: 0,
+        circuit: "closed",
+        score: 0
+    }))
+
+    const refresh = (endpoint: FallbackEndpointHealth) => {
+        if (
+            endpoint.circuit === "open" &&
+            Date.now() - (endpoint.openedAt ?? 0) >= cooldown
+        ) {
+            endpoint.circuit = "half-open"
+        }
+        endpoint.score =
+            (endpoint.weight * endpoint.successRate * 1000) /
+            (1000 + endpoint.latency)
+    }
+
+    // Available endpoints by decreasing score, then the open circuits by how
+    // long ago they opened. Ties keep the order of `clients`
+    const rank = () => {
+        for (const endpoint of health) refresh(endpoint)
+        return clients
+            .map((_, i) => i)
+            .sort((a, b) => {
+                const openA = health[a].circuit === "open"
+                const openB = health[b].circuit === "open"
+                if (openA !== openB) return openA ? 1 : -1
+                if (openA)
+                    return (health[a].openedAt ?? 0) - (health[b].openedAt ?? 0)
+                return health[b].score - health[a].score
+            })
+    }
+
+    const recordSuccess = (index: number, latency: number) => {
+        const endpoint = health[index]
+        endpoint.successRate =
+            endpoint.successRate * (1 - SMOOTHING_FACTOR) + SMOOTHING_FACTOR
+        endpoint.latency =
+            endpoint.latency === 0
+                ? latency
+                : endpoint.latency * (1 - SMOOTHING_FACTOR) +
+                  latency * SMOOTHING_FACTOR
+        endpoint.consecutiveFailures = 0
+        endpoint.circuit = "closed"
+        endpoint.openedAt = undefined
+    }
+
+    const recordFailure = (index: number) => {
+        const endpoint = health[index]
+        endpoint.successRate *= 1 - SMOOTHING_FACTOR
+        endpoint.consecutiveFailures++
+        if (
+            endpoint.circuit === "half-open" ||
+            endpoint.consecutiveFailures >= failureThreshold
+        ) {
+            endpoint.circuit = "open"
+            endpoint.openedAt = Date.now()
+        }
+    }
+
+    // Runs the action against the clients in ranking order until one succeeds
+    // or the retry policy of the action gives up
+    const withFallback = async <T>(
+        action: string,
+        fn: (
+            client: KernelAccountClient<
+                TEntryPoint,
+                TTransport,
+                TChain,
+                TSmartAccount
+            >
+        ) => Promise<T>
+    ): Promise<T> => {
+        const {
+            maxAttempts = clients.length,
+            retryDelay,
+            shouldRetry = (error: Error) => getKernelError(error).retryable
+        } = {
+            ...defaultRetryPolicy,
+            ...retryPolicies[action]
+        }
+        const order = rank()
+        for (let attempt = 0; ; attempt++) {
+            const index = order[attempt % order.length]
+            const start = Date.now()
+            try {
+                const result = await fn(clients[index])
+                recordSuccess(index, Date.now() - start)
+                return result
+            } catch (error) {
+                if (onError !== undefined) {
+                    await onError(error as Error, clients[index].transport.url)
+                }
+                if (!shouldRetry(error as Error)) throw error
+                recordFailure(index)
+                if (attempt + 1 >= maxAttempts) throw error
+                if (retryDelay) {
+                    await new Promise((resolve) =>
+                        setTimeout(resolve, retryDelay)
                     )
-                    // Call the error handler if provided.
-                    if (onError !== undefined) {
-                        await onError(error as Error, clients[i].transport.url)
-                    }
-                    if (i === clients.length - 1) {
-                        throw error
-                    }
                 }
             }
         }
     }
 
+    // The UserOperation is signed once and the very same signed UserOperation
+    // is submitted to the next bundler on failure, so a UserOperation accepted
+    // by a bundler can't be resubmitted elsewhere under a different hash
+    // biome-ignore lint/suspicious/noExplicitAny: expected any
+    const sendUserOperation = async (args: any): Promise<Hash> => {
+        const { account: account_ = clients[0].account } = args
+        if (!account_) throw new AccountOrClientNotFoundError()
+        const account = parseAccount(
+            account_
+        ) as KernelSmartAccount<TEntryPoint>
+
+        const userOperation = await withFallback(
+            "signUserOperation",
+            (client) => client.signUserOperation(args)
+        )
+        return withFallback("sendUserOperation", (client) =>
+            sendUserOperationBundler(client, {
+                userOperation,
+                entryPoint: account.entryPoint
+            })
+        )
+    }
+
+    // biome-ignore lint/suspicious/noExplicitAny: expected any
+    const extensions: Record<PropertyKey, any> = {}
+
     const proxyClient = new Proxy(clients[0], {
         get(_target, prop, receiver) {
+            if (Object.prototype.hasOwnProperty.call(extensions, prop))
+                return extensions[prop as string]
             if (prop === "extend") {
                 // biome-ignore lint/suspicious/noExplicitAny: expected any
                 return (fn: any) => {
-                    const modifications = fn(proxyClient)
-                    for (const [key, modification] of Object.entries(
-                        modifications
-                    )) {
-                        if (typeof modification === "function") {
-                            // biome-ignore lint/suspicious/noExplicitAny: expected any
-                            ;(proxyClient as any)[key] = async (
-                                // biome-ignore lint/suspicious/noExplicitAny: expected any
-                                ...args: any[]
-                            ) => {
-                                return modification(...args)
-                            }
-                        } else {
-                            console.error(
-                                `Expected a function for modification of ${key}, but received type ${typeof modification}`
-                            )
-                        }
-                    }
+                    Object.assign(extensions, fn(proxyClient))
                     return proxyClient
                 }
             }
+            if (prop === "use") {
+                // biome-ignore lint/suspicious/noExplicitAny: expected any
+                return (middleware: any) =>
+                    createFallbackKernelAccountClient(
+                        clients.map((client) => client.use(middleware)),
+                        options
+                    )
+            }
+            if (prop === "getEndpointsHealth") {
+                return () =>
+                    rank().map((index) => ({
+                        ...health[index]
+                    }))
+            }
+            if (prop === "sendUserOperation") return sendUserOperation
+            if (Object.prototype.hasOwnProperty.call(SENDING_ACTIONS, prop)) {
+                // biome-ignore lint/suspicious/noExplicitAny: expected any
+                return (args: any) =>
+                    SENDING_ACTIONS[prop as string](proxyClient, args)
+            }
 
             const value = Reflect.get(_target, prop, receiver)
             if (typeof value === "function") {
-                return createFallbackMethod(prop)
+                // biome-ignore lint/suspicious/noExplicitAny: expected any
+                return (...args: any[]) =>
+                    withFallback(String(prop), (client) =>
+                        Reflect.get(client, prop)(...args)
+                    )
             }
             return value
         }
-    })
+    }) as FallbackKernelAccountClient<
+        TEntryPoint,
+        TTransport,
+        TChain,
+        TSmartAccount
+    >
 
     return proxyClient
 }
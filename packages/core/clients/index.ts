@@ -8,4 +8,16 @@ export {
     type KernelAccountClient
 } from "./kernelAccountClient.js"
 
-export { createFallbackKernelAccountClient } from "./fallbackKernelAccountClient.js"
+export {
+    createFallbackKernelAccountClient,
+    type FallbackKernelAccountClient,
+    type FallbackKernelAccountClientOptions,
+    type FallbackRetryPolicy,
+    type FallbackEndpointHealth
+} from "./fallbackKernelAccountClient.js"
+export {
+    kernelAccountClientMiddlewareActions,
+    composeMiddleware,
+    type KernelAccountClientMiddleware,
+    type KernelAccountClientMiddlewareActions
+} from "./decorators/middleware.js"
@@ -17,6 +17,11 @@ import {
     type KernelAccountClientActions,
     kernelAccountClientActions
 } from "./decorators/kernel.js"
+import {
+    type KernelAccountClientMiddleware,
+    composeMiddleware,
+    kernelAccountClientMiddlewareActions
+} from "./decorators/middleware.js"
 import { isProviderSet, setPimlicoAsProvider } from "./utils.js"
 
 export type KernelAccountClient<
@@ -31,7 +36,14 @@ export type KernelAccountClient<
     chain,
     account,
     BundlerRpcSchema<entryPoint>,
-    KernelAccountClientActions<entryPoint, chain, account>
+    KernelAccountClientActions<entryPoint, chain, account> & {
+        /**
+         * Returns a new client with the middleware appended to its pipeline
+         */
+        use: (
+            middleware: KernelAccountClientMiddleware<entryPoint>
+        ) => KernelAccountClient<entryPoint, transport, chain, account>
+    }
 >
 
 export type SmartAccountClientConfig<
@@ -50,6 +62,10 @@ export type SmartAccountClientConfig<
         bundlerTransport: Transport
     } & Middleware<entryPoint> & {
             entryPoint: entryPoint
+            /**
+             * Ordered middleware pipeline run around the sponsorship and the signing of every UserOperation
+             */
+            middlewares?: KernelAccountClientMiddleware<entryPoint>[]
         }
 >
 
@@ -74,7 +90,8 @@ export const createKernelAccountClient = <
         key = "Account",
         name = "Kernel Account Client",
         bundlerTransport,
-        entryPoint
+        entryPoint,
+        middlewares = []
     } = parameters
     const entryPointVersion = getEntryPointVersion(entryPoint)
     const shouldIncludePimlicoProvider =
@@ -107,6 +124,7 @@ export const createKernelAccountClient = <
     if (
         (!middleware ||
             (typeof middleware !== "function" && !middleware.gasPrice)) &&
+        !middlewares.some((stage) => stage.gasPrice) &&
         client.transport?.url &&
         isProviderSet(client.transport.url, "PIMLICO")
     ) {
@@ -116,9 +134,46 @@ export const createKernelAccountClient = <
             gasPrice
         }
     }
-    return client.extend(
-        kernelAccountClientActions({
-            middleware
+
+    const use = (stage: KernelAccountClientMiddleware<TEntryPoint>) =>
+        createKernelAccountClient({
+            ...parameters,
+            middlewares: [...middlewares, stage]
         })
-    ) as KernelAccountClient<TEntryPoint, TTransport, TChain, TSmartAccount>
+
+    if (!middlewares.length) {
+        return client
+            .extend(
+                kernelAccountClientActions({
+                    middleware
+                })
+            )
+            .extend(() => ({ use })) as KernelAccountClient<
+            TEntryPoint,
+            TTransport,
+            TChain,
+            TSmartAccount
+        >
+    }
+
+    // The pipeline actions are added both below and above the kernel actions so that
+    // the actions resolving `sendUserOperation` through `getAction` go through the pipeline too
+    const pipeline = kernelAccountClientMiddlewareActions({
+        middlewares,
+        middleware
+    })
+    return client
+        .extend(pipeline)
+        .extend(
+            kernelAccountClientActions({
+                middleware: composeMiddleware(middlewares, middleware)
+            })
+        )
+        .extend(pipeline)
+        .extend(() => ({ use })) as KernelAccountClient<
+        TEntryPoint,
+        TTransport,
+        TChain,
+        TSmartAccount
+    >
 }
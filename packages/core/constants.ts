@@ -88,6 +88,14 @@ export const VALIDATOR_TYPE = {
     SECONDARY: "0x01",
     PERMISSION: "0x02"
 } as const
+export const PLUGIN_TYPE = {
+    VALIDATOR: 1,
+    EXECUTOR: 2,
+    FALLBACK: 3,
+    HOOK: 4,
+    POLICY: 5,
+    SIGNER: 6
+} as const
 export enum VALIDATOR_MODE {
     DEFAULT = "0x00",
     ENABLE = "0x01"
@@ -110,5 +118,7 @@ export const KernelFactoryToInitCodeHashMap: { [key: Address]: Hex } = {
     "0x5de4839a76cf55d0c90e2061ef4386d962E15ae3":
         "0xee9d8350bd899dd261db689aafd87eb8a30f085adbaff48152399438ff4eed73",
     "0x6723b44Abeec4E71eBE3232BD5B455805baDD22f":
-        "0x6fe6e6ea30eddce942b9618033ab8429f9ddac594053bec8a6744fffc71976e2"
+        "0x6fe6e6ea30eddce942b9618033ab8429f9ddac594053bec8a6744fffc71976e2",
+    "0xaac5D4240AF87249B3f71BC8E4A2cae074A3E419":
+        "0x85d96aa1c9a65886d094915d76ccae85f14027a02c1647dde659f869460f03e6"
 }
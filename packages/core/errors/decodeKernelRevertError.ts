@@ -0,0 +1,82 @@
+import { type Abi, BaseError, type Hex, decodeErrorResult, isHex } from "viem"
+import { KernelAccountAbi } from "../accounts/kernel/abi/KernelAccountAbi.js"
+import { KernelV3AccountAbi } from "../accounts/kernel/abi/kernel_v_3_0_0/KernelAccountAbi.js"
+import { KernelV3_1AccountAbi } from "../accounts/kernel/abi/kernel_v_3_1/KernelAccountAbi.js"
+
+export type DecodedRevertError = {
+    data: Hex
+    /**
+     * - `kernel`, `validator` and `policy`: errors of the Kernel account ABIs
+     * - `plugin`: errors of the ABIs passed to the decoder
+     * - `revert`: `Error(string)` and `Panic(uint256)`
+     */
+    source: "kernel" | "validator" | "policy" | "plugin" | "revert" | "unknown"
+    errorName?: string
+    args?: readonly unknown[]
+    message?: string
+}
+
+const kernelErrorsAbi = [
+    ...KernelAccountAbi,
+    ...KernelV3AccountAbi,
+    ...KernelV3_1AccountAbi
+].filter((item) => item.type === "error")
+
+const getErrorSource = (
+    errorName: string,
+    fromPlugin: boolean
+): DecodedRevertError["source"] => {
+    if (errorName === "Error" || errorName === "Panic") return "revert"
+    if (fromPlugin) return "plugin"
+    if (errorName.startsWith("Policy")) return "policy"
+    if (/Validat|Signature|Enable|Permission|Signer/.test(errorName))
+        return "validator"
+    return "kernel"
+}
+
+/**
+ * Decode the revert data of a Kernel account call, trying the Kernel account
+ * ABIs first, then the given ABIs
+ * @param data
+ * @param abis
+ */
+export const decodeKernelRevertError = (
+    data: Hex,
+    abis: Abi[] = []
+): DecodedRevertError => {
+    for (const [abi, fromPlugin] of [
+        [kernelErrorsAbi, false],
+        ...abis.map((abi) => [abi, true] as const)
+    ] as const) {
+        try {
+            const { errorName, args } = decodeErrorResult({
+                abi: abi as Abi,
+                data
+            })
+            return {
+                data,
+                source: getErrorSource(errorName, fromPlugin),
+                errorName,
+                args
+            }
+        } catch {}
+    }
+    return { data, source: "unknown" }
+}
+
+/**
+ * The revert data carried by an RPC error or one of its causes
+ * @param error
+ */
+export const getRevertData = (error: unknown): Hex | undefined => {
+    if (!(error instanceof BaseError)) return undefined
+    let data: Hex | undefined
+    error.walk((cause) => {
+        const causeData = (cause as { data?: unknown }).data
+        const nestedData = (causeData as { data?: unknown } | undefined)?.data
+        if (isHex(causeData)) data = causeData
+        else if (isHex(nestedData)) data = nestedData
+        return !!data
+    })
+    return data
+}
@@ -0,0 +1,260 @@
+import { type Abi, BaseError, type Hex } from "viem"
+import {
+    type DecodedRevertError,
+    decodeKernelRevertError,
+    getRevertData
+} from "./decodeKernelRevertError.js"
+import {
+    KernelBundlerError,
+    KernelError,
+    type KernelErrorCode,
+    type KernelErrorParameters,
+    KernelValidationError,
+    NonceConflictError,
+    PaymasterRejectedError,
+    PolicyViolationError
+} from "./kernel.js"
+
+export type GetKernelErrorParameters = {
+    /**
+     * ABIs of the policy contracts, their errors are reported as {@link PolicyViolationError}
+     */
+    policyAbis?: Abi[]
+    /**
+     * ABIs of the validators and called contracts used to decode the revert errors
+     */
+    abis?: Abi[]
+}
+
+// See the `FailedOp` reasons of the EntryPoint
+const entryPointErrors: Record<
+    string,
+    { code: KernelErrorCode; message: string }
+> = {
+    AA10: {
+        code: "ACCOUNT_DEPLOYMENT_FAILED",
+        message: "The account is already deployed"
+    },
+    AA13: {
+        code: "ACCOUNT_DEPLOYMENT_FAILED",
+        message: "The initCode failed or ran out of gas"
+    },
+    AA14: {
+        code: "ACCOUNT_DEPLOYMENT_FAILED",
+        message: "The initCode returned a different sender address"
+    },
+    AA15: {
+        code: "ACCOUNT_DEPLOYMENT_FAILED",
+        message: "The initCode did not deploy the sender"
+    },
+    AA20: {
+        code: "ACCOUNT_NOT_DEPLOYED",
+        message: "The account is not deployed"
+    },
+    AA21: {
+        code: "INSUFFICIENT_PREFUND",
+        message: "The account didn't pay the prefund"
+    },
+    AA22: {
+        code: "SIGNATURE_VALIDITY_PERIOD",
+        message: "The signature is expired or not due"
+    },
+    AA23: {
+        code: "VALIDATION_REVERTED",
+        message: "The account validation reverted"
+    },
+    AA24: { code: "SIGNATURE_INVALID", message: "The signature is invalid" },
+    AA25: { code: "NONCE_CONFLICT", message: "The account nonce is invalid" },
+    AA26: {
+        code: "VALIDATION_OUT_OF_GAS",
+        message: "The account validation ran over the verificationGasLimit"
+    },
+    AA30: {
+        code: "PAYMASTER_NOT_DEPLOYED",
+        message: "The paymaster is not deployed"
+    },
+    AA31: {
+        code: "PAYMASTER_DEPOSIT_TOO_LOW",
+        message: "The paymaster deposit is too low"
+    },
+    AA32: {
+        code: "PAYMASTER_VALIDITY_PERIOD",
+        message: "The paymaster data is expired or not due"
+    },
+    AA33: {
+        code: "PAYMASTER_VALIDATION_REVERTED",
+        message: "The paymaster validation reverted"
+    },
+    AA34: {
+        code: "PAYMASTER_SIGNATURE_INVALID",
+        message: "The paymaster signature is invalid"
+    },
+    AA36: {
+        code: "PAYMASTER_OUT_OF_GAS",
+        message:
+            "The paymaster validation ran over the paymasterVerificationGasLimit"
+    },
+    AA50: {
+        code: "PAYMASTER_POST_OP_REVERTED",
+        message: "The paymaster postOp reverted"
+    }
+}
+
+const createKernelError = (
+    message: string,
+    parameters: KernelErrorParameters<KernelErrorCode> & {
+        code: KernelErrorCode
+    }
+): KernelError => {
+    const { code } = parameters
+    if (code === "POLICY_VIOLATION") {
+        return new PolicyViolationError(message, parameters)
+    }
+    if (code === "NONCE_CONFLICT") {
+        return new NonceConflictError(
+            message,
+            parameters as KernelErrorParameters<"NONCE_CONFLICT">
+        )
+    }
+    if (code.startsWith("PAYMASTER_")) {
+        return new PaymasterRejectedError(
+            message,
+            parameters as KernelErrorParameters<PaymasterRejectedError["code"]>
+        )
+    }
+    if (
+        code.startsWith("VALIDATION_") ||
+        code.startsWith("SIGNATURE_") ||
+        code === "VALIDATOR_NOT_SET" ||
+        code === "ACTION_NOT_SET"
+    ) {
+        return new KernelValidationError(
+            message,
+            parameters as KernelErrorParameters<KernelValidationError["code"]>
+        )
+    }
+    if (code === "UNKNOWN" || code === "EXECUTION_REVERTED") {
+        return new KernelError(message, parameters)
+    }
+    return new KernelBundlerError(
+        message,
+        parameters as KernelErrorParameters<KernelBundlerError["code"]>
+    )
+}
+
+const getMessages = (error: unknown): string[] => {
+    const messages: string[] = []
+    if (error instanceof BaseError) {
+        error.walk((cause) => {
+            messages.push((cause as Error).message)
+            return false
+        })
+    } else if (error instanceof Error) {
+        messages.push(error.message)
+    }
+    return messages
+}
+
+const decodeRevert = (
+    error: unknown,
+    messages: string[],
+    abis: Abi[]
+): DecodedRevertError | undefined => {
+    // Bundlers either return the revert data with the error, or append it
+    // to the reason of the failed UserOperation
+    const candidates = [
+        getRevertData(error),
+        ...messages.flatMap(
+            (message) => message.match(/0x[0-9a-fA-F]{8,}/g) ?? []
+        )
+    ].filter((data): data is Hex => !!data && data !== "0x")
+    for (const data of candidates) {
+        const decoded = decodeKernelRevertError(data, abis)
+        if (decoded.source !== "unknown") return decoded
+    }
+    return undefined
+}
+
+/**
+ * Turns an error thrown by a bundler, a paymaster or an account call into a
+ * {@link KernelError}, decoding the EntryPoint `AAxx` codes and the custom
+ * errors of the Kernel account and of the given policy contracts
+ * @param error
+ * @param parameters - {@link GetKernelErrorParameters}
+ */
+export const getKernelError = (
+    error: unknown,
+    { policyAbis = [], abis = [] }: GetKernelErrorParameters = {}
+): KernelError => {
+    if (error instanceof KernelError) return error
+
+    const cause = error instanceof Error ? error : undefined
+    const messages = getMessages(error)
+    const aaCode = messages
+        .map((message) => message.match(/\bAA\d\d\b/i)?.[0])
+        .find((code) => code !== undefined)
+        ?.toUpperCase()
+    const revert = decodeRevert(error, messages, [...policyAbis, ...abis])
+    const isPolicyError =
+        revert?.source === "policy" ||
+        (revert?.source === "plugin" &&
+            policyAbis.some((abi) =>
+                abi.some(
+                    (item) =>
+                        item.type === "error" && item.name === revert.errorName
+                )
+            ))
+    const revertMessage = revert?.errorName
+        ? `reverted with ${revert.errorName}`
+        : undefined
+
+    if (revert && isPolicyError) {
+        return new PolicyViolationError(
+            `The UserOperation violates a policy, ${revertMessage}`,
+            { aaCode, revert, cause }
+        )
+    }
+    if (revert?.errorName === "InvalidNonce") {
+        return new NonceConflictError("The account nonce is invalid", {
+            aaCode,
+            revert,
+            cause
+        })
+    }
+
+    const entryPointError = aaCode ? entryPointErrors[aaCode] : undefined
+    if (entryPointError) {
+        return createKernelError(
+            revertMessage
+                ? `${entryPointError.message}, ${revertMessage}`
+                : entryPointError.message,
+            { code: entryPointError.code, aaCode, revert, cause }
+        )
+    }
+    if (aaCode) {
+        // The AA9x errors are the bundler's own, another bundler may succeed
+        return new KernelBundlerError(
+            `The bundler rejected the UserOperation with ${aaCode}`,
+            { aaCode, revert, cause, retryable: aaCode.startsWith("AA9") }
+        )
+    }
+    if (revert?.source === "validator") {
+        return new KernelValidationError(
+            `The account validation ${revertMessage}`,
+            { revert, cause }
+        )
+    }
+    if (revert) {
+        return new KernelError(`The call ${revertMessage}`, {
+            code: "EXECUTION_REVERTED",
+            revert,
+            cause
+        })
+    }
+    return new KernelError(
+        cause instanceof BaseError
+            ? cause.shortMessage
+            : cause?.message ?? "Unknown error",
+        { cause, retryable: true }
+    )
+}
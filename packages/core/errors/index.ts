@@ -0,0 +1,26 @@
+export {
+    KernelError,
+    type KernelErrorType,
+    type KernelErrorCode,
+    type KernelErrorParameters,
+    KernelBundlerError,
+    type KernelBundlerErrorType,
+    KernelValidationError,
+    type KernelValidationErrorType,
+    PolicyViolationError,
+    type PolicyViolationErrorType,
+    NonceConflictError,
+    type NonceConflictErrorType,
+    PaymasterRejectedError,
+    type PaymasterRejectedErrorType,
+    UnsupportedKernelVersionError,
+    type UnsupportedKernelVersionErrorType
+} from "./kernel.js"
+export {
+    decodeKernelRevertError,
+    type DecodedRevertError
+} from "./decodeKernelRevertError.js"
+export {
+    getKernelError,
+    type GetKernelErrorParameters
+} from "./getKernelError.js"
@@ -0,0 +1,197 @@
+import { BaseError } from "viem"
+import type { DecodedRevertError } from "./decodeKernelRevertError.js"
+
+export type KernelErrorCode =
+    | "UNKNOWN"
+    | "BUNDLER_ERROR"
+    | "EXECUTION_REVERTED"
+    | "ACCOUNT_DEPLOYMENT_FAILED"
+    | "ACCOUNT_NOT_DEPLOYED"
+    | "INSUFFICIENT_PREFUND"
+    | "VALIDATOR_NOT_SET"
+    | "ACTION_NOT_SET"
+    | "VALIDATION_REVERTED"
+    | "VALIDATION_OUT_OF_GAS"
+    | "SIGNATURE_INVALID"
+    | "SIGNATURE_VALIDITY_PERIOD"
+    | "POLICY_VIOLATION"
+    | "SIGNER_ERROR"
+    | "INVALID_SERIALIZED_ACCOUNT"
+    | "PLUGIN_NOT_MIGRATED"
+    | "NONCE_CONFLICT"
+    | "PAYMASTER_NOT_DEPLOYED"
+    | "PAYMASTER_DEPOSIT_TOO_LOW"
+    | "PAYMASTER_VALIDITY_PERIOD"
+    | "PAYMASTER_VALIDATION_REVERTED"
+    | "PAYMASTER_SIGNATURE_INVALID"
+    | "PAYMASTER_OUT_OF_GAS"
+    | "PAYMASTER_POST_OP_REVERTED"
+    | "UNSUPPORTED_KERNEL_VERSION"
+    | "UNSUPPORTED_ENTRYPOINT_VERSION"
+
+export type KernelErrorParameters<TCode extends KernelErrorCode> = {
+    code?: TCode
+    /**
+     * The EntryPoint error code reported by the bundler, e.g. `AA23`
+     */
+    aaCode?: string
+    revert?: DecodedRevertError
+    /**
+     * Whether the same request may succeed on another attempt, e.g. against
+     * another bundler
+     */
+    retryable?: boolean
+    cause?: BaseError | Error
+    metaMessages?: string[]
+}
+
+export type KernelErrorType = KernelError & { name: "KernelError" }
+export class KernelError<
+    TCode extends KernelErrorCode = KernelErrorCode
+> extends BaseError {
+    override name = "KernelError"
+    code: TCode
+    aaCode?: string
+    revert?: DecodedRevertError
+    retryable: boolean
+
+    constructor(
+        shortMessage: string,
+        {
+            code = "UNKNOWN" as TCode,
+            aaCode,
+            revert,
+            retryable = false,
+            cause,
+            metaMessages
+        }: KernelErrorParameters<TCode> = {}
+    ) {
+        super(shortMessage, {
+            cause,
+            metaMessages: [
+                ...(metaMessages ?? []),
+                ...(aaCode ? [`EntryPoint code: ${aaCode}`] : []),
+                ...(revert?.errorName
+                    ? [`Revert error: ${revert.errorName}`]
+                    : [])
+            ]
+        })
+        this.code = code
+        this.aaCode = aaCode
+        this.revert = revert
+        this.retryable = retryable
+    }
+}
+
+export type KernelBundlerErrorType = KernelBundlerError & {
+    name: "KernelBundlerError"
+}
+export class KernelBundlerError extends KernelError<
+    | "BUNDLER_ERROR"
+    | "ACCOUNT_DEPLOYMENT_FAILED"
+    | "ACCOUNT_NOT_DEPLOYED"
+    | "INSUFFICIENT_PREFUND"
+> {
+    override name = "KernelBundlerError"
+    constructor(
+        shortMessage: string,
+        parameters: KernelErrorParameters<KernelBundlerError["code"]> = {}
+    ) {
+        super(shortMessage, { code: "BUNDLER_ERROR", ...parameters })
+    }
+}
+
+export type KernelValidationErrorType = KernelValidationError & {
+    name: "KernelValidationError"
+}
+export class KernelValidationError extends KernelError<
+    | "VALIDATOR_NOT_SET"
+    | "ACTION_NOT_SET"
+    | "VALIDATION_REVERTED"
+    | "VALIDATION_OUT_OF_GAS"
+    | "SIGNATURE_INVALID"
+    | "SIGNATURE_VALIDITY_PERIOD"
+    | "POLICY_VIOLATION"
+> {
+    override name = "KernelValidationError"
+    constructor(
+        shortMessage: string,
+        parameters: KernelErrorParameters<KernelValidationError["code"]> = {}
+    ) {
+        super(shortMessage, { code: "VALIDATION_REVERTED", ...parameters })
+    }
+}
+
+export type PolicyViolationErrorType = PolicyViolationError & {
+    name: "PolicyViolationError"
+}
+export class PolicyViolationError extends KernelValidationError {
+    override name = "PolicyViolationError"
+    constructor(
+        shortMessage: string,
+        parameters: Omit<
+            KernelErrorParameters<KernelValidationError["code"]>,
+            "code"
+        > = {}
+    ) {
+        super(shortMessage, { ...parameters, code: "POLICY_VIOLATION" })
+    }
+}
+
+export type NonceConflictErrorType = NonceConflictError & {
+    name: "NonceConflictError"
+}
+export class NonceConflictError extends KernelError<"NONCE_CONFLICT"> {
+    override name = "NonceConflictError"
+    constructor(
+        shortMessage: string,
+        parameters: Omit<KernelErrorParameters<"NONCE_CONFLICT">, "code"> = {}
+    ) {
+        super(shortMessage, { ...parameters, code: "NONCE_CONFLICT" })
+    }
+}
+
+export type PaymasterRejectedErrorType = PaymasterRejectedError & {
+    name: "PaymasterRejectedError"
+}
+export class PaymasterRejectedError extends KernelError<
+    | "PAYMASTER_NOT_DEPLOYED"
+    | "PAYMASTER_DEPOSIT_TOO_LOW"
+    | "PAYMASTER_VALIDITY_PERIOD"
+    | "PAYMASTER_VALIDATION_REVERTED"
+    | "PAYMASTER_SIGNATURE_INVALID"
+    | "PAYMASTER_OUT_OF_GAS"
+    | "PAYMASTER_POST_OP_REVERTED"
+> {
+    override name = "PaymasterRejectedError"
+    constructor(
+        shortMessage: string,
+        parameters: KernelErrorParameters<PaymasterRejectedError["code"]> = {}
+    ) {
+        super(shortMessage, {
+            code: "PAYMASTER_VALIDATION_REVERTED",
+            ...parameters
+        })
+    }
+}
+
+export type UnsupportedKernelVersionErrorType =
+    UnsupportedKernelVersionError & {
+        name: "UnsupportedKernelVersionError"
+    }
+export class UnsupportedKernelVersionError extends KernelError<
+    "UNSUPPORTED_KERNEL_VERSION" | "UNSUPPORTED_ENTRYPOINT_VERSION"
+> {
+    override name = "UnsupportedKernelVersionError"
+    constructor(
+        shortMessage: string,
+        parameters: KernelErrorParameters<
+            UnsupportedKernelVersionError["code"]
+        > = {}
+    ) {
+        super(shortMessage, {
+            code: "UNSUPPORTED_KERNEL_VERSION",
+            ...parameters
+        })
+    }
+}
@@ -6,7 +6,15 @@ export {
     type KernelSmartAccount,
     KERNEL_ADDRESSES,
     addressToEmptyAccount,
-    EIP1271Abi
+    EIP1271Abi,
+    decodeKernelCallData,
+    type DecodedKernelCallData,
+    describeUserOperation,
+    type DescribeUserOperationParameters,
+    type DescribeUserOperationReturnType,
+    type DescribedExecution,
+    type KernelValidationDescription,
+    type TokenIntent
 } from "./accounts/index.js"
 export {
     sponsorUserOperation,
@@ -28,7 +36,18 @@ export {
     createKernelAccountClient,
     type KernelAccountClient
 } from "./clients/kernelAccountClient.js"
-export { createFallbackKernelAccountClient } from "./clients/fallbackKernelAccountClient.js"
+export {
+    kernelAccountClientMiddlewareActions,
+    type KernelAccountClientMiddleware,
+    type KernelAccountClientMiddlewareActions
+} from "./clients/decorators/middleware.js"
+export {
+    createFallbackKernelAccountClient,
+    type FallbackKernelAccountClient,
+    type FallbackKernelAccountClientOptions,
+    type FallbackRetryPolicy,
+    type FallbackEndpointHealth
+} from "./clients/fallbackKernelAccountClient.js"
 export {
     type KernelValidator,
     type KernelValidatorHook,
@@ -52,9 +71,95 @@ export * from "./utils.js"
 export { gasTokenAddresses, type TokenSymbolsMap } from "./gasTokenAddresses.js"
 export {
     verifyEIP6492Signature,
-    getCustomNonceKeyFromString
+    getCustomNonceKeyFromString,
+    createNonceLaneManager,
+    getNonceLaneManager,
+    type CreateNonceLaneManagerParameters,
+    type NonceLaneManager,
+    getKernelAddressFromConfig,
+    findKernelAddressConfig,
+    type GetKernelAddressFromConfigParameters,
+    type FindKernelAddressConfigParameters,
+    type FindKernelAddressConfigReturnType,
+    encryptSerializedAccount,
+    decryptSerializedAccount,
+    isEncryptedSerializedAccount,
+    type SerializedAccountEncryption,
+    type SerializedAccountDecryption,
+    serializeKernelAccount,
+    parseSerializedKernelAccount,
+    deserializeKernelAccount,
+    toKernelAccountExport,
+    assertKernelAccountExport,
+    KERNEL_ACCOUNT_EXPORT_VERSION,
+    KERNEL_ACCOUNT_VALIDATOR_TYPES,
+    type KernelAccountExport,
+    type KernelAccountValidatorType,
+    type KernelAccountDeserializer,
+    type DeserializeKernelAccountParameters,
+    toCallCapability,
+    toPermissionCapabilities,
+    type PermissionCapabilities,
+    type CallCapability,
+    type ParamConstraintCapability,
+    type ParamConstraintCondition,
+    type RateLimitCapability,
+    type ToCallCapabilityParameters
 } from "./accounts/utils/index.js"
 export { KernelEIP1193Provider } from "./providers/index.js"
+export {
+    getKernelAccountState,
+    type GetKernelAccountStateParameters,
+    type GetKernelAccountStateReturnType,
+    type KernelValidatorState,
+    type KernelPermissionState
+} from "./actions/account-client/getKernelAccountState.js"
+export {
+    upgradeKernelAccount,
+    type UpgradeKernelAccountParameters,
+    type UpgradeKernelAccountReturnType,
+    type KernelUpgradePlan
+} from "./actions/account-client/upgradeKernelAccount.js"
+export {
+    KernelError,
+    type KernelErrorType,
+    type KernelErrorCode,
+    type KernelErrorParameters,
+    KernelBundlerError,
+    type KernelBundlerErrorType,
+    KernelValidationError,
+    type KernelValidationErrorType,
+    PolicyViolationError,
+    type PolicyViolationErrorType,
+    NonceConflictError,
+    type NonceConflictErrorType,
+    PaymasterRejectedError,
+    type PaymasterRejectedErrorType,
+    UnsupportedKernelVersionError,
+    type UnsupportedKernelVersionErrorType,
+    decodeKernelRevertError,
+    type DecodedRevertError,
+    getKernelError,
+    type GetKernelErrorParameters
+} from "./errors/index.js"
 export { getEncodedPluginsData } from "./accounts/kernel/utils/plugins/ep0_7/getEncodedPluginsData.js"
 export { isProviderSet, setPimlicoAsProvider } from "./clients/utils.js"
 export { getUserOperationGasPrice } from "./actions/account-client/getUserOperationGasPrice.js"
+export {
+    trackUserOperation,
+    type TrackUserOperationParameters,
+    type TrackUserOperationReturnType,
+    type UserOperationLifecycleEvent
+} from "./actions/account-client/trackUserOperation.js"
+export {
+    reserveNonce,
+    releaseNonce,
+    resetNonceLane,
+    type NonceLaneParameters,
+    type ReleaseNonceParameters
+} from "./actions/account-client/nonceLanes.js"
+export {
+    simulateUserOperation,
+    type SimulateUserOperationParameters,
+    type SimulateUserOperationReturnType
+} from "./actions/account-client/simulateUserOperation.js"
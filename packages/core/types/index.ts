@@ -6,6 +6,8 @@ export type {
     ValidatorInitData,
     CallType,
     KernelEncodeCallDataArgs,
+    Execution,
+    DecodedExecution,
     PluginValidityData,
     ZeroDevAccountClientRpcSchema,
     ZeroDevUserOperationGasPriceWithBigIntAsHex,
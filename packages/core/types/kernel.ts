@@ -240,6 +240,10 @@ export type Execution = {
     callData: Hex
 }
 
+export type DecodedExecution = Execution & {
+    callType: CallType
+}
+
 export type KERNEL_V2_VERSION_TYPE = "0.0.2" | "0.2.2" | "0.2.3" | "0.2.4"
 
 export type KERNEL_V3_VERSION_TYPE = "0.3.0" | "0.3.1"
@@ -14,6 +14,7 @@ import {
 } from "viem"
 import type { ZeroDevPaymasterClient } from "./clients/paymasterClient.js"
 import type { CALL_TYPE, EXEC_TYPE } from "./constants.js"
+import { UnsupportedKernelVersionError } from "./errors/index.js"
 import type { GetKernelVersion } from "./types/kernel.js"
 
 export enum KERNEL_FEATURES {
@@ -115,7 +116,7 @@ export const validateKernelVersionWithEntryPoint = <
         (entryPointAddress === ENTRYPOINT_ADDRESS_V07 &&
             !satisfies(kernelVersion, ">=0.3.0"))
     ) {
-        throw new Error(
+        throw new UnsupportedKernelVersionError(
             "KernelVersion should be >= 0.2.2 and <= 0.2.4 for EntryPointV0.6 and >= 0.3.0 for EntryPointV0.7"
         )
     }
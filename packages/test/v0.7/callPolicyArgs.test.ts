@@ -0,0 +1,232 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import {
+    type Address,
+    encodeFunctionData,
+    pad,
+    parseAbi,
+    toHex,
+    zeroAddress
+} from "viem"
+import {
+    CallPolicyVersion,
+    ParamCondition,
+    evaluatePolicies,
+    toCallPolicy
+} from "../../../plugins/permission/policies/index.js"
+import { encodeCallData } from "../../core/accounts/kernel/utils/account/ep0_7/encodeCallData.js"
+
+const router: Address = "0x1111111111111111111111111111111111111111"
+const weth: Address = "0x2222222222222222222222222222222222222222"
+const usdc: Address = "0x3333333333333333333333333333333333333333"
+const recipient: Address = "0x4444444444444444444444444444444444444444"
+const stranger: Address = "0x5555555555555555555555555555555555555555"
+
+const routerAbi = parseAbi([
+    "struct ExactInputSingleParams { address tokenIn; address tokenOut; uint24 fee; address recipient; uint256 amountIn; uint256 amountOutMinimum; uint160 sqrtPriceLimitX96; }",
+    "function exactInputSingle(ExactInputSingleParams params) payable returns (uint256)",
+    "function swap(uint256 amountIn, address[] path, bytes data, string memo, address to)"
+])
+
+const isAllowed = async (
+    policy: ReturnType<typeof toCallPolicy>,
+    data: `0x${string}`
+) =>
+    evaluatePolicies({
+        policies: [policy],
+        userOperation: {
+            callData: await encodeCallData({ to: router, value: 0n, data })
+        }
+    }).valid
+
+const exactInputSingle = (to: Address, amountIn: bigint) =>
+    encodeFunctionData({
+        abi: routerAbi,
+        functionName: "exactInputSingle",
+        args: [
+            {
+                tokenIn: weth,
+                tokenOut: usdc,
+                fee: 500,
+                recipient: to,
+                amountIn,
+                amountOutMinimum: 0n,
+                sqrtPriceLimitX96: 0n
+            }
+        ]
+    })
+
+const swap = (
+    path: Address[],
+    data: `0x${string}`,
+    memo: string,
+    to: Address
+) =>
+    encodeFunctionData({
+        abi: routerAbi,
+        functionName: "swap",
+        args: [1n, path, data, memo, to]
+    })
+
+describe("toCallPolicy arguments", () => {
+    test("constrains the fields of a struct by name", async () => {
+        const policy = toCallPolicy({
+            policyVersion: CallPolicyVersion.V0_0_4,
+            permissions: [
+                {
+                    target: router,
+                    abi: routerAbi,
+                    functionName: "exactInputSingle",
+                    args: [
+                        {
+                            recipient: {
+                                condition: ParamCondition.EQUAL,
+                                value: recipient
+                            },
+                            amountIn: {
+                                condition: ParamCondition.LESS_THAN_OR_EQUAL,
+                                value: 100n
+                            }
+                        }
+                    ]
+                }
+            ]
+        })
+        if (policy.policyParams.type !== "call") throw new Error("Not a call")
+        expect(policy.policyParams.permissions?.[0].rules).toEqual([
+            {
+                condition: ParamCondition.EQUAL,
+                offset: 96,
+                params: [pad(recipient)]
+            },
+            {
+                condition: ParamCondition.LESS_THAN_OR_EQUAL,
+                offset: 128,
+                params: [pad(toHex(100n))]
+            }
+        ])
+        expect(await isAllowed(policy, exactInputSingle(recipient, 100n))).toBe(
+            true
+        )
+        expect(await isAllowed(policy, exactInputSingle(stranger, 100n))).toBe(
+            false
+        )
+        expect(await isAllowed(policy, exactInputSingle(recipient, 101n))).toBe(
+            false
+        )
+    })
+
+    test("constrains the content of the dynamic arguments", async () => {
+        const policy = toCallPolicy({
+            policyVersion: CallPolicyVersion.V0_0_4,
+            permissions: [
+                {
+                    target: router,
+                    abi: routerAbi,
+                    functionName: "swap",
+                    args: [
+                        null,
+                        {
+                            length: {
+                                condition: ParamCondition.EQUAL,
+                                value: 2
+                            },
+                            elements: {
+                                condition: ParamCondition.ONE_OF,
+                                value: [weth, usdc]
+                            }
+                        },
+                        {
+                            condition: ParamCondition.EQUAL,
+                            value: "0xdeadbeef"
+                        },
+                        {
+                            length: {
+                                condition: ParamCondition.LESS_THAN_OR_EQUAL,
+                                value: 32
+                            }
+                        },
+                        { condition: ParamCondition.EQUAL, value: recipient }
+                    ]
+                }
+            ]
+        })
+
+        expect(
+            await isAllowed(
+                policy,
+                swap([weth, usdc], "0xdeadbeef", "payment", recipient)
+            )
+        ).toBe(true)
+        expect(
+            await isAllowed(
+                policy,
+                swap([weth, stranger], "0xdeadbeef", "payment", recipient)
+            )
+        ).toBe(false)
+        expect(
+            await isAllowed(
+                policy,
+                swap([weth, usdc, usdc], "0xdeadbeef", "payment", recipient)
+            )
+        ).toBe(false)
+        expect(
+            await isAllowed(
+                policy,
+                swap([weth, usdc], "0xdeadbeee", "payment", recipient)
+            )
+        ).toBe(false)
+        expect(
+            await isAllowed(
+                policy,
+                swap([weth, usdc], "0xdeadbeef", "a".repeat(33), recipient)
+            )
+        ).toBe(false)
+        expect(
+            await isAllowed(
+                policy,
+                swap([weth, usdc], "0xdeadbeef", "payment", stranger)
+            )
+        ).toBe(false)
+    })
+
+    test("rejects the constraints that can't be enforced", () => {
+        const toSwapPolicy = (args: unknown[]) => () =>
+            toCallPolicy({
+                policyVersion: CallPolicyVersion.V0_0_4,
+                permissions: [
+                    {
+                        target: router,
+                        abi: routerAbi,
+                        functionName: "swap",
+                        args: args as never
+                    }
+                ]
+            })
+
+        expect(
+            toSwapPolicy([
+                null,
+                {
+                    elements: { condition: ParamCondition.EQUAL, value: weth }
+                }
+            ])
+        ).toThrow("can only be constrained with an EQUAL length")
+        expect(
+            toSwapPolicy([
+                null,
+                null,
+                { condition: ParamCondition.EQUAL, value: "0x" }
+            ])
+        ).toThrow("the size of a previous dynamic parameter is not fixed")
+        expect(
+            toSwapPolicy([
+                null,
+                {
+                    condition: ParamCondition.NOT_EQUAL,
+                    value: [zeroAddress]
+                }
+            ])
+        ).toThrow("Only the EQUAL condition is supported")
+    })
+})
@@ -0,0 +1,261 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V06, ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import {
+    type Address,
+    type Hex,
+    encodeFunctionData,
+    erc20Abi,
+    erc721Abi,
+    getAddress
+} from "viem"
+import { encodeCallData as encodeCallDataEpV06 } from "../../core/accounts/kernel/utils/account/ep0_6/encodeCallData.js"
+import { encodeCallData as encodeCallDataEpV07 } from "../../core/accounts/kernel/utils/account/ep0_7/encodeCallData.js"
+import { decodeKernelCallData } from "../../core/accounts/kernel/utils/common/decodeKernelCallData.js"
+import { describeUserOperation } from "../../core/accounts/kernel/utils/common/describeUserOperation.js"
+import {
+    MULTISEND_ADDRESS,
+    decodeMultiSend,
+    encodeMultiSend,
+    multiSendAbi
+} from "../../core/accounts/utils/multisend.js"
+import { CALL_TYPE, EXEC_TYPE } from "../../core/constants.js"
+
+const sender: Address = "0x1111111111111111111111111111111111111111"
+const token: Address = "0x2222222222222222222222222222222222222222"
+const recipient: Address = "0x3333333333333333333333333333333333333333"
+
+const transferCallData = encodeFunctionData({
+    abi: erc20Abi,
+    functionName: "transfer",
+    args: [recipient, 100n]
+})
+
+const calls = [
+    {
+        to: token,
+        value: 0n,
+        data: transferCallData,
+        callType: "call" as const
+    },
+    {
+        to: recipient,
+        value: 5n,
+        data: "0x" as Hex,
+        callType: "call" as const
+    }
+]
+
+describe("decodeKernelCallData", () => {
+    test("v0.7 single call round-trips", async () => {
+        const callData = await encodeCallDataEpV07(calls[0])
+        const decoded = decodeKernelCallData(callData)
+        expect(decoded.entryPointVersion).toBe("v0.7")
+        expect(decoded.callType).toBe(CALL_TYPE.SINGLE)
+        expect(decoded.execType).toBe(EXEC_TYPE.DEFAULT)
+        expect(decoded.includeHooks).toBe(false)
+        expect(decoded.executions).toEqual([
+            {
+                target: token,
+                value: 0n,
+                callData: transferCallData,
+                callType: "call"
+            }
+        ])
+    })
+
+    test("v0.7 batch call with hooks round-trips", async () => {
+        const callData = await encodeCallDataEpV07(calls, true)
+        const decoded = decodeKernelCallData(callData)
+        expect(decoded.callType).toBe(CALL_TYPE.BATCH)
+        expect(decoded.includeHooks).toBe(true)
+        expect(decoded.executions.map((e) => e.target)).toEqual([
+            token,
+            recipient
+        ])
+        expect(decoded.executions[1].value).toBe(5n)
+    })
+
+    test("v0.7 delegatecall round-trips", async () => {
+        const callData = await encodeCallDataEpV07({
+            to: token,
+            value: 0n,
+            data: "0x1234",
+            callType: "delegatecall"
+        })
+        const decoded = decodeKernelCallData(callData)
+        expect(decoded.callType).toBe(CALL_TYPE.DELEGATE_CALL)
+        expect(decoded.executions).toEqual([
+            {
+                target: token,
+                value: 0n,
+                callData: "0x1234",
+                callType: "delegatecall"
+            }
+        ])
+    })
+
+    test("v0.6 execute and executeBatch round-trip", async () => {
+        const single = decodeKernelCallData(await encodeCallDataEpV06(calls[1]))
+        expect(single.entryPointVersion).toBe("v0.6")
+        expect(single.callType).toBe(CALL_TYPE.SINGLE)
+        expect(single.executions[0].value).toBe(5n)
+
+        const batch = decodeKernelCallData(await encodeCallDataEpV06(calls))
+        expect(batch.callType).toBe(CALL_TYPE.BATCH)
+        expect(batch.executions.map((e) => e.callData)).toEqual([
+            transferCallData,
+            "0x"
+        ])
+    })
+
+    test("multisend batches are expanded", () => {
+        const encoded = encodeMultiSend(calls)
+        expect(decodeMultiSend(encoded)).toEqual(
+            calls.map((call) => ({ ...call, to: getAddress(call.to) }))
+        )
+
+        const callData = encodeFunctionData({
+            abi: [
+                {
+                    inputs: [
+                        { name: "to", type: "address" },
+                        { name: "value", type: "uint256" },
+                        { name: "data", type: "bytes" },
+                        { name: "operation", type: "uint8" }
+                    ],
+                    name: "executeAndRevert",
+                    outputs: [],
+                    stateMutability: "nonpayable",
+                    type: "function"
+                }
+            ],
+            functionName: "executeAndRevert",
+            args: [
+                MULTISEND_ADDRESS,
+                0n,
+                encodeFunctionData({
+                    abi: multiSendAbi,
+                    functionName: "multiSend",
+                    args: [encoded]
+                }),
+                1
+            ]
+        })
+        const decoded = decodeKernelCallData(callData)
+        expect(decoded.callType).toBe(CALL_TYPE.BATCH)
+        expect(decoded.executions).toHaveLength(2)
+        expect(decoded.executions[0].callData).toBe(transferCallData)
+    })
+})
+
+describe("describeUserOperation", () => {
+    test("decodes token and native intents", async () => {
+        const description = describeUserOperation({
+            userOperation: {
+                sender,
+                nonce: 0n,
+                callData: await encodeCallDataEpV07(calls),
+                callGasLimit: 0n,
+                verificationGasLimit: 0n,
+                preVerificationGas: 0n,
+                maxFeePerGas: 0n,
+                maxPriorityFeePerGas: 0n,
+                signature: "0x"
+            },
+            entryPoint: ENTRYPOINT_ADDRESS_V07,
+            abis: { [token]: erc20Abi }
+        })
+        expect(description.validation).toMatchObject({
+            entryPointVersion: "v0.7",
+            validatorType: "SUDO"
+        })
+        expect(description.executions[0].functionName).toBe("transfer")
+        expect(description.executions[0].intents).toEqual([
+            {
+                standard: "erc20",
+                type: "transfer",
+                token,
+                from: sender,
+                to: recipient,
+                amount: 100n
+            }
+        ])
+        expect(description.executions[1].intents).toEqual([
+            {
+                standard: "native",
+                type: "transfer",
+                from: sender,
+                to: recipient,
+                amount: 5n
+            }
+        ])
+    })
+
+    test("distinguishes erc721 transfers by abi", async () => {
+        const callData = encodeFunctionData({
+            abi: erc721Abi,
+            functionName: "transferFrom",
+            args: [sender, recipient, 7n]
+        })
+        const description = describeUserOperation({
+            userOperation: {
+                sender,
+                nonce: 0n,
+                initCode: "0x",
+                callData: await encodeCallDataEpV06({
+                    to: token,
+                    value: 0n,
+                    data: callData,
+                    callType: "call"
+                }),
+                callGasLimit: 0n,
+                verificationGasLimit: 0n,
+                preVerificationGas: 0n,
+                maxFeePerGas: 0n,
+                maxPriorityFeePerGas: 0n,
+                paymasterAndData: "0x",
+                signature: "0x00000000"
+            },
+            entryPoint: ENTRYPOINT_ADDRESS_V06,
+            defaultAbi: erc721Abi
+        })
+        expect(description.validation.mode).toBe("0x00000000")
+        expect(description.executions[0].intents).toEqual([
+            {
+                standard: "erc721",
+                type: "transfer",
+                token,
+                from: sender,
+                to: recipient,
+                tokenId: 7n
+            }
+        ])
+    })
+
+    test("falls back to a call to the account itself", () => {
+        const description = describeUserOperation({
+            userOperation: {
+                sender,
+                nonce: 0n,
+                callData: "0xdeadbeef",
+                callGasLimit: 0n,
+                verificationGasLimit: 0n,
+                preVerificationGas: 0n,
+                maxFeePerGas: 0n,
+                maxPriorityFeePerGas: 0n,
+                signature: "0x"
+            },
+            entryPoint: ENTRYPOINT_ADDRESS_V07
+        })
+        expect(description.executions).toEqual([
+            {
+                target: sender,
+                value: 0n,
+                callData: "0xdeadbeef",
+                callType: "call",
+                intents: []
+            }
+        ])
+    })
+})
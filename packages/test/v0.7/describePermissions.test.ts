@@ -0,0 +1,231 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import {
+    type Address,
+    erc20Abi,
+    pad,
+    parseEther,
+    toFunctionSelector
+} from "viem"
+import { PolicyFlags } from "../../../plugins/permission/constants.js"
+import { describePermissions } from "../../../plugins/permission/describePermissions.js"
+import {
+    CallPolicyVersion,
+    ParamCondition,
+    toCallPolicy,
+    toGasPolicy,
+    toRateLimitPolicy,
+    toSudoPolicy,
+    toTimestampPolicy
+} from "../../../plugins/permission/policies/index.js"
+import {
+    deserializePermissionAccountParams,
+    serializePermissionAccountParams
+} from "../../../plugins/permission/utils.js"
+import { describeSessionKeyPermissions } from "../../../plugins/session-key/describeSessionKeyPermissions.js"
+import { ParamOperator } from "../../../plugins/session-key/toSessionKeyValidatorPlugin.js"
+
+const token: Address = "0x1111111111111111111111111111111111111111"
+const recipient: Address = "0x2222222222222222222222222222222222222222"
+const transferSelector = toFunctionSelector(
+    "function transfer(address to, uint256 amount)"
+)
+
+describe("describePermissions", () => {
+    test("resolves the parameters of the call rules from the ABI", () => {
+        const capabilities = describePermissions({
+            policies: [
+                toCallPolicy({
+                    policyVersion: CallPolicyVersion.V0_0_4,
+                    permissions: [
+                        {
+                            target: token,
+                            abi: erc20Abi,
+                            functionName: "transfer",
+                            args: [
+                                {
+                                    condition: ParamCondition.EQUAL,
+                                    value: recipient
+                                },
+                                {
+                                    condition:
+                                        ParamCondition.LESS_THAN_OR_EQUAL,
+                                    value: parseEther("1")
+                                }
+                            ]
+                        }
+                    ]
+                })
+            ]
+        })
+
+        expect(capabilities.sudo).toBe(false)
+        expect(capabilities.calls).toHaveLength(1)
+        const [call] = capabilities.calls
+        expect(call.selector).toBe(transferSelector)
+        expect(call.functionSignature).toBe("transfer(address,uint256)")
+        expect(
+            call.constraints.map(({ parameter, condition, decodedValues }) => ({
+                parameter,
+                condition,
+                decodedValues
+            }))
+        ).toEqual([
+            {
+                parameter: "recipient",
+                condition: "equal",
+                decodedValues: [recipient]
+            },
+            {
+                parameter: "amount",
+                condition: "lessThanOrEqual",
+                decodedValues: [parseEther("1")]
+            }
+        ])
+        expect(capabilities.summary).toEqual([
+            `Can call transfer on ${token} without value if recipient must be equal to ${recipient.toLowerCase()} and amount must be less than or equal to ${parseEther(
+                "1"
+            )}`
+        ])
+    })
+
+    test("resolves the functions from the given ABIs once deserialized", () => {
+        const serialized = serializePermissionAccountParams({
+            permissionParams: {
+                policies: [
+                    toCallPolicy({
+                        policyVersion: CallPolicyVersion.V0_0_4,
+                        permissions: [
+                            {
+                                target: token,
+                                selector: transferSelector,
+                                valueLimit: 5n,
+                                rules: [
+                                    {
+                                        condition: ParamCondition.EQUAL,
+                                        offset: 0,
+                                        params: [pad(recipient)]
+                                    }
+                                ]
+                            }
+                        ]
+                    }),
+                    toRateLimitPolicy({ count: 3, interval: 60 }),
+                    toTimestampPolicy({ validAfter: 100, validUntil: 200 }),
+                    toGasPolicy({ allowed: 1000n, enforcePaymaster: true })
+                ]
+            },
+            action: { selector: "0x00000000", address: token },
+            validityData: { validAfter: 0, validUntil: 0 },
+            accountParams: { initCode: "0x", accountAddress: token }
+        })
+        const { permissionParams } =
+            deserializePermissionAccountParams(serialized)
+
+        const capabilities = describePermissions(permissionParams, {
+            abis: { [token]: erc20Abi }
+        })
+        expect(capabilities.calls[0].functionName).toBe("transfer")
+        expect(capabilities.calls[0].valueLimit).toBe(5n)
+        expect(capabilities.calls[0].constraints[0].decodedValues).toEqual([
+            recipient
+        ])
+        expect(capabilities.rateLimits).toEqual([
+            { count: 3, interval: 60, startAt: 0 }
+        ])
+        expect(capabilities.validAfter).toBe(100)
+        expect(capabilities.validUntil).toBe(200)
+        expect(capabilities.gas).toEqual({
+            allowance: 1000n,
+            paymaster: undefined,
+            enforcePaymaster: true
+        })
+        expect(capabilities.summary).toContain(
+            "Limited to 3 UserOperations, one every 60s"
+        )
+        expect(capabilities.summary).toContain(
+            "Can spend up to 1000 wei of gas"
+        )
+    })
+
+    test("ignores the call policy not checked on the UserOperations", () => {
+        const capabilities = describePermissions({
+            policies: [
+                toCallPolicy({
+                    policyVersion: CallPolicyVersion.V0_0_4,
+                    policyFlag: PolicyFlags.NOT_FOR_VALIDATE_USEROP,
+                    permissions: [{ target: token, selector: transferSelector }]
+                }),
+                toRateLimitPolicy({
+                    policyFlag: PolicyFlags.NOT_FOR_VALIDATE_USEROP,
+                    count: 1
+                })
+            ]
+        })
+
+        expect(capabilities.sudo).toBe(true)
+        expect(capabilities.calls).toEqual([])
+        expect(capabilities.rateLimits).toEqual([])
+        expect(capabilities.summary).toEqual(["Can send any call"])
+    })
+
+    test("allows any call without call policy", () => {
+        expect(
+            describePermissions({ policies: [toSudoPolicy({})] }).summary
+        ).toEqual(["Can send any call"])
+        expect(
+            describePermissions({
+                policies: [toTimestampPolicy({ validUntil: 200 })]
+            }).sudo
+        ).toBe(true)
+    })
+})
+
+describe("describeSessionKeyPermissions", () => {
+    test("describes the permissions of a session key", () => {
+        const capabilities = describeSessionKeyPermissions(
+            {
+                validAfter: 0,
+                validUntil: 300,
+                paymaster: recipient,
+                permissions: [
+                    {
+                        target: token,
+                        sig: transferSelector,
+                        valueLimit: 0n,
+                        rules: [
+                            {
+                                offset: 32,
+                                condition: ParamOperator.LESS_THAN,
+                                param: pad("0x64")
+                            }
+                        ],
+                        executionRule: { validAfter: 0, interval: 0, runs: 2 }
+                    }
+                ]
+            },
+            { defaultAbi: erc20Abi }
+        )
+
+        expect(capabilities.sudo).toBe(false)
+        expect(capabilities.calls[0].rateLimit).toEqual({
+            count: 2,
+            interval: 0,
+            startAt: 0
+        })
+        expect(capabilities.calls[0].constraints[0]).toMatchObject({
+            parameter: "amount",
+            condition: "lessThan",
+            decodedValues: [100n]
+        })
+        expect(capabilities.gas).toEqual({
+            paymaster: recipient,
+            enforcePaymaster: true
+        })
+        expect(capabilities.summary).toEqual([
+            `Can call transfer on ${token} without value 2 times if amount must be less than 100`,
+            `Valid until ${new Date(300 * 1000).toISOString()}`,
+            `Must use the paymaster ${recipient}`
+        ])
+    })
+})
@@ -0,0 +1,117 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { toHex } from "viem"
+import {
+    decryptSerializedAccount,
+    encryptSerializedAccount,
+    isEncryptedSerializedAccount
+} from "../../core/accounts/utils/encryptSerializedAccount.js"
+import { KernelError } from "../../core/errors/kernel.js"
+
+const serializedAccount = btoa(
+    JSON.stringify({ accountParams: { accountAddress: "0x1234" } })
+)
+
+describe("encryptSerializedAccount", () => {
+    test("round trips an account encrypted with a password", async () => {
+        const encrypted = await encryptSerializedAccount(serializedAccount, {
+            password: "correct horse",
+            iterations: 1000
+        })
+
+        expect(isEncryptedSerializedAccount(encrypted)).toBe(true)
+        expect(JSON.parse(atob(encrypted))).toMatchObject({
+            type: "kernel-encrypted-account",
+            version: 1,
+            kdf: { name: "PBKDF2", iterations: 1000 }
+        })
+        expect(
+            await decryptSerializedAccount(encrypted, {
+                password: "correct horse"
+            })
+        ).toBe(serializedAccount)
+        await expect(
+            decryptSerializedAccount(encrypted, { password: "wrong" })
+        ).rejects.toThrow(KernelError)
+        await expect(decryptSerializedAccount(encrypted)).rejects.toThrow(
+            "The serialized account is encrypted with a password"
+        )
+    })
+
+    test("round trips an account encrypted for a recipient", async () => {
+        const recipient = await crypto.subtle.generateKey(
+            { name: "ECDH", namedCurve: "P-256" },
+            true,
+            ["deriveBits"]
+        )
+        const recipientPublicKey = toHex(
+            new Uint8Array(
+                await crypto.subtle.exportKey("raw", recipient.publicKey)
+            )
+        )
+        const encrypted = await encryptSerializedAccount(serializedAccount, {
+            recipientPublicKey
+        })
+
+        expect(
+            await decryptSerializedAccount(encrypted, {
+                privateKey: recipient.privateKey
+            })
+        ).toBe(serializedAccount)
+        const other = await crypto.subtle.generateKey(
+            { name: "ECDH", namedCurve: "P-256" },
+            true,
+            ["deriveBits"]
+        )
+        await expect(
+            decryptSerializedAccount(encrypted, {
+                privateKey: other.privateKey
+            })
+        ).rejects.toThrow(KernelError)
+    })
+
+    test("detects a tampered envelope", async () => {
+        const encrypted = await encryptSerializedAccount(serializedAccount, {
+            password: "correct horse",
+            iterations: 1000
+        })
+        const envelope = JSON.parse(atob(encrypted))
+
+        const tamperedHeader = btoa(
+            JSON.stringify({
+                ...envelope,
+                kdf: { ...envelope.kdf, iterations: 1001 }
+            })
+        )
+        await expect(
+            decryptSerializedAccount(tamperedHeader, {
+                password: "correct horse"
+            })
+        ).rejects.toThrow("the envelope was tampered with")
+        const unsupported = btoa(JSON.stringify({ ...envelope, version: 2 }))
+        await expect(
+            decryptSerializedAccount(unsupported, { password: "correct horse" })
+        ).rejects.toThrow("Unsupported encrypted account version 2")
+        const expensive = btoa(
+            JSON.stringify({
+                ...envelope,
+                kdf: { ...envelope.kdf, iterations: 2 ** 40 }
+            })
+        )
+        await expect(
+            decryptSerializedAccount(expensive, { password: "correct horse" })
+        ).rejects.toThrow("Invalid PBKDF2 iterations")
+    })
+
+    test("passes a plaintext account through", async () => {
+        expect(isEncryptedSerializedAccount(serializedAccount)).toBe(false)
+        expect(await decryptSerializedAccount(serializedAccount)).toBe(
+            serializedAccount
+        )
+        await expect(
+            decryptSerializedAccount(serializedAccount, {
+                password: "correct horse"
+            })
+        ).rejects.toThrow("The serialized account is not encrypted")
+    })
+})
@@ -0,0 +1,212 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import {
+    type Address,
+    encodeFunctionData,
+    erc20Abi,
+    pad,
+    parseEther,
+    zeroAddress
+} from "viem"
+import { PolicyFlags } from "../../../plugins/permission/constants.js"
+import {
+    CallPolicyVersion,
+    ParamCondition,
+    evaluatePolicies,
+    toCallPolicy,
+    toGasPolicy,
+    toRateLimitPolicy,
+    toSignatureCallerPolicy,
+    toSudoPolicy,
+    toTimestampPolicy
+} from "../../../plugins/permission/policies/index.js"
+import { encodeCallData } from "../../core/accounts/kernel/utils/account/ep0_7/encodeCallData.js"
+
+const token: Address = "0x1111111111111111111111111111111111111111"
+const recipient: Address = "0x2222222222222222222222222222222222222222"
+const stranger: Address = "0x3333333333333333333333333333333333333333"
+const paymaster: Address = "0x4444444444444444444444444444444444444444"
+
+const callPolicy = toCallPolicy({
+    policyVersion: CallPolicyVersion.V0_0_4,
+    permissions: [
+        {
+            target: token,
+            abi: erc20Abi,
+            functionName: "transfer",
+            args: [
+                { condition: ParamCondition.EQUAL, value: recipient },
+                {
+                    condition: ParamCondition.LESS_THAN_OR_EQUAL,
+                    value: parseEther("1")
+                }
+            ]
+        },
+        {
+            target: zeroAddress,
+            valueLimit: parseEther("0.1")
+        }
+    ]
+})
+
+const transfer = (to: Address, amount: bigint) => ({
+    to: token,
+    value: 0n,
+    data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: "transfer",
+        args: [to, amount]
+    })
+})
+
+describe("evaluatePolicies", () => {
+    test("accepts the calls allowed by the call policy", async () => {
+        const callData = await encodeCallData([
+            transfer(recipient, parseEther("1")),
+            { to: stranger, value: parseEther("0.1"), data: "0x" }
+        ])
+        expect(
+            evaluatePolicies({
+                policies: [callPolicy, toSudoPolicy({})],
+                userOperation: { callData }
+            })
+        ).toEqual({ valid: true, violations: [] })
+    })
+
+    test("reports the broken rules of the call policy", async () => {
+        const callData = await encodeCallData([
+            transfer(stranger, parseEther("2")),
+            { to: stranger, value: parseEther("1"), data: "0x" },
+            {
+                to: stranger,
+                value: 0n,
+                data: encodeFunctionData({
+                    abi: erc20Abi,
+                    functionName: "approve",
+                    args: [stranger, 1n]
+                })
+            }
+        ])
+        const { valid, violations } = evaluatePolicies({
+            policies: [callPolicy],
+            userOperation: { callData }
+        })
+
+        expect(valid).toBe(false)
+        expect(violations).toHaveLength(4)
+        expect(violations[0]).toMatchObject({
+            policyIndex: 0,
+            type: "call",
+            policyAddress: "0x9a52283276A0ec8740DF50bF01B28A80D880eaf2",
+            execution: { index: 0, target: token, selector: "0xa9059cbb" },
+            rule: { index: 0, param: pad(stranger) }
+        })
+        expect(violations[1]).toMatchObject({
+            execution: { index: 0 },
+            rule: { index: 1, param: pad("0x1bc16d674ec80000") }
+        })
+        expect(violations[1].reason).toBe(
+            "The parameter at offset 32 is 2000000000000000000, it must be less than or equal to 1000000000000000000"
+        )
+        expect(violations[2]).toMatchObject({
+            execution: { index: 1, value: parseEther("1") },
+            reason: "The value 1000000000000000000 exceeds the limit of 100000000000000000"
+        })
+        expect(violations[3]).toMatchObject({
+            execution: { index: 2, selector: "0x095ea7b3" },
+            reason: `No permission allows calling 0x095ea7b3 on ${stranger}`
+        })
+    })
+
+    test("evaluates the gas, rate limit and timestamp policies", async () => {
+        const callData = await encodeCallData(transfer(recipient, 1n))
+        const policies = [
+            toGasPolicy({ allowed: 1_000_000n, allowedPaymaster: paymaster }),
+            toRateLimitPolicy({ count: 2 }),
+            toTimestampPolicy({ validAfter: 100, validUntil: 200 })
+        ]
+        const userOperation = {
+            callData,
+            paymaster,
+            callGasLimit: 100_000n,
+            verificationGasLimit: 200_000n,
+            preVerificationGas: 50_000n,
+            maxFeePerGas: 2n
+        }
+
+        expect(
+            evaluatePolicies({ policies, userOperation, timestamp: 150 }).valid
+        ).toBe(true)
+        const { violations } = evaluatePolicies({
+            policies,
+            userOperation: { ...userOperation, paymaster: undefined },
+            timestamp: 250,
+            rateLimitUsed: 2
+        })
+        expect(
+            violations.map(({ type, reason }) => ({ type, reason }))
+        ).toEqual([
+            {
+                type: "gas",
+                reason: `The UserOperation must use the paymaster ${paymaster}`
+            },
+            {
+                type: "rate-limit",
+                reason: "The 2 allowed UserOperations were sent"
+            },
+            { type: "timestamp", reason: "The permission expired at 200" }
+        ])
+        expect(
+            evaluatePolicies({
+                policies,
+                userOperation,
+                timestamp: 150,
+                gasAllowanceUsed: 500_000n
+            }).violations[0].reason
+        ).toBe(
+            "The maximum gas cost 700000 exceeds the remaining allowance of 500000"
+        )
+
+        // Each UserOperation moves the start of the next one by the interval
+        const rateLimit = [
+            toRateLimitPolicy({ count: 3, interval: 60, startAt: 100 })
+        ]
+        const evaluate = (timestamp: number, rateLimitUsed: number) =>
+            evaluatePolicies({
+                policies: rateLimit,
+                userOperation,
+                timestamp,
+                rateLimitUsed
+            }).violations.map(({ reason }) => reason)
+        expect(evaluate(100, 0)).toEqual([])
+        expect(evaluate(159, 1)).toEqual([
+            "The next UserOperation is allowed from 160"
+        ])
+        expect(evaluate(220, 2)).toEqual([])
+        expect(evaluate(1000, 3)).toEqual([
+            "The 3 allowed UserOperations were sent"
+        ])
+    })
+
+    test("evaluates the policies of a signature", () => {
+        const policies = [
+            toSignatureCallerPolicy({ allowedCallers: [recipient] }),
+            toRateLimitPolicy({ count: 0 }),
+            toTimestampPolicy({
+                validUntil: 200,
+                policyFlag: PolicyFlags.NOT_FOR_VALIDATE_SIG
+            })
+        ]
+        expect(
+            evaluatePolicies({ policies, caller: recipient, timestamp: 300 })
+        ).toEqual({ valid: true, violations: [] })
+        expect(
+            evaluatePolicies({ policies, caller: stranger }).violations
+        ).toMatchObject([
+            {
+                type: "signature-caller",
+                reason: `${stranger} is not allowed to verify the signatures`
+            }
+        ])
+    })
+})
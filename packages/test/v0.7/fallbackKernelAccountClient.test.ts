@@ -0,0 +1,233 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import { type Hex, toHex } from "viem"
+import { createFallbackKernelAccountClient } from "../../core/clients/fallbackKernelAccountClient.js"
+import { createKernelAccountClient } from "../../core/clients/kernelAccountClient.js"
+import {
+    getMockBundlerTransport,
+    getMockKernelAccount,
+    getMockUserOperationReceipt,
+    mockGasEstimate,
+    mockSender as sender
+} from "./utils.js"
+
+const getMockAccount = (signatures: Hex[]) =>
+    getMockKernelAccount({
+        signUserOperation: async () => {
+            // Every signature differs, like it would with a new nonce or gas price
+            const signature = toHex(signatures.length + 1, { size: 2 })
+            signatures.push(signature)
+            return signature
+        }
+    })
+
+type MockBundler = {
+    sent: { signature: Hex }[]
+    calls: string[]
+    failing: Set<string>
+    // RPC errors returned by the bundler keyed by method
+    rejecting: Map<string, string>
+}
+
+const getMockBundler = (): MockBundler => ({
+    sent: [],
+    calls: [],
+    failing: new Set(),
+    rejecting: new Map()
+})
+
+const getBundlerTransport = (bundler: MockBundler) =>
+    getMockBundlerTransport(
+        {
+            eth_chainId: () => "0x1",
+            eth_estimateUserOperationGas: () => mockGasEstimate,
+            eth_sendUserOperation: ([userOperation]) => {
+                bundler.sent.push(userOperation)
+                return userOperation.signature
+            },
+            eth_getUserOperationReceipt: ([hash]) =>
+                getMockUserOperationReceipt(hash)
+        },
+        (method) => {
+            bundler.calls.push(method)
+            if (bundler.failing.has(method)) {
+                throw new Error(`${method} unavailable`)
+            }
+            const rejection = bundler.rejecting.get(method)
+            if (rejection) throw { code: -32500, message: rejection }
+        }
+    )
+
+const getClients = (count: number, signatures: Hex[] = []) => {
+    const account = getMockAccount(signatures)
+    const bundlers = Array.from({ length: count }, getMockBundler)
+    const clients = bundlers.map((bundler) =>
+        createKernelAccountClient({
+            account,
+            entryPoint: ENTRYPOINT_ADDRESS_V07,
+            bundlerTransport: getBundlerTransport(bundler)
+        })
+    )
+    return { bundlers, clients }
+}
+
+const userOperation = {
+    callData: "0x" as Hex,
+    maxFeePerGas: 1n,
+    maxPriorityFeePerGas: 1n
+}
+
+describe("createFallbackKernelAccountClient", () => {
+    test("keeps the order of the clients by default", async () => {
+        const { bundlers, clients } = getClients(2)
+        const errors: string[] = []
+        const client = createFallbackKernelAccountClient(
+            clients,
+            async (error) => {
+                errors.push(error.message)
+            }
+        )
+
+        bundlers[0].failing.add("eth_chainId")
+        expect(await client.request({ method: "eth_chainId" })).toBe("0x1")
+        expect(bundlers[0].calls).toEqual(["eth_chainId"])
+        expect(bundlers[1].calls).toEqual(["eth_chainId"])
+        expect(errors).toHaveLength(1)
+    })
+
+    test("ranks the endpoints by weight and health", async () => {
+        const { bundlers, clients } = getClients(3)
+        const client = createFallbackKernelAccountClient(clients, {
+            weights: [1, 2, 1]
+        })
+
+        await client.request({ method: "eth_chainId" })
+        expect(bundlers[1].calls).toEqual(["eth_chainId"])
+        expect(bundlers[0].calls).toEqual([])
+
+        bundlers[1].failing.add("eth_chainId")
+        await client.request({ method: "eth_chainId" })
+        await client.request({ method: "eth_chainId" })
+        const [first, second, third] = client.getEndpointsHealth()
+        expect(first.consecutiveFailures).toBe(0)
+        expect(second.consecutiveFailures).toBe(0)
+        expect(third.consecutiveFailures).toBe(2)
+        expect(third.successRate).toBeLessThan(first.successRate)
+    })
+
+    test("opens the circuit after repeated failures and retries it after the cool-down", async () => {
+        const { bundlers, clients } = getClients(2)
+        const client = createFallbackKernelAccountClient(clients, {
+            weights: [10, 1],
+            failureThreshold: 2,
+            cooldown: 50
+        })
+
+        bundlers[0].failing.add("eth_chainId")
+        await client.request({ method: "eth_chainId" })
+        await client.request({ method: "eth_chainId" })
+        expect(client.getEndpointsHealth()[1].circuit).toBe("open")
+
+        bundlers[0].failing.clear()
+        await client.request({ method: "eth_chainId" })
+        expect(bundlers[0].calls).toHaveLength(2)
+
+        await new Promise((resolve) => setTimeout(resolve, 60))
+        expect(client.getEndpointsHealth()[0].circuit).toBe("half-open")
+        await client.request({ method: "eth_chainId" })
+        expect(bundlers[0].calls).toHaveLength(3)
+        expect(client.getEndpointsHealth()[0].circuit).toBe("closed")
+    })
+
+    test("applies the retry policy of the action", async () => {
+        const { bundlers, clients } = getClients(2)
+        const client = createFallbackKernelAccountClient(clients, {
+            retryPolicies: {
+                request: {
+                    shouldRetry: (error) =>
+                        !error.message.includes("unavailable")
+                }
+            }
+        })
+
+        bundlers[0].failing.add("eth_chainId")
+        await expect(client.request({ method: "eth_chainId" })).rejects.toThrow(
+            "unavailable"
+        )
+        expect(bundlers[1].calls).toEqual([])
+        expect(client.getEndpointsHealth()[0].consecutiveFailures).toBe(0)
+
+        const limited = getClients(3)
+        const limitedClient = createFallbackKernelAccountClient(
+            limited.clients,
+            { defaultRetryPolicy: { maxAttempts: 2 } }
+        )
+        limited.bundlers[0].failing.add("eth_chainId")
+        limited.bundlers[1].failing.add("eth_chainId")
+        await expect(
+            limitedClient.request({ method: "eth_chainId" })
+        ).rejects.toThrow("unavailable")
+        expect(limited.bundlers[2].calls).toEqual([])
+    })
+
+    test("resubmits the same signed UserOperation to the next bundler", async () => {
+        const signatures: Hex[] = []
+        const { bundlers, clients } = getClients(2, signatures)
+        const client = createFallbackKernelAccountClient(clients, {
+            weights: [2, 1]
+        })
+
+        bundlers[0].failing.add("eth_sendUserOperation")
+        const hash = await client.sendUserOperation({ userOperation })
+        expect(signatures).toHaveLength(1)
+        expect(hash).toBe(signatures[0])
+        expect(bundlers[0].calls).toContain("eth_sendUserOperation")
+        expect(bundlers[1].sent).toHaveLength(1)
+        expect(bundlers[1].sent[0].signature).toBe(signatures[0])
+    })
+
+    test("doesn't resubmit a UserOperation rejected by the EntryPoint", async () => {
+        const { bundlers, clients } = getClients(2)
+        const client = createFallbackKernelAccountClient(clients)
+
+        // The bundler tried first depends on the latencies of the estimation
+        for (const bundler of bundlers) {
+            bundler.rejecting.set(
+                "eth_sendUserOperation",
+                "AA25 invalid account nonce"
+            )
+        }
+        await expect(
+            client.sendUserOperation({ userOperation })
+        ).rejects.toThrow("AA25")
+        expect(
+            bundlers.flatMap(({ calls }) =>
+                calls.filter((method) => method === "eth_sendUserOperation")
+            )
+        ).toHaveLength(1)
+        for (const endpoint of client.getEndpointsHealth()) {
+            expect(endpoint.consecutiveFailures).toBe(0)
+        }
+    })
+
+    test("sends transactions through the guarded submission", async () => {
+        const signatures: Hex[] = []
+        const { bundlers, clients } = getClients(2, signatures)
+        const client = createFallbackKernelAccountClient(clients, {
+            weights: [2, 1]
+        })
+
+        bundlers[0].failing.add("eth_sendUserOperation")
+        bundlers[1].failing.add("eth_getUserOperationReceipt")
+        const transactionHash = await client.sendTransaction({
+            to: sender,
+            data: "0x1234",
+            maxFeePerGas: 1n,
+            maxPriorityFeePerGas: 1n
+        })
+        expect(transactionHash).toBe("0x5678")
+        expect(signatures).toHaveLength(1)
+        expect(bundlers[1].sent.map((op) => op.signature)).toEqual(signatures)
+    })
+})
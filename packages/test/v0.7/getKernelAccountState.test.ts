@@ -0,0 +1,251 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import type { ENTRYPOINT_ADDRESS_V07_TYPE } from "permissionless/types/entrypoint.js"
+import {
+    type Address,
+    type Hex,
+    concatHex,
+    createPublicClient,
+    custom,
+    decodeFunctionData,
+    encodeAbiParameters,
+    encodeEventTopics,
+    encodeFunctionResult,
+    getAbiItem,
+    pad,
+    zeroAddress
+} from "viem"
+import { KernelV3AccountAbi } from "../../core/accounts/kernel/abi/kernel_v_3_0_0/KernelAccountAbi.js"
+import type { KernelSmartAccount } from "../../core/accounts/kernel/createKernelAccount.js"
+import { createKernelAccountClient } from "../../core/clients/kernelAccountClient.js"
+
+const sender: Address = "0x1111111111111111111111111111111111111111"
+const ecdsaValidator: Address = "0x2222222222222222222222222222222222222222"
+const removedValidator: Address = "0x3333333333333333333333333333333333333333"
+const signer: Address = "0x4444444444444444444444444444444444444444"
+const policy: Address = "0x5555555555555555555555555555555555555555"
+const spendingLimitHook: Address = "0x6666666666666666666666666666666666666666"
+const executor: Address = "0x7777777777777777777777777777777777777777"
+const fallback: Address = "0x8888888888888888888888888888888888888888"
+const noHook: Address = "0x0000000000000000000000000000000000000001"
+
+const permissionId: Hex = "0xdeadbeef"
+const rootValidationId = concatHex(["0x01", ecdsaValidator]).toLowerCase()
+const permissionValidationId = concatHex([
+    "0x02",
+    pad(permissionId, { size: 20, dir: "right" })
+])
+
+type KernelEventName = Extract<
+    (typeof KernelV3AccountAbi)[number],
+    { type: "event" }
+>["name"]
+
+const toLog = (eventName: KernelEventName, args: readonly unknown[]) => {
+    const event = getAbiItem({ abi: KernelV3AccountAbi, name: eventName })
+    return {
+        address: sender,
+        topics: encodeEventTopics({ abi: [event], eventName } as never),
+        data: encodeAbiParameters(
+            (event as { inputs: readonly { type: string }[] }).inputs,
+            args
+        ),
+        blockNumber: "0x1",
+        blockHash: pad("0x1"),
+        transactionHash: pad("0x2"),
+        transactionIndex: "0x0",
+        logIndex: "0x0",
+        removed: false
+    }
+}
+
+const logs = [
+    toLog("ValidatorInstalled", [removedValidator, 2]),
+    toLog("ValidatorUninstalled", [removedValidator]),
+    toLog("PermissionInstalled", [permissionId, 2]),
+    toLog("SelectorSet", ["0x12345678", permissionValidationId, true]),
+    toLog("SelectorSet", ["0x9abcdef0", permissionValidationId, true]),
+    toLog("SelectorSet", ["0x9abcdef0", permissionValidationId, false]),
+    toLog("ModuleInstalled", [2n, executor]),
+    toLog("ModuleInstalled", [5n, policy])
+]
+
+const readResults: Record<string, (args: readonly unknown[]) => unknown> = {
+    rootValidator: () => rootValidationId,
+    currentNonce: () => 3,
+    validNonceFrom: () => 2,
+    accountId: () => "kernel.advanced.v0.3.0",
+    validationConfig: ([validationId]) => {
+        if (validationId === rootValidationId) return { nonce: 1, hook: noHook }
+        if (validationId === permissionValidationId)
+            return { nonce: 2, hook: spendingLimitHook }
+        return { nonce: 0, hook: zeroAddress }
+    },
+    permissionConfig: () => ({
+        permissionFlag: "0x0000",
+        signer,
+        policyData: [concatHex(["0x0001", policy])]
+    }),
+    executorConfig: () => ({ hook: noHook }),
+    selectorConfig: ([selector]) =>
+        selector === "0xabcdef01"
+            ? { hook: noHook, target: fallback, callType: "0x00" }
+            : { hook: zeroAddress, target: zeroAddress, callType: "0x00" }
+}
+
+// The account is deployed at block 100, the latest block is 200, and the
+// node rejects the `eth_getLogs` of more than `maxLogsRange` blocks
+const getClient = (code: Hex = "0xef01", maxLogsRange = 1000) => {
+    const logFilters: { fromBlock: Hex; toBlock: Hex }[] = []
+    const account = {
+        address: sender,
+        entryPoint: ENTRYPOINT_ADDRESS_V07,
+        type: "local",
+        client: createPublicClient({
+            transport: custom({
+                request: async ({ method, params }) => {
+                    if (method === "eth_blockNumber") return "0xc8"
+                    if (method === "eth_getCode") {
+                        return params[1] === "latest" ||
+                            BigInt(params[1]) >= 100n
+                            ? code
+                            : "0x"
+                    }
+                    if (method === "eth_getLogs") {
+                        const { fromBlock, toBlock } = params[0]
+                        if (BigInt(toBlock) - BigInt(fromBlock) >= maxLogsRange)
+                            throw new Error("block range too large")
+                        logFilters.push(params[0])
+                        // The events are emitted by the deployment
+                        return BigInt(fromBlock) <= 100n &&
+                            BigInt(toBlock) >= 100n
+                            ? logs
+                            : []
+                    }
+                    if (method === "eth_call") {
+                        const { functionName, args = [] } = decodeFunctionData({
+                            abi: KernelV3AccountAbi,
+                            data: params[0].data
+                        })
+                        return encodeFunctionResult({
+                            abi: KernelV3AccountAbi,
+                            functionName,
+                            result: readResults[functionName](args)
+                        } as never)
+                    }
+                    throw new Error(`Unexpected method ${method}`)
+                }
+            })
+        })
+    } as unknown as KernelSmartAccount<ENTRYPOINT_ADDRESS_V07_TYPE>
+    const client = createKernelAccountClient({
+        account,
+        entryPoint: ENTRYPOINT_ADDRESS_V07,
+        bundlerTransport: custom({
+            request: async ({ method }) => {
+                throw new Error(`Unexpected method ${method}`)
+            }
+        })
+    })
+    return { client, logFilters }
+}
+
+describe("getKernelAccountState", () => {
+    test("enumerates the installed modules of the account", async () => {
+        const { client, logFilters } = getClient()
+        const state = await client.getKernelAccountState({
+            fromBlock: 10n,
+            selectors: ["0xabcdef01"]
+        })
+
+        expect(logFilters[0]).toMatchObject({
+            address: sender,
+            fromBlock: "0xa"
+        })
+        expect(state).toMatchObject({
+            address: sender,
+            deployed: true,
+            accountId: "kernel.advanced.v0.3.0",
+            rootValidator: rootValidationId,
+            currentNonce: 3,
+            validNonceFrom: 2
+        })
+        expect(state.validations).toEqual([
+            {
+                type: "validator",
+                validationId: rootValidationId,
+                validator: ecdsaValidator,
+                isRoot: true,
+                nonce: 1,
+                isValid: true,
+                hook: undefined,
+                selectors: []
+            },
+            {
+                type: "permission",
+                validationId: permissionValidationId,
+                permissionId,
+                permissionFlag: "0x0000",
+                signer,
+                policies: [{ flag: "0x0001", policy }],
+                isRoot: false,
+                nonce: 2,
+                isValid: true,
+                hook: spendingLimitHook,
+                selectors: ["0x12345678"]
+            }
+        ])
+        expect(state.executors).toEqual([{ executor, hook: undefined }])
+        expect(state.selectors).toEqual([
+            {
+                selector: "0xabcdef01",
+                target: fallback,
+                callType: "0x00",
+                hook: undefined
+            }
+        ])
+        expect(state.hooks).toEqual([spendingLimitHook])
+    })
+
+    test("replays the events from the deployment block", async () => {
+        const { client, logFilters } = getClient()
+        const state = await client.getKernelAccountState()
+
+        expect(logFilters).toEqual([
+            expect.objectContaining({ fromBlock: "0x64", toBlock: "0xc8" })
+        ])
+        expect(state.validations).toHaveLength(2)
+    })
+
+    test("splits the block ranges rejected by the node", async () => {
+        const { client, logFilters } = getClient("0xef01", 40)
+        const state = await client.getKernelAccountState()
+
+        expect(
+            logFilters.map(({ fromBlock, toBlock }) => [
+                Number(fromBlock),
+                Number(toBlock)
+            ])
+        ).toEqual([
+            [100, 125],
+            [126, 150],
+            [151, 175],
+            [176, 200]
+        ])
+        expect(state.validations).toHaveLength(2)
+    })
+
+    test("reports an undeployed account", async () => {
+        const { client, logFilters } = getClient("0x")
+        expect(await client.getKernelAccountState()).toEqual({
+            address: sender,
+            deployed: false,
+            validations: [],
+            executors: [],
+            selectors: [],
+            hooks: []
+        })
+        expect(logFilters).toHaveLength(0)
+    })
+})
@@ -0,0 +1,169 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V06, ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import {
+    type Address,
+    concatHex,
+    encodeFunctionData,
+    getContractAddress,
+    keccak256,
+    pad,
+    toHex,
+    zeroAddress
+} from "viem"
+import { KernelV3_1AccountAbi } from "../../core/accounts/kernel/abi/kernel_v_3_1/KernelAccountAbi.js"
+import {
+    findKernelAddressConfig,
+    getKernelAddressFromConfig
+} from "../../core/accounts/utils/getKernelAddressFromConfig.js"
+import { KernelVersionToAddressesMap } from "../../core/constants.js"
+import {
+    KernelValidationError,
+    UnsupportedKernelVersionError
+} from "../../core/errors/kernel.js"
+
+const ecdsaValidator: Address = "0x845ADb2C711129d4f3966735eD98a9F09fC4cE57"
+const owner: Address = "0x1111111111111111111111111111111111111111"
+
+describe("getKernelAddressFromConfig", () => {
+    test("derives the CREATE2 address of a Kernel v3 account", () => {
+        const { factoryAddress, initCodeHash } =
+            KernelVersionToAddressesMap["0.3.1"]
+        const initData = encodeFunctionData({
+            abi: KernelV3_1AccountAbi,
+            functionName: "initialize",
+            args: [
+                concatHex(["0x01", ecdsaValidator]),
+                zeroAddress,
+                owner,
+                "0x",
+                []
+            ]
+        })
+        const expected = getContractAddress({
+            opcode: "CREATE2",
+            from: factoryAddress,
+            salt: keccak256(concatHex([initData, toHex(3n, { size: 32 })])),
+            bytecodeHash: initCodeHash as `0x${string}`
+        })
+
+        expect(
+            getKernelAddressFromConfig({
+                entryPoint: ENTRYPOINT_ADDRESS_V07,
+                kernelVersion: "0.3.1",
+                validatorAddress: ecdsaValidator,
+                enableData: owner,
+                index: 3n
+            })
+        ).toBe(expected)
+        expect(
+            getKernelAddressFromConfig({
+                entryPoint: ENTRYPOINT_ADDRESS_V07,
+                kernelVersion: "0.3.1",
+                validationId: concatHex(["0x01", ecdsaValidator]),
+                enableData: owner,
+                index: 3n
+            })
+        ).toBe(expected)
+    })
+
+    test("only keeps the low 96 bits of the Kernel v2 salt", () => {
+        const address = getKernelAddressFromConfig({
+            entryPoint: ENTRYPOINT_ADDRESS_V06,
+            kernelVersion: "0.2.4",
+            validatorAddress: ecdsaValidator,
+            enableData: owner
+        })
+        expect(address).not.toBe(
+            getKernelAddressFromConfig({
+                entryPoint: ENTRYPOINT_ADDRESS_V06,
+                kernelVersion: "0.2.4",
+                validatorAddress: ecdsaValidator,
+                enableData: owner,
+                index: 1n
+            })
+        )
+        // The salt doesn't depend on the implementation
+        expect(address).toBe(
+            getKernelAddressFromConfig({
+                entryPoint: ENTRYPOINT_ADDRESS_V06,
+                kernelVersion: "0.2.2",
+                validatorAddress: ecdsaValidator,
+                enableData: owner
+            })
+        )
+    })
+
+    test("rejects the configurations it cannot derive", () => {
+        expect(() =>
+            getKernelAddressFromConfig({
+                entryPoint: ENTRYPOINT_ADDRESS_V07,
+                kernelVersion: "0.3.1",
+                enableData: owner
+            })
+        ).toThrow(KernelValidationError)
+        expect(() =>
+            getKernelAddressFromConfig({
+                entryPoint: ENTRYPOINT_ADDRESS_V07,
+                kernelVersion: "0.3.1",
+                validatorAddress: ecdsaValidator,
+                enableData: owner,
+                factoryAddress: owner
+            })
+        ).toThrow(UnsupportedKernelVersionError)
+    })
+})
+
+describe("findKernelAddressConfig", () => {
+    test("finds the version and the index of an address", () => {
+        const address = getKernelAddressFromConfig({
+            entryPoint: ENTRYPOINT_ADDRESS_V07,
+            kernelVersion: "0.3.0",
+            validationId: concatHex(["0x02", pad("0xdeadbeef", { size: 4 })]),
+            enableData: owner,
+            index: 42n
+        })
+
+        expect(
+            findKernelAddressConfig({
+                address,
+                validationId: concatHex(["0x02", "0xdeadbeef"]),
+                enableData: owner
+            })
+        ).toEqual({
+            entryPoint: ENTRYPOINT_ADDRESS_V07,
+            kernelVersion: "0.3.0",
+            index: 42n,
+            factoryAddress: KernelVersionToAddressesMap["0.3.0"].factoryAddress
+        })
+        expect(
+            findKernelAddressConfig({
+                address,
+                validationId: concatHex(["0x02", "0xdeadbeef"]),
+                enableData: owner,
+                toIndex: 41n
+            })
+        ).toBeUndefined()
+    })
+
+    test("reports the newest Kernel v2 version of a v2 address", () => {
+        const address = getKernelAddressFromConfig({
+            entryPoint: ENTRYPOINT_ADDRESS_V06,
+            kernelVersion: "0.2.2",
+            validatorAddress: ecdsaValidator,
+            enableData: owner,
+            index: 7n
+        })
+        expect(
+            findKernelAddressConfig({
+                address,
+                validatorAddress: ecdsaValidator,
+                enableData: owner
+            })
+        ).toMatchObject({
+            entryPoint: ENTRYPOINT_ADDRESS_V06,
+            kernelVersion: "0.2.4",
+            index: 7n
+        })
+    })
+})
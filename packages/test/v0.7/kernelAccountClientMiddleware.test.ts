@@ -0,0 +1,150 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import type { ENTRYPOINT_ADDRESS_V07_TYPE } from "permissionless/types/entrypoint.js"
+import { type Hex, toHex } from "viem"
+import type { KernelAccountClientMiddleware } from "../../core/clients/decorators/middleware.js"
+import { createKernelAccountClient } from "../../core/clients/kernelAccountClient.js"
+import {
+    getMockBundlerTransport,
+    getMockKernelAccount,
+    getMockUserOperationReceipt,
+    mockGasEstimate,
+    mockSender as sender
+} from "./utils.js"
+
+const getMockAccount = () => getMockKernelAccount()
+
+const getBundlerTransport = (sent: unknown[]) =>
+    getMockBundlerTransport({
+        eth_estimateUserOperationGas: () => mockGasEstimate,
+        eth_sendUserOperation: ([userOperation]) => {
+            sent.push(userOperation)
+            return "0x1234"
+        },
+        eth_getUserOperationReceipt: ([hash]) =>
+            getMockUserOperationReceipt(hash)
+    })
+
+describe("KernelAccountClient middleware pipeline", () => {
+    test("runs the stages in order around sponsorship and signing", async () => {
+        const calls: string[] = []
+        const logging = (
+            name: string
+        ): KernelAccountClientMiddleware<ENTRYPOINT_ADDRESS_V07_TYPE> => ({
+            name,
+            beforeSponsorUserOperation: () => {
+                calls.push(`${name}:beforeSponsor`)
+            },
+            afterSponsorUserOperation: () => {
+                calls.push(`${name}:afterSponsor`)
+            },
+            beforeSignUserOperation: ({ userOperation }) => {
+                calls.push(`${name}:beforeSign:${userOperation.signature}`)
+            },
+            afterSignUserOperation: ({ userOperation }) => {
+                calls.push(`${name}:afterSign:${userOperation.signature}`)
+            }
+        })
+        const sent: unknown[] = []
+        const client = createKernelAccountClient({
+            account: getMockAccount(),
+            entryPoint: ENTRYPOINT_ADDRESS_V07,
+            bundlerTransport: getBundlerTransport(sent)
+        })
+            .use(logging("a"))
+            .use(logging("b"))
+
+        const hash = await client.sendUserOperation({
+            userOperation: {
+                callData: "0x",
+                maxFeePerGas: 1n,
+                maxPriorityFeePerGas: 1n
+            }
+        })
+        expect(hash).toBe("0x1234")
+        expect(calls).toEqual([
+            "a:beforeSponsor",
+            "b:beforeSponsor",
+            "a:afterSponsor",
+            "b:afterSponsor",
+            "a:beforeSign:0xdead",
+            "b:beforeSign:0xdead",
+            "a:afterSign:0xbeef",
+            "b:afterSign:0xbeef"
+        ])
+        expect(sent).toHaveLength(1)
+    })
+
+    test("stages can modify the UserOperation and provide the gas price", async () => {
+        const sent: { callData: Hex; maxFeePerGas: Hex }[] = []
+        const client = createKernelAccountClient({
+            account: getMockAccount(),
+            entryPoint: ENTRYPOINT_ADDRESS_V07,
+            bundlerTransport: getBundlerTransport(sent),
+            middlewares: [
+                {
+                    beforeSponsorUserOperation: ({ userOperation }) => ({
+                        ...userOperation,
+                        callData: "0xabcd"
+                    }),
+                    gasPrice: async () => ({
+                        maxFeePerGas: 10n,
+                        maxPriorityFeePerGas: 5n
+                    })
+                },
+                {
+                    gasPrice: async () => ({
+                        maxFeePerGas: 20n,
+                        maxPriorityFeePerGas: 5n
+                    })
+                }
+            ]
+        })
+
+        const userOperation = await client.prepareUserOperationRequest({
+            userOperation: {
+                callData: "0x",
+                maxFeePerGas: 1n,
+                maxPriorityFeePerGas: 1n
+            }
+        })
+        expect(userOperation.callData).toBe("0xabcd")
+        expect(userOperation.maxFeePerGas).toBe(20n)
+        expect(userOperation.callGasLimit).toBe(100n)
+
+        const transactionHash = await client.sendTransaction({
+            to: sender,
+            data: "0x1234",
+            maxFeePerGas: 1n,
+            maxPriorityFeePerGas: 1n
+        })
+        expect(transactionHash).toBe("0x5678")
+        expect(sent[0].callData).toBe("0xabcd")
+        expect(sent[0].maxFeePerGas).toBe(toHex(20n))
+    })
+
+    test("a throwing stage aborts the UserOperation", async () => {
+        const sent: unknown[] = []
+        const client = createKernelAccountClient({
+            account: getMockAccount(),
+            entryPoint: ENTRYPOINT_ADDRESS_V07,
+            bundlerTransport: getBundlerTransport(sent)
+        }).use({
+            afterSignUserOperation: () => {
+                throw new Error("signature rejected")
+            }
+        })
+
+        await expect(
+            client.sendUserOperation({
+                userOperation: {
+                    callData: "0x",
+                    maxFeePerGas: 1n,
+                    maxPriorityFeePerGas: 1n
+                }
+            })
+        ).rejects.toThrow("signature rejected")
+        expect(sent).toHaveLength(0)
+    })
+})
@@ -0,0 +1,119 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import type { KernelAccountClient } from "@zerodev/sdk"
+import { ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import type { EntryPoint } from "permissionless/types"
+import { type Chain, defineChain, toHex } from "viem"
+import { KernelEIP1193Provider } from "../../../wallet/KernelEIP1193Provider.js"
+import { KernelMemoryStorage } from "../../../wallet/utils/storage.js"
+import { mockSender as sender } from "./utils.js"
+
+const toChain = (id: number) =>
+    defineChain({
+        id,
+        name: `Chain ${id}`,
+        nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+        rpcUrls: { default: { http: [`https://rpc.${id}.example`] } }
+    })
+
+const getMockKernelClient = (chain: Chain) =>
+    ({
+        chain,
+        account: { address: sender, entryPoint: ENTRYPOINT_ADDRESS_V07 }
+    }) as unknown as KernelAccountClient<EntryPoint>
+
+const getProvider = (chains: Chain[] = []) => {
+    const created: number[] = []
+    const storage = new KernelMemoryStorage()
+    const provider = new KernelEIP1193Provider(
+        getMockKernelClient(toChain(1)),
+        {
+            chains,
+            createKernelClient: async (chain) => {
+                created.push(chain.id)
+                await new Promise((resolve) => setTimeout(resolve, 1))
+                return getMockKernelClient(chain)
+            },
+            storage
+        }
+    )
+    const chainChanged: string[] = []
+    provider.on("chainChanged", (chainId: string) => chainChanged.push(chainId))
+    return { provider, created, chainChanged }
+}
+
+describe("KernelEIP1193Provider", () => {
+    test("creates the account once when switching to a configured chain", async () => {
+        const { provider, created, chainChanged } = getProvider([toChain(2)])
+        const switchChain = () =>
+            provider.request({
+                method: "wallet_switchEthereumChain",
+                params: [{ chainId: toHex(2) }]
+            })
+
+        await Promise.all([switchChain(), switchChain()])
+        expect(created).toEqual([2])
+        expect(chainChanged).toEqual([toHex(2)])
+        expect(await provider.request({ method: "eth_chainId" })).toBe(2)
+        expect(
+            Object.keys(
+                (await provider.request({
+                    method: "wallet_getCapabilities"
+                    // biome-ignore lint/suspicious/noExplicitAny: the capabilities aren't typed
+                } as any)) as Record<string, unknown>
+            )
+        ).toEqual([toHex(1), toHex(2)])
+    })
+
+    test("rejects the switch to a chain that isn't configured", async () => {
+        const { provider, created } = getProvider()
+
+        await expect(
+            provider.request({
+                method: "wallet_switchEthereumChain",
+                params: [{ chainId: toHex(2) }]
+            })
+        ).rejects.toMatchObject({ code: 4902 })
+        expect(created).toEqual([])
+        expect(await provider.request({ method: "eth_chainId" })).toBe(1)
+    })
+
+    test("adds a chain and switches to it", async () => {
+        const { provider, created, chainChanged } = getProvider()
+
+        await provider.request({
+            method: "wallet_addEthereumChain",
+            params: [
+                {
+                    chainId: toHex(3),
+                    chainName: "Chain 3",
+                    rpcUrls: ["https://rpc.3.example"]
+                }
+            ]
+        })
+        expect(created).toEqual([3])
+        expect(chainChanged).toEqual([toHex(3)])
+        expect(await provider.request({ method: "eth_chainId" })).toBe(3)
+
+        await provider.request({
+            method: "wallet_switchEthereumChain",
+            params: [{ chainId: toHex(1) }]
+        })
+        expect(chainChanged).toEqual([toHex(3), toHex(1)])
+    })
+
+    test("throws the failure of the initialization on the requests", async () => {
+        const storage = new KernelMemoryStorage()
+        storage.setItem = () => {
+            throw new Error("storage unavailable")
+        }
+        const provider = new KernelEIP1193Provider(
+            getMockKernelClient(toChain(1)),
+            { storage }
+        )
+
+        await expect(
+            provider.request({ method: "eth_accounts" })
+        ).rejects.toThrow("storage unavailable")
+    })
+})
@@ -0,0 +1,166 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import type { ENTRYPOINT_ADDRESS_V07_TYPE } from "permissionless/types/entrypoint.js"
+import {
+    type Address,
+    type Client,
+    createClient,
+    custom,
+    encodeErrorResult,
+    parseAbi
+} from "viem"
+import { KernelV3AccountAbi } from "../../core/accounts/kernel/abi/kernel_v_3_0_0/KernelAccountAbi.js"
+import { toKernelPluginManager } from "../../core/accounts/utils/toKernelPluginManager.js"
+import { getKernelError } from "../../core/errors/getKernelError.js"
+import {
+    KernelBundlerError,
+    KernelValidationError,
+    NonceConflictError,
+    PaymasterRejectedError,
+    PolicyViolationError,
+    UnsupportedKernelVersionError
+} from "../../core/errors/kernel.js"
+import { validateKernelVersionWithEntryPoint } from "../../core/utils.js"
+
+const sender: Address = "0x1111111111111111111111111111111111111111"
+
+// Returns the error thrown by a bundler answering with the given RPC error
+const getBundlerError = async (error: {
+    code: number
+    message: string
+    data?: unknown
+}) => {
+    const client = createClient({
+        transport: custom({
+            request: async () => {
+                throw error
+            }
+        })
+    })
+    return client
+        .request({ method: "eth_sendUserOperation" as "eth_chainId" })
+        .catch((error: unknown) => error)
+}
+
+describe("getKernelError", () => {
+    test("decodes the EntryPoint codes of the bundler errors", async () => {
+        const nonceError = getKernelError(
+            await getBundlerError({
+                code: -32500,
+                message: "AA25 invalid account nonce"
+            })
+        )
+        expect(nonceError).toBeInstanceOf(NonceConflictError)
+        expect(nonceError).toMatchObject({
+            code: "NONCE_CONFLICT",
+            aaCode: "AA25",
+            retryable: false
+        })
+
+        const paymasterError = getKernelError(
+            await getBundlerError({
+                code: -32500,
+                message: "AA31 paymaster deposit too low"
+            })
+        )
+        expect(paymasterError).toBeInstanceOf(PaymasterRejectedError)
+        expect(paymasterError.code).toBe("PAYMASTER_DEPOSIT_TOO_LOW")
+
+        const signatureError = getKernelError(
+            await getBundlerError({
+                code: -32507,
+                message:
+                    "Invalid UserOperation signature or paymaster signature: AA24 signature error"
+            })
+        )
+        expect(signatureError).toBeInstanceOf(KernelValidationError)
+        expect(signatureError.code).toBe("SIGNATURE_INVALID")
+
+        const bundlerError = getKernelError(
+            await getBundlerError({
+                code: -32500,
+                message: "AA95 out of gas"
+            })
+        )
+        expect(bundlerError).toBeInstanceOf(KernelBundlerError)
+        expect(bundlerError.retryable).toBe(true)
+    })
+
+    test("decodes the Kernel and policy errors of a reverted validation", async () => {
+        const policyFailed = encodeErrorResult({
+            abi: KernelV3AccountAbi,
+            errorName: "PolicyFailed",
+            args: [1n]
+        })
+        const error = getKernelError(
+            await getBundlerError({
+                code: -32500,
+                message: `UserOperation reverted during simulation with reason: AA23 reverted ${policyFailed}`
+            })
+        )
+        expect(error).toBeInstanceOf(PolicyViolationError)
+        expect(error).toBeInstanceOf(KernelValidationError)
+        expect(error).toMatchObject({
+            code: "POLICY_VIOLATION",
+            aaCode: "AA23",
+            revert: { errorName: "PolicyFailed", args: [1n] }
+        })
+
+        const spendingLimitAbi = parseAbi([
+            "error SpendingLimitExceeded(address account, uint256 limit)"
+        ])
+        const customPolicyError = getKernelError(
+            await getBundlerError({
+                code: 3,
+                message: "execution reverted",
+                data: encodeErrorResult({
+                    abi: spendingLimitAbi,
+                    errorName: "SpendingLimitExceeded",
+                    args: [sender, 10n]
+                })
+            }),
+            { policyAbis: [spendingLimitAbi] }
+        )
+        expect(customPolicyError).toBeInstanceOf(PolicyViolationError)
+        expect(customPolicyError.revert?.args).toEqual([sender, 10n])
+
+        const nonceError = getKernelError(
+            await getBundlerError({
+                code: 3,
+                message: "execution reverted",
+                data: encodeErrorResult({
+                    abi: KernelV3AccountAbi,
+                    errorName: "InvalidNonce"
+                })
+            })
+        )
+        expect(nonceError).toBeInstanceOf(NonceConflictError)
+    })
+
+    test("keeps the unknown errors retryable", () => {
+        const error = getKernelError(new Error("fetch failed"))
+        expect(error).toMatchObject({
+            code: "UNKNOWN",
+            retryable: true,
+            shortMessage: "fetch failed"
+        })
+        expect(getKernelError(error)).toBe(error)
+    })
+
+    test("throws typed errors for misconfigured accounts", async () => {
+        expect(() =>
+            validateKernelVersionWithEntryPoint(ENTRYPOINT_ADDRESS_V07, "0.2.4")
+        ).toThrow(UnsupportedKernelVersionError)
+
+        const error = await toKernelPluginManager<ENTRYPOINT_ADDRESS_V07_TYPE>(
+            {} as Client,
+            {
+                entryPoint: ENTRYPOINT_ADDRESS_V07,
+                kernelVersion: "0.3.0"
+            }
+        ).catch((error: unknown) => error)
+        expect(error).toBeInstanceOf(KernelValidationError)
+        expect(error).toMatchObject({ code: "VALIDATOR_NOT_SET" })
+    })
+})
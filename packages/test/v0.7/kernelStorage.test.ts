@@ -0,0 +1,315 @@
+// @ts-expect-error
+import { afterEach, describe, expect, test } from "bun:test"
+import { tmpdir } from "os"
+import { join } from "path"
+import { mkdtemp, readFile, rm, stat, writeFile } from "fs/promises"
+import { migrateLocalStorage } from "../../../wallet/utils/migrateLocalStorage.js"
+import {
+    KernelFileStorage,
+    KernelIndexedDBStorage,
+    KernelLocalStorage,
+    KernelMemoryStorage
+} from "../../../wallet/utils/storage.js"
+
+type FakeRequest = {
+    result?: unknown
+    error?: Error
+    onsuccess?: () => void
+    onerror?: () => void
+    onupgradeneeded?: () => void
+}
+
+type FakeTransaction = {
+    error?: Error
+    oncomplete?: () => void
+    onerror?: () => void
+    onabort?: () => void
+}
+
+type FakeDatabase = {
+    version: number
+    stores: Map<string, Map<string, unknown>>
+    connections: Set<{ onversionchange?: () => void }>
+}
+
+const createFakeIndexedDB = () => {
+    const databases = new Map<string, FakeDatabase>()
+    const fake = {
+        opened: 0,
+        failing: false,
+        databases,
+        open(name: string, version?: number) {
+            fake.opened++
+            const request: FakeRequest = {}
+            // The requests settle asynchronously, like in the browsers
+            setTimeout(() => {
+                const database = databases.get(name) ?? {
+                    version: 0,
+                    stores: new Map(),
+                    connections: new Set()
+                }
+                databases.set(name, database)
+                const targetVersion = version ?? Math.max(database.version, 1)
+                if (targetVersion < database.version) {
+                    request.error = Object.assign(new Error("VersionError"), {
+                        name: "VersionError"
+                    })
+                    request.onerror?.()
+                    return
+                }
+                const connection = createConnection(database)
+                request.result = connection
+                if (targetVersion > database.version) {
+                    for (const other of database.connections) {
+                        other.onversionchange?.()
+                    }
+                    database.version = targetVersion
+                    connection.version = targetVersion
+                    request.onupgradeneeded?.()
+                }
+                database.connections.add(connection)
+                request.onsuccess?.()
+            })
+            return request
+        }
+    }
+
+    const createConnection = (database: FakeDatabase) => {
+        let closed = false
+        const connection = {
+            onversionchange: undefined as (() => void) | undefined,
+            version: database.version,
+            objectStoreNames: {
+                contains: (storeName: string) => database.stores.has(storeName)
+            },
+            createObjectStore: (storeName: string) =>
+                database.stores.set(storeName, new Map()),
+            close: () => {
+                closed = true
+                database.connections.delete(connection)
+            },
+            transaction: (storeName: string) => {
+                if (closed) throw new Error("InvalidStateError")
+                const store = database.stores.get(storeName)
+                if (!store) throw new Error("NotFoundError")
+                const transaction: FakeTransaction = {}
+                const error = fake.failing
+                    ? new Error("QuotaExceededError")
+                    : undefined
+                // The writes are only committed once the transaction
+                // completes, after the success of their request
+                const settle = (result: unknown, commit = () => {}) => {
+                    const request: FakeRequest = {}
+                    setTimeout(() => {
+                        if (error) {
+                            request.error = error
+                            request.onerror?.()
+                            transaction.onerror?.()
+                            transaction.error = error
+                            transaction.onabort?.()
+                            return
+                        }
+                        request.result = result
+                        request.onsuccess?.()
+                        setTimeout(() => {
+                            commit()
+                            transaction.oncomplete?.()
+                        })
+                    })
+                    return request
+                }
+                return Object.assign(transaction, {
+                    objectStore: () => ({
+                        get: (key: string) => settle(store.get(key)),
+                        put: (value: unknown, key: string) =>
+                            settle(key, () => store.set(key, value)),
+                        delete: (key: string) =>
+                            settle(undefined, () => store.delete(key))
+                    })
+                })
+            }
+        }
+        return connection
+    }
+    return fake
+}
+
+const createFakeLocalStorage = () => {
+    const items = new Map<string, string>()
+    return {
+        items,
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => items.set(key, value),
+        removeItem: (key: string) => items.delete(key)
+    }
+}
+
+const globals = globalThis as Record<string, unknown>
+
+afterEach(() => {
+    globals.indexedDB = undefined
+    globals.localStorage = undefined
+    globals.window = undefined
+})
+
+describe("KernelIndexedDBStorage", () => {
+    test("stores the items in the object store", async () => {
+        const fake = createFakeIndexedDB()
+        globals.indexedDB = fake
+        const storage = new KernelIndexedDBStorage({
+            databaseName: "wallet",
+            storeName: "items"
+        })
+
+        expect(await storage.getItem("key")).toBeNull()
+        await storage.setItem("key", "value")
+        expect(await storage.getItem("key")).toBe("value")
+        expect(
+            fake.databases.get("wallet")?.stores.get("items")?.get("key")
+        ).toBe("value")
+        await storage.removeItem("key")
+        expect(await storage.getItem("key")).toBeNull()
+        // The database is opened once
+        expect(fake.opened).toBe(1)
+
+        const reopened = new KernelIndexedDBStorage({
+            databaseName: "wallet",
+            storeName: "items"
+        })
+        await storage.setItem("key", "persisted")
+        expect(await reopened.getItem("key")).toBe("persisted")
+    })
+
+    test("creates the stores of several storages in the same database", async () => {
+        const fake = createFakeIndexedDB()
+        globals.indexedDB = fake
+        const items = new KernelIndexedDBStorage({
+            databaseName: "wallet",
+            storeName: "items"
+        })
+        const other = new KernelIndexedDBStorage({
+            databaseName: "wallet",
+            storeName: "other"
+        })
+
+        await items.setItem("key", "items")
+        await other.setItem("key", "other")
+        // The first storage reopens the upgraded database
+        await items.setItem("next", "items")
+        expect(await items.getItem("key")).toBe("items")
+        expect(await other.getItem("key")).toBe("other")
+        expect(fake.databases.get("wallet")?.version).toBe(2)
+        expect([
+            ...(fake.databases.get("wallet")?.stores.keys() ?? [])
+        ]).toEqual(["items", "other"])
+    })
+
+    test("rejects the failed requests", async () => {
+        const fake = createFakeIndexedDB()
+        globals.indexedDB = fake
+        const storage = new KernelIndexedDBStorage()
+
+        await storage.setItem("key", "value")
+        fake.failing = true
+        await expect(storage.setItem("key", "other")).rejects.toThrow(
+            "QuotaExceededError"
+        )
+        fake.failing = false
+        expect(await storage.getItem("key")).toBe("value")
+    })
+})
+
+describe("KernelFileStorage", () => {
+    let directory: string | undefined
+
+    afterEach(async () => {
+        if (directory) await rm(directory, { recursive: true, force: true })
+        directory = undefined
+    })
+
+    test("stores the items in a JSON file only readable by its owner", async () => {
+        directory = await mkdtemp(join(tmpdir(), "kernel-storage-"))
+        const filePath = join(directory, "wallet.json")
+        const storage = new KernelFileStorage(filePath)
+
+        expect(await storage.getItem("key")).toBeNull()
+        await Promise.all([
+            storage.setItem("key", "value"),
+            storage.setItem("other", "value")
+        ])
+        expect(JSON.parse(await readFile(filePath, "utf8"))).toEqual({
+            key: "value",
+            other: "value"
+        })
+        expect((await stat(filePath)).mode & 0o777).toBe(0o600)
+
+        await storage.removeItem("other")
+        const reopened = new KernelFileStorage(filePath)
+        expect(await reopened.getItem("key")).toBe("value")
+        expect(await reopened.getItem("other")).toBeNull()
+    })
+
+    test("rejects a file that isn't JSON", async () => {
+        directory = await mkdtemp(join(tmpdir(), "kernel-storage-"))
+        const filePath = join(directory, "wallet.json")
+        await writeFile(filePath, "not json")
+
+        await expect(
+            new KernelFileStorage(filePath).getItem("key")
+        ).rejects.toThrow()
+    })
+})
+
+describe("migrateLocalStorage", () => {
+    const permissions = JSON.stringify({})
+    const setUpLocalStorage = () => {
+        const localStorage = createFakeLocalStorage()
+        globals.window = {}
+        globals.localStorage = localStorage
+        localStorage.setItem("ZDWALLET:WALLET_PERMISSION", permissions)
+        localStorage.setItem("zerodev_wallet_signer", "signer")
+        return localStorage
+    }
+
+    test("removes the entries from localStorage once they are stored", async () => {
+        const localStorage = setUpLocalStorage()
+        const storage = new KernelMemoryStorage()
+
+        expect(
+            await migrateLocalStorage(storage, { removeFromLocalStorage: true })
+        ).toBe(true)
+        expect(storage.getItem("WALLET_PERMISSION")).toBe(permissions)
+        expect(storage.getItem("zerodev_wallet_signer")).toBe("signer")
+        expect([...localStorage.items.keys()]).toEqual([])
+    })
+
+    test("keeps the entries in localStorage when the storage fails", async () => {
+        const localStorage = setUpLocalStorage()
+        const storage = new KernelMemoryStorage()
+        storage.setItem = () => {
+            throw new Error("storage unavailable")
+        }
+
+        await expect(
+            migrateLocalStorage(storage, { removeFromLocalStorage: true })
+        ).rejects.toThrow("storage unavailable")
+        expect([...localStorage.items.keys()]).toEqual([
+            "ZDWALLET:WALLET_PERMISSION",
+            "zerodev_wallet_signer"
+        ])
+    })
+
+    test("keeps the entries migrated to the same keys", async () => {
+        const localStorage = setUpLocalStorage()
+
+        await migrateLocalStorage(new KernelLocalStorage("ZDWALLET"), {
+            removeFromLocalStorage: true
+        })
+        expect(localStorage.items).toEqual(
+            new Map([
+                ["ZDWALLET:WALLET_PERMISSION", permissions],
+                ["ZDWALLET:zerodev_wallet_signer", "signer"]
+            ])
+        )
+    })
+})
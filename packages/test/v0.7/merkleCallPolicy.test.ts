@@ -0,0 +1,206 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import {
+    type Address,
+    type Hex,
+    concatHex,
+    createPublicClient,
+    custom,
+    decodeAbiParameters,
+    encodeFunctionData,
+    erc20Abi,
+    hexToNumber,
+    keccak256,
+    parseEther,
+    size,
+    slice,
+    toHex,
+    zeroAddress
+} from "viem"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+import { sepolia } from "viem/chains"
+import { createPolicyFromParams } from "../../../plugins/permission/deserializePermissionAccount.js"
+import {
+    ParamCondition,
+    encodeMerklePermission,
+    evaluatePolicies,
+    toMerkleCallPolicy,
+    toSudoPolicy
+} from "../../../plugins/permission/policies/index.js"
+import { toECDSASigner } from "../../../plugins/permission/signers/toECDSASigner.js"
+import { toPermissionValidator } from "../../../plugins/permission/toPermissionValidator.js"
+import {
+    deserializePermissionAccountParams,
+    serializePermissionAccountParams
+} from "../../../plugins/permission/utils.js"
+import { encodeCallData } from "../../core/accounts/kernel/utils/account/ep0_7/encodeCallData.js"
+
+const policyAddress: Address = "0x1111111111111111111111111111111111111111"
+const recipient: Address = "0x2222222222222222222222222222222222222222"
+const stranger: Address = "0x3333333333333333333333333333333333333333"
+
+// One allowed token per leaf, as in a large allowlist
+const tokens = Array.from(
+    { length: 5 },
+    (_, i) => toHex(i + 16, { size: 20 }) as Address
+)
+
+const policy = toMerkleCallPolicy({
+    policyAddress,
+    permissions: [
+        ...tokens.map((token) => ({
+            target: token,
+            abi: erc20Abi,
+            functionName: "transfer" as const,
+            args: [
+                { condition: ParamCondition.EQUAL, value: recipient },
+                {
+                    condition: ParamCondition.LESS_THAN_OR_EQUAL,
+                    value: parseEther("1")
+                }
+            ] as const
+        })),
+        { target: zeroAddress, valueLimit: parseEther("0.1") }
+    ]
+})
+
+const transfer = (token: Address, to: Address) => ({
+    to: token,
+    value: 0n,
+    data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: "transfer",
+        args: [to, 1n]
+    })
+})
+
+const permissionComponents = [
+    { name: "callType", type: "bytes1" },
+    { name: "target", type: "address" },
+    { name: "selector", type: "bytes4" },
+    { name: "valueLimit", type: "uint256" },
+    {
+        name: "rules",
+        type: "tuple[]",
+        components: [
+            { name: "condition", type: "uint8" },
+            { name: "offset", type: "uint64" },
+            { name: "params", type: "bytes32[]" }
+        ]
+    }
+] as const
+
+const verifyProof = (leaf: Hex, proof: readonly Hex[], root: Hex) =>
+    proof.reduce(
+        (hash, sibling) =>
+            keccak256(
+                hash.toLowerCase() < sibling.toLowerCase()
+                    ? concatHex([hash, sibling])
+                    : concatHex([sibling, hash])
+            ),
+        keccak256(leaf)
+    ) === root
+
+describe("toMerkleCallPolicy", () => {
+    test("attaches the permissions of the calls with their proofs", async () => {
+        const callData = await encodeCallData([
+            transfer(tokens[3], recipient),
+            { to: stranger, value: parseEther("0.1"), data: "0x" }
+        ])
+        const [permissions, proofs] = decodeAbiParameters(
+            [
+                { type: "tuple[]", components: permissionComponents },
+                { type: "bytes32[][]" }
+            ],
+            // biome-ignore lint/style/noNonNullAssertion: set by the policy
+            policy.getSignaturePolicyData!({ callData } as never)
+        )
+
+        expect(permissions.map(({ target }) => target)).toEqual([
+            tokens[3],
+            zeroAddress
+        ])
+        permissions.forEach((permission, i) => {
+            expect(
+                verifyProof(
+                    encodeMerklePermission(permission),
+                    proofs[i],
+                    policy.getPolicyData()
+                )
+            ).toBe(true)
+        })
+        expect(
+            evaluatePolicies({
+                policies: [policy],
+                userOperation: { callData }
+            }).valid
+        ).toBe(true)
+
+        const rejected = await encodeCallData(transfer(tokens[3], stranger))
+        expect(() =>
+            // biome-ignore lint/style/noNonNullAssertion: set by the policy
+            policy.getSignaturePolicyData!({ callData: rejected } as never)
+        ).toThrow(
+            `No permission of the Merkle call policy allows calling 0xa9059cbb on ${tokens[3]}`
+        )
+        expect(
+            evaluatePolicies({
+                policies: [policy],
+                userOperation: { callData: rejected }
+            }).violations
+        ).toMatchObject([{ type: "merkle-call", execution: { index: 0 } }])
+    })
+
+    test("keeps its root through the serialization", async () => {
+        const { permissionParams } = deserializePermissionAccountParams(
+            serializePermissionAccountParams({
+                permissionParams: { policies: [policy] },
+                action: { selector: "0x00000000", address: zeroAddress },
+                validityData: { validAfter: 0, validUntil: 0 },
+                accountParams: { initCode: "0x", accountAddress: recipient }
+            })
+        )
+        const deserialized = await createPolicyFromParams(
+            // biome-ignore lint/style/noNonNullAssertion: serialized above
+            permissionParams.policies![0]
+        )
+        expect(deserialized.getPolicyData()).toBe(policy.getPolicyData())
+    })
+
+    test("prefixes the signature of the validator with the proofs", async () => {
+        const client = createPublicClient({
+            chain: sepolia,
+            transport: custom({
+                request: async ({ method }) => {
+                    if (method === "eth_chainId") return toHex(sepolia.id)
+                    throw new Error(`Unexpected method ${method}`)
+                }
+            })
+        })
+        const signer = toECDSASigner({
+            signer: privateKeyToAccount(generatePrivateKey())
+        })
+        const validator = await toPermissionValidator(client, {
+            signer,
+            policies: [toSudoPolicy({}), policy],
+            entryPoint: ENTRYPOINT_ADDRESS_V07,
+            kernelVersion: "0.3.1"
+        })
+        const callData = await encodeCallData(transfer(tokens[0], recipient))
+        const dummySignature = await validator.getDummySignature({
+            callData
+        } as never)
+
+        // biome-ignore lint/style/noNonNullAssertion: set by the policy
+        const policyData = policy.getSignaturePolicyData!({
+            callData
+        } as never)
+        expect(slice(dummySignature, 0, 1)).toBe("0x01")
+        expect(hexToNumber(slice(dummySignature, 1, 9))).toBe(size(policyData))
+        expect(slice(dummySignature, 9, 9 + size(policyData))).toBe(policyData)
+        expect(slice(dummySignature, 9 + size(policyData))).toBe(
+            concatHex(["0xff", signer.getDummySignature()])
+        )
+    })
+})
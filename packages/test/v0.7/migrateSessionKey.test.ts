@@ -0,0 +1,278 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import type { ENTRYPOINT_ADDRESS_V07_TYPE } from "permissionless/types/entrypoint"
+import {
+    type Address,
+    type Hex,
+    createPublicClient,
+    custom,
+    decodeFunctionData,
+    encodeFunctionResult,
+    maxUint128,
+    pad,
+    toHex,
+    zeroAddress
+} from "viem"
+import { generatePrivateKey } from "viem/accounts"
+import { sepolia } from "viem/chains"
+import { ECDSA_SIGNER_CONTRACT } from "../../../plugins/permission/constants.js"
+import {
+    installMigratedSessionKey,
+    migrateSessionKey,
+    toPoliciesFromSessionKey
+} from "../../../plugins/permission/migrateSessionKey.js"
+import {
+    CallType,
+    ParamCondition
+} from "../../../plugins/permission/policies/index.js"
+import {
+    Operation,
+    ParamOperator
+} from "../../../plugins/session-key/toSessionKeyValidatorPlugin.js"
+import { serializeSessionKeyAccountParams } from "../../../plugins/session-key/utils.js"
+import { KernelV3AccountAbi } from "../../core/accounts/kernel/abi/kernel_v_3_0_0/KernelAccountAbi.js"
+import type { KernelSmartAccount } from "../../core/accounts/kernel/createKernelAccount.js"
+import { encodeCallData } from "../../core/accounts/kernel/utils/account/ep0_7/encodeCallData.js"
+import { decodeKernelCallData } from "../../core/accounts/kernel/utils/common/decodeKernelCallData.js"
+import type { KernelAccountClient } from "../../core/clients/kernelAccountClient.js"
+
+const accountAddress: Address = "0x1111111111111111111111111111111111111111"
+const target: Address = "0x2222222222222222222222222222222222222222"
+const paymaster: Address = "0x3333333333333333333333333333333333333333"
+const selector = "0xa9059cbb"
+const userOpHash = pad("0x01")
+
+const permission = {
+    target,
+    sig: selector as Hex,
+    valueLimit: 10n,
+    rules: [
+        {
+            offset: 32,
+            condition: ParamOperator.LESS_THAN_OR_EQUAL,
+            param: pad("0x64")
+        }
+    ],
+    executionRule: { validAfter: 50, interval: 0, runs: 5 },
+    operation: Operation.Call
+}
+
+describe("toPoliciesFromSessionKey", () => {
+    test("translates a session key into v3 policies", () => {
+        const { policies, issues } = toPoliciesFromSessionKey({
+            validAfter: 100,
+            validUntil: 200,
+            paymaster,
+            permissions: [permission]
+        })
+
+        expect(issues).toEqual([])
+        expect(policies.map(({ policyParams }) => policyParams)).toEqual([
+            expect.objectContaining({
+                type: "call",
+                permissions: [
+                    {
+                        target,
+                        selector,
+                        callType: CallType.CALL,
+                        valueLimit: 10n,
+                        rules: [
+                            {
+                                offset: 32,
+                                condition: ParamCondition.LESS_THAN_OR_EQUAL,
+                                params: [pad("0x64")]
+                            }
+                        ]
+                    }
+                ]
+            }),
+            expect.objectContaining({
+                type: "rate-limit",
+                count: 5,
+                interval: 0,
+                startAt: 50
+            }),
+            expect.objectContaining({
+                type: "timestamp",
+                validAfter: 100,
+                validUntil: 200
+            }),
+            expect.objectContaining({
+                type: "gas",
+                allowed: maxUint128,
+                enforcePaymaster: true,
+                allowedPaymaster: paymaster
+            })
+        ])
+    })
+
+    test("flags the restrictions without v3 equivalent", () => {
+        const { policies, issues } = toPoliciesFromSessionKey({
+            permissions: [
+                permission,
+                {
+                    ...permission,
+                    operation: Operation.DelegateCall,
+                    executionRule: undefined
+                }
+            ]
+        })
+
+        expect(policies.map(({ policyParams }) => policyParams.type)).toEqual([
+            "call"
+        ])
+        expect(
+            // biome-ignore lint/suspicious/noExplicitAny: the call policy params
+            (policies[0].policyParams as any).permissions[1].callType
+        ).toBe(CallType.DELEGATE_CALL)
+        expect(issues).toEqual([
+            {
+                permissionIndex: 0,
+                message:
+                    "The execution rule of a permission cannot be limited to its calls in v3, it is dropped"
+            }
+        ])
+        const spaced = toPoliciesFromSessionKey({
+            permissions: [
+                {
+                    ...permission,
+                    executionRule: { validAfter: 0, interval: 60, runs: 2 }
+                }
+            ]
+        })
+        expect(spaced.issues).toEqual([])
+        expect(spaced.policies[1].policyParams).toMatchObject({
+            type: "rate-limit",
+            count: 2,
+            interval: 60,
+            startAt: 0
+        })
+        expect(
+            toPoliciesFromSessionKey({
+                permissions: [
+                    {
+                        ...permission,
+                        executionRule: { validAfter: 0, interval: 60, runs: 0 }
+                    }
+                ]
+            }).issues[0].message
+        ).toBe(
+            "The 60s interval between unlimited executions has no v3 equivalent, it is dropped"
+        )
+    })
+
+    test("gives a sudo policy to the session keys without permissions", () => {
+        expect(
+            toPoliciesFromSessionKey({}).policies.map(
+                ({ policyParams }) => policyParams.type
+            )
+        ).toEqual(["sudo"])
+    })
+})
+
+describe("migrateSessionKey", () => {
+    const privateKey = generatePrivateKey()
+    const serialized = serializeSessionKeyAccountParams({
+        sessionKeyParams: { validUntil: 200, permissions: [permission] },
+        action: { selector: "0x00000000", address: zeroAddress },
+        validityData: { validAfter: 0, validUntil: 0 },
+        accountParams: { initCode: "0x", accountAddress },
+        privateKey
+    })
+
+    test("reads a serialized session key", async () => {
+        const migration = await migrateSessionKey(serialized)
+        expect(migration.privateKey).toBe(privateKey)
+        expect(
+            migration.policies.map(({ policyParams }) => policyParams.type)
+        ).toEqual(["call", "rate-limit", "timestamp"])
+        await expect(
+            migrateSessionKey(btoa(JSON.stringify({ permissionParams: {} })))
+        ).rejects.toThrow("Not a serialized v2 session key account")
+    })
+
+    test("installs the migrated session key on the account", async () => {
+        let installed = false
+        const sent: Hex[] = []
+        const client = createPublicClient({
+            chain: sepolia,
+            transport: custom({
+                request: async ({ method, params }) => {
+                    if (method === "eth_chainId") return toHex(sepolia.id)
+                    const { functionName } = decodeFunctionData({
+                        abi: KernelV3AccountAbi,
+                        data: params[0].data
+                    })
+                    if (functionName === "currentNonce") {
+                        return encodeFunctionResult({
+                            abi: KernelV3AccountAbi,
+                            functionName,
+                            result: 3
+                        })
+                    }
+                    return encodeFunctionResult({
+                        abi: KernelV3AccountAbi,
+                        functionName: "permissionConfig",
+                        result: {
+                            permissionFlag: "0x0000",
+                            signer: installed
+                                ? ECDSA_SIGNER_CONTRACT
+                                : zeroAddress,
+                            policyData: []
+                        }
+                    })
+                }
+            })
+        })
+        const accountClient = {
+            account: {
+                address: accountAddress,
+                entryPoint: ENTRYPOINT_ADDRESS_V07,
+                kernelVersion: "0.3.1",
+                client,
+                encodeCallData
+            },
+            sendUserOperation: async ({
+                userOperation
+            }: { userOperation: { callData: Hex } }) => {
+                sent.push(userOperation.callData)
+                installed = true
+                return userOpHash
+            },
+            waitForUserOperationReceipt: async () => ({ success: true })
+        } as unknown as KernelAccountClient<
+            ENTRYPOINT_ADDRESS_V07_TYPE,
+            ReturnType<typeof custom>,
+            typeof sepolia,
+            KernelSmartAccount<ENTRYPOINT_ADDRESS_V07_TYPE>
+        >
+        const migration = await migrateSessionKey(serialized)
+
+        await expect(
+            installMigratedSessionKey(accountClient, {
+                migration: {
+                    ...migration,
+                    issues: [{ message: "The interval is dropped" }]
+                }
+            })
+        ).rejects.toThrow(
+            "The session key cannot be migrated exactly: The interval is dropped"
+        )
+        const { permissionId } = await installMigratedSessionKey(
+            accountClient,
+            { migration }
+        )
+        const [execution] = decodeKernelCallData(sent[0], "v0.7").executions
+        expect(execution.target).toBe(accountAddress)
+        const { functionName, args } = decodeFunctionData({
+            abi: KernelV3AccountAbi,
+            data: execution.callData
+        })
+        expect(functionName).toBe("installValidations")
+        expect(args?.[0]).toEqual([
+            pad(`0x02${permissionId.slice(2)}`, { size: 21, dir: "right" })
+        ])
+        expect(args?.[1]).toEqual([{ nonce: 3, hook: zeroAddress }])
+    })
+})
@@ -0,0 +1,141 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import { type Address, concatHex, hexToBigInt, pad, toHex } from "viem"
+import { createNonceLaneManager } from "../../core/accounts/utils/nonceLaneManager.js"
+import { createKernelAccountClient } from "../../core/clients/kernelAccountClient.js"
+import { VALIDATOR_MODE, VALIDATOR_TYPE } from "../../core/constants.js"
+import { getMockBundlerTransport, getMockKernelAccount } from "./utils.js"
+
+const validator: Address = "0x2222222222222222222222222222222222222222"
+
+// Mimics `toKernelPluginManager.getNonceKey` and the EntryPoint `getNonce`
+const getMockAccount = (
+    onChainSequence: () => bigint,
+    mode: VALIDATOR_MODE = VALIDATOR_MODE.DEFAULT
+) => {
+    const requestedKeys: bigint[] = []
+    const account = getMockKernelAccount({
+        getNonce: async (customNonceKey = 0n) => {
+            requestedKeys.push(customNonceKey)
+            const key = hexToBigInt(
+                concatHex([
+                    mode,
+                    VALIDATOR_TYPE.SECONDARY,
+                    validator,
+                    pad(toHex(customNonceKey), { size: 2 })
+                ])
+            )
+            return (key << 64n) + onChainSequence()
+        }
+    })
+    return { account, requestedKeys }
+}
+
+const sequence = (nonce: bigint) => nonce & ((1n << 64n) - 1n)
+const customKey = (nonce: bigint) => (nonce >> 64n) & 0xffffn
+
+describe("createNonceLaneManager", () => {
+    test("allocates distinct custom nonce keys per lane", () => {
+        const { account } = getMockAccount(() => 0n)
+        const manager = createNonceLaneManager({
+            account,
+            lanes: { fixed: 42n }
+        })
+
+        const keys = ["swaps", "transfers", "worker-1", "worker-2"].map(
+            manager.getLaneKey
+        )
+        expect(new Set(keys).size).toBe(keys.length)
+        expect(keys).not.toContain(0n)
+        expect(keys.every((key) => key <= 0xffffn)).toBe(true)
+        expect(manager.getLaneKey("fixed")).toBe(42n)
+        expect(manager.getLaneKey("swaps")).toBe(keys[0])
+        expect(() =>
+            createNonceLaneManager({
+                account,
+                lanes: { big: 1n << 16n }
+            }).getLaneKey("big")
+        ).toThrow("must be equal or less")
+    })
+
+    test("hands out concurrent nonces of a lane with a single read", async () => {
+        const { account, requestedKeys } = getMockAccount(() => 5n)
+        const manager = createNonceLaneManager({ account })
+
+        const nonces = await Promise.all(
+            Array.from({ length: 4 }, () => manager.reserveNonce("relayer"))
+        )
+        expect(nonces.map(sequence)).toEqual([5n, 6n, 7n, 8n])
+        expect(
+            nonces.every((n) => customKey(n) === manager.getLaneKey("relayer"))
+        ).toBe(true)
+        expect(requestedKeys).toEqual([manager.getLaneKey("relayer")])
+
+        const other = await manager.reserveNonce("other")
+        expect(customKey(other)).toBe(manager.getLaneKey("other"))
+        expect(sequence(other)).toBe(5n)
+        expect(manager.getInFlightNonces("relayer")).toEqual(nonces)
+    })
+
+    test("reuses released nonces before moving on", async () => {
+        const { account } = getMockAccount(() => 0n)
+        const manager = createNonceLaneManager({ account })
+
+        const [first, second, third] = await Promise.all([
+            manager.reserveNonce("lane"),
+            manager.reserveNonce("lane"),
+            manager.reserveNonce("lane")
+        ])
+        manager.releaseNonce("lane", first)
+        manager.releaseNonce("lane", third)
+        expect(manager.getInFlightNonces("lane")).toEqual([second])
+        expect(await manager.reserveNonce("lane")).toBe(first)
+        expect(await manager.reserveNonce("lane")).toBe(third)
+        expect(sequence(await manager.reserveNonce("lane"))).toBe(3n)
+    })
+
+    test("reads the nonce on chain after a sync or a reset", async () => {
+        let onChain = 0n
+        const { account } = getMockAccount(() => onChain)
+        const manager = createNonceLaneManager({ account })
+
+        await manager.reserveNonce("lane")
+        await manager.reserveNonce("lane")
+        onChain = 1n
+        await manager.syncLane("lane")
+        expect(manager.getInFlightNonces("lane").map(sequence)).toEqual([1n])
+
+        manager.resetLane("lane")
+        expect(manager.getInFlightNonces("lane")).toEqual([])
+        expect(sequence(await manager.reserveNonce("lane"))).toBe(1n)
+    })
+
+    test("waits for the validator of the lane to be enabled", async () => {
+        const { account } = getMockAccount(() => 0n, VALIDATOR_MODE.ENABLE)
+        const manager = createNonceLaneManager({ account })
+
+        await manager.reserveNonce("lane")
+        await expect(manager.reserveNonce("lane")).rejects.toThrow(
+            "is being enabled"
+        )
+    })
+
+    test("is shared by the clients of an account", async () => {
+        const { account, requestedKeys } = getMockAccount(() => 0n)
+        const getClient = () =>
+            createKernelAccountClient({
+                account,
+                entryPoint: ENTRYPOINT_ADDRESS_V07,
+                bundlerTransport: getMockBundlerTransport({})
+            })
+
+        const first = await getClient().reserveNonce({ lane: "lane" })
+        const second = await getClient().reserveNonce({ lane: "lane" })
+        expect(second).toBe(first + 1n)
+        expect(requestedKeys).toHaveLength(1)
+
+        getClient().releaseNonce({ lane: "lane", nonce: second })
+        expect(await getClient().reserveNonce({ lane: "lane" })).toBe(second)
+    })
+})
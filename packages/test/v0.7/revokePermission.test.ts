@@ -0,0 +1,249 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import type { ENTRYPOINT_ADDRESS_V07_TYPE } from "permissionless/types/entrypoint"
+import {
+    type Address,
+    type Hex,
+    concatHex,
+    createPublicClient,
+    custom,
+    decodeAbiParameters,
+    decodeFunctionData,
+    encodeFunctionResult,
+    pad,
+    toHex,
+    zeroAddress
+} from "viem"
+import { generatePrivateKey } from "viem/accounts"
+import { sepolia } from "viem/chains"
+import { ECDSA_SIGNER_CONTRACT } from "../../../plugins/permission/constants.js"
+import { toPermissionValidatorFromParams } from "../../../plugins/permission/deserializePermissionAccount.js"
+import { toSudoPolicy } from "../../../plugins/permission/policies/index.js"
+import {
+    revokeAllPermissions,
+    revokePermission
+} from "../../../plugins/permission/revokePermission.js"
+import { serializePermissionAccountParams } from "../../../plugins/permission/utils.js"
+import { KernelV3AccountAbi } from "../../core/accounts/kernel/abi/kernel_v_3_0_0/KernelAccountAbi.js"
+import type { KernelSmartAccount } from "../../core/accounts/kernel/createKernelAccount.js"
+import { encodeCallData } from "../../core/accounts/kernel/utils/account/ep0_7/encodeCallData.js"
+import { decodeKernelCallData } from "../../core/accounts/kernel/utils/common/decodeKernelCallData.js"
+import type { KernelAccountClient } from "../../core/clients/kernelAccountClient.js"
+
+const accountAddress: Address = "0x1111111111111111111111111111111111111111"
+const policy: Address = "0x2222222222222222222222222222222222222222"
+const userOpHash = pad("0x01")
+const transactionHash = pad("0x02")
+
+// Mocks an account client whose permissions are uninstalled when the
+// UserOperation is sent, unless `keepInstalled` is set, and whose current
+// nonce is 3
+const getAccountClient = (
+    installed: Hex[],
+    { keepInstalled = false }: { keepInstalled?: boolean } = {}
+) => {
+    const permissions = new Set(installed)
+    const sent: Hex[] = []
+    const noncesSet: number[] = []
+    const client = createPublicClient({
+        chain: sepolia,
+        transport: custom({
+            request: async ({ method, params }) => {
+                if (method === "eth_chainId") return toHex(sepolia.id)
+                if (method !== "eth_call") {
+                    throw new Error(`Unexpected method ${method}`)
+                }
+                const { functionName, args } = decodeFunctionData({
+                    abi: KernelV3AccountAbi,
+                    data: params[0].data
+                })
+                if (functionName === "currentNonce") {
+                    return encodeFunctionResult({
+                        abi: KernelV3AccountAbi,
+                        functionName,
+                        result: 3
+                    })
+                }
+                const isInstalled = permissions.has(args?.[0] as Hex)
+                return encodeFunctionResult({
+                    abi: KernelV3AccountAbi,
+                    functionName: "permissionConfig",
+                    result: {
+                        permissionFlag: "0x0000",
+                        signer: isInstalled
+                            ? ECDSA_SIGNER_CONTRACT
+                            : zeroAddress,
+                        policyData: isInstalled
+                            ? [concatHex(["0x0000", policy])]
+                            : []
+                    }
+                })
+            }
+        })
+    })
+    const account = {
+        address: accountAddress,
+        entryPoint: ENTRYPOINT_ADDRESS_V07,
+        kernelVersion: "0.3.1",
+        client,
+        encodeCallData
+    }
+    const accountClient = {
+        account,
+        sendUserOperation: async ({
+            userOperation
+        }: { userOperation: { callData: Hex } }) => {
+            sent.push(userOperation.callData)
+            if (!keepInstalled) permissions.clear()
+            return userOpHash
+        },
+        waitForUserOperationReceipt: async () => ({ success: true }),
+        invalidateNonce: async ({ nonceToSet }: { nonceToSet: number }) => {
+            noncesSet.push(nonceToSet)
+            return transactionHash
+        },
+        getKernelAccountState: async () => ({
+            validations: [
+                ...installed.map((permissionId) => ({
+                    type: "permission",
+                    permissionId,
+                    isRoot: false,
+                    isValid: true
+                })),
+                {
+                    type: "permission",
+                    permissionId: "0x0badbad0",
+                    isValid: false
+                }
+            ]
+        })
+    } as unknown as KernelAccountClient<
+        ENTRYPOINT_ADDRESS_V07_TYPE,
+        ReturnType<typeof custom>,
+        typeof sepolia,
+        KernelSmartAccount<ENTRYPOINT_ADDRESS_V07_TYPE>
+    >
+    return { accountClient, client, sent, noncesSet }
+}
+
+const decodeUninstalls = (callData: Hex) =>
+    decodeKernelCallData(callData, "v0.7").executions.map((execution) => {
+        expect(execution.target).toBe(accountAddress)
+        const { functionName, args } = decodeFunctionData({
+            abi: KernelV3AccountAbi,
+            data: execution.callData
+        })
+        expect(functionName).toBe("uninstallValidation")
+        const [validationId, deinitData, hookData] = args as [Hex, Hex, Hex]
+        return {
+            validationId,
+            deinitData: decodeAbiParameters(
+                [{ type: "bytes[]" }],
+                deinitData
+            )[0],
+            hookData
+        }
+    })
+
+describe("revokePermission", () => {
+    test("uninstalls a permission with its policies and signer", async () => {
+        const { accountClient, sent } = getAccountClient(["0xdeadbeef"])
+
+        expect(
+            await revokePermission(accountClient, {
+                permissionId: "0xdeadbeef"
+            })
+        ).toEqual({ userOpHash, permissionIds: ["0xdeadbeef"] })
+        expect(decodeUninstalls(sent[0])).toEqual([
+            {
+                validationId: pad("0x02deadbeef", { size: 21, dir: "right" }),
+                deinitData: ["0x", "0x"],
+                hookData: "0x"
+            }
+        ])
+    })
+
+    test("derives the permission id of a serialized permission account", async () => {
+        const privateKey = generatePrivateKey()
+        const serializedPermissionAccount = serializePermissionAccountParams({
+            permissionParams: { policies: [toSudoPolicy({})] },
+            action: { selector: "0x00000000", address: zeroAddress },
+            validityData: { validAfter: 0, validUntil: 0 },
+            accountParams: { initCode: "0x", accountAddress },
+            privateKey
+        })
+        const { client } = getAccountClient([])
+        const permissionId = (
+            await toPermissionValidatorFromParams(
+                // biome-ignore lint/suspicious/noExplicitAny: mocked client
+                client as any,
+                ENTRYPOINT_ADDRESS_V07,
+                "0.3.1",
+                {
+                    permissionParams: { policies: [toSudoPolicy({})] },
+                    privateKey
+                }
+            )
+        ).getIdentifier()
+        const { accountClient, sent } = getAccountClient([permissionId])
+
+        await revokePermission(accountClient, { serializedPermissionAccount })
+        expect(decodeUninstalls(sent[0])[0].validationId).toBe(
+            pad(concatHex(["0x02", permissionId]), { size: 21, dir: "right" })
+        )
+    })
+
+    test("fails when the permission is not removed", async () => {
+        const { accountClient } = getAccountClient(["0xdeadbeef"], {
+            keepInstalled: true
+        })
+        await expect(
+            revokePermission(accountClient, { permissionId: "0xdeadbeef" })
+        ).rejects.toMatchObject({
+            name: "KernelError",
+            code: "EXECUTION_REVERTED",
+            shortMessage: `The permission 0xdeadbeef is still installed on ${accountAddress}`
+        })
+    })
+
+    test("invalidates the enable signature of a permission not installed yet", async () => {
+        const { accountClient, sent, noncesSet } = getAccountClient([])
+
+        expect(
+            await revokePermission(accountClient, {
+                permissionId: "0xcafecafe"
+            })
+        ).toEqual({
+            transactionHash,
+            invalidatedNonce: 3,
+            permissionIds: ["0xcafecafe"]
+        })
+        expect(noncesSet).toEqual([4])
+        expect(sent).toEqual([])
+    })
+
+    test("revokes all the valid permissions in one UserOperation", async () => {
+        const { accountClient, sent } = getAccountClient([
+            "0xdeadbeef",
+            "0xcafecafe"
+        ])
+
+        const { permissionIds } = await revokeAllPermissions(accountClient)
+        expect(permissionIds).toEqual(["0xdeadbeef", "0xcafecafe"])
+        expect(sent).toHaveLength(1)
+        expect(
+            decodeUninstalls(sent[0]).map(({ validationId }) => validationId)
+        ).toEqual([
+            pad("0x02deadbeef", { size: 21, dir: "right" }),
+            pad("0x02cafecafe", { size: 21, dir: "right" })
+        ])
+
+        await expect(
+            revokeAllPermissions(getAccountClient([]).accountClient)
+        ).rejects.toMatchObject({
+            name: "KernelValidationError",
+            code: "VALIDATOR_NOT_SET"
+        })
+    })
+})
@@ -0,0 +1,179 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import type { ENTRYPOINT_ADDRESS_V07_TYPE } from "permissionless/types/entrypoint"
+import {
+    type Address,
+    type Hex,
+    createPublicClient,
+    custom,
+    decodeFunctionData,
+    encodeFunctionResult,
+    pad,
+    recoverTypedDataAddress,
+    toHex
+} from "viem"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+import { sepolia } from "viem/chains"
+import { RotatableECDSASignerAbi } from "../../../plugins/permission/abi/RotatableECDSASignerAbi.js"
+import {
+    CallPolicyVersion,
+    toCallPolicy
+} from "../../../plugins/permission/policies/index.js"
+import {
+    rotateSessionSigner,
+    toSignerRotationPermission
+} from "../../../plugins/permission/rotateSessionSigner.js"
+import { toRotatableECDSASigner } from "../../../plugins/permission/signers/toRotatableECDSASigner.js"
+import { toSignerId } from "../../../plugins/permission/signers/utils/toSignerId.js"
+import { toPermissionValidator } from "../../../plugins/permission/toPermissionValidator.js"
+import type { KernelSmartAccount } from "../../core/accounts/kernel/createKernelAccount.js"
+import { encodeCallData } from "../../core/accounts/kernel/utils/account/ep0_7/encodeCallData.js"
+import { decodeKernelCallData } from "../../core/accounts/kernel/utils/common/decodeKernelCallData.js"
+import type { KernelAccountClient } from "../../core/clients/kernelAccountClient.js"
+
+const accountAddress: Address = "0x1111111111111111111111111111111111111111"
+const signerContractAddress: Address =
+    "0x2222222222222222222222222222222222222222"
+
+describe("rotateSessionSigner", () => {
+    test("keeps the permission id with the new key", async () => {
+        const current = privateKeyToAccount(generatePrivateKey())
+        const next = privateKeyToAccount(generatePrivateKey())
+        const rotated = toRotatableECDSASigner({
+            signer: next,
+            signerContractAddress,
+            initialSignerAddress: current.address
+        })
+        expect(
+            toSignerId(
+                toRotatableECDSASigner({
+                    signer: current,
+                    signerContractAddress
+                })
+            )
+        ).toBe(toSignerId(rotated))
+        expect(rotated.account.address).toBe(next.address)
+    })
+
+    test("sends the rotation signed by the current key", async () => {
+        const current = privateKeyToAccount(generatePrivateKey())
+        const next = privateKeyToAccount(generatePrivateKey())
+        const signer = toRotatableECDSASigner({
+            signer: current,
+            signerContractAddress
+        })
+        let onChainSigner: Address = current.address
+        const client = createPublicClient({
+            chain: sepolia,
+            transport: custom({
+                request: async ({ method, params }) => {
+                    if (method === "eth_chainId") return toHex(sepolia.id)
+                    const { functionName } = decodeFunctionData({
+                        abi: RotatableECDSASignerAbi,
+                        data: params[0].data
+                    })
+                    return functionName === "rotationNonce"
+                        ? encodeFunctionResult({
+                              abi: RotatableECDSASignerAbi,
+                              functionName,
+                              result: 3n
+                          })
+                        : encodeFunctionResult({
+                              abi: RotatableECDSASignerAbi,
+                              functionName: "signer",
+                              result: onChainSigner
+                          })
+                }
+            })
+        })
+        const validator = await toPermissionValidator(client, {
+            signer,
+            policies: [
+                toCallPolicy({
+                    policyVersion: CallPolicyVersion.V0_0_4,
+                    permissions: [
+                        toSignerRotationPermission(signerContractAddress)
+                    ]
+                })
+            ],
+            entryPoint: ENTRYPOINT_ADDRESS_V07,
+            kernelVersion: "0.3.1"
+        })
+        const sent: Hex[] = []
+        const accountClient = {
+            account: {
+                address: accountAddress,
+                client,
+                encodeCallData,
+                kernelPluginManager: validator
+            },
+            sendUserOperation: async ({
+                userOperation
+            }: { userOperation: { callData: Hex } }) => {
+                sent.push(userOperation.callData)
+                onChainSigner = next.address
+                return pad("0x01")
+            },
+            waitForUserOperationReceipt: async () => ({ success: true })
+        } as unknown as KernelAccountClient<
+            ENTRYPOINT_ADDRESS_V07_TYPE,
+            ReturnType<typeof custom>,
+            typeof sepolia,
+            KernelSmartAccount<ENTRYPOINT_ADDRESS_V07_TYPE>
+        >
+
+        expect(
+            await rotateSessionSigner(accountClient, {
+                signer,
+                newSignerAddress: next.address
+            })
+        ).toBe(pad("0x01"))
+        const [execution] = decodeKernelCallData(sent[0], "v0.7").executions
+        expect(execution.target).toBe(signerContractAddress)
+        const { args } = decodeFunctionData({
+            abi: RotatableECDSASignerAbi,
+            data: execution.callData
+        })
+        const id = pad(validator.getIdentifier(), { size: 32, dir: "right" })
+        expect(args?.slice(0, 2)).toEqual([id, next.address])
+        expect(
+            await recoverTypedDataAddress({
+                domain: {
+                    name: "RotatableECDSASigner",
+                    version: "1",
+                    chainId: sepolia.id,
+                    verifyingContract: signerContractAddress
+                },
+                types: {
+                    Rotation: [
+                        { name: "id", type: "bytes32" },
+                        { name: "wallet", type: "address" },
+                        { name: "newSigner", type: "address" },
+                        { name: "nonce", type: "uint256" }
+                    ]
+                },
+                primaryType: "Rotation",
+                message: {
+                    id,
+                    wallet: accountAddress,
+                    newSigner: next.address,
+                    nonce: 3n
+                },
+                signature: args?.[2] as Hex
+            })
+        ).toBe(current.address)
+
+        onChainSigner = current.address
+        const stale = {
+            ...accountClient,
+            sendUserOperation: async () => pad("0x02")
+        }
+        await expect(
+            rotateSessionSigner(stale as typeof accountClient, {
+                signer,
+                newSignerAddress: next.address
+            })
+        ).rejects.toThrow(`The signer of the permission is ${current.address}`)
+    })
+})
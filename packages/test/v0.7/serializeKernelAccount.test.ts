@@ -0,0 +1,279 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V06, ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import { type Address, createPublicClient, custom, toHex } from "viem"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+import { sepolia } from "viem/chains"
+import {
+    exportEcdsaAccount,
+    importEcdsaAccount,
+    signerToEcdsaValidator
+} from "../../../plugins/ecdsa/index.js"
+import { importPermissionAccount } from "../../../plugins/permission/index.js"
+import { createKernelAccount } from "../../core/accounts/kernel/createKernelAccount.js"
+import {
+    type KernelAccountExport,
+    deserializeKernelAccount,
+    parseSerializedKernelAccount,
+    serializeKernelAccount
+} from "../../core/accounts/utils/serializeKernelAccount.js"
+import { KernelError } from "../../core/errors/kernel.js"
+
+const accountAddress: Address = "0x1111111111111111111111111111111111111111"
+
+const client = createPublicClient({
+    chain: sepolia,
+    transport: custom({
+        request: async ({ method }) => {
+            if (method === "eth_chainId") return toHex(sepolia.id)
+            if (method === "eth_getCode") return "0x"
+            throw new Error(`Unexpected method ${method}`)
+        }
+    })
+})
+
+const accountExport: KernelAccountExport = {
+    format: "kernel-account",
+    version: 1,
+    entryPoint: ENTRYPOINT_ADDRESS_V07,
+    kernelVersion: "0.3.1",
+    account: { address: accountAddress, index: 3n, initCode: "0x1234" },
+    validator: {
+        type: "permission",
+        params: {
+            permissionParams: {
+                policies: [{ policyParams: { valueLimit: 10n ** 30n } }]
+            },
+            action: {
+                address: "0x2222222222222222222222222222222222222222",
+                selector: "0xe9ae5c53"
+            },
+            validityData: { validAfter: 0, validUntil: 0 }
+        }
+    }
+}
+
+// The replacer reads the bigints from their holder, before a
+// `BigInt.prototype.toJSON` set by another test file turns them into strings
+const encode = (value: unknown) =>
+    btoa(
+        JSON.stringify(
+            value,
+            function (this: Record<string, unknown>, key, item) {
+                const raw = this[key]
+                return typeof raw === "bigint"
+                    ? { $bigint: raw.toString() }
+                    : item
+            }
+        )
+    )
+
+describe("serializeKernelAccount", () => {
+    test("keeps the bigints through the serialization", async () => {
+        const serialized = await serializeKernelAccount(accountExport)
+
+        expect(await parseSerializedKernelAccount(serialized)).toEqual(
+            accountExport
+        )
+        const encrypted = await serializeKernelAccount(accountExport, {
+            password: "secret",
+            iterations: 1000
+        })
+        expect(
+            await parseSerializedKernelAccount(encrypted, {
+                password: "secret"
+            })
+        ).toEqual(accountExport)
+    })
+
+    test("keeps the bigints when BigInt.prototype.toJSON is set", async () => {
+        // Set by libraries such as the session key plugin, it runs before
+        // any JSON.stringify replacer
+        const prototype = BigInt.prototype as { toJSON?: () => string }
+        const { toJSON } = prototype
+        prototype.toJSON = function () {
+            return this.toString()
+        }
+        try {
+            expect(
+                await parseSerializedKernelAccount(
+                    await serializeKernelAccount(accountExport)
+                )
+            ).toEqual(accountExport)
+        } finally {
+            prototype.toJSON = toJSON
+        }
+    })
+
+    test("rejects the exports that don't match the schema", async () => {
+        await expect(
+            parseSerializedKernelAccount(encode({ permissionParams: {} }))
+        ).rejects.toThrow("not a versioned Kernel account export")
+        await expect(
+            parseSerializedKernelAccount(
+                encode({ ...accountExport, version: 2 })
+            )
+        ).rejects.toThrow("the version 2 was serialized by a newer SDK")
+        await expect(
+            parseSerializedKernelAccount(
+                encode({ ...accountExport, account: { address: "0x12" } })
+            )
+        ).rejects.toThrow("the account address, index or initCode is invalid")
+        await expect(
+            parseSerializedKernelAccount(
+                encode({
+                    ...accountExport,
+                    validator: { type: "unknown", params: {} }
+                })
+            )
+        ).rejects.toThrow(KernelError)
+        await expect(
+            parseSerializedKernelAccount(
+                encode({
+                    ...accountExport,
+                    validator: {
+                        type: "permission",
+                        params: { permissionParams: {}, action: {} }
+                    }
+                })
+            )
+        ).rejects.toThrow(
+            "the permission validator params have an invalid action"
+        )
+        await expect(
+            parseSerializedKernelAccount(
+                encode({
+                    ...accountExport,
+                    validator: {
+                        type: "ecdsa",
+                        params: { validatorAddress: accountAddress }
+                    }
+                })
+            )
+        ).rejects.toThrow("the ecdsa validator params have an invalid owner")
+        await expect(
+            parseSerializedKernelAccount("not base64")
+        ).rejects.toThrow("malformed base64 JSON")
+    })
+
+    test("dispatches to the deserializer of the validator type", async () => {
+        const signer = privateKeyToAccount(generatePrivateKey())
+        const account = await createKernelAccount(client, {
+            entryPoint: ENTRYPOINT_ADDRESS_V07,
+            kernelVersion: "0.3.1",
+            plugins: {
+                sudo: await signerToEcdsaValidator(client, {
+                    signer,
+                    entryPoint: ENTRYPOINT_ADDRESS_V07,
+                    kernelVersion: "0.3.1"
+                })
+            },
+            index: 7n,
+            deployedAccountAddress: accountAddress
+        })
+        const exported = await exportEcdsaAccount(account)
+        expect(exported.account.index).toBe(7n)
+        expect(exported.validator.params.owner).toBe(signer.address)
+
+        const serialized = await serializeKernelAccount(exported)
+        const imported = await deserializeKernelAccount(client, serialized, {
+            deserializers: {
+                ecdsa: (client, accountExport) =>
+                    importEcdsaAccount(client, accountExport, signer)
+            }
+        })
+        expect(imported.address).toBe(accountAddress)
+        expect(await imported.generateInitCode()).toBe(
+            await account.generateInitCode()
+        )
+        await expect(
+            deserializeKernelAccount(client, serialized, { deserializers: {} })
+        ).rejects.toThrow(
+            "no deserializer was given for the validator type ecdsa"
+        )
+    })
+    test("rejects the permission exports it can't import", async () => {
+        await expect(
+            importPermissionAccount(client, {
+                ...accountExport,
+                validator: { type: "ecdsa", params: {} }
+            })
+        ).rejects.toMatchObject({
+            name: "KernelError",
+            code: "INVALID_SERIALIZED_ACCOUNT"
+        })
+        await expect(
+            importPermissionAccount(client, {
+                ...accountExport,
+                entryPoint: ENTRYPOINT_ADDRESS_V06
+            })
+        ).rejects.toMatchObject({
+            name: "UnsupportedKernelVersionError",
+            code: "UNSUPPORTED_ENTRYPOINT_VERSION"
+        })
+    })
+
+    test("converts the legacy permission accounts", async () => {
+        const account = await createKernelAccount(client, {
+            entryPoint: ENTRYPOINT_ADDRESS_V07,
+            kernelVersion: "0.3.1",
+            plugins: {
+                sudo: await signerToEcdsaValidator(client, {
+                    signer: privateKeyToAccount(generatePrivateKey()),
+                    entryPoint: ENTRYPOINT_ADDRESS_V07,
+                    kernelVersion: "0.3.1"
+                })
+            },
+            index: 7n,
+            deployedAccountAddress: accountAddress
+        })
+        const initCode = await account.generateInitCode()
+        const { action, validityData } = accountExport.validator
+            .params as Record<string, unknown>
+        // The legacy format turns the bigints into strings
+        const legacyParams = {
+            permissionParams: {
+                policies: [{ policyParams: { valueLimit: "1" } }]
+            },
+            action,
+            validityData,
+            enableSignature: "0x1234"
+        }
+
+        expect(
+            await parseSerializedKernelAccount(
+                btoa(
+                    JSON.stringify({
+                        ...legacyParams,
+                        accountParams: { initCode, accountAddress }
+                    })
+                )
+            )
+        ).toEqual({
+            format: "kernel-account",
+            version: 1,
+            entryPoint: ENTRYPOINT_ADDRESS_V07,
+            kernelVersion: "0.3.1",
+            account: { address: accountAddress, index: 7n, initCode },
+            validator: { type: "permission", params: legacyParams }
+        })
+
+        const deployed = btoa(
+            JSON.stringify({
+                ...legacyParams,
+                accountParams: { initCode: "0x", accountAddress }
+            })
+        )
+        await expect(parseSerializedKernelAccount(deployed)).rejects.toThrow(
+            "set `kernelVersion`"
+        )
+        expect(
+            await parseSerializedKernelAccount(deployed, undefined, {
+                kernelVersion: "0.3.0"
+            })
+        ).toMatchObject({
+            kernelVersion: "0.3.0",
+            account: { address: accountAddress, index: 0n, initCode: "0x" }
+        })
+    })
+})
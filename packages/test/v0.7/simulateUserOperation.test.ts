@@ -0,0 +1,277 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import type { UserOperation } from "permissionless/types/userOperation.js"
+import {
+    type Address,
+    type Hex,
+    concatHex,
+    createPublicClient,
+    custom,
+    decodeFunctionData,
+    encodeErrorResult,
+    encodeFunctionData,
+    encodeFunctionResult,
+    erc20Abi,
+    pad,
+    parseAbi,
+    toHex
+} from "viem"
+import {
+    EntryPointSimulationsAbi,
+    EntryPointSimulationsDeployedBytecode
+} from "../../core/accounts/kernel/abi/EntryPointSimulationsAbi.js"
+import { KernelV3AccountAbi } from "../../core/accounts/kernel/abi/kernel_v_3_0_0/KernelAccountAbi.js"
+import { encodeCallData } from "../../core/accounts/kernel/utils/account/ep0_7/encodeCallData.js"
+import { createKernelAccountClient } from "../../core/clients/kernelAccountClient.js"
+import { decodeKernelRevertError } from "../../core/errors/decodeKernelRevertError.js"
+import {
+    getMockBundlerTransport,
+    getMockKernelAccount,
+    mockSender as sender
+} from "./utils.js"
+
+const token: Address = "0x2222222222222222222222222222222222222222"
+const recipient: Address = "0x3333333333333333333333333333333333333333"
+
+// The validation data or revert of the account, and the result of its calls
+type MockNode = {
+    code: Hex
+    validate: () => bigint
+    execute: () => { success: boolean; result: Hex }
+    calls: unknown[][]
+}
+
+const revert = (data: Hex) => {
+    throw { code: 3, message: "execution reverted", data }
+}
+
+// Mimics the `simulateHandleOp` of the EntryPointSimulations
+const getMockAccount = (node: MockNode) =>
+    getMockKernelAccount({
+        client: createPublicClient({
+            transport: custom({
+                request: async ({ method, params }) => {
+                    if (method === "eth_chainId") return "0x1"
+                    if (method === "eth_getCode") return node.code
+                    if (method === "eth_call") {
+                        node.calls.push(params)
+                        const accountValidationData = node.validate()
+                        const { success, result } = node.execute()
+                        return encodeFunctionResult({
+                            abi: EntryPointSimulationsAbi,
+                            functionName: "simulateHandleOp",
+                            result: {
+                                preOpGas: 21300n,
+                                paid: 1n,
+                                accountValidationData,
+                                paymasterValidationData: 0n,
+                                targetSuccess: success,
+                                targetResult: result
+                            }
+                        })
+                    }
+                    throw new Error(`Unexpected method ${method}`)
+                }
+            })
+        })
+    })
+
+const getClient = (node: MockNode) =>
+    createKernelAccountClient({
+        account: getMockAccount(node),
+        entryPoint: ENTRYPOINT_ADDRESS_V07,
+        bundlerTransport: getMockBundlerTransport({})
+    })
+
+const getUserOperation = async (): Promise<UserOperation<"v0.7">> => ({
+    sender,
+    nonce: 0n,
+    callData: await encodeCallData({
+        to: token,
+        value: 0n,
+        data: encodeFunctionData({
+            abi: erc20Abi,
+            functionName: "transfer",
+            args: [recipient, 10n]
+        }),
+        callType: "call"
+    }),
+    callGasLimit: 1n,
+    verificationGasLimit: 1n,
+    preVerificationGas: 1n,
+    maxFeePerGas: 1n,
+    maxPriorityFeePerGas: 1n,
+    signature: "0x"
+})
+
+describe("simulateUserOperation", () => {
+    test("reports the validation data, gas used and intents", async () => {
+        const node: MockNode = {
+            code: "0xef01",
+            // validUntil 100
+            validate: () => 100n << 160n,
+            execute: () => ({ success: true, result: "0x" }),
+            calls: []
+        }
+        const userOperation = await getUserOperation()
+        const result = await getClient(node).simulateUserOperation({
+            userOperation,
+            stateOverrides: { [token]: { balance: 1n } },
+            abis: { [token]: erc20Abi }
+        })
+
+        expect(result.deployed).toBe(true)
+        expect(result.validation).toEqual({
+            success: true,
+            validUntil: 100,
+            validAfter: 0,
+            gasUsed: 21299n
+        })
+        expect(result.execution).toEqual({ success: true, returnData: "0x" })
+        expect(result.success).toBe(true)
+        expect(result.intents).toEqual([
+            {
+                standard: "erc20",
+                type: "transfer",
+                token,
+                from: sender,
+                to: recipient,
+                amount: 10n
+            }
+        ])
+        // A single `simulateHandleOp`, with the EntryPointSimulations code
+        // and the state overrides, replaying the calls as the target
+        expect(node.calls).toHaveLength(1)
+        expect(node.calls[0][0]).toMatchObject({ to: ENTRYPOINT_ADDRESS_V07 })
+        const { args } = decodeFunctionData({
+            abi: EntryPointSimulationsAbi,
+            data: (node.calls[0][0] as { data: Hex }).data
+        })
+        expect(args[0].callData).toBe(userOperation.callData)
+        expect(args[0].accountGasLimits).toBe(
+            concatHex([
+                pad(toHex(userOperation.verificationGasLimit), { size: 16 }),
+                pad("0x", { size: 16 })
+            ])
+        )
+        expect(args.slice(1)).toEqual([sender, userOperation.callData])
+        expect(node.calls[0][2]).toEqual({
+            [token]: { balance: "0x1" },
+            [ENTRYPOINT_ADDRESS_V07]: {
+                code: EntryPointSimulationsDeployedBytecode
+            }
+        })
+    })
+
+    test("decodes the policy revert errors of the validation", async () => {
+        const node: MockNode = {
+            code: "0xef01",
+            validate: () =>
+                revert(
+                    encodeErrorResult({
+                        abi: EntryPointSimulationsAbi,
+                        errorName: "FailedOpWithRevert",
+                        args: [
+                            0n,
+                            "AA23 reverted",
+                            encodeErrorResult({
+                                abi: KernelV3AccountAbi,
+                                errorName: "PolicyFailed",
+                                args: [2n]
+                            })
+                        ]
+                    })
+                ),
+            execute: () => ({ success: true, result: "0x" }),
+            calls: []
+        }
+        const result = await getClient(node).simulateUserOperation({
+            userOperation: await getUserOperation()
+        })
+
+        expect(result.success).toBe(false)
+        expect(result.validation.error).toMatchObject({
+            source: "policy",
+            errorName: "PolicyFailed",
+            args: [2n],
+            message: "AA23 reverted"
+        })
+        expect(result.execution).toEqual({ success: false })
+    })
+
+    test("decodes the revert errors of the execution", async () => {
+        const node: MockNode = {
+            code: "0xef01",
+            validate: () => 0n,
+            execute: () => ({
+                success: false,
+                result: encodeErrorResult({
+                    abi: parseAbi(["error Error(string)"]),
+                    errorName: "Error",
+                    args: ["transfer amount exceeds balance"]
+                })
+            }),
+            calls: []
+        }
+        const result = await getClient(node).simulateUserOperation({
+            userOperation: await getUserOperation()
+        })
+
+        expect(result.success).toBe(false)
+        expect(result.validation.success).toBe(true)
+        expect(result.execution.error).toMatchObject({
+            source: "revert",
+            errorName: "Error",
+            args: ["transfer amount exceeds balance"]
+        })
+    })
+
+    test("simulates the deployment of an undeployed account", async () => {
+        const node: MockNode = {
+            code: "0x",
+            validate: () => 0n,
+            execute: () => ({ success: true, result: "0x" }),
+            calls: []
+        }
+        const result = await getClient(node).simulateUserOperation({
+            userOperation: {
+                ...(await getUserOperation()),
+                factory: "0x4444444444444444444444444444444444444444",
+                factoryData: "0x1234"
+            }
+        })
+        expect(result).toMatchObject({
+            success: true,
+            deployed: false,
+            validation: { success: true },
+            execution: { success: true }
+        })
+        const { args } = decodeFunctionData({
+            abi: EntryPointSimulationsAbi,
+            data: (node.calls[0][0] as { data: Hex }).data
+        })
+        expect(args[0].initCode).toBe(
+            "0x44444444444444444444444444444444444444441234"
+        )
+    })
+
+    test("decodes the errors of the given plugin abis", () => {
+        const abi = parseAbi(["error SessionKeyExpired(uint48 validUntil)"])
+        expect(
+            decodeKernelRevertError(
+                encodeErrorResult({
+                    abi,
+                    errorName: "SessionKeyExpired",
+                    args: [5]
+                }),
+                [abi]
+            )
+        ).toMatchObject({
+            source: "plugin",
+            errorName: "SessionKeyExpired",
+            args: [5]
+        })
+        expect(decodeKernelRevertError("0xdeadbeef").source).toBe("unknown")
+    })
+})
@@ -0,0 +1,175 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import {
+    type Address,
+    createPublicClient,
+    custom,
+    decodeAbiParameters,
+    decodeFunctionData,
+    encodeFunctionData,
+    encodeFunctionResult,
+    erc20Abi,
+    pad,
+    parseEther,
+    toHex
+} from "viem"
+import { sepolia } from "viem/chains"
+import { SpendingLimitPolicyAbi } from "../../../plugins/permission/abi/SpendingLimitPolicyAbi.js"
+import { createPolicyFromParams } from "../../../plugins/permission/deserializePermissionAccount.js"
+import { getSpendingAllowance } from "../../../plugins/permission/getSpendingAllowance.js"
+import {
+    evaluatePolicies,
+    toSpendingLimitPolicy
+} from "../../../plugins/permission/policies/index.js"
+import {
+    deserializePermissionAccountParams,
+    serializePermissionAccountParams
+} from "../../../plugins/permission/utils.js"
+import { encodeCallData } from "../../core/accounts/kernel/utils/account/ep0_7/encodeCallData.js"
+
+const policyAddress: Address = "0x1111111111111111111111111111111111111111"
+const usdc: Address = "0x2222222222222222222222222222222222222222"
+const dai: Address = "0x3333333333333333333333333333333333333333"
+const recipient: Address = "0x4444444444444444444444444444444444444444"
+const accountAddress: Address = "0x5555555555555555555555555555555555555555"
+
+const policy = toSpendingLimitPolicy({
+    policyAddress,
+    limits: [
+        { token: usdc, allowance: 100n, interval: 86400 },
+        { token: dai, allowance: parseEther("1") }
+    ]
+})
+
+const call = (
+    to: Address,
+    functionName: "transfer" | "approve",
+    amount: bigint
+) => ({
+    to,
+    value: 0n,
+    data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName,
+        args: [recipient, amount]
+    })
+})
+
+describe("toSpendingLimitPolicy", () => {
+    test("encodes the limits and survives the serialization", async () => {
+        const limits = [
+            { token: usdc, allowance: 100n, interval: 86400 },
+            { token: dai, allowance: parseEther("1"), interval: 0 }
+        ]
+        expect(
+            decodeAbiParameters(
+                [
+                    {
+                        type: "tuple[]",
+                        components: [
+                            { name: "token", type: "address" },
+                            { name: "allowance", type: "uint256" },
+                            { name: "interval", type: "uint48" }
+                        ]
+                    }
+                ],
+                policy.getPolicyData()
+            )[0]
+        ).toEqual(limits)
+
+        const { permissionParams } = deserializePermissionAccountParams(
+            serializePermissionAccountParams({
+                permissionParams: { policies: [policy] },
+                action: { selector: "0x00000000", address: accountAddress },
+                validityData: { validAfter: 0, validUntil: 0 },
+                accountParams: { initCode: "0x", accountAddress }
+            })
+        )
+        const deserialized = await createPolicyFromParams(
+            // biome-ignore lint/style/noNonNullAssertion: serialized above
+            permissionParams.policies![0]
+        )
+        expect(deserialized.getPolicyData()).toBe(policy.getPolicyData())
+        expect(deserialized.getPolicyInfoInBytes()).toBe(
+            `0x0000${policyAddress.slice(2)}`
+        )
+    })
+
+    test("reports the spendings above the remaining allowance", async () => {
+        const callData = await encodeCallData([
+            call(usdc, "transfer", 60n),
+            call(usdc, "approve", 30n),
+            call(dai, "transfer", parseEther("1"))
+        ])
+        expect(
+            evaluatePolicies({
+                policies: [policy],
+                userOperation: { callData }
+            }).valid
+        ).toBe(true)
+        expect(
+            evaluatePolicies({
+                policies: [policy],
+                userOperation: { callData },
+                spendingLimitUsed: { [usdc.toLowerCase() as Address]: 20n }
+            }).violations
+        ).toMatchObject([
+            {
+                type: "spending-limit",
+                policyAddress,
+                reason: `The 90 ${usdc} spent exceed the remaining allowance of 80`
+            }
+        ])
+    })
+})
+
+describe("getSpendingAllowance", () => {
+    const client = createPublicClient({
+        chain: sepolia,
+        transport: custom({
+            request: async ({ method, params }) => {
+                if (method === "eth_chainId") return toHex(sepolia.id)
+                const { args } = decodeFunctionData({
+                    abi: SpendingLimitPolicyAbi,
+                    data: params[0].data
+                })
+                expect(args).toEqual([
+                    pad("0xdeadbeef", { size: 32, dir: "right" }),
+                    usdc,
+                    accountAddress
+                ])
+                return encodeFunctionResult({
+                    abi: SpendingLimitPolicyAbi,
+                    functionName: "spendingLimits",
+                    result: [100n, 70n, 86400, 1000]
+                })
+            }
+        })
+    })
+    const parameters = {
+        accountAddress,
+        permissionId: "0xdeadbeef",
+        policyAddress,
+        token: usdc
+    } as const
+
+    test("reads the remaining allowance of the current window", async () => {
+        expect(
+            await getSpendingAllowance(client, {
+                ...parameters,
+                timestamp: 2000
+            })
+        ).toEqual({
+            allowance: 100n,
+            spent: 70n,
+            remaining: 30n,
+            resetsAt: 87400
+        })
+        expect(
+            await getSpendingAllowance(client, {
+                ...parameters,
+                timestamp: 87400
+            })
+        ).toEqual({ allowance: 100n, spent: 0n, remaining: 100n, resetsAt: 0 })
+    })
+})
@@ -0,0 +1,265 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import type { ENTRYPOINT_ADDRESS_V07_TYPE } from "permissionless/types/entrypoint"
+import {
+    type Address,
+    type Hex,
+    createPublicClient,
+    custom,
+    decodeFunctionData,
+    encodeFunctionData,
+    encodeFunctionResult,
+    erc20Abi,
+    pad,
+    parseAbi
+} from "viem"
+import { evaluatePolicies } from "../../../plugins/permission/policies/index.js"
+import {
+    type Subscription,
+    collectSubscriptionPayment,
+    getSubscriptionStatus,
+    toSubscriptionPolicies
+} from "../../../plugins/permission/subscription.js"
+import type { KernelSmartAccount } from "../../core/accounts/kernel/createKernelAccount.js"
+import { encodeCallData } from "../../core/accounts/kernel/utils/account/ep0_7/encodeCallData.js"
+import { decodeKernelCallData } from "../../core/accounts/kernel/utils/common/decodeKernelCallData.js"
+import type { KernelAccountClient } from "../../core/clients/kernelAccountClient.js"
+
+const token: Address = "0x1111111111111111111111111111111111111111"
+const payee: Address = "0x2222222222222222222222222222222222222222"
+const day = 86400
+
+// Three monthly payments
+const subscription: Subscription = {
+    token,
+    amount: 10_000_000n,
+    period: 30 * day,
+    payee,
+    startAt: 1_000_000,
+    until: 1_000_000 + 90 * day
+}
+
+const account: Address = "0x3333333333333333333333333333333333333333"
+const permissionId: Hex = "0x12345678"
+
+const call = (
+    functionName: "approve" | "transfer",
+    to: Address,
+    amount: bigint
+) => ({
+    to: token,
+    value: 0n,
+    data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName,
+        args: [to, amount]
+    })
+})
+
+const rateLimitPolicyAbi = parseAbi([
+    "function rateLimitConfigs(bytes32 id, address account) view returns (uint48 interval, uint48 count, uint48 startAt)"
+])
+
+// The rate limit state of the subscription after `paid` payments
+const getClient = (paid?: number) =>
+    createPublicClient({
+        transport: custom({
+            request: async ({ method, params }) => {
+                if (method !== "eth_call") {
+                    throw new Error(`Unexpected method ${method}`)
+                }
+                const { args } = decodeFunctionData({
+                    abi: rateLimitPolicyAbi,
+                    data: params[0].data
+                })
+                expect(args).toEqual([
+                    pad(permissionId, { size: 32, dir: "right" }),
+                    account
+                ])
+                return encodeFunctionResult({
+                    abi: rateLimitPolicyAbi,
+                    functionName: "rateLimitConfigs",
+                    result:
+                        paid === undefined
+                            ? [0, 0, 0]
+                            : [
+                                  subscription.period,
+                                  3 - paid,
+                                  subscription.startAt +
+                                      paid * subscription.period
+                              ]
+                })
+            }
+        })
+    })
+
+describe("subscription", () => {
+    test("only allows the payee to pull the amount during the subscription", async () => {
+        const policies = toSubscriptionPolicies(subscription)
+        expect(policies.map(({ policyParams }) => policyParams)).toMatchObject([
+            { type: "call" },
+            {
+                type: "rate-limit",
+                count: 3,
+                interval: 30 * day,
+                startAt: subscription.startAt
+            },
+            {
+                type: "timestamp",
+                validAfter: subscription.startAt,
+                validUntil: subscription.until
+            }
+        ])
+        const timestamp = subscription.startAt + day
+        expect(
+            evaluatePolicies({
+                policies,
+                timestamp,
+                userOperation: {
+                    callData: await encodeCallData(
+                        call("approve", payee, subscription.amount)
+                    )
+                }
+            }).valid
+        ).toBe(true)
+        const { violations } = evaluatePolicies({
+            policies,
+            timestamp: subscription.until + 1,
+            rateLimitUsed: 3,
+            userOperation: {
+                callData: await encodeCallData(
+                    call("approve", payee, subscription.amount + 1n)
+                )
+            }
+        })
+        expect(violations.map(({ type }) => type)).toEqual([
+            "call",
+            "rate-limit",
+            "timestamp"
+        ])
+        expect(() =>
+            toSubscriptionPolicies({ ...subscription, period: 0 })
+        ).toThrow("The subscription period must be a positive integer")
+    })
+
+    test("rejects a batch of transfers", async () => {
+        const policies = toSubscriptionPolicies(subscription)
+        const { valid, violations } = evaluatePolicies({
+            policies,
+            timestamp: subscription.startAt + day,
+            userOperation: {
+                callData: await encodeCallData([
+                    call("transfer", payee, subscription.amount),
+                    call("transfer", payee, subscription.amount)
+                ])
+            }
+        })
+        expect(valid).toBe(false)
+        expect(violations.map(({ type }) => type)).toEqual(["call", "call"])
+    })
+
+    test("reads the paid periods from the rate limit policy", async () => {
+        const { startAt, until } = subscription
+        const getStatus = (timestamp: number, paid?: number) =>
+            getSubscriptionStatus(getClient(paid), {
+                subscription,
+                account,
+                permissionId,
+                timestamp
+            })
+
+        expect(await getStatus(startAt - 1)).toEqual({
+            status: "pending",
+            due: false,
+            nextDueAt: startAt,
+            totalPeriods: 3,
+            paidPeriods: 0,
+            remainingPeriods: 3
+        })
+        expect(await getStatus(startAt + 31 * day, 1)).toEqual({
+            status: "active",
+            due: true,
+            currentPeriod: 1,
+            nextDueAt: startAt + 30 * day,
+            totalPeriods: 3,
+            paidPeriods: 1,
+            remainingPeriods: 2
+        })
+        expect(await getStatus(startAt + 31 * day, 2)).toMatchObject({
+            due: false,
+            nextDueAt: startAt + 60 * day,
+            remainingPeriods: 1
+        })
+        // The missed periods can be caught up
+        expect(await getStatus(startAt + 61 * day)).toMatchObject({
+            due: true,
+            currentPeriod: 2,
+            nextDueAt: startAt,
+            remainingPeriods: 3
+        })
+        expect(await getStatus(until, 3)).toMatchObject({
+            status: "ended",
+            due: false,
+            remainingPeriods: 0
+        })
+        expect(await getStatus(until + 1)).toMatchObject({
+            status: "ended",
+            remainingPeriods: 0
+        })
+    })
+
+    test("approves the payment when it is due", async () => {
+        const sent: Hex[] = []
+        let paid = 0
+        const accountClient = {
+            account: {
+                address: account,
+                get client() {
+                    return getClient(paid)
+                },
+                encodeCallData
+            },
+            sendUserOperation: async ({
+                userOperation
+            }: { userOperation: { callData: Hex } }) => {
+                sent.push(userOperation.callData)
+                paid++
+                return pad("0x01")
+            }
+        } as unknown as KernelAccountClient<
+            ENTRYPOINT_ADDRESS_V07_TYPE,
+            never,
+            undefined,
+            KernelSmartAccount<ENTRYPOINT_ADDRESS_V07_TYPE>
+        >
+        const timestamp = subscription.startAt + day
+
+        expect(
+            await collectSubscriptionPayment(accountClient, {
+                subscription,
+                permissionId,
+                timestamp
+            })
+        ).toBe(pad("0x01"))
+        const [execution] = decodeKernelCallData(sent[0], "v0.7").executions
+        expect(execution.target).toBe(token)
+        expect(
+            decodeFunctionData({ abi: erc20Abi, data: execution.callData })
+        ).toEqual({
+            functionName: "approve",
+            args: [payee, subscription.amount]
+        })
+        await expect(
+            collectSubscriptionPayment(accountClient, {
+                subscription,
+                permissionId,
+                timestamp
+            })
+        ).rejects.toThrow(
+            `The next payment of the subscription is due at ${
+                subscription.startAt + 30 * day
+            }`
+        )
+        expect(sent).toHaveLength(1)
+    })
+})
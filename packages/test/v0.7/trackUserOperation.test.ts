@@ -0,0 +1,324 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import { WaitForUserOperationReceiptTimeoutError } from "permissionless/actions"
+import type { Middleware } from "permissionless/actions/smartAccount"
+import type { ENTRYPOINT_ADDRESS_V07_TYPE } from "permissionless/types/entrypoint.js"
+import type { UserOperation } from "permissionless/types/userOperation.js"
+import { type Hex, pad, toHex } from "viem"
+import type { UserOperationLifecycleEvent } from "../../core/actions/account-client/trackUserOperation.js"
+import { createKernelAccountClient } from "../../core/clients/kernelAccountClient.js"
+import {
+    getMockBundlerTransport,
+    getMockKernelAccount,
+    getMockUserOperationReceipt,
+    mockSender as sender
+} from "./utils.js"
+
+type Status = "pending" | "bundled" | "included" | "reverted" | null
+
+const getMockAccount = (signed: UserOperation<"v0.7">[]) => {
+    const kernelPluginManager = {
+        getDummySignature: async () => "0xdead",
+        signUserOperation: async (userOperation: UserOperation<"v0.7">) => {
+            signed.push(userOperation)
+            return toHex(signed.length + 1, { size: 2 })
+        }
+    }
+    return getMockKernelAccount({
+        kernelPluginManager,
+        signUserOperation: kernelPluginManager.signUserOperation
+    })
+}
+
+// The hash of a mock UserOperation is its padded signature
+// `rejectSend` returns the message of the RPC error rejecting a submission
+const getBundlerTransport = (
+    sent: { maxFeePerGas: Hex; nonce: Hex }[],
+    getStatus: (hash: Hex, poll: number) => Status,
+    rejectSend?: () => string | undefined
+) => {
+    const polls: Record<Hex, number> = {}
+    const statuses: Record<Hex, Status> = {}
+    return getMockBundlerTransport({
+        eth_sendUserOperation: ([userOperation]) => {
+            const rejection = rejectSend?.()
+            if (rejection) throw { code: -32500, message: rejection }
+            sent.push(userOperation)
+            return pad(userOperation.signature)
+        },
+        eth_getUserOperationByHash: ([hash]: [Hex]) => {
+            polls[hash] = (polls[hash] ?? 0) + 1
+            statuses[hash] = getStatus(hash, polls[hash])
+            if (!statuses[hash]) return null
+            return {
+                userOperation: sent[0],
+                entryPoint: ENTRYPOINT_ADDRESS_V07,
+                transactionHash: statuses[hash] === "pending" ? null : "0x5678",
+                blockHash: null,
+                blockNumber: null
+            }
+        },
+        eth_getUserOperationReceipt: ([hash]: [Hex]) => {
+            const status = statuses[hash]
+            if (status !== "included" && status !== "reverted") return null
+            return getMockUserOperationReceipt(hash, status === "included")
+        }
+    })
+}
+
+const userOperation: UserOperation<"v0.7"> = {
+    sender,
+    nonce: 7n,
+    callData: "0x1234",
+    callGasLimit: 1n,
+    verificationGasLimit: 1n,
+    preVerificationGas: 1n,
+    maxFeePerGas: 100n,
+    maxPriorityFeePerGas: 10n,
+    signature: "0x0001"
+}
+
+const getClient = (
+    getStatus: (hash: Hex, poll: number) => Status,
+    signed: UserOperation<"v0.7">[] = [],
+    middleware?: Middleware<ENTRYPOINT_ADDRESS_V07_TYPE>["middleware"],
+    rejectSend?: () => string | undefined
+) => {
+    const sent: { maxFeePerGas: Hex; nonce: Hex }[] = []
+    const client = createKernelAccountClient({
+        account: getMockAccount(signed),
+        entryPoint: ENTRYPOINT_ADDRESS_V07,
+        middleware,
+        bundlerTransport: getBundlerTransport(sent, getStatus, rejectSend)
+    })
+    return { client, sent }
+}
+
+const originalHash = pad("0x0001")
+
+const mockSponsorship = {
+    paymaster: "0x4444444444444444444444444444444444444444",
+    paymasterVerificationGasLimit: 1n,
+    paymasterPostOpGasLimit: 1n,
+    paymasterData: "0xaaaa"
+} as const
+
+describe("trackUserOperation", () => {
+    test("emits the lifecycle events until the UserOperation is included", async () => {
+        const { client, sent } = getClient((_, poll) =>
+            poll === 1 ? "pending" : poll === 2 ? "bundled" : "included"
+        )
+        const events: UserOperationLifecycleEvent<ENTRYPOINT_ADDRESS_V07_TYPE>[] =
+            []
+
+        const receipt = await client.trackUserOperation({
+            userOperation,
+            pollingInterval: 1,
+            onEvent: (event) => events.push(event)
+        })
+        expect(receipt.success).toBe(true)
+        expect(sent).toHaveLength(1)
+        expect(events.map(({ type }) => type)).toEqual([
+            "submitted",
+            "pending",
+            "bundled",
+            "included"
+        ])
+        expect(events[0].hash).toBe(originalHash)
+    })
+
+    test("replaces a stuck UserOperation with bumped fees and the same nonce", async () => {
+        const signed: UserOperation<"v0.7">[] = []
+        const { client, sent } = getClient(
+            (hash) => (hash === originalHash ? "pending" : "included"),
+            signed
+        )
+        const events: UserOperationLifecycleEvent<ENTRYPOINT_ADDRESS_V07_TYPE>[] =
+            []
+
+        const receipt = await client.trackUserOperation({
+            userOperation,
+            hash: originalHash,
+            pollingInterval: 1,
+            stuckTimeout: 0,
+            feeBumpPercentage: 20,
+            onEvent: (event) => events.push(event)
+        })
+        expect(receipt.userOpHash).toBe(pad("0x0002"))
+        expect(events.map(({ type }) => type)).toEqual([
+            "submitted",
+            "pending",
+            "replaced",
+            "submitted",
+            "bundled",
+            "included"
+        ])
+        expect(signed).toHaveLength(1)
+        expect(signed[0].nonce).toBe(7n)
+        expect(signed[0].maxFeePerGas).toBe(120n)
+        expect(signed[0].maxPriorityFeePerGas).toBe(12n)
+        expect(sent).toEqual([
+            expect.objectContaining({ nonce: "0x7", maxFeePerGas: "0x78" })
+        ])
+    })
+
+    test("does not bump the fees past the limit", async () => {
+        const { client, sent } = getClient((_, poll) =>
+            poll < 3 ? "pending" : "reverted"
+        )
+        const events: UserOperationLifecycleEvent<ENTRYPOINT_ADDRESS_V07_TYPE>[] =
+            []
+
+        const receipt = await client.trackUserOperation({
+            userOperation,
+            hash: originalHash,
+            pollingInterval: 1,
+            stuckTimeout: 0,
+            maxFeePerGasLimit: 110n,
+            onEvent: (event) => events.push(event)
+        })
+        expect(receipt.success).toBe(false)
+        expect(sent).toHaveLength(0)
+        expect(events.map(({ type }) => type)).toEqual([
+            "submitted",
+            "pending",
+            "bundled",
+            "reverted"
+        ])
+    })
+
+    test("sponsors a replacement again before signing it", async () => {
+        const signed: UserOperation<"v0.7">[] = []
+        const sponsored: UserOperation<"v0.7">[] = []
+        const { client, sent } = getClient(
+            (hash) => (hash === originalHash ? "pending" : "included"),
+            signed,
+            {
+                sponsorUserOperation: async ({ userOperation }) => {
+                    sponsored.push(userOperation as UserOperation<"v0.7">)
+                    return {
+                        ...mockSponsorship,
+                        paymasterData: "0xbbbb"
+                    }
+                }
+            }
+        )
+
+        await client.trackUserOperation({
+            userOperation: { ...userOperation, ...mockSponsorship },
+            hash: originalHash,
+            pollingInterval: 1,
+            stuckTimeout: 0
+        })
+        expect(sponsored).toHaveLength(1)
+        expect(sponsored[0].maxFeePerGas).toBe(115n)
+        expect(signed[0].paymasterData).toBe("0xbbbb")
+        expect(sent[0]).toMatchObject({ paymasterData: "0xbbbb" })
+    })
+
+    test("does not replace a sponsored UserOperation it can't sponsor", async () => {
+        const { client, sent } = getClient((_, poll) =>
+            poll < 3 ? "pending" : "included"
+        )
+
+        const receipt = await client.trackUserOperation({
+            userOperation: { ...userOperation, ...mockSponsorship },
+            hash: originalHash,
+            pollingInterval: 1,
+            stuckTimeout: 0
+        })
+        expect(receipt.userOpHash).toBe(originalHash)
+        expect(sent).toHaveLength(0)
+    })
+
+    test("gives up after the timeout", async () => {
+        const { client } = getClient(() => "pending")
+
+        await expect(
+            client.trackUserOperation({
+                userOperation,
+                hash: originalHash,
+                pollingInterval: 1,
+                maxReplacements: 0,
+                timeout: 5
+            })
+        ).rejects.toThrow(WaitForUserOperationReceiptTimeoutError)
+    })
+
+    test("throws once a dropped UserOperation can't be replaced", async () => {
+        const { client } = getClient((_, poll) =>
+            poll === 1 ? "pending" : null
+        )
+        const events: string[] = []
+
+        await expect(
+            client.trackUserOperation({
+                userOperation,
+                hash: originalHash,
+                pollingInterval: 1,
+                maxReplacements: 0,
+                onEvent: ({ type }) => events.push(type)
+            })
+        ).rejects.toMatchObject({
+            name: "KernelBundlerError",
+            code: "BUNDLER_ERROR",
+            retryable: true
+        })
+        expect(events).toEqual(["submitted", "pending", "dropped"])
+    })
+
+    test("tries the replacement of a dropped UserOperation again", async () => {
+        const rejections = ["replacement underpriced"]
+        const { client, sent } = getClient(
+            (hash, poll) =>
+                hash === originalHash
+                    ? poll === 1
+                        ? "pending"
+                        : null
+                    : "included",
+            [],
+            undefined,
+            () => rejections.shift()
+        )
+        const events: string[] = []
+
+        const receipt = await client.trackUserOperation({
+            userOperation,
+            hash: originalHash,
+            pollingInterval: 1,
+            onEvent: ({ type }) => events.push(type)
+        })
+        expect(receipt.userOpHash).toBe(pad("0x0003"))
+        expect(sent).toHaveLength(1)
+        expect(events).toEqual([
+            "submitted",
+            "pending",
+            "dropped",
+            "replaced",
+            "submitted",
+            "bundled",
+            "included"
+        ])
+    })
+
+    test("throws a nonce conflict when the nonce of a dropped UserOperation was used", async () => {
+        const { client } = getClient(
+            (_, poll) => (poll === 1 ? "pending" : null),
+            [],
+            undefined,
+            () => "AA25 invalid account nonce"
+        )
+
+        await expect(
+            client.trackUserOperation({
+                userOperation,
+                hash: originalHash,
+                pollingInterval: 1
+            })
+        ).rejects.toMatchObject({
+            name: "NonceConflictError",
+            code: "NONCE_CONFLICT"
+        })
+    })
+})
@@ -0,0 +1,315 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { ENTRYPOINT_ADDRESS_V06 } from "permissionless"
+import type { ENTRYPOINT_ADDRESS_V06_TYPE } from "permissionless/types/entrypoint.js"
+import {
+    type Address,
+    type Hex,
+    concatHex,
+    createPublicClient,
+    custom,
+    decodeFunctionData,
+    encodeEventTopics,
+    encodeFunctionResult,
+    pad,
+    zeroAddress
+} from "viem"
+import { KernelAccountAbi } from "../../core/accounts/kernel/abi/KernelAccountAbi.js"
+import { KernelV3_1AccountAbi } from "../../core/accounts/kernel/abi/kernel_v_3_1/KernelAccountAbi.js"
+import type { KernelSmartAccount } from "../../core/accounts/kernel/createKernelAccount.js"
+import { createKernelAccountClient } from "../../core/clients/kernelAccountClient.js"
+import { KernelVersionToAddressesMap } from "../../core/constants.js"
+import {
+    KernelValidationError,
+    UnsupportedKernelVersionError
+} from "../../core/errors/kernel.js"
+import type { KernelValidator } from "../../core/types/kernel.js"
+
+const sender: Address = "0x1111111111111111111111111111111111111111"
+const v2Validator: Address = "0x2222222222222222222222222222222222222222"
+const ecdsaValidator: Address = "0x3333333333333333333333333333333333333333"
+const webAuthnValidator: Address = "0x4444444444444444444444444444444444444444"
+const owner: Address = "0x5555555555555555555555555555555555555555"
+
+const getValidator = (address: Address, enableData: Hex) =>
+    ({
+        address,
+        validatorType: "SECONDARY",
+        supportedKernelVersions: ">=0.3.0",
+        getIdentifier: () => address,
+        getEnableData: async () => enableData
+    }) as unknown as KernelValidator<never>
+
+const v2EcdsaValidator: Address = "0xd9AB5096a832b9ce79914329DAEE236f8Eea0390"
+const v3EcdsaValidator: Address = "0x845ADb2C711129d4f3966735eD98a9F09fC4cE57"
+const sessionKeyValidator: Address =
+    "0x6666666666666666666666666666666666666666"
+const executeSelector = "0x51945447"
+const enabledSelector = "0x12345678"
+
+const getClient = (
+    implementation: Address,
+    {
+        code = "0xef01",
+        defaultValidator = v2Validator,
+        executions = {}
+    }: {
+        code?: Hex
+        defaultValidator?: Address
+        // The validator of the v2 executions keyed by selector
+        executions?: Record<Hex, Address>
+    } = {}
+) => {
+    const account = {
+        address: sender,
+        entryPoint: ENTRYPOINT_ADDRESS_V06,
+        type: "local",
+        client: createPublicClient({
+            transport: custom({
+                request: async ({ method, params }) => {
+                    if (method === "eth_getCode") return code
+                    if (method === "eth_blockNumber") return "0x64"
+                    if (method === "eth_getStorageAt") {
+                        return pad(implementation)
+                    }
+                    if (method === "eth_getLogs") {
+                        return Object.keys(executions)
+                            .filter((selector) => selector !== executeSelector)
+                            .map((selector) => ({
+                                address: sender,
+                                topics: [
+                                    encodeEventTopics({
+                                        abi: KernelAccountAbi,
+                                        eventName: "ExecutionChanged",
+                                        args: {
+                                            selector: selector as Hex,
+                                            executor: zeroAddress,
+                                            validator:
+                                                executions[selector as Hex]
+                                        }
+                                    })
+                                ].flat(),
+                                data: "0x",
+                                blockNumber: "0x1",
+                                logIndex: "0x0",
+                                transactionIndex: "0x0",
+                                transactionHash: pad("0x01"),
+                                blockHash: pad("0x01"),
+                                removed: false
+                            }))
+                    }
+                    if (method === "eth_call") {
+                        if (
+                            params[0].to.toLowerCase() ===
+                            v2EcdsaValidator.toLowerCase()
+                        ) {
+                            return pad(owner)
+                        }
+                        const { functionName, args } = decodeFunctionData({
+                            abi: KernelAccountAbi,
+                            data: params[0].data
+                        })
+                        if (functionName === "getDefaultValidator") {
+                            return encodeFunctionResult({
+                                abi: KernelAccountAbi,
+                                functionName,
+                                result: defaultValidator
+                            })
+                        }
+                        if (functionName === "getExecution") {
+                            const selector = args?.[0] as Hex
+                            return encodeFunctionResult({
+                                abi: KernelAccountAbi,
+                                functionName,
+                                result: {
+                                    validAfter: 0,
+                                    validUntil: 0,
+                                    executor: zeroAddress,
+                                    validator:
+                                        executions[selector] ?? zeroAddress
+                                }
+                            })
+                        }
+                        throw new Error(`Unexpected call ${functionName}`)
+                    }
+                    throw new Error(`Unexpected method ${method}`)
+                }
+            })
+        })
+    } as unknown as KernelSmartAccount<ENTRYPOINT_ADDRESS_V06_TYPE>
+    return createKernelAccountClient({
+        account,
+        entryPoint: ENTRYPOINT_ADDRESS_V06,
+        bundlerTransport: custom({
+            request: async ({ method }) => {
+                throw new Error(`Unexpected method ${method}`)
+            }
+        })
+    })
+}
+
+describe("upgradeKernelAccount", () => {
+    test("plans the upgrade of a Kernel v2 account to v3", async () => {
+        const client = getClient(
+            KernelVersionToAddressesMap["0.2.4"].accountImplementationAddress
+        )
+        const { plan, hash } = await client.upgradeKernelAccount({
+            kernelVersion: "0.3.1",
+            rootValidator: getValidator(ecdsaValidator, owner),
+            plugins: [getValidator(webAuthnValidator, "0x1234")],
+            dryRun: true
+        })
+
+        const rootValidationId = concatHex(["0x01", ecdsaValidator])
+        const pluginValidationId = concatHex(["0x01", webAuthnValidator])
+        expect(hash).toBeUndefined()
+        expect(plan).toMatchObject({
+            address: sender,
+            currentVersion: "0.2.4",
+            targetVersion: "0.3.1",
+            targetImplementation:
+                KernelVersionToAddressesMap["0.3.1"]
+                    .accountImplementationAddress,
+            entryPointChange: true,
+            currentRootValidator: v2Validator,
+            rootValidator: {
+                validationId: rootValidationId,
+                address: ecdsaValidator
+            },
+            plugins: [
+                { validationId: pluginValidationId, address: webAuthnValidator }
+            ]
+        })
+        expect(plan.warnings).toHaveLength(0)
+        expect(plan.discardedPlugins).toEqual([])
+        expect(plan.calls.map(({ to }) => to)).toEqual([sender, sender, sender])
+
+        expect(
+            decodeFunctionData({
+                abi: KernelAccountAbi,
+                data: plan.calls[0].data
+            })
+        ).toEqual({
+            functionName: "upgradeTo",
+            args: [
+                KernelVersionToAddressesMap["0.3.1"]
+                    .accountImplementationAddress
+            ]
+        })
+        const [initialize, installValidations] = plan.calls
+            .slice(1)
+            .map(({ data }) =>
+                decodeFunctionData({ abi: KernelV3_1AccountAbi, data })
+            )
+        expect(initialize.functionName).toBe("initialize")
+        expect(initialize.args).toEqual([
+            rootValidationId,
+            "0x0000000000000000000000000000000000000000",
+            owner,
+            "0x",
+            []
+        ])
+        expect(installValidations.functionName).toBe("installValidations")
+        expect(installValidations.args).toEqual([
+            [pluginValidationId],
+            [{ nonce: 1, hook: "0x0000000000000000000000000000000000000000" }],
+            ["0x1234"],
+            ["0x"]
+        ])
+    })
+
+    test("rejects the invalid upgrades", async () => {
+        const client = getClient(
+            KernelVersionToAddressesMap["0.2.4"].accountImplementationAddress
+        )
+        await expect(
+            client
+                .upgradeKernelAccount({ kernelVersion: "0.3.1", dryRun: true })
+                .catch((error: unknown) => error)
+        ).resolves.toBeInstanceOf(KernelValidationError)
+        await expect(
+            client
+                .upgradeKernelAccount({ kernelVersion: "0.2.2", dryRun: true })
+                .catch((error: unknown) => error)
+        ).resolves.toBeInstanceOf(UnsupportedKernelVersionError)
+
+        const unknownImplementation = getClient(owner)
+        await expect(
+            unknownImplementation
+                .upgradeKernelAccount({ kernelVersion: "0.2.4", dryRun: true })
+                .catch((error: unknown) => error)
+        ).resolves.toBeInstanceOf(UnsupportedKernelVersionError)
+
+        const undeployed = getClient(owner, { code: "0x" })
+        await expect(
+            undeployed
+                .upgradeKernelAccount({ kernelVersion: "0.2.4", dryRun: true })
+                .catch((error: unknown) => error)
+        ).resolves.toMatchObject({ code: "ACCOUNT_NOT_DEPLOYED" })
+    })
+    test("installs the v3 ECDSA validator of the owner of a v2 ECDSA account", async () => {
+        const client = getClient(
+            KernelVersionToAddressesMap["0.2.4"].accountImplementationAddress,
+            { defaultValidator: v2EcdsaValidator }
+        )
+        const { plan } = await client.upgradeKernelAccount({
+            kernelVersion: "0.3.1",
+            dryRun: true
+        })
+
+        const rootValidationId = concatHex(["0x01", v3EcdsaValidator])
+        expect(plan.rootValidator).toEqual({
+            validationId: rootValidationId,
+            address: v3EcdsaValidator
+        })
+        const initialize = decodeFunctionData({
+            abi: KernelV3_1AccountAbi,
+            data: plan.calls[1].data
+        })
+        expect(initialize.functionName).toBe("initialize")
+        expect(initialize.args).toEqual([
+            rootValidationId.toLowerCase(),
+            "0x0000000000000000000000000000000000000000",
+            owner.toLowerCase(),
+            "0x",
+            []
+        ])
+    })
+
+    test("throws on the plugins enabled on the v2 account unless they are discarded", async () => {
+        const client = getClient(
+            KernelVersionToAddressesMap["0.2.4"].accountImplementationAddress,
+            {
+                defaultValidator: v2EcdsaValidator,
+                executions: {
+                    [executeSelector]: sessionKeyValidator,
+                    [enabledSelector]: webAuthnValidator
+                }
+            }
+        )
+        await expect(
+            client
+                .upgradeKernelAccount({ kernelVersion: "0.3.1", dryRun: true })
+                .catch((error: unknown) => error)
+        ).resolves.toMatchObject({ code: "PLUGIN_NOT_MIGRATED" })
+
+        const { plan } = await client.upgradeKernelAccount({
+            kernelVersion: "0.3.1",
+            discardV2Plugins: true,
+            dryRun: true
+        })
+        expect(plan.discardedPlugins).toEqual([
+            {
+                selector: executeSelector,
+                executor: zeroAddress,
+                validator: sessionKeyValidator
+            },
+            {
+                selector: enabledSelector,
+                executor: zeroAddress,
+                validator: webAuthnValidator
+            }
+        ])
+        expect(plan.warnings).toHaveLength(1)
+    })
+})
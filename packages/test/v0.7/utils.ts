@@ -36,10 +36,12 @@ import {
     type PublicClient,
     type Transport,
     createPublicClient,
+    custom,
     decodeEventLog,
     encodeFunctionData,
     getAbiItem,
     toFunctionSelector,
+    toHex,
     zeroAddress
 } from "viem"
 import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
@@ -788,3 +790,66 @@ export const getPermissionKernelAccountWithRemoteSigner = async (
         kernelVersion
     })
 }
+
+// Mocks of the unit tests, which don't reach a node or a bundler
+
+export const mockSender: Address = "0x1111111111111111111111111111111111111111"
+
+export const getMockKernelAccount = (
+    overrides: Record<string, unknown> = {}
+): KernelSmartAccount<ENTRYPOINT_ADDRESS_V07_TYPE> =>
+    ({
+        address: mockSender,
+        entryPoint: ENTRYPOINT_ADDRESS_V07,
+        type: "local",
+        getNonce: async () => 1n,
+        getFactory: async () => undefined,
+        getFactoryData: async () => undefined,
+        getDummySignature: async () => "0xdead",
+        signUserOperation: async () => "0xbeef",
+        encodeCallData: async () => "0x1234",
+        ...overrides
+    }) as unknown as KernelSmartAccount<ENTRYPOINT_ADDRESS_V07_TYPE>
+
+export const mockGasEstimate = {
+    callGasLimit: toHex(100n),
+    verificationGasLimit: toHex(200n),
+    preVerificationGas: toHex(300n)
+}
+
+export const getMockUserOperationReceipt = (
+    userOpHash: Hex,
+    success = true
+) => ({
+    userOpHash,
+    sender: mockSender,
+    nonce: "0x1",
+    actualGasUsed: "0x1",
+    actualGasCost: "0x1",
+    success,
+    receipt: {
+        transactionHash: "0x5678",
+        transactionIndex: "0x0",
+        blockNumber: "0x1",
+        cumulativeGasUsed: "0x1",
+        status: "0x1",
+        gasUsed: "0x1",
+        effectiveGasPrice: "0x1"
+    },
+    logs: []
+})
+
+// Answers each RPC method with its handler, `onRequest` runs before
+export const getMockBundlerTransport = (
+    // biome-ignore lint/suspicious/noExplicitAny: the params of any method
+    handlers: Record<string, (params: any) => unknown>,
+    onRequest?: (method: string) => void
+) =>
+    custom({
+        request: async ({ method, params }) => {
+            onRequest?.(method)
+            const handler = handlers[method]
+            if (!handler) throw new Error(`Unexpected method ${method}`)
+            return handler(params)
+        }
+    })
@@ -0,0 +1,63 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import {
+    decryptSecret,
+    encryptSecret
+} from "../../../wallet/utils/encryption.js"
+
+const secret =
+    "0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318"
+
+describe("wallet encryption", () => {
+    test("round trips a secret encrypted with a password", async () => {
+        const encrypted = await encryptSecret(secret, {
+            password: "correct horse",
+            iterations: 1000
+        })
+
+        expect(encrypted).not.toContain(secret)
+        expect(JSON.parse(encrypted)).toMatchObject({
+            version: 1,
+            iterations: 1000
+        })
+        expect(
+            await decryptSecret(encrypted, { password: "correct horse" })
+        ).toBe(secret)
+    })
+
+    test("uses a new salt and iv for every encryption", async () => {
+        const encryption = { password: "correct horse", iterations: 1000 }
+        const first = JSON.parse(await encryptSecret(secret, encryption))
+        const second = JSON.parse(await encryptSecret(secret, encryption))
+
+        expect(first.salt).not.toBe(second.salt)
+        expect(first.iv).not.toBe(second.iv)
+        expect(first.ciphertext).not.toBe(second.ciphertext)
+    })
+
+    test("rejects a wrong password and a tampered secret", async () => {
+        const encrypted = await encryptSecret(secret, {
+            password: "correct horse",
+            iterations: 1000
+        })
+
+        await expect(
+            decryptSecret(encrypted, { password: "wrong" })
+        ).rejects.toThrow("the password is invalid")
+        const { ciphertext, ...parameters } = JSON.parse(encrypted)
+        const tampered = JSON.stringify({
+            ...parameters,
+            ciphertext: `${ciphertext[0] === "A" ? "B" : "A"}${ciphertext.slice(
+                1
+            )}`
+        })
+        await expect(
+            decryptSecret(tampered, { password: "correct horse" })
+        ).rejects.toThrow("cannot decrypt the secret")
+        await expect(
+            decryptSecret(JSON.stringify({ ...parameters, version: 2 }), {
+                password: "correct horse"
+            })
+        ).rejects.toThrow("unsupported encryption version 2")
+    })
+})
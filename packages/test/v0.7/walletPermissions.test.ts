@@ -0,0 +1,190 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import { type Address, pad, toFunctionSelector, toHex, zeroAddress } from "viem"
+import type {
+    GrantPermissionsParams,
+    Permission
+} from "../../../wallet/types/index.js"
+import {
+    PERMISSION_TYPES,
+    POLICY_TYPES,
+    getPolicies,
+    validatePermissions
+} from "../../../wallet/utils/permissions.js"
+
+const collection: Address = "0x1111111111111111111111111111111111111111"
+const token: Address = "0x2222222222222222222222222222222222222222"
+const supportedPolicies = [...PERMISSION_TYPES, ...POLICY_TYPES]
+const expiry = Math.floor(Date.now() / 1000) + 3600
+
+const toParams = (...permissions: Permission[]): GrantPermissionsParams => ({
+    permissions,
+    expiry
+})
+
+const erc721Permission = (
+    tokenIds?: bigint[],
+    policies: Permission["policies"] = []
+): Permission => ({
+    type: "erc721-token-transfer",
+    data: { address: collection, tokenIds },
+    required: true,
+    policies
+})
+
+describe("wallet permissions", () => {
+    test("caps the amount of each native and ERC-20 transfer", () => {
+        const params = toParams(
+            {
+                type: "native-token-transfer",
+                data: { allowance: 10n },
+                required: true,
+                policies: []
+            },
+            {
+                type: "erc20-token-transfer",
+                data: { address: token, allowance: 5n },
+                required: true,
+                policies: []
+            }
+        )
+        validatePermissions(params, supportedPolicies)
+
+        const [callPolicy] = getPolicies(params)
+        const allowance = pad(toHex(5n), { size: 32 })
+        expect(callPolicy.policyParams).toMatchObject({
+            type: "call",
+            permissions: [
+                {
+                    target: zeroAddress,
+                    selector: "0x00000000",
+                    valueLimit: 10n
+                },
+                {
+                    target: token,
+                    selector: toFunctionSelector("transfer(address,uint256)"),
+                    rules: [{ offset: 32, param: allowance }]
+                },
+                {
+                    target: token,
+                    selector: toFunctionSelector("approve(address,uint256)"),
+                    rules: [{ offset: 32, param: allowance }]
+                }
+            ]
+        })
+    })
+
+    test("allows one ERC-20 transfer per period of a recurring allowance", () => {
+        const startTime = expiry - 3600
+        const params = toParams({
+            type: "erc20-recurring-allowance",
+            data: { address: token, allowance: 5n, period: 1000, startTime },
+            required: true,
+            policies: []
+        })
+        validatePermissions(params, supportedPolicies)
+
+        const [callPolicy, rateLimitPolicy] = getPolicies(params)
+        expect(
+            (callPolicy.policyParams as { permissions: unknown[] }).permissions
+        ).toHaveLength(2)
+        // The 4 periods left until the expiry
+        expect(rateLimitPolicy.policyParams).toMatchObject({
+            type: "rate-limit",
+            count: 4,
+            interval: 1000,
+            startAt: startTime
+        })
+
+        expect(() =>
+            validatePermissions(
+                toParams({
+                    type: "erc20-recurring-allowance",
+                    data: { address: token, allowance: 5n, period: 1000 },
+                    required: true,
+                    policies: [
+                        { type: "rate-limit", data: { count: 1, interval: 0 } }
+                    ]
+                }),
+                supportedPolicies
+            )
+        ).toThrow("Only one rate-limit policy can be granted at once")
+        expect(() =>
+            validatePermissions(
+                toParams({
+                    type: "erc20-recurring-allowance",
+                    data: { address: token, allowance: 5n, period: 0 },
+                    required: true,
+                    policies: []
+                }),
+                supportedPolicies
+            )
+        ).toThrow("Invalid period 0")
+    })
+
+    test("allows the transfer of an ERC-721 token", () => {
+        const params = toParams(
+            erc721Permission(
+                [7n],
+                [
+                    {
+                        type: "timestamp",
+                        data: { validAfter: 100, validUntil: 200 }
+                    }
+                ]
+            )
+        )
+        validatePermissions(params, supportedPolicies)
+
+        const [callPolicy, timestampPolicy] = getPolicies(params)
+        expect(callPolicy.policyParams).toMatchObject({ type: "call" })
+        const permissions = (
+            callPolicy.policyParams as {
+                permissions: { target: Address; selector: string }[]
+            }
+        ).permissions
+        expect(permissions).toHaveLength(3)
+        expect(permissions[0]).toMatchObject({
+            target: collection,
+            selector: toFunctionSelector(
+                "transferFrom(address,address,uint256)"
+            ),
+            rules: [{ offset: 64, param: pad(toHex(7n), { size: 32 }) }]
+        })
+        // The session is valid from now at the earliest
+        expect(timestampPolicy.policyParams).toMatchObject({
+            type: "timestamp",
+            validUntil: 200
+        })
+    })
+
+    test("rejects the invalid ERC-721 permissions", () => {
+        expect(() =>
+            validatePermissions(
+                toParams(erc721Permission([1n, 2n])),
+                supportedPolicies
+            )
+        ).toThrow("Only one token id can be allowed")
+        expect(() =>
+            validatePermissions(
+                toParams(erc721Permission(), erc721Permission()),
+                supportedPolicies
+            )
+        ).toThrow(
+            `Duplicate erc721-token-transfer permission for ${collection}`
+        )
+        expect(() =>
+            validatePermissions(
+                toParams(
+                    erc721Permission(undefined, [
+                        {
+                            type: "timestamp",
+                            data: { validAfter: 200, validUntil: 100 }
+                        }
+                    ])
+                ),
+                supportedPolicies
+            )
+        ).toThrow("Invalid timestamp policy from 200 to 100")
+    })
+})
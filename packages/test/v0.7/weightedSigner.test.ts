@@ -0,0 +1,156 @@
+// @ts-expect-error
+import { describe, expect, test } from "bun:test"
+import {
+    type Address,
+    type Hex,
+    decodeAbiParameters,
+    recoverMessageAddress,
+    size,
+    slice,
+    toHex
+} from "viem"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+import { toECDSASigner } from "../../../plugins/permission/signers/toECDSASigner.js"
+import { toEmptyECDSASigner } from "../../../plugins/permission/signers/toEmptyECDSASigner.js"
+import {
+    type WeightedSignatureRequest,
+    WeightedSignerType,
+    signWeightedSignatureRequest,
+    toWeightedSigner
+} from "../../../plugins/permission/signers/toWeightedSigner.js"
+import { DUMMY_ECDSA_SIG } from "../../core/constants.js"
+
+const signerContractAddress: Address =
+    "0x2222222222222222222222222222222222222222"
+const message = { raw: toHex("treasury") }
+
+const decodeSignatures = (signature: Hex) =>
+    decodeAbiParameters([{ type: "bytes[]" }], signature)[0].map((entry) => ({
+        index: Number(slice(entry, 0, 1)),
+        signature: slice(entry, 1)
+    }))
+
+const keys = [0, 1, 2].map(() => privateKeyToAccount(generatePrivateKey()))
+const ecdsaSigners = keys.map((signer) => toECDSASigner({ signer }))
+
+describe("toWeightedSigner", () => {
+    test("encodes the threshold and the members in the signer data", () => {
+        const signer = toWeightedSigner({
+            signerContractAddress,
+            threshold: 2,
+            members: ecdsaSigners.map((signer) => ({ signer, weight: 1 }))
+        })
+        const signerData = signer.getSignerData()
+        expect(slice(signerData, 0, 3)).toBe(toHex(2, { size: 3 }))
+        expect(
+            decodeAbiParameters([{ type: "bytes[]" }], slice(signerData, 3))[0]
+        ).toEqual(
+            keys.map(({ address }) =>
+                `${WeightedSignerType.ECDSA}000001${address.slice(
+                    2
+                )}`.toLowerCase()
+            )
+        )
+    })
+
+    test("signs with the local members until the threshold", async () => {
+        const signer = toWeightedSigner({
+            signerContractAddress,
+            threshold: 2,
+            members: ecdsaSigners.map((signer) => ({ signer, weight: 1 }))
+        })
+        const signatures = decodeSignatures(
+            await signer.account.signMessage({ message })
+        )
+        expect(signatures.map(({ index }) => index)).toEqual([0, 1])
+        for (const { index, signature } of signatures) {
+            expect(await recoverMessageAddress({ message, signature })).toBe(
+                keys[index].address
+            )
+        }
+    })
+
+    test("collects the signatures of the remote members", async () => {
+        const requests: [WeightedSignatureRequest, number[]][] = []
+        const signer = toWeightedSigner({
+            signerContractAddress,
+            threshold: 3,
+            members: [
+                { signer: ecdsaSigners[0], weight: 1 },
+                {
+                    signer: toEmptyECDSASigner(keys[1].address),
+                    weight: 2,
+                    remote: true
+                },
+                { signer: ecdsaSigners[2], weight: 1 }
+            ],
+            collectSignatures: async (request, members) => {
+                requests.push([request, members])
+                return [
+                    {
+                        index: 1,
+                        signature: await signWeightedSignatureRequest(
+                            request,
+                            ecdsaSigners[1]
+                        )
+                    }
+                ]
+            }
+        })
+        const signatures = decodeSignatures(
+            await signer.account.signMessage({ message })
+        )
+        expect(requests).toEqual([[{ type: "message", message }, [1]]])
+        expect(signatures.map(({ index }) => index)).toEqual([0, 1])
+        expect(
+            await recoverMessageAddress({
+                message,
+                signature: signatures[1].signature
+            })
+        ).toBe(keys[1].address)
+    })
+
+    test("fails below the threshold", async () => {
+        const signer = toWeightedSigner({
+            signerContractAddress,
+            threshold: 2,
+            members: [
+                { signer: ecdsaSigners[0], weight: 1 },
+                {
+                    signer: toEmptyECDSASigner(keys[1].address),
+                    weight: 1,
+                    remote: true
+                }
+            ],
+            collectSignatures: async () => []
+        })
+        await expect(signer.account.signMessage({ message })).rejects.toThrow(
+            "The signatures weigh 1, below the threshold 2"
+        )
+        expect(() =>
+            toWeightedSigner({
+                signerContractAddress,
+                threshold: 3,
+                members: [{ signer: ecdsaSigners[0], weight: 2 }]
+            })
+        ).toThrow("must be positive and at most the sum of weights (2)")
+    })
+
+    test("sizes the dummy signature for the most signatures needed", () => {
+        const signer = toWeightedSigner({
+            signerContractAddress,
+            threshold: 3,
+            members: [
+                { signer: ecdsaSigners[0], weight: 3 },
+                { signer: ecdsaSigners[1], weight: 1 },
+                { signer: ecdsaSigners[2], weight: 2 }
+            ]
+        })
+        const signatures = decodeSignatures(signer.getDummySignature())
+        expect(signatures.map(({ index }) => index)).toEqual([1, 2])
+        for (const { signature } of signatures) {
+            expect(signature).toBe(DUMMY_ECDSA_SIG)
+            expect(size(signature)).toBe(65)
+        }
+    })
+})
@@ -1,12 +1,9 @@
 import {
     constants,
-    KernelAccountAbi,
-    KernelV3InitAbi,
-    KernelV3_1AccountAbi,
+    getKernelAddressFromConfig,
     validateKernelVersionWithEntryPoint
 } from "@zerodev/sdk"
 import type { GetKernelVersion } from "@zerodev/sdk/types"
-import type { KERNEL_VERSION_TYPE } from "@zerodev/sdk/types"
 import { getEntryPointVersion } from "permissionless"
 import type {
     ENTRYPOINT_ADDRESS_V06_TYPE,
@@ -16,15 +13,10 @@ import {
     type Address,
     type Hex,
     type PublicClient,
-    concat,
     concatHex,
-    encodeFunctionData,
     getContract,
-    getContractAddress,
     isAddress,
-    keccak256,
-    toHex,
-    zeroAddress
+    keccak256
 } from "viem"
 import { getValidatorAddress } from "./toECDSAValidatorPlugin.js"
 
@@ -84,68 +76,6 @@ const initCodeHashV0_7 = (implementationAddress: Address) => {
     return hash
 }
 
-const generateSaltForV06 = (
-    eoaAddress: Address,
-    index: bigint,
-    validatorAddress: Address
-) => {
-    const encodedIndex = toHex(index, { size: 32 })
-    const initData = encodeFunctionData({
-        abi: KernelAccountAbi,
-        functionName: "initialize",
-        args: [validatorAddress, eoaAddress]
-    })
-    const encodedSalt = concat([initData, encodedIndex])
-    const salt = BigInt(keccak256(encodedSalt))
-    const mask = BigInt("0xffffffffffffffffffffffff")
-    const maskedSalt = toHex(salt & mask, { size: 32 })
-
-    return maskedSalt
-}
-
-const generateSaltForV07 = (
-    eoaAddress: Address,
-    index: bigint,
-    hookAddress: Address,
-    hookData: Hex,
-    validatorAddress: Address,
-    kernelVersion: KERNEL_VERSION_TYPE,
-    initConfig: Hex[]
-) => {
-    const encodedIndex = toHex(index, { size: 32 })
-    let initData: Hex
-    if (kernelVersion === "0.3.0") {
-        initData = encodeFunctionData({
-            abi: KernelV3InitAbi,
-            functionName: "initialize",
-            args: [
-                concatHex([
-                    constants.VALIDATOR_TYPE.SECONDARY,
-                    validatorAddress
-                ]),
-                hookAddress,
-                eoaAddress,
-                hookData
-            ]
-        })
-        const packedData = concatHex([initData, encodedIndex])
-        return keccak256(packedData)
-    }
-    initData = encodeFunctionData({
-        abi: KernelV3_1AccountAbi,
-        functionName: "initialize",
-        args: [
-            concatHex([constants.VALIDATOR_TYPE.SECONDARY, validatorAddress]),
-            hookAddress,
-            eoaAddress,
-            hookData,
-            initConfig
-        ]
-    })
-    const packedData = concatHex([initData, encodedIndex])
-    return keccak256(packedData)
-}
-
 export type GetKernelAddressFromECDSAParams<entryPoint extends EntryPoint> = {
     entryPointAddress: entryPoint
     kernelVersion: GetKernelVersion<entryPoint>
@@ -164,13 +94,10 @@ export type GetKernelAddressFromECDSAParams<entryPoint extends EntryPoint> = {
 export async function getKernelAddressFromECDSA<entryPoint extends EntryPoint>(
     params: GetKernelAddressFromECDSAParams<entryPoint>
 ) {
-    const entryPointVersion = getEntryPointVersion(params.entryPointAddress)
     validateKernelVersionWithEntryPoint(
         params.entryPointAddress,
         params.kernelVersion
     )
-    const kernelAddresses =
-        constants.KernelVersionToAddressesMap[params.kernelVersion]
     const ecdsaValidatorAddress = getValidatorAddress(
         params.entryPointAddress,
         params.kernelVersion
@@ -188,37 +115,15 @@ export async function getKernelAddressFromECDSA<entryPoint extends EntryPoint>(
         }
         throw new Error("Either initCodeHash or publicClient must be provided")
     })()
-    let salt: Hex
-    if (entryPointVersion === "v0.6") {
-        salt = generateSaltForV06(
-            params.eoaAddress,
-            params.index,
-            ecdsaValidatorAddress
-        )
-    } else {
-        const hookAddress =
-            "hookAddress" in params && params.hookAddress
-                ? params.hookAddress
-                : zeroAddress
-        const hookData =
-            "hookData" in params && params.hookData ? params.hookData : "0x"
-        const initConfig =
-            "initConfig" in params && params.initConfig ? params.initConfig : []
-        salt = generateSaltForV07(
-            params.eoaAddress,
-            params.index,
-            hookAddress,
-            hookData,
-            ecdsaValidatorAddress,
-            params.kernelVersion,
-            initConfig
-        )
-    }
-
-    return getContractAddress({
-        bytecodeHash,
-        opcode: "CREATE2",
-        from: kernelAddresses.factoryAddress,
-        salt
+    return getKernelAddressFromConfig({
+        entryPoint: params.entryPointAddress,
+        kernelVersion: params.kernelVersion,
+        validatorAddress: ecdsaValidatorAddress,
+        enableData: params.eoaAddress,
+        index: params.index,
+        hookAddress: "hookAddress" in params ? params.hookAddress : undefined,
+        hookData: "hookData" in params ? params.hookData : undefined,
+        initConfig: "initConfig" in params ? params.initConfig : undefined,
+        initCodeHash: bytecodeHash
     })
 }
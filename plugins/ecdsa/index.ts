@@ -3,6 +3,11 @@ import {
     type GetKernelAddressFromECDSAParams,
     getKernelAddressFromECDSA
 } from "./getAddress.js"
+import {
+    type EcdsaAccountExportParams,
+    exportEcdsaAccount,
+    importEcdsaAccount
+} from "./kernelAccountExport.js"
 import {
     getValidatorAddress,
     signerToEcdsaValidator
@@ -13,6 +18,9 @@ export {
     signerToEcdsaValidator,
     type KernelValidator,
     getKernelAddressFromECDSA,
-    type GetKernelAddressFromECDSAParams
+    type GetKernelAddressFromECDSAParams,
+    exportEcdsaAccount,
+    importEcdsaAccount,
+    type EcdsaAccountExportParams
 }
 export * from "./constants.js"
@@ -0,0 +1,92 @@
+import {
+    type KernelAccountExport,
+    type KernelSmartAccount,
+    createKernelAccount,
+    toKernelAccountExport
+} from "@zerodev/sdk"
+import type { GetKernelVersion } from "@zerodev/sdk/types"
+import type { SmartAccountSigner } from "permissionless/accounts"
+import type { EntryPoint } from "permissionless/types/entrypoint"
+import {
+    type Address,
+    type Chain,
+    type Client,
+    type Transport,
+    isAddressEqual
+} from "viem"
+import { signerToEcdsaValidator } from "./toECDSAValidatorPlugin.js"
+
+export type EcdsaAccountExportParams = {
+    validatorAddress: Address
+    owner: Address
+}
+
+/**
+ * Exports an account owned by the ECDSA validator in the versioned Kernel
+ * account format, to serialize with `serializeKernelAccount`. The owner key
+ * is not exported
+ * @param account - The account with the ECDSA validator as sudo validator
+ */
+export const exportEcdsaAccount = async <entryPoint extends EntryPoint>(
+    account: KernelSmartAccount<entryPoint>
+): Promise<KernelAccountExport<"ecdsa", EcdsaAccountExportParams>> => {
+    const validator = account.kernelPluginManager.sudoValidator
+    if (validator?.source !== "ECDSAValidator")
+        throw new Error("Account sudo validator is not an ECDSA validator")
+    return toKernelAccountExport(account, {
+        type: "ecdsa",
+        params: {
+            validatorAddress: validator.address,
+            owner: (await validator.getEnableData()) as Address
+        }
+    })
+}
+
+/**
+ * Creates an account owned by the ECDSA validator from its versioned export.
+ * Use it as the `ecdsa` deserializer of `deserializeKernelAccount`
+ * @param client
+ * @param accountExport - The parsed export
+ * @param signer - The owner of the account
+ */
+export const importEcdsaAccount = async <
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined,
+    TSource extends string = "custom",
+    TAddress extends Address = Address
+>(
+    client: Client<TTransport, TChain, undefined>,
+    accountExport: KernelAccountExport,
+    signer: SmartAccountSigner<TSource, TAddress>
+) => {
+    if (accountExport.validator.type !== "ecdsa") {
+        throw new Error(
+            `Cannot import a ${accountExport.validator.type} account as an ECDSA account`
+        )
+    }
+    const { entryPoint, account, validator } = accountExport
+    const kernelVersion =
+        accountExport.kernelVersion as GetKernelVersion<EntryPoint>
+    const { validatorAddress, owner } =
+        validator.params as EcdsaAccountExportParams
+    if (!isAddressEqual(signer.address, owner)) {
+        throw new Error(
+            `The signer ${signer.address} is not the owner ${owner} of the account`
+        )
+    }
+
+    return createKernelAccount(client, {
+        entryPoint,
+        kernelVersion,
+        plugins: {
+            sudo: await signerToEcdsaValidator(client, {
+                signer,
+                entryPoint,
+                kernelVersion,
+                validatorAddress
+            })
+        },
+        index: account.index,
+        deployedAccountAddress: account.address
+    })
+}
@@ -1,4 +1,8 @@
-import { KernelAccountAbi, createKernelAccount } from "@zerodev/sdk"
+import {
+    KernelAccountAbi,
+    type KernelAccountExport,
+    createKernelAccount
+} from "@zerodev/sdk"
 import { KernelFactoryAbi } from "@zerodev/sdk"
 import { toKernelPluginManager } from "@zerodev/sdk/accounts"
 import type { GetKernelVersion, ValidatorInitData } from "@zerodev/sdk/types"
@@ -16,6 +20,10 @@ import type { Policy } from "./policies/types.js"
 import { toECDSASigner } from "./signers/toECDSASigner.js"
 import type { ModularSigner } from "./signers/types.js"
 import { createPermissionValidator } from "./toModularPermissionValidatorPlugin.js"
+import type {
+    ModularPermissionAccountExportParams,
+    ModularPermissionAccountParams
+} from "./types.js"
 import { deserializeModularPermissionAccountParams } from "./utils.js"
 
 export const deserializeModularPermissionAccount = async <
@@ -27,9 +35,59 @@ export const deserializeModularPermissionAccount = async <
     modularPermissionAccountParams: string,
     modularSigner?: ModularSigner
 ) => {
-    const params = deserializeModularPermissionAccountParams(
+    const params = deserializeModularPermissionAccountParams<entryPoint>(
         modularPermissionAccountParams
     )
+    return createModularPermissionAccount(
+        client,
+        entryPointAddress,
+        kernelVersion,
+        params,
+        modularSigner
+    )
+}
+
+/**
+ * Creates a modular permission account from its versioned export, see
+ * `exportModularPermissionAccount`. Use it as the `modular-permission`
+ * deserializer of `deserializeKernelAccount`
+ * @param client
+ * @param accountExport - The parsed export
+ * @param modularSigner - The signer, if the export has no private key
+ */
+export const importModularPermissionAccount = async (
+    client: Parameters<typeof createKernelAccount>[0],
+    accountExport: KernelAccountExport,
+    modularSigner?: ModularSigner
+) => {
+    if (accountExport.validator.type !== "modular-permission") {
+        throw new Error(
+            `Cannot import a ${accountExport.validator.type} account as a modular permission account`
+        )
+    }
+    const { entryPoint, kernelVersion, account, validator } = accountExport
+    return createModularPermissionAccount(
+        client,
+        entryPoint,
+        kernelVersion as GetKernelVersion<EntryPoint>,
+        {
+            ...(validator.params as ModularPermissionAccountExportParams<EntryPoint>),
+            accountParams: {
+                initCode: account.initCode,
+                accountAddress: account.address
+            }
+        },
+        modularSigner
+    )
+}
+
+const createModularPermissionAccount = async <entryPoint extends EntryPoint>(
+    client: Parameters<typeof createKernelAccount>[0],
+    entryPointAddress: entryPoint,
+    kernelVersion: GetKernelVersion<entryPoint>,
+    params: ModularPermissionAccountParams<entryPoint>,
+    modularSigner?: ModularSigner
+) => {
     let signer: ModularSigner
     if (params.privateKey)
         signer = toECDSASigner({
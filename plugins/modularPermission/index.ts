@@ -2,5 +2,11 @@ export { createPermissionValidator } from "./toModularPermissionValidatorPlugin.
 export * as constants from "./constants.js"
 export type * from "./types.js"
 export { ModularPermissionValidatorAbi } from "./abi/ModularPermissionValidatorAbi.js"
-export { serializeModularPermissionAccount } from "./serializeModularPermissionAccount.js"
-export { deserializeModularPermissionAccount } from "./deserializeModularPermissionAccount.js"
+export {
+    serializeModularPermissionAccount,
+    exportModularPermissionAccount
+} from "./serializeModularPermissionAccount.js"
+export {
+    deserializeModularPermissionAccount,
+    importModularPermissionAccount
+} from "./deserializeModularPermissionAccount.js"
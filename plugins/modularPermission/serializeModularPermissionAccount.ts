@@ -1,17 +1,22 @@
-import type { KernelSmartAccount } from "@zerodev/sdk"
+import {
+    type KernelAccountExport,
+    type KernelSmartAccount,
+    toKernelAccountExport
+} from "@zerodev/sdk"
 import type { EntryPoint } from "permissionless/types"
 import type { Hex } from "viem"
+import type { ModularPermissionAccountExportParams } from "./types.js"
 import {
     isModularPermissionValidatorPlugin,
     serializeModularPermissionAccountParams
 } from "./utils.js"
 
-export const serializeModularPermissionAccount = async <
+const getModularPermissionAccountExportParams = async <
     entryPoint extends EntryPoint
 >(
     account: KernelSmartAccount<entryPoint>,
     privateKey?: Hex
-): Promise<string> => {
+): Promise<ModularPermissionAccountExportParams<entryPoint>> => {
     if (!isModularPermissionValidatorPlugin(account.kernelPluginManager))
         throw new Error("Account plugin is not a modular permission validator")
     const modularPermissionParams =
@@ -22,6 +27,23 @@ export const serializeModularPermissionAccount = async <
         await account.kernelPluginManager.getPluginEnableSignature(
             account.address
         )
+    return {
+        modularPermissionParams,
+        action,
+        validityData,
+        enableSignature,
+        privateKey
+    }
+}
+
+export const serializeModularPermissionAccount = async <
+    entryPoint extends EntryPoint
+>(
+    account: KernelSmartAccount<entryPoint>,
+    privateKey?: Hex
+): Promise<string> => {
+    const { modularPermissionParams, action, validityData, enableSignature } =
+        await getModularPermissionAccountExportParams(account, privateKey)
     const accountParams = {
         initCode: await account.getInitCode(),
         accountAddress: account.address
@@ -38,3 +60,28 @@ export const serializeModularPermissionAccount = async <
 
     return serializeModularPermissionAccountParams(paramsToBeSerialized)
 }
+
+/**
+ * Exports a modular permission account in the versioned Kernel account
+ * format, to serialize with `serializeKernelAccount`
+ * @param account - The account with the modular permission validator as regular validator
+ * @param privateKey - The private key of the ECDSA signer, to include in the export
+ */
+export const exportModularPermissionAccount = async <
+    entryPoint extends EntryPoint
+>(
+    account: KernelSmartAccount<entryPoint>,
+    privateKey?: Hex
+): Promise<
+    KernelAccountExport<
+        "modular-permission",
+        ModularPermissionAccountExportParams<entryPoint>
+    >
+> =>
+    toKernelAccountExport(account, {
+        type: "modular-permission",
+        params: await getModularPermissionAccountExportParams(
+            account,
+            privateKey
+        )
+    })
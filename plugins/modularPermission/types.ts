@@ -37,6 +37,10 @@ export type ModularPermissionAccountParams<entryPoint extends EntryPoint> = {
     privateKey?: Hex
 }
 
+export type ModularPermissionAccountExportParams<
+    entryPoint extends EntryPoint
+> = Omit<ModularPermissionAccountParams<entryPoint>, "accountParams">
+
 export type ModularPermissionPlugin<entryPoint extends EntryPoint> =
     KernelValidator<entryPoint, "ModularPermissionValidator"> & {
         getPluginSerializationParams: () => ModularPermissionData<entryPoint>
@@ -6,6 +6,11 @@ import type { GetKernelVersion, KernelValidator } from "@zerodev/sdk/types"
 import { WebAuthnMode, toWebAuthnKey } from "@zerodev/webauthn-key"
 import type { EntryPoint } from "permissionless/types/entrypoint.js"
 import { type Address, zeroAddress } from "viem"
+import {
+    type PasskeyAccountExportParams,
+    exportPasskeyAccount,
+    importPasskeyAccount
+} from "./kernelAccountExport.js"
 import {
     PasskeyValidatorContractVersion,
     deserializePasskeyValidator,
@@ -18,7 +23,10 @@ export {
     toWebAuthnKey,
     type KernelValidator,
     WebAuthnMode,
-    PasskeyValidatorContractVersion
+    PasskeyValidatorContractVersion,
+    exportPasskeyAccount,
+    importPasskeyAccount,
+    type PasskeyAccountExportParams
 }
 
 export const kernelVersionRangeToContractVersionToValidator: {
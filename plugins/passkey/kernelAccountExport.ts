@@ -0,0 +1,85 @@
+import {
+    type KernelAccountExport,
+    type KernelSmartAccount,
+    createKernelAccount,
+    toKernelAccountExport
+} from "@zerodev/sdk"
+import type { GetKernelVersion } from "@zerodev/sdk/types"
+import {
+    deserializePasskeyValidatorData,
+    serializePasskeyValidatorData
+} from "@zerodev/webauthn-key"
+import type { EntryPoint } from "permissionless/types/entrypoint"
+import type { Chain, Client, Transport } from "viem"
+import { deserializePasskeyValidator } from "./toPasskeyValidator.js"
+
+export type PasskeyAccountExportParams = ReturnType<
+    typeof deserializePasskeyValidatorData
+>
+
+/**
+ * Exports an account owned by the passkey validator in the versioned Kernel
+ * account format, to serialize with `serializeKernelAccount`
+ * @param account - The account with the passkey validator as sudo validator
+ */
+export const exportPasskeyAccount = async <entryPoint extends EntryPoint>(
+    account: KernelSmartAccount<entryPoint>
+): Promise<KernelAccountExport<"passkey", PasskeyAccountExportParams>> => {
+    const validator = account.kernelPluginManager.sudoValidator
+    if (
+        validator?.source !== "WebAuthnValidator" ||
+        !("getSerializedData" in validator)
+    )
+        throw new Error("Account sudo validator is not a passkey validator")
+    const params = deserializePasskeyValidatorData(
+        (validator.getSerializedData as () => string)()
+    )
+    return toKernelAccountExport(account, {
+        type: "passkey",
+        params: {
+            ...params,
+            // The legacy serialization turns the public key into strings
+            pubKeyX: BigInt(params.pubKeyX),
+            pubKeyY: BigInt(params.pubKeyY)
+        }
+    })
+}
+
+/**
+ * Creates an account owned by the passkey validator from its versioned
+ * export. Use it as the `passkey` deserializer of `deserializeKernelAccount`
+ * @param client
+ * @param accountExport - The parsed export
+ */
+export const importPasskeyAccount = async <
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined
+>(
+    client: Client<TTransport, TChain, undefined>,
+    accountExport: KernelAccountExport
+) => {
+    if (accountExport.validator.type !== "passkey") {
+        throw new Error(
+            `Cannot import a ${accountExport.validator.type} account as a passkey account`
+        )
+    }
+    const { entryPoint, account, validator } = accountExport
+    const kernelVersion =
+        accountExport.kernelVersion as GetKernelVersion<EntryPoint>
+
+    return createKernelAccount(client, {
+        entryPoint,
+        kernelVersion,
+        plugins: {
+            sudo: await deserializePasskeyValidator(client, {
+                serializedData: serializePasskeyValidatorData(
+                    validator.params as PasskeyAccountExportParams
+                ),
+                entryPoint,
+                kernelVersion
+            })
+        },
+        index: account.index,
+        deployedAccountAddress: account.address
+    })
+}
@@ -0,0 +1,33 @@
+export const RotatableECDSASignerAbi = [
+    {
+        inputs: [
+            { internalType: "bytes32", name: "id", type: "bytes32" },
+            { internalType: "address", name: "newSigner", type: "address" },
+            { internalType: "bytes", name: "signature", type: "bytes" }
+        ],
+        name: "rotate",
+        outputs: [],
+        stateMutability: "nonpayable",
+        type: "function"
+    },
+    {
+        inputs: [
+            { internalType: "bytes32", name: "id", type: "bytes32" },
+            { internalType: "address", name: "wallet", type: "address" }
+        ],
+        name: "rotationNonce",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function"
+    },
+    {
+        inputs: [
+            { internalType: "bytes32", name: "id", type: "bytes32" },
+            { internalType: "address", name: "wallet", type: "address" }
+        ],
+        name: "signer",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function"
+    }
+] as const
@@ -0,0 +1,18 @@
+export const SpendingLimitPolicyAbi = [
+    {
+        inputs: [
+            { internalType: "bytes32", name: "id", type: "bytes32" },
+            { internalType: "address", name: "token", type: "address" },
+            { internalType: "address", name: "wallet", type: "address" }
+        ],
+        name: "spendingLimits",
+        outputs: [
+            { internalType: "uint256", name: "allowance", type: "uint256" },
+            { internalType: "uint256", name: "spent", type: "uint256" },
+            { internalType: "uint48", name: "interval", type: "uint48" },
+            { internalType: "uint48", name: "windowStart", type: "uint48" }
+        ],
+        stateMutability: "view",
+        type: "function"
+    }
+] as const
@@ -0,0 +1,160 @@
+import {
+    type CallCapability,
+    type ParamConstraintCondition,
+    type PermissionCapabilities,
+    toCallCapability,
+    toPermissionCapabilities
+} from "@zerodev/sdk"
+import { type Abi, type Address, isAddressEqual, zeroAddress } from "viem"
+import { PolicyFlags } from "./constants.js"
+import { CallType, ParamCondition } from "./policies/types.js"
+import type { PermissionData } from "./types.js"
+
+const conditions: Record<ParamCondition, ParamConstraintCondition> = {
+    [ParamCondition.EQUAL]: "equal",
+    [ParamCondition.GREATER_THAN]: "greaterThan",
+    [ParamCondition.LESS_THAN]: "lessThan",
+    [ParamCondition.GREATER_THAN_OR_EQUAL]: "greaterThanOrEqual",
+    [ParamCondition.LESS_THAN_OR_EQUAL]: "lessThanOrEqual",
+    [ParamCondition.NOT_EQUAL]: "notEqual",
+    [ParamCondition.ONE_OF]: "oneOf"
+}
+
+export type DescribePermissionsOptions = {
+    /**
+     * ABIs of the targets keyed by address, used to resolve the functions of
+     * the permissions not created from an ABI
+     */
+    abis?: Record<Address, Abi>
+    /**
+     * ABI used for the targets that are not present in `abis`
+     */
+    defaultAbi?: Abi
+}
+
+/**
+ * Describes what the signer of a permission can do, for consent screens:
+ * the allowed calls with their decoded rules, the value, gas and rate limits,
+ * and the validity window. The policies not checked on the UserOperations
+ * don't restrict the calls, and the signature caller policy not checked on
+ * the signatures doesn't restrict the callers
+ * @param permissionData - The `getPluginSerializationParams` of the permission validator
+ * @param options - {@link DescribePermissionsOptions}
+ * @returns {@link PermissionCapabilities}
+ */
+export const describePermissions = (
+    { policies = [] }: PermissionData,
+    { abis, defaultAbi }: DescribePermissionsOptions = {}
+): PermissionCapabilities => {
+    const capabilities: Omit<PermissionCapabilities, "summary"> = {
+        sudo: false,
+        calls: [],
+        rateLimits: [],
+        spendingLimits: []
+    }
+    // Without call policy, the permission can send any call
+    let hasCallPolicy = false
+
+    // The bigints are strings once deserialized
+    for (const { policyParams } of policies) {
+        const policyFlag =
+            policyParams.policyFlag ?? PolicyFlags.FOR_ALL_VALIDATION
+        if (
+            policyParams.type === "signature-caller"
+                ? policyFlag === PolicyFlags.NOT_FOR_VALIDATE_SIG
+                : policyFlag === PolicyFlags.NOT_FOR_VALIDATE_USEROP
+        ) {
+            continue
+        }
+        switch (policyParams.type) {
+            case "sudo":
+                capabilities.sudo = true
+                break
+            case "call":
+            case "merkle-call": {
+                hasCallPolicy = true
+                capabilities.calls.push(
+                    ...(policyParams.permissions ?? []).map(
+                        (permission): CallCapability =>
+                            toCallCapability({
+                                target: permission.target,
+                                selector: permission.selector,
+                                callType:
+                                    permission.callType?.toLowerCase() ===
+                                    CallType.DELEGATE_CALL
+                                        ? "delegatecall"
+                                        : "call",
+                                valueLimit: BigInt(permission.valueLimit ?? 0n),
+                                rules: (permission.rules ?? []).map(
+                                    ({ offset, condition, params }) => ({
+                                        offset,
+                                        condition: conditions[condition],
+                                        values: Array.isArray(params)
+                                            ? params
+                                            : [params]
+                                    })
+                                ),
+                                abi: permission.abi as Abi | undefined,
+                                abis,
+                                defaultAbi
+                            })
+                    )
+                )
+                break
+            }
+            case "gas":
+                capabilities.gas = {
+                    allowance: BigInt(policyParams.allowed ?? 0n),
+                    paymaster:
+                        policyParams.allowedPaymaster &&
+                        !isAddressEqual(
+                            policyParams.allowedPaymaster,
+                            zeroAddress
+                        )
+                            ? policyParams.allowedPaymaster
+                            : undefined,
+                    enforcePaymaster: policyParams.enforcePaymaster ?? false
+                }
+                break
+            case "rate-limit":
+                capabilities.rateLimits.push({
+                    count: policyParams.count,
+                    interval: policyParams.interval ?? 0,
+                    startAt: policyParams.startAt ?? 0
+                })
+                break
+            case "timestamp": {
+                const { validAfter, validUntil } = policyParams
+                if (validAfter) {
+                    capabilities.validAfter = Math.max(
+                        capabilities.validAfter ?? 0,
+                        validAfter
+                    )
+                }
+                if (validUntil) {
+                    capabilities.validUntil = Math.min(
+                        capabilities.validUntil ?? validUntil,
+                        validUntil
+                    )
+                }
+                break
+            }
+            case "signature-caller":
+                capabilities.signatureCallers = policyParams.allowedCallers
+                break
+            case "spending-limit":
+                capabilities.spendingLimits.push(
+                    ...policyParams.limits.map(
+                        ({ token, allowance, interval = 0 }) => ({
+                            token,
+                            allowance: BigInt(allowance),
+                            interval
+                        })
+                    )
+                )
+                break
+        }
+    }
+    if (!hasCallPolicy) capabilities.sudo = true
+    return toPermissionCapabilities(capabilities)
+}
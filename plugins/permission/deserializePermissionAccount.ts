@@ -1,8 +1,13 @@
 import {
+    type KernelAccountExport,
+    KernelError,
     KernelFactoryStakerAbi,
     KernelV3AccountAbi,
     KernelV3_1AccountAbi,
-    createKernelAccount
+    type SerializedAccountDecryption,
+    UnsupportedKernelVersionError,
+    createKernelAccount,
+    decryptSerializedAccount
 } from "@zerodev/sdk"
 import { toKernelPluginManager } from "@zerodev/sdk/accounts"
 import type {
@@ -20,15 +25,21 @@ import type { DecodeFunctionDataReturnType } from "viem/utils/abi/decodeFunction
 import {
     toCallPolicy,
     toGasPolicy,
+    toMerkleCallPolicy,
     toRateLimitPolicy,
     toSignatureCallerPolicy,
+    toSpendingLimitPolicy,
     toSudoPolicy,
     toTimestampPolicy
 } from "./policies/index.js"
 import { toECDSASigner } from "./signers/toECDSASigner.js"
 import { toPermissionValidator } from "./toPermissionValidator.js"
-import type { Policy } from "./types.js"
-import type { ModularSigner } from "./types.js"
+import type {
+    ModularSigner,
+    PermissionAccountExportParams,
+    PermissionAccountParams,
+    Policy
+} from "./types.js"
 import { deserializePermissionAccountParams } from "./utils.js"
 
 export const deserializePermissionAccount = async <
@@ -40,36 +51,94 @@ export const deserializePermissionAccount = async <
     entryPointAddress: entryPoint,
     kernelVersion: GetKernelVersion<entryPoint>,
     modularPermissionAccountParams: string,
-    modularSigner?: ModularSigner
+    modularSigner?: ModularSigner,
+    decryption?: SerializedAccountDecryption
 ) => {
     const entryPointVersion = getEntryPointVersion(entryPointAddress)
 
     if (entryPointVersion !== "v0.7") {
-        throw new Error("Only EntryPoint 0.7 is supported")
+        throw new UnsupportedKernelVersionError(
+            "Only EntryPoint 0.7 is supported",
+            { code: "UNSUPPORTED_ENTRYPOINT_VERSION" }
+        )
     }
     const params = deserializePermissionAccountParams(
-        modularPermissionAccountParams
+        await decryptSerializedAccount(
+            modularPermissionAccountParams,
+            decryption
+        )
     )
-    let signer: ModularSigner
-    if (params.privateKey)
-        signer = toECDSASigner({
-            signer: privateKeyToAccount(
-                params.privateKey
-            ) as SmartAccountSigner<"privateKey", `0x${string}`>
-        })
-    else if (modularSigner) signer = modularSigner
-    else throw new Error("No signer or serialized sessionKey provided")
+    return createPermissionAccount(
+        client,
+        entryPointAddress,
+        kernelVersion,
+        params,
+        modularSigner
+    )
+}
 
-    const modularPermissionPlugin = await toPermissionValidator(client, {
-        signer,
-        policies: await Promise.all(
-            params.permissionParams.policies?.map((policy) =>
-                createPolicyFromParams(policy)
-            ) || []
-        ),
-        entryPoint: entryPointAddress,
-        kernelVersion
-    })
+/**
+ * Creates a permission account from its versioned export, see
+ * `exportPermissionAccount`. Use it as the `permission` deserializer of
+ * `deserializeKernelAccount`
+ * @param client
+ * @param accountExport - The parsed export
+ * @param modularSigner - The signer, if the export has no private key
+ */
+export const importPermissionAccount = async <
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined
+>(
+    client: Client<TTransport, TChain, undefined>,
+    accountExport: KernelAccountExport,
+    modularSigner?: ModularSigner
+) => {
+    if (accountExport.validator.type !== "permission") {
+        throw new KernelError(
+            `Cannot import a ${accountExport.validator.type} account as a permission account`,
+            { code: "INVALID_SERIALIZED_ACCOUNT" }
+        )
+    }
+    const { entryPoint, kernelVersion, account, validator } = accountExport
+    if (getEntryPointVersion(entryPoint) !== "v0.7") {
+        throw new UnsupportedKernelVersionError(
+            "Only EntryPoint 0.7 is supported",
+            { code: "UNSUPPORTED_ENTRYPOINT_VERSION" }
+        )
+    }
+    return createPermissionAccount(
+        client,
+        entryPoint,
+        kernelVersion as GetKernelVersion<EntryPoint>,
+        {
+            ...(validator.params as PermissionAccountExportParams),
+            accountParams: {
+                initCode: account.initCode,
+                accountAddress: account.address
+            }
+        },
+        modularSigner
+    )
+}
+
+const createPermissionAccount = async <
+    entryPoint extends EntryPoint,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined
+>(
+    client: Client<TTransport, TChain, undefined>,
+    entryPointAddress: entryPoint,
+    kernelVersion: GetKernelVersion<entryPoint>,
+    params: PermissionAccountParams,
+    modularSigner?: ModularSigner
+) => {
+    const modularPermissionPlugin = await toPermissionValidatorFromParams(
+        client,
+        entryPointAddress,
+        kernelVersion,
+        params,
+        modularSigner
+    )
 
     const { index, validatorInitData } = decodeParamsFromInitCode(
         params.accountParams.initCode,
@@ -95,16 +164,53 @@ export const deserializePermissionAccount = async <
     })
 }
 
+export const toPermissionValidatorFromParams = async <
+    entryPoint extends EntryPoint,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined
+>(
+    client: Client<TTransport, TChain, undefined>,
+    entryPointAddress: entryPoint,
+    kernelVersion: GetKernelVersion<entryPoint>,
+    params: Pick<PermissionAccountParams, "permissionParams" | "privateKey">,
+    modularSigner?: ModularSigner
+) => {
+    let signer: ModularSigner
+    if (params.privateKey)
+        signer = toECDSASigner({
+            signer: privateKeyToAccount(
+                params.privateKey
+            ) as SmartAccountSigner<"privateKey", `0x${string}`>
+        })
+    else if (modularSigner) signer = modularSigner
+    else throw new Error("No signer or serialized sessionKey provided")
+
+    return toPermissionValidator(client, {
+        signer,
+        policies: await Promise.all(
+            params.permissionParams.policies?.map((policy) =>
+                createPolicyFromParams(policy)
+            ) || []
+        ),
+        entryPoint: entryPointAddress,
+        kernelVersion
+    })
+}
+
 export const createPolicyFromParams = async (policy: Policy) => {
     switch (policy.policyParams.type) {
         case "call":
             return await toCallPolicy(policy.policyParams)
         case "gas":
             return await toGasPolicy(policy.policyParams)
+        case "merkle-call":
+            return await toMerkleCallPolicy(policy.policyParams)
         case "rate-limit":
             return await toRateLimitPolicy(policy.policyParams)
         case "signature-caller":
             return await toSignatureCallerPolicy(policy.policyParams)
+        case "spending-limit":
+            return await toSpendingLimitPolicy(policy.policyParams)
         case "sudo":
             return await toSudoPolicy(policy.policyParams)
         case "timestamp":
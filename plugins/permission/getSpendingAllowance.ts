@@ -0,0 +1,95 @@
+import {
+    type Address,
+    type Chain,
+    type Client,
+    type Hex,
+    type Transport,
+    pad
+} from "viem"
+import { readContract } from "viem/actions"
+import { getAction } from "viem/utils"
+import { SpendingLimitPolicyAbi } from "./abi/SpendingLimitPolicyAbi.js"
+
+export type GetSpendingAllowanceParameters = {
+    accountAddress: Address
+    /**
+     * The permission id, from `getIdentifier` of the permission validator
+     */
+    permissionId: Hex
+    /**
+     * The address of the spending limit policy of the permission, the
+     * contract the caller deployed, see `toSpendingLimitPolicy`
+     */
+    policyAddress: Address
+    token: Address
+    /**
+     * The unix timestamp, in seconds, the allowance is read at. Defaults to now
+     */
+    timestamp?: number
+}
+
+export type GetSpendingAllowanceReturnType = {
+    allowance: bigint
+    spent: bigint
+    remaining: bigint
+    /**
+     * The unix timestamp the allowance resets at, 0 if it never resets or
+     * no window is running
+     */
+    resetsAt: number
+}
+
+/**
+ * Reads how much of a token a permission can still transfer or approve
+ * under its spending limit policy
+ * @param client
+ * @param parameters - {@link GetSpendingAllowanceParameters}
+ * @returns {@link GetSpendingAllowanceReturnType}
+ */
+export const getSpendingAllowance = async <
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined
+>(
+    client: Client<TTransport, TChain>,
+    {
+        accountAddress,
+        permissionId,
+        policyAddress,
+        token,
+        timestamp = Math.floor(Date.now() / 1000)
+    }: GetSpendingAllowanceParameters
+): Promise<GetSpendingAllowanceReturnType> => {
+    const [allowance, spent, interval, windowStart] = await getAction(
+        client,
+        readContract,
+        "readContract"
+    )({
+        abi: SpendingLimitPolicyAbi,
+        address: policyAddress,
+        functionName: "spendingLimits",
+        // The Kernel passes the permission id to the policies as bytes32
+        args: [
+            pad(permissionId, { size: 32, dir: "right" }),
+            token,
+            accountAddress
+        ]
+    })
+    if (interval === 0) {
+        return {
+            allowance,
+            spent,
+            remaining: allowance > spent ? allowance - spent : 0n,
+            resetsAt: 0
+        }
+    }
+    // A new window starts at the first spending after the last one elapsed
+    if (timestamp >= windowStart + interval) {
+        return { allowance, spent: 0n, remaining: allowance, resetsAt: 0 }
+    }
+    return {
+        allowance,
+        spent,
+        remaining: allowance > spent ? allowance - spent : 0n,
+        resetsAt: windowStart + interval
+    }
+}
@@ -1,9 +1,58 @@
 export type * from "./types.js"
 export { toPermissionValidator } from "./toPermissionValidator.js"
-export { serializePermissionAccount } from "./serializePermissionAccount.js"
+export {
+    serializePermissionAccount,
+    exportPermissionAccount
+} from "./serializePermissionAccount.js"
 export {
     type MultiChainPermissionAccountsParams,
     serializeMultiChainPermissionAccounts
 } from "./serializeMultiChainPermissionAccounts.js"
-export { deserializePermissionAccount } from "./deserializePermissionAccount.js"
+export {
+    deserializePermissionAccount,
+    importPermissionAccount
+} from "./deserializePermissionAccount.js"
+export {
+    describePermissions,
+    type DescribePermissionsOptions
+} from "./describePermissions.js"
+export {
+    revokePermission,
+    revokeAllPermissions,
+    type RevokePermissionParameters,
+    type RevokeAllPermissionsParameters,
+    type RevokePermissionReturnType,
+    type RevokeAllPermissionsReturnType
+} from "./revokePermission.js"
+export {
+    getSpendingAllowance,
+    type GetSpendingAllowanceParameters,
+    type GetSpendingAllowanceReturnType
+} from "./getSpendingAllowance.js"
+export {
+    toSubscriptionPolicies,
+    toSubscriptionPermissionValidator,
+    getSubscriptionStatus,
+    collectSubscriptionPayment,
+    type Subscription,
+    type SubscriptionStatus,
+    type SubscriptionStatusParameters
+} from "./subscription.js"
+export {
+    rotateSessionSigner,
+    toSignerRotationPermission,
+    type RotateSessionSignerParameters
+} from "./rotateSessionSigner.js"
+export {
+    migrateSessionKey,
+    toPoliciesFromSessionKey,
+    installMigratedSessionKey,
+    type SessionKeyV2Data,
+    type SessionKeyMigration,
+    type SessionKeyMigrationIssue,
+    type InstallMigratedSessionKeyParameters,
+    type InstallMigratedSessionKeyReturnType
+} from "./migrateSessionKey.js"
+export { RotatableECDSASignerAbi } from "./abi/RotatableECDSASignerAbi.js"
+export { SpendingLimitPolicyAbi } from "./abi/SpendingLimitPolicyAbi.js"
 export * from "./constants.js"
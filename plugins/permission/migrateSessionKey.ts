@@ -0,0 +1,363 @@
+import {
+    constants,
+    type KernelAccountClient,
+    type KernelSmartAccount,
+    KernelV3AccountAbi,
+    type SerializedAccountDecryption,
+    decryptSerializedAccount
+} from "@zerodev/sdk"
+import type { SmartAccountSigner } from "permissionless/accounts"
+import { waitForUserOperationReceipt } from "permissionless/actions"
+import type { ENTRYPOINT_ADDRESS_V07_TYPE } from "permissionless/types/entrypoint"
+import {
+    type Address,
+    type Chain,
+    type Client,
+    type Hash,
+    type Hex,
+    type Transport,
+    concatHex,
+    encodeFunctionData,
+    isAddressEqual,
+    maxUint128,
+    pad,
+    zeroAddress
+} from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { readContract } from "viem/actions"
+import { getAction } from "viem/utils"
+import {
+    CallPolicyVersion,
+    CallType,
+    type ParamCondition,
+    toCallPolicy,
+    toGasPolicy,
+    toRateLimitPolicy,
+    toSudoPolicy,
+    toTimestampPolicy
+} from "./policies/index.js"
+import type { PermissionCore } from "./policies/types.js"
+import { toECDSASigner } from "./signers/toECDSASigner.js"
+import { toPermissionValidator } from "./toPermissionValidator.js"
+import type { ModularSigner, Policy } from "./types.js"
+import { base64ToBytes } from "./utils.js"
+
+// The session key data of the Kernel v2 session key plugin
+// (`@zerodev/session-key`), with the bigints as strings once deserialized
+export type SessionKeyV2Data = {
+    validUntil?: number
+    validAfter?: number
+    paymaster?: Address
+    permissions?: {
+        target: Address
+        sig?: Hex
+        valueLimit?: bigint | string
+        rules?: { offset: number; condition: number; param: Hex }[]
+        executionRule?: { validAfter: number; interval: number; runs: number }
+        operation?: number
+    }[]
+}
+
+export type SessionKeyMigrationIssue = {
+    /**
+     * The index of the v2 permission the issue is about, if any
+     */
+    permissionIndex?: number
+    message: string
+}
+
+export type SessionKeyMigration = {
+    /**
+     * The v3 policies equivalent to the session key
+     */
+    policies: Policy[]
+    /**
+     * The private key of the session key, if it was serialized with it
+     */
+    privateKey?: Hex
+    /**
+     * The restrictions of the session key that have no exact v3
+     * equivalent. Each one makes the v3 permission more permissive
+     */
+    issues: SessionKeyMigrationIssue[]
+}
+
+export type InstallMigratedSessionKeyParameters = {
+    migration: SessionKeyMigration
+    /**
+     * The signer of the permission, if the migration has no private key.
+     * Only its address is needed, e.g. `toEmptyECDSASigner`
+     */
+    modularSigner?: ModularSigner
+    /**
+     * Installs the permission even if the migration has issues
+     */
+    allowIssues?: boolean
+    /**
+     * Whether to wait for the UserOperation and check that the permission is
+     * installed. Defaults to true
+     */
+    waitForReceipt?: boolean
+}
+
+export type InstallMigratedSessionKeyReturnType = {
+    userOpHash: Hash
+    permissionId: Hex
+}
+
+// The v2 session key plugin allows any paymaster with this address
+const ANY_PAYMASTER: Address = "0x0000000000000000000000000000000000000001"
+
+/**
+ * Translates the data of a Kernel v2 session key into the equivalent
+ * policies of the v3 permission validator: a call policy for its
+ * permissions, a timestamp policy for its validity, a rate limit policy for
+ * the runs of its permission and a gas policy for its paymaster
+ * @param sessionKeyData - The `getPluginSerializationParams` of the v2 session key validator
+ * @returns The policies and the restrictions that could not be translated
+ */
+export const toPoliciesFromSessionKey = ({
+    validAfter = 0,
+    validUntil = 0,
+    paymaster = zeroAddress,
+    permissions = []
+}: SessionKeyV2Data): Omit<SessionKeyMigration, "privateKey"> => {
+    const policies: Policy[] = []
+    const issues: SessionKeyMigrationIssue[] = []
+
+    // Without permissions, the session key can send any call
+    if (permissions.length === 0) {
+        policies.push(toSudoPolicy({}))
+    } else {
+        policies.push(
+            toCallPolicy({
+                policyVersion: CallPolicyVersion.V0_0_4,
+                permissions: permissions.map(
+                    (permission): PermissionCore => ({
+                        target: permission.target,
+                        selector: permission.sig ?? pad("0x", { size: 4 }),
+                        callType:
+                            permission.operation === 1
+                                ? CallType.DELEGATE_CALL
+                                : CallType.CALL,
+                        valueLimit: BigInt(permission.valueLimit ?? 0n),
+                        // The v2 operators are the first v3 conditions
+                        rules: (permission.rules ?? []).map(
+                            ({ offset, condition, param }) => ({
+                                offset,
+                                condition: condition as ParamCondition,
+                                params: [param]
+                            })
+                        )
+                    })
+                )
+            })
+        )
+    }
+
+    // The execution rules of the v2 permissions only apply to their calls,
+    // the v3 rate limit applies to the whole permission
+    let executionValidAfter = 0
+    for (const [permissionIndex, permission] of permissions.entries()) {
+        const executionRule = permission.executionRule
+        if (
+            !executionRule ||
+            (!executionRule.runs &&
+                !executionRule.validAfter &&
+                !executionRule.interval)
+        )
+            continue
+        if (permissions.length > 1) {
+            issues.push({
+                permissionIndex,
+                message:
+                    "The execution rule of a permission cannot be limited to its calls in v3, it is dropped"
+            })
+            continue
+        }
+        executionValidAfter = executionRule.validAfter
+        // Like the v2 runs, each use of the rate limit moves the start of the
+        // next one by the interval
+        if (executionRule.runs) {
+            policies.push(
+                toRateLimitPolicy({
+                    count: executionRule.runs,
+                    interval: executionRule.interval,
+                    startAt: executionRule.validAfter
+                })
+            )
+        } else if (executionRule.interval) {
+            issues.push({
+                permissionIndex,
+                message: `The ${executionRule.interval}s interval between unlimited executions has no v3 equivalent, it is dropped`
+            })
+        }
+    }
+
+    if (validAfter || validUntil || executionValidAfter) {
+        policies.push(
+            toTimestampPolicy({
+                validAfter: Math.max(validAfter, executionValidAfter),
+                validUntil
+            })
+        )
+    }
+
+    if (!isAddressEqual(paymaster, zeroAddress)) {
+        // The v2 paymaster restriction doesn't limit the gas
+        policies.push(
+            toGasPolicy({
+                allowed: maxUint128,
+                enforcePaymaster: true,
+                allowedPaymaster: isAddressEqual(paymaster, ANY_PAYMASTER)
+                    ? zeroAddress
+                    : paymaster
+            })
+        )
+    }
+
+    return { policies, issues }
+}
+
+/**
+ * Translates a serialized Kernel v2 session key into the policies of the v3
+ * permission validator, to install on the account once upgraded to Kernel
+ * v3. The runs already used by the v2 session key are not carried over
+ * @param serializedSessionKeyAccount - The output of `serializeSessionKeyAccount`
+ * @param decryption - The password, if the session key was serialized encrypted
+ * @returns {@link SessionKeyMigration}
+ */
+export const migrateSessionKey = async (
+    serializedSessionKeyAccount: string,
+    decryption?: SerializedAccountDecryption
+): Promise<SessionKeyMigration> => {
+    const { sessionKeyParams, privateKey } = JSON.parse(
+        new TextDecoder().decode(
+            base64ToBytes(
+                await decryptSerializedAccount(
+                    serializedSessionKeyAccount,
+                    decryption
+                )
+            )
+        )
+    ) as { sessionKeyParams?: SessionKeyV2Data; privateKey?: Hex }
+    if (!sessionKeyParams) {
+        throw new Error("Not a serialized v2 session key account")
+    }
+    return { ...toPoliciesFromSessionKey(sessionKeyParams), privateKey }
+}
+
+/**
+ * Installs a migrated session key as a permission of a Kernel v3 account,
+ * e.g. a Kernel v2 account upgraded with `upgradeKernelAccount`. The
+ * permission validator can also be given to `upgradeKernelAccount` as a
+ * plugin, to install it with the upgrade
+ * @param accountClient - The client of the Kernel v3 account, with a validator allowed to install validations
+ * @param parameters - {@link InstallMigratedSessionKeyParameters}
+ * @returns {@link InstallMigratedSessionKeyReturnType}
+ */
+export const installMigratedSessionKey = async <
+    entryPoint extends ENTRYPOINT_ADDRESS_V07_TYPE,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined
+>(
+    accountClient: KernelAccountClient<
+        entryPoint,
+        TTransport,
+        TChain,
+        KernelSmartAccount<entryPoint, TTransport, TChain>
+    >,
+    {
+        migration: { policies, privateKey, issues },
+        modularSigner,
+        allowIssues = false,
+        waitForReceipt = true
+    }: InstallMigratedSessionKeyParameters
+): Promise<InstallMigratedSessionKeyReturnType> => {
+    if (issues.length > 0 && !allowIssues) {
+        throw new Error(
+            `The session key cannot be migrated exactly: ${issues
+                .map(({ message }) => message)
+                .join("; ")}`
+        )
+    }
+    let signer: ModularSigner
+    if (privateKey)
+        signer = toECDSASigner({
+            signer: privateKeyToAccount(privateKey) as SmartAccountSigner<
+                "privateKey",
+                Address
+            >
+        })
+    else if (modularSigner) signer = modularSigner
+    else throw new Error("No signer or serialized sessionKey provided")
+
+    const { account } = accountClient
+    const permissionValidator = await toPermissionValidator(
+        account.client as Client<TTransport, TChain, undefined>,
+        {
+            signer,
+            policies,
+            entryPoint: account.entryPoint,
+            kernelVersion: account.kernelVersion
+        }
+    )
+    const permissionId = permissionValidator.getIdentifier()
+    const read = getAction(account.client, readContract, "readContract")
+    const nonce = await read({
+        abi: KernelV3AccountAbi,
+        address: account.address,
+        functionName: "currentNonce"
+    })
+
+    const userOpHash = await accountClient.sendUserOperation({
+        userOperation: {
+            callData: await account.encodeCallData({
+                to: account.address,
+                value: 0n,
+                data: encodeFunctionData({
+                    abi: KernelV3AccountAbi,
+                    functionName: "installValidations",
+                    args: [
+                        [
+                            pad(
+                                concatHex([
+                                    constants.VALIDATOR_TYPE.PERMISSION,
+                                    permissionId
+                                ]),
+                                { size: 21, dir: "right" }
+                            )
+                        ],
+                        [{ nonce, hook: zeroAddress }],
+                        [await permissionValidator.getEnableData()],
+                        ["0x"]
+                    ]
+                })
+            })
+        }
+    })
+    if (!waitForReceipt) return { userOpHash, permissionId }
+
+    const { success } = await getAction(
+        accountClient,
+        waitForUserOperationReceipt,
+        "waitForUserOperationReceipt"
+    )({ hash: userOpHash })
+    if (!success) {
+        throw new Error(`The installation UserOperation ${userOpHash} reverted`)
+    }
+    const permissionConfig = await read({
+        abi: KernelV3AccountAbi,
+        address: account.address,
+        functionName: "permissionConfig",
+        args: [permissionId]
+    })
+    if (
+        !isAddressEqual(permissionConfig.signer, signer.signerContractAddress)
+    ) {
+        throw new Error(
+            `The permission ${permissionId} is not installed on ${account.address}`
+        )
+    }
+    return { userOpHash, permissionId }
+}
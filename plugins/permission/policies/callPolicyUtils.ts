@@ -1,6 +1,7 @@
 import {
     type Abi,
     type AbiFunction,
+    type AbiParameter,
     type Address,
     type GetAbiItemParameters,
     type Hex,
@@ -8,18 +9,269 @@ import {
     getAbiItem,
     isHex,
     pad,
+    size,
+    slice,
     toFunctionSelector,
     toHex
 } from "viem"
 import { CALL_POLICY_CONTRACT_V0_0_1 } from "../constants.js"
 import {
-    type CombinedArgs,
+    CallType,
     type GeneratePermissionWithPolicyAddressParameters,
     ParamCondition,
     type ParamRule,
+    type Permission,
     type PermissionCore
 } from "./types.js"
 
+type Rule = { condition: ParamCondition; offset: number; params: Hex[] }
+
+// biome-ignore lint/suspicious/noExplicitAny: the constraints are checked at runtime
+type Constraint = any
+
+const toRuleParam = (value: unknown): Hex =>
+    pad(isHex(value) ? value : toHex(value as Parameters<typeof toHex>[0]), {
+        size: 32
+    })
+
+const getArrayType = (param: AbiParameter) => {
+    const match = param.type.match(/^(.*)\[(\d*)\]$/)
+    if (!match) return undefined
+    return {
+        element: { ...param, type: match[1] } as AbiParameter,
+        length: match[2] === "" ? undefined : Number(match[2])
+    }
+}
+
+const getComponents = (param: AbiParameter) =>
+    param.type === "tuple"
+        ? (param as { components: readonly AbiParameter[] }).components
+        : undefined
+
+const isDynamic = (param: AbiParameter): boolean => {
+    if (param.type === "bytes" || param.type === "string") return true
+    const array = getArrayType(param)
+    if (array) return array.length === undefined || isDynamic(array.element)
+    return getComponents(param)?.some(isDynamic) ?? false
+}
+
+// The size of a static parameter, or of the head of a dynamic one
+const getHeadSize = (param: AbiParameter): number => {
+    if (isDynamic(param)) return 32
+    const array = getArrayType(param)
+    if (array) return (array.length as number) * getHeadSize(array.element)
+    const components = getComponents(param)
+    if (components) {
+        return components.reduce(
+            (size, component) => size + getHeadSize(component),
+            0
+        )
+    }
+    return 32
+}
+
+const isConditionValue = (constraint: Constraint) =>
+    !Array.isArray(constraint) && "condition" in constraint
+
+const getExactLength = (constraint: Constraint) =>
+    constraint.length?.condition === ParamCondition.EQUAL
+        ? Number(constraint.length.value)
+        : undefined
+
+// Compares every 32 bytes word of the encoded value. The tail of a dynamic
+// value is compared, without the offset pointing to it
+const getContentRules = (
+    param: AbiParameter,
+    constraint: Constraint,
+    offset: number
+): Rule[] => {
+    if (constraint.condition !== ParamCondition.EQUAL) {
+        throw Error(
+            `Only the EQUAL condition is supported on the ${param.type} parameter ${param.name}`
+        )
+    }
+    const encoded = encodeAbiParameters([param], [constraint.value])
+    const content = isDynamic(param) ? slice(encoded, 32) : encoded
+    return Array.from({ length: size(content) / 32 }, (_, i) => ({
+        condition: ParamCondition.EQUAL,
+        offset: offset + i * 32,
+        params: [slice(content, i * 32, (i + 1) * 32)]
+    }))
+}
+
+// The size of the tail of a dynamic parameter, when the constraint fixes it
+const getTailSize = (
+    param: AbiParameter,
+    constraint: Constraint
+): number | undefined => {
+    if (isConditionValue(constraint)) {
+        return getContentRules(param, constraint, 0).length * 32
+    }
+    const length = getExactLength(constraint)
+    if (length === undefined) return undefined
+    if (param.type === "bytes" || param.type === "string") {
+        return 32 + Math.ceil(length / 32) * 32
+    }
+    const array = getArrayType(param)
+    if (array && !isDynamic(array.element)) {
+        return 32 + length * getHeadSize(array.element)
+    }
+    return undefined
+}
+
+const getStaticRules = (
+    param: AbiParameter,
+    constraint: Constraint,
+    offset: number
+): Rule[] => {
+    const array = getArrayType(param)
+    const components = getComponents(param)
+    if (!array && !components) {
+        return [
+            {
+                condition: constraint.condition,
+                offset,
+                params:
+                    constraint.condition === ParamCondition.ONE_OF
+                        ? constraint.value.map(toRuleParam)
+                        : [toRuleParam(constraint.value)]
+            }
+        ]
+    }
+    if (isConditionValue(constraint)) {
+        return getContentRules(param, constraint, offset)
+    }
+    if (array) {
+        const length = array.length as number
+        return getBlockRules(
+            Array(length).fill(array.element),
+            Array(length).fill(constraint.elements),
+            offset
+        )
+    }
+    return getBlockRules(
+        components as readonly AbiParameter[],
+        getComponentConstraints(
+            components as readonly AbiParameter[],
+            constraint
+        ),
+        offset
+    )
+}
+
+// The rules of the tail of a dynamic parameter, starting at `offset`
+const getDynamicRules = (
+    param: AbiParameter,
+    constraint: Constraint,
+    offset: number
+): Rule[] => {
+    if (isConditionValue(constraint)) {
+        return getContentRules(param, constraint, offset)
+    }
+    const array = getArrayType(param)
+    const components = getComponents(param)
+    if (components) {
+        return getBlockRules(
+            components,
+            getComponentConstraints(components, constraint),
+            offset
+        )
+    }
+    if (array?.length !== undefined) {
+        return getBlockRules(
+            Array(array.length).fill(array.element),
+            Array(array.length).fill(constraint.elements),
+            offset
+        )
+    }
+    const rules: Rule[] = []
+    if (constraint.length) {
+        rules.push(
+            ...getStaticRules(
+                { type: "uint256" },
+                {
+                    condition: constraint.length.condition,
+                    value:
+                        constraint.length.condition === ParamCondition.ONE_OF
+                            ? constraint.length.value.map(BigInt)
+                            : BigInt(constraint.length.value)
+                },
+                offset
+            )
+        )
+    }
+    if (array && constraint.elements) {
+        const length = getExactLength(constraint)
+        if (length === undefined) {
+            throw Error(
+                `The elements of the parameter ${param.name} can only be constrained with an EQUAL length`
+            )
+        }
+        rules.push(
+            ...getBlockRules(
+                Array(length).fill(array.element),
+                Array(length).fill(constraint.elements),
+                offset + 32
+            )
+        )
+    }
+    return rules
+}
+
+const getComponentConstraints = (
+    components: readonly AbiParameter[],
+    constraint: Constraint
+): Constraint[] =>
+    Array.isArray(constraint)
+        ? constraint
+        : components.map((component) =>
+              component.name ? constraint[component.name] : undefined
+          )
+
+// The rules of the parameters encoded from `offset`, the function arguments
+// or the fields of a tuple. The offsets of the dynamic parameters are pinned
+// to the standard encoding so that the content of their tails is at a known
+// position, which requires the size of the previous tails
+const getBlockRules = (
+    params: readonly AbiParameter[],
+    constraints: Constraint[],
+    offset: number
+): Rule[] => {
+    const rules: Rule[] = []
+    let head = offset
+    let tail: number | undefined =
+        offset + params.reduce((size, param) => size + getHeadSize(param), 0)
+    params.forEach((param, i) => {
+        const constraint = constraints[i]
+        if (!isDynamic(param)) {
+            if (constraint)
+                rules.push(...getStaticRules(param, constraint, head))
+            head += getHeadSize(param)
+            return
+        }
+        if (constraint) {
+            if (tail === undefined) {
+                throw Error(
+                    `The parameter ${param.name} cannot be constrained, the size of a previous dynamic parameter is not fixed`
+                )
+            }
+            rules.push({
+                condition: ParamCondition.EQUAL,
+                offset: head,
+                params: [toRuleParam(BigInt(tail - offset))]
+            })
+            rules.push(...getDynamicRules(param, constraint, tail))
+        }
+        const tailSize = constraint ? getTailSize(param, constraint) : undefined
+        tail =
+            tail !== undefined && tailSize !== undefined
+                ? tail + tailSize
+                : undefined
+        head += 32
+    })
+    return rules
+}
+
 export function getPermissionFromABI<
     TAbi extends Abi | readonly unknown[],
     TFunctionName extends string | undefined = string
@@ -49,57 +301,23 @@ export function getPermissionFromABI<
     const functionSelector = toFunctionSelector(abiItem)
     let paramRules: ParamRule[] = []
     if (args && Array.isArray(args)) {
-        paramRules = (args as CombinedArgs<AbiFunction["inputs"]>)
-            .map((arg, i) => {
-                if (!arg) return null
-                if (policyAddress === CALL_POLICY_CONTRACT_V0_0_1) {
-                    if (arg.condition === ParamCondition.ONE_OF) {
-                        throw Error(
-                            "The ONE_OF condition is only supported from CALL_POLICY_CONTRACT_V0_0_2 onwards. Please use CALL_POLICY_CONTRACT_V0_0_2 or a later version."
-                        )
-                    }
-                    return {
-                        params: pad(
-                            isHex(arg.value)
-                                ? arg.value
-                                : toHex(
-                                      arg.value as Parameters<typeof toHex>[0]
-                                  ),
-                            { size: 32 }
-                        ),
-                        offset: i * 32,
-                        condition: arg.condition
-                    }
-                }
-                let params: Hex[]
-                if (arg.condition === ParamCondition.ONE_OF) {
-                    params = arg.value.map((value) =>
-                        pad(
-                            isHex(value)
-                                ? value
-                                : toHex(value as Parameters<typeof toHex>[0]),
-                            { size: 32 }
-                        )
+        const rules = getBlockRules(
+            (abiItem as AbiFunction).inputs,
+            args as Constraint[],
+            0
+        )
+        if (policyAddress === CALL_POLICY_CONTRACT_V0_0_1) {
+            paramRules = rules.map(({ condition, offset, params }) => {
+                if (condition === ParamCondition.ONE_OF) {
+                    throw Error(
+                        "The ONE_OF condition is only supported from CALL_POLICY_CONTRACT_V0_0_2 onwards. Please use CALL_POLICY_CONTRACT_V0_0_2 or a later version."
                     )
-                } else {
-                    params = [
-                        pad(
-                            isHex(arg.value)
-                                ? arg.value
-                                : toHex(
-                                      arg.value as Parameters<typeof toHex>[0]
-                                  ),
-                            { size: 32 }
-                        )
-                    ]
-                }
-                return {
-                    params,
-                    offset: i * 32,
-                    condition: arg.condition
                 }
+                return { condition, offset, params: params[0] }
             })
-            .filter((rule) => rule) as ParamRule[]
+        } else {
+            paramRules = rules
+        }
     }
     return {
         selector: functionSelector,
@@ -107,6 +325,40 @@ export function getPermissionFromABI<
     }
 }
 
+/**
+ * Completes the permissions with the selector and the rules generated from
+ * their ABI and arguments
+ */
+export const toPermissionCores = <
+    TAbi extends Abi | readonly unknown[],
+    TFunctionName extends string | undefined = string
+>(
+    permissions: Permission<TAbi, TFunctionName>[],
+    policyAddress: Address
+): Permission<TAbi, TFunctionName>[] =>
+    permissions.map((permission) => {
+        // The deserialized permissions already have their selector and rules
+        const generated =
+            permission.selector && permission.rules
+                ? {}
+                : getPermissionFromABI({
+                      abi: permission.abi as Abi,
+                      functionName: permission.functionName as string,
+                      args: permission.args as [],
+                      policyAddress
+                  })
+        return {
+            ...permission,
+            callType: permission.callType ?? CallType.CALL,
+            selector:
+                permission.selector ??
+                generated.selector ??
+                pad("0x", { size: 4 }),
+            valueLimit: permission.valueLimit ?? 0n,
+            rules: permission.rules ?? generated.rules ?? []
+        } as Permission<TAbi, TFunctionName>
+    })
+
 export const encodePermissionData = (
     permission: PermissionCore | PermissionCore[],
     policyAddress: Address
@@ -0,0 +1,468 @@
+import { type DecodedKernelCallData, decodeKernelCallData } from "@zerodev/sdk"
+import type { UserOperation } from "permissionless/types"
+import {
+    type Address,
+    type Hex,
+    decodeFunctionData,
+    erc20Abi,
+    getAddress,
+    hexToBigInt,
+    isAddressEqual,
+    pad,
+    size,
+    slice,
+    zeroAddress
+} from "viem"
+import { CALL_POLICY_CONTRACT_V0_0_1, PolicyFlags } from "../constants.js"
+import type { Policy } from "../types.js"
+import { CallType, ParamCondition, type ParamRule } from "./types.js"
+import {
+    checkCondition,
+    findCallPermission,
+    getRuleParams
+} from "./utils/findCallPermission.js"
+
+export type EvaluatePoliciesParameters = {
+    policies: Policy[]
+    /**
+     * The unix timestamp, in seconds, the validation is assumed to run at.
+     * Defaults to now
+     */
+    timestamp?: number
+    /**
+     * The UserOperations the permission already sent since the rate limit
+     * policy was installed, the on-chain counter is not read. Like the
+     * RateLimitPolicy contract, each of them consumes one of the `count` uses
+     * and moves the start of the next one `interval` seconds later
+     */
+    rateLimitUsed?: number
+    /**
+     * The gas cost already spent from the allowance of the gas policy
+     */
+    gasAllowanceUsed?: bigint
+    /**
+     * The amount of each token already spent in the current window of the
+     * spending limit policy, see `getSpendingAllowance`
+     */
+    spendingLimitUsed?: Record<Address, bigint>
+} & (
+    | {
+          /**
+           * The UserOperation validated by the permission, with its gas limits
+           * and fees already set
+           */
+          userOperation: Pick<UserOperation<"v0.7">, "callData"> &
+              Partial<UserOperation<"v0.7">>
+          caller?: never
+      }
+    | {
+          /**
+           * The contract calling `isValidSignature` on the account, to
+           * evaluate the policies of a signature instead of a UserOperation
+           */
+          caller: Address
+          userOperation?: never
+      }
+)
+
+export type PolicyViolation = {
+    policyIndex: number
+    type: Policy["policyParams"]["type"]
+    policyAddress: Address
+    reason: string
+    /**
+     * The execution of the UserOperation rejected by a call policy
+     */
+    execution?: {
+        index: number
+        target: Address
+        selector: Hex
+        value: bigint
+    }
+    /**
+     * The rule of the call policy permission the execution breaks, with the
+     * 32 bytes parameter it was compared to
+     */
+    rule?: {
+        index: number
+        rule: ParamRule
+        param?: Hex
+    }
+}
+
+export type EvaluatePoliciesReturnType = {
+    valid: boolean
+    violations: PolicyViolation[]
+}
+
+type Violation = Omit<PolicyViolation, "policyIndex" | "type" | "policyAddress">
+
+const conditionLabels: Record<ParamCondition, string> = {
+    [ParamCondition.EQUAL]: "equal to",
+    [ParamCondition.GREATER_THAN]: "greater than",
+    [ParamCondition.LESS_THAN]: "less than",
+    [ParamCondition.GREATER_THAN_OR_EQUAL]: "greater than or equal to",
+    [ParamCondition.LESS_THAN_OR_EQUAL]: "less than or equal to",
+    [ParamCondition.NOT_EQUAL]: "not equal to",
+    [ParamCondition.ONE_OF]: "one of"
+}
+
+const evaluateCallPolicy = (
+    policy: Policy & { policyParams: { type: "call" } },
+    policyAddress: Address,
+    callData: Hex
+): Violation[] => {
+    let decoded: DecodedKernelCallData
+    try {
+        decoded = decodeKernelCallData(callData, "v0.7")
+    } catch {
+        return [{ reason: "The call policy only allows the execute function" }]
+    }
+    const permissions = policy.policyParams.permissions ?? []
+    const isV0_0_1 = isAddressEqual(policyAddress, CALL_POLICY_CONTRACT_V0_0_1)
+
+    const violations: Violation[] = []
+    decoded.executions.forEach(({ target, value, callData }, index) => {
+        // Each call of a batch is checked as a single call
+        const callType =
+            decoded.callType.toLowerCase() === CallType.DELEGATE_CALL
+                ? CallType.DELEGATE_CALL
+                : CallType.CALL
+        const selector =
+            size(callData) >= 4 ? slice(callData, 0, 4) : pad("0x", { size: 4 })
+        const execution = { index, target, selector, value }
+        // The last permission set for a call overrides the previous ones
+        const matches = (permissionTarget: Address) =>
+            [...permissions]
+                .reverse()
+                .find(
+                    (permission) =>
+                        (permission.callType ?? CallType.CALL).toLowerCase() ===
+                            callType &&
+                        isAddressEqual(permission.target, permissionTarget) &&
+                        (
+                            permission.selector ?? pad("0x", { size: 4 })
+                        ).toLowerCase() === selector.toLowerCase()
+                )
+        // From the v0.0.2, the zero address target allows any target
+        const permission =
+            matches(target) ?? (isV0_0_1 ? undefined : matches(zeroAddress))
+        if (!permission) {
+            violations.push({
+                reason: `No permission allows calling ${selector} on ${target}`,
+                execution
+            })
+            return
+        }
+        if (value > (permission.valueLimit ?? 0n)) {
+            violations.push({
+                reason: `The value ${value} exceeds the limit of ${
+                    permission.valueLimit ?? 0n
+                }`,
+                execution
+            })
+            return
+        }
+        for (const [ruleIndex, rule] of (permission.rules ?? []).entries()) {
+            const start = 4 + rule.offset
+            if (size(callData) < start + 32) {
+                violations.push({
+                    reason: `The calldata has no parameter at offset ${rule.offset}`,
+                    execution,
+                    rule: { index: ruleIndex, rule }
+                })
+                continue
+            }
+            const param = slice(callData, start, start + 32)
+            const ruleParams = getRuleParams(rule)
+            if (
+                !checkCondition(rule.condition, hexToBigInt(param), ruleParams)
+            ) {
+                violations.push({
+                    reason: `The parameter at offset ${
+                        rule.offset
+                    } is ${hexToBigInt(param)}, it must be ${
+                        conditionLabels[rule.condition]
+                    } ${ruleParams.join(", ")}`,
+                    execution,
+                    rule: { index: ruleIndex, rule, param }
+                })
+            }
+        }
+    })
+    return violations
+}
+
+const evaluateMerkleCallPolicy = (
+    policy: Policy & { policyParams: { type: "merkle-call" } },
+    callData: Hex
+): Violation[] => {
+    let decoded: DecodedKernelCallData
+    try {
+        decoded = decodeKernelCallData(callData, "v0.7")
+    } catch {
+        return [{ reason: "The call policy only allows the execute function" }]
+    }
+    const callType =
+        decoded.callType.toLowerCase() === CallType.DELEGATE_CALL
+            ? CallType.DELEGATE_CALL
+            : CallType.CALL
+    return decoded.executions.flatMap(({ target, value, callData }, index) => {
+        if (
+            findCallPermission(policy.policyParams.permissions, {
+                target,
+                value,
+                callData,
+                callType
+            })
+        ) {
+            return []
+        }
+        const selector =
+            size(callData) >= 4 ? slice(callData, 0, 4) : pad("0x", { size: 4 })
+        return [
+            {
+                reason: `No permission of the Merkle tree allows calling ${selector} on ${target}`,
+                execution: { index, target, selector, value }
+            }
+        ]
+    })
+}
+
+const getSpentAmount = (callData: Hex) => {
+    try {
+        const { functionName, args } = decodeFunctionData({
+            abi: erc20Abi,
+            data: callData
+        })
+        switch (functionName) {
+            case "transfer":
+            case "approve":
+                return args[1]
+            case "transferFrom":
+                return args[2]
+            default:
+                return 0n
+        }
+    } catch {
+        return 0n
+    }
+}
+
+const evaluateSpendingLimitPolicy = (
+    policy: Policy & { policyParams: { type: "spending-limit" } },
+    callData: Hex,
+    spendingLimitUsed: Record<Address, bigint>
+): Violation[] => {
+    let decoded: DecodedKernelCallData
+    try {
+        decoded = decodeKernelCallData(callData, "v0.7")
+    } catch {
+        return []
+    }
+    const getUsed = (token: Address) =>
+        Object.entries(spendingLimitUsed).find(([address]) =>
+            isAddressEqual(address as Address, token)
+        )?.[1] ?? 0n
+
+    const violations: Violation[] = []
+    for (const { token, allowance } of policy.policyParams.limits) {
+        const amount = decoded.executions
+            .filter(({ target }) => isAddressEqual(target, token))
+            .reduce((sum, { callData }) => sum + getSpentAmount(callData), 0n)
+        const remaining = BigInt(allowance) - getUsed(token)
+        if (amount > 0n && amount > remaining) {
+            violations.push({
+                reason: `The ${amount} ${token} spent exceed the remaining allowance of ${
+                    remaining > 0n ? remaining : 0n
+                }`
+            })
+        }
+    }
+    return violations
+}
+
+/**
+ * Predicts whether the policies of a permission validator accept a
+ * UserOperation or a signature, without sending it. Reports the policy, the
+ * execution and the call policy rule that would make the validation fail.
+ * The on-chain state of the rate limit, gas and spending limit policies is
+ * not read, pass their usage with `rateLimitUsed`, `gasAllowanceUsed` and
+ * `spendingLimitUsed`
+ * @param parameters - {@link EvaluatePoliciesParameters}
+ * @returns {@link EvaluatePoliciesReturnType}
+ */
+export const evaluatePolicies = ({
+    policies,
+    timestamp = Math.floor(Date.now() / 1000),
+    rateLimitUsed = 0,
+    gasAllowanceUsed = 0n,
+    spendingLimitUsed = {},
+    userOperation,
+    caller
+}: EvaluatePoliciesParameters): EvaluatePoliciesReturnType => {
+    const violations: PolicyViolation[] = []
+
+    policies.forEach((policy, policyIndex) => {
+        const { policyParams } = policy
+        const policyFlag =
+            policyParams.policyFlag ?? PolicyFlags.FOR_ALL_VALIDATION
+        if (
+            (userOperation &&
+                policyFlag === PolicyFlags.NOT_FOR_VALIDATE_USEROP) ||
+            (caller && policyFlag === PolicyFlags.NOT_FOR_VALIDATE_SIG)
+        ) {
+            return
+        }
+        const policyAddress = getAddress(
+            slice(policy.getPolicyInfoInBytes(), 2)
+        )
+        const report = (policyViolations: Violation[]) =>
+            violations.push(
+                ...policyViolations.map((violation) => ({
+                    policyIndex,
+                    type: policyParams.type,
+                    policyAddress,
+                    ...violation
+                }))
+            )
+
+        switch (policyParams.type) {
+            case "timestamp": {
+                const { validAfter = 0, validUntil = 0 } = policyParams
+                if (timestamp < validAfter) {
+                    report([
+                        {
+                            reason: `The permission is valid after ${validAfter}`
+                        }
+                    ])
+                } else if (validUntil !== 0 && timestamp > validUntil) {
+                    report([
+                        { reason: `The permission expired at ${validUntil}` }
+                    ])
+                }
+                return
+            }
+            case "signature-caller": {
+                if (
+                    caller &&
+                    !policyParams.allowedCallers.some((allowed) =>
+                        isAddressEqual(allowed, caller)
+                    )
+                ) {
+                    report([
+                        {
+                            reason: `${caller} is not allowed to verify the signatures`
+                        }
+                    ])
+                }
+                return
+            }
+            case "sudo":
+                return
+        }
+
+        // The remaining policies only restrict UserOperations
+        if (!userOperation) return
+        switch (policyParams.type) {
+            case "call": {
+                report(
+                    evaluateCallPolicy(
+                        policy as Policy & { policyParams: { type: "call" } },
+                        policyAddress,
+                        userOperation.callData
+                    )
+                )
+                return
+            }
+            case "merkle-call": {
+                report(
+                    evaluateMerkleCallPolicy(
+                        policy as Policy & {
+                            policyParams: { type: "merkle-call" }
+                        },
+                        userOperation.callData
+                    )
+                )
+                return
+            }
+            case "spending-limit": {
+                report(
+                    evaluateSpendingLimitPolicy(
+                        policy as Policy & {
+                            policyParams: { type: "spending-limit" }
+                        },
+                        userOperation.callData,
+                        spendingLimitUsed
+                    )
+                )
+                return
+            }
+            case "rate-limit": {
+                const { count, interval = 0, startAt = 0 } = policyParams
+                // The n-th UserOperation is valid after `startAt + n * interval`
+                const nextStartAt = startAt + rateLimitUsed * interval
+                if (rateLimitUsed >= count) {
+                    report([
+                        {
+                            reason: `The ${count} allowed UserOperations were sent`
+                        }
+                    ])
+                } else if (timestamp < nextStartAt) {
+                    report([
+                        {
+                            reason: `The next UserOperation is allowed from ${nextStartAt}`
+                        }
+                    ])
+                }
+                return
+            }
+            case "gas": {
+                const {
+                    allowed = 0n,
+                    enforcePaymaster = false,
+                    allowedPaymaster = zeroAddress
+                } = policyParams
+                const paymaster = userOperation.paymaster
+                if (enforcePaymaster && !paymaster) {
+                    report([
+                        { reason: "The UserOperation must use a paymaster" }
+                    ])
+                    return
+                }
+                if (
+                    !isAddressEqual(allowedPaymaster, zeroAddress) &&
+                    (!paymaster || !isAddressEqual(paymaster, allowedPaymaster))
+                ) {
+                    report([
+                        {
+                            reason: `The UserOperation must use the paymaster ${allowedPaymaster}`
+                        }
+                    ])
+                    return
+                }
+                const maxGasCost =
+                    ((userOperation.callGasLimit ?? 0n) +
+                        (userOperation.verificationGasLimit ?? 0n) +
+                        (userOperation.preVerificationGas ?? 0n) +
+                        (userOperation.paymasterVerificationGasLimit ?? 0n) +
+                        (userOperation.paymasterPostOpGasLimit ?? 0n)) *
+                    (userOperation.maxFeePerGas ?? 0n)
+                if (gasAllowanceUsed + maxGasCost > allowed) {
+                    report([
+                        {
+                            reason: `The maximum gas cost ${maxGasCost} exceeds the remaining allowance of ${
+                                allowed > gasAllowanceUsed
+                                    ? allowed - gasAllowanceUsed
+                                    : 0n
+                            }`
+                        }
+                    ])
+                }
+                return
+            }
+        }
+    })
+
+    return { valid: violations.length === 0, violations }
+}
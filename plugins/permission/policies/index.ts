@@ -12,6 +12,11 @@ export {
     type CallPolicyParams,
     CallPolicyVersion
 } from "./toCallPolicy.js"
+export {
+    toMerkleCallPolicy,
+    encodeMerklePermission,
+    type MerkleCallPolicyParams
+} from "./toMerkleCallPolicy.js"
 export { toPolicyId } from "./utils/toPolicyId.js"
 export { toSudoPolicy, type SudoPolicyParams } from "./toSudoPolicy.js"
 export { CallType, ParamCondition } from "./types.js"
@@ -19,3 +24,14 @@ export {
     toTimestampPolicy,
     type TimestampPolicyParams
 } from "./toTimestampPolicy.js"
+export {
+    toSpendingLimitPolicy,
+    type SpendingLimit,
+    type SpendingLimitPolicyParams
+} from "./toSpendingLimitPolicy.js"
+export {
+    evaluatePolicies,
+    type EvaluatePoliciesParameters,
+    type EvaluatePoliciesReturnType,
+    type PolicyViolation
+} from "./evaluatePolicies.js"
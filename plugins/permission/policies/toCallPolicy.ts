@@ -1,5 +1,5 @@
 import type { Abi, Address } from "viem"
-import { concatHex, pad } from "viem"
+import { concatHex } from "viem"
 import {
     CALL_POLICY_CONTRACT_V0_0_1,
     CALL_POLICY_CONTRACT_V0_0_2,
@@ -8,11 +8,8 @@ import {
     PolicyFlags
 } from "../constants.js"
 import type { Policy, PolicyParams } from "../types.js"
-import {
-    encodePermissionData,
-    getPermissionFromABI
-} from "./callPolicyUtils.js"
-import { CallType, type Permission } from "./types.js"
+import { encodePermissionData, toPermissionCores } from "./callPolicyUtils.js"
+import type { Permission } from "./types.js"
 
 export enum CallPolicyVersion {
     V0_0_1 = "0.0.1",
@@ -57,26 +54,7 @@ export function toCallPolicy<
 }: CallPolicyParams<TAbi, TFunctionName>): Policy {
     const callPolicyAddress = getCallPolicyAddress(policyVersion, policyAddress)
 
-    const generatedPermissionParams = permissions?.map((perm) =>
-        getPermissionFromABI({
-            abi: perm.abi as Abi,
-            functionName: perm.functionName as string,
-            args: perm.args as [],
-            policyAddress: callPolicyAddress
-        })
-    )
-
-    permissions =
-        permissions?.map((perm, index) => ({
-            ...perm,
-            callType: perm.callType ?? CallType.CALL,
-            selector:
-                perm.selector ??
-                generatedPermissionParams?.[index]?.selector ??
-                pad("0x", { size: 4 }),
-            valueLimit: perm.valueLimit ?? 0n,
-            rules: perm.rules ?? generatedPermissionParams?.[index]?.rules ?? []
-        })) ?? []
+    permissions = toPermissionCores(permissions, callPolicyAddress)
 
     const encodedPermissionData = encodePermissionData(
         permissions,
@@ -0,0 +1,163 @@
+import { decodeKernelCallData } from "@zerodev/sdk"
+import { MerkleTree } from "merkletreejs"
+import {
+    type Abi,
+    type Address,
+    type Hex,
+    concatHex,
+    encodeAbiParameters,
+    keccak256
+} from "viem"
+import { PolicyFlags } from "../constants.js"
+import type { Policy, PolicyParams } from "../types.js"
+import { toPermissionCores } from "./callPolicyUtils.js"
+import { CallType, type Permission, type PermissionCore } from "./types.js"
+import { findCallPermission } from "./utils/findCallPermission.js"
+
+export type MerkleCallPolicyParams<
+    TAbi extends Abi | readonly unknown[],
+    TFunctionName extends string | undefined = string
+> = PolicyParams & {
+    /**
+     * The Merkle call policy contract, deployed by the caller: the SDK ships
+     * no deployment of it. It installs the root of the tree as its policy
+     * data and checks the permissions and proofs of the signature policy
+     * data against it, see `encodeMerklePermission` for the leaves
+     */
+    policyAddress: Address
+    permissions: Permission<TAbi, TFunctionName>[]
+}
+
+const permissionParameter = {
+    name: "permission",
+    type: "tuple",
+    components: [
+        { name: "callType", type: "bytes1" },
+        { name: "target", type: "address" },
+        { name: "selector", type: "bytes4" },
+        { name: "valueLimit", type: "uint256" },
+        {
+            name: "rules",
+            type: "tuple[]",
+            components: [
+                { name: "condition", type: "uint8" },
+                { name: "offset", type: "uint64" },
+                { name: "params", type: "bytes32[]" }
+            ]
+        }
+    ]
+} as const
+
+const toEncodablePermission = ({
+    callType,
+    target,
+    selector,
+    valueLimit,
+    rules
+}: PermissionCore) => ({
+    callType: callType as Hex,
+    target,
+    selector: selector as Hex,
+    // The value limit is a string once deserialized
+    valueLimit: BigInt(valueLimit ?? 0n),
+    rules: (rules ?? []).map(({ condition, offset, params }) => ({
+        condition,
+        offset: BigInt(offset),
+        params: Array.isArray(params) ? params : [params]
+    }))
+})
+
+/**
+ * The leaf of a permission in the Merkle tree of the policy
+ */
+export const encodeMerklePermission = (permission: PermissionCore): Hex =>
+    encodeAbiParameters(
+        [permissionParameter],
+        [toEncodablePermission(permission)]
+    )
+
+/**
+ * Allows the calls of a Merkle tree of permissions, which only commits its
+ * root on-chain. Each UserOperation carries the permissions of its calls
+ * with their proofs, in the signature of the permission validator. The
+ * policy contract isn't deployed by the SDK, see `policyAddress`
+ */
+export function toMerkleCallPolicy<
+    TAbi extends Abi | readonly unknown[],
+    TFunctionName extends string | undefined = string
+>({
+    policyAddress,
+    policyFlag = PolicyFlags.FOR_ALL_VALIDATION,
+    permissions
+}: MerkleCallPolicyParams<TAbi, TFunctionName>): Policy {
+    if (permissions.length === 0) {
+        throw Error("The Merkle call policy requires at least one permission")
+    }
+    permissions = toPermissionCores(permissions, policyAddress)
+    const leaves = permissions.map(encodeMerklePermission)
+    const merkleTree = new MerkleTree(leaves, keccak256, {
+        sortPairs: true,
+        hashLeaves: true
+    })
+
+    return {
+        getPolicyData: () => {
+            return merkleTree.getHexRoot() as Hex
+        },
+        getPolicyInfoInBytes: () => {
+            return concatHex([policyFlag, policyAddress])
+        },
+        getSignaturePolicyData: ({ callData }) => {
+            const decoded = decodeKernelCallData(callData, "v0.7")
+            const callType =
+                decoded.callType.toLowerCase() === CallType.DELEGATE_CALL
+                    ? CallType.DELEGATE_CALL
+                    : CallType.CALL
+            const indexes = decoded.executions.map(
+                ({ target, value, callData }) => {
+                    const permission = findCallPermission(permissions, {
+                        target,
+                        value,
+                        callData,
+                        callType
+                    })
+                    if (!permission) {
+                        throw Error(
+                            `No permission of the Merkle call policy allows calling ${callData.slice(
+                                0,
+                                10
+                            )} on ${target}`
+                        )
+                    }
+                    return permissions.indexOf(permission)
+                }
+            )
+            return encodeAbiParameters(
+                [
+                    { ...permissionParameter, type: "tuple[]" },
+                    { name: "proofs", type: "bytes32[][]" }
+                ],
+                [
+                    indexes.map((index) =>
+                        toEncodablePermission(permissions[index])
+                    ),
+                    indexes.map(
+                        (index) =>
+                            merkleTree.getHexProof(
+                                keccak256(leaves[index])
+                            ) as Hex[]
+                    )
+                ]
+            )
+        },
+        policyParams: {
+            type: "merkle-call",
+            policyAddress,
+            policyFlag,
+            permissions
+        } as unknown as MerkleCallPolicyParams<
+            Abi | readonly unknown[],
+            string
+        > & { type: "merkle-call" }
+    }
+}
@@ -0,0 +1,75 @@
+import { type Address, concatHex, encodeAbiParameters } from "viem"
+import { PolicyFlags } from "../constants.js"
+import type { Policy, PolicyParams } from "../types.js"
+
+export type SpendingLimit = {
+    token: Address
+    /**
+     * The amount of the token the permission can transfer or approve in
+     * total, during each interval
+     */
+    allowance: bigint
+    /**
+     * The length of the window the allowance resets after, in seconds. 0
+     * never resets the allowance
+     */
+    interval?: number
+}
+
+export type SpendingLimitPolicyParams = PolicyParams & {
+    /**
+     * The spending limit policy contract, deployed by the caller: the SDK
+     * ships no deployment of it. It installs the ABI-encoded
+     * `(address token, uint256 allowance, uint48 interval)[]` limits as its
+     * policy data and exposes them with the `spendingLimits` function of
+     * `SpendingLimitPolicyAbi`
+     */
+    policyAddress: Address
+    limits: SpendingLimit[]
+}
+
+/**
+ * Limits the total amount of each ERC-20 token moved by the `transfer`,
+ * `transferFrom` and `approve` calls of a permission, per interval. The
+ * policy contract isn't deployed by the SDK, see `policyAddress`
+ */
+export function toSpendingLimitPolicy({
+    policyAddress,
+    policyFlag = PolicyFlags.FOR_ALL_VALIDATION,
+    limits
+}: SpendingLimitPolicyParams): Policy {
+    return {
+        getPolicyData: () => {
+            return encodeAbiParameters(
+                [
+                    {
+                        name: "limits",
+                        type: "tuple[]",
+                        components: [
+                            { name: "token", type: "address" },
+                            { name: "allowance", type: "uint256" },
+                            { name: "interval", type: "uint48" }
+                        ]
+                    }
+                ],
+                [
+                    limits.map(({ token, allowance, interval = 0 }) => ({
+                        token,
+                        // The allowance is a string once deserialized
+                        allowance: BigInt(allowance),
+                        interval
+                    }))
+                ]
+            )
+        },
+        getPolicyInfoInBytes: () => {
+            return concatHex([policyFlag, policyAddress])
+        },
+        policyParams: {
+            type: "spending-limit",
+            policyAddress,
+            policyFlag,
+            limits
+        } as SpendingLimitPolicyParams & { type: "spending-limit" }
+    }
+}
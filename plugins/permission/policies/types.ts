@@ -107,11 +107,95 @@ type ConditionValue<
           value: AbiParameterToPrimitiveType<TAbiParameter, TAbiParameterKind>
       }
 
+/**
+ * A condition on the length of a `bytes`, `string` or dynamic array
+ */
+export type LengthCondition =
+    | {
+          condition: ParamCondition.ONE_OF
+          value: (number | bigint)[]
+      }
+    | {
+          condition: Exclude<ParamCondition, ParamCondition.ONE_OF>
+          value: number | bigint
+      }
+
+/**
+ * The condition on the content of a non-scalar parameter. Only `EQUAL` is
+ * supported, every 32 bytes word of the encoded value is compared, which is
+ * the same as comparing the hashes of the values
+ */
+type ContentCondition<
+    TAbiParameter extends AbiParameter,
+    TAbiParameterKind extends AbiParameterKind
+> = {
+    condition: ParamCondition.EQUAL
+    value: AbiParameterToPrimitiveType<TAbiParameter, TAbiParameterKind>
+}
+
+export type ArrayConstraint<
+    TElement extends AbiParameter,
+    TAbiParameterKind extends AbiParameterKind = AbiParameterKind
+> = {
+    /**
+     * The condition on the length of a dynamic array. The `elements`
+     * condition requires an `EQUAL` length
+     */
+    length?: LengthCondition
+    /**
+     * The condition every element of the array must meet
+     */
+    elements?: ParamConstraint<TElement, TAbiParameterKind>
+}
+
+/**
+ * The conditions on the fields of a tuple, by position or by name
+ */
+export type TupleConstraint<
+    TComponents extends readonly AbiParameter[],
+    TAbiParameterKind extends AbiParameterKind = AbiParameterKind
+> =
+    | CombinedArgs<TComponents, TAbiParameterKind>
+    | {
+          [TComponent in TComponents[number] as TComponent extends {
+              name: infer TName extends string
+          }
+              ? TName
+              : never]?: ParamConstraint<TComponent, TAbiParameterKind> | null
+      }
+
+export type ParamConstraint<
+    TAbiParameter extends AbiParameter,
+    TAbiParameterKind extends AbiParameterKind = AbiParameterKind
+> = TAbiParameter extends { type: `${infer TElementType}[]` }
+    ?
+          | ContentCondition<TAbiParameter, TAbiParameterKind>
+          | ArrayConstraint<
+                Omit<TAbiParameter, "type"> & { type: TElementType },
+                TAbiParameterKind
+            >
+    : TAbiParameter extends { type: `${string}[${string}]` }
+      ?
+            | ContentCondition<TAbiParameter, TAbiParameterKind>
+            | ArrayConstraint<AbiParameter, TAbiParameterKind>
+      : TAbiParameter extends {
+              type: "tuple"
+              components: infer TComponents extends readonly AbiParameter[]
+          }
+        ?
+              | ContentCondition<TAbiParameter, TAbiParameterKind>
+              | TupleConstraint<TComponents, TAbiParameterKind>
+        : TAbiParameter extends { type: "bytes" | "string" }
+          ?
+                | ContentCondition<TAbiParameter, TAbiParameterKind>
+                | { length: LengthCondition }
+          : ConditionValue<TAbiParameter, TAbiParameterKind>
+
 export type CombinedArgs<
     TAbiParameters extends readonly AbiParameter[],
     TAbiParameterKind extends AbiParameterKind = AbiParameterKind
 > = {
-    [K in keyof TAbiParameters]: ConditionValue<
+    [K in keyof TAbiParameters]: ParamConstraint<
         TAbiParameters[K],
         TAbiParameterKind
     > | null
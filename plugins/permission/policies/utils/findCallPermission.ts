@@ -0,0 +1,81 @@
+import {
+    type Address,
+    type Hex,
+    hexToBigInt,
+    isAddressEqual,
+    pad,
+    size,
+    slice,
+    zeroAddress
+} from "viem"
+import {
+    CallType,
+    ParamCondition,
+    type ParamRule,
+    type PermissionCore
+} from "../types.js"
+
+export const checkCondition = (
+    condition: ParamCondition,
+    param: bigint,
+    ruleParams: bigint[]
+) => {
+    switch (condition) {
+        case ParamCondition.EQUAL:
+            return param === ruleParams[0]
+        case ParamCondition.GREATER_THAN:
+            return param > ruleParams[0]
+        case ParamCondition.LESS_THAN:
+            return param < ruleParams[0]
+        case ParamCondition.GREATER_THAN_OR_EQUAL:
+            return param >= ruleParams[0]
+        case ParamCondition.LESS_THAN_OR_EQUAL:
+            return param <= ruleParams[0]
+        case ParamCondition.NOT_EQUAL:
+            return param !== ruleParams[0]
+        case ParamCondition.ONE_OF:
+            return ruleParams.includes(param)
+    }
+}
+
+export const getRuleParams = (rule: ParamRule) =>
+    (Array.isArray(rule.params) ? rule.params : [rule.params]).map(
+        (ruleParam) => hexToBigInt(ruleParam)
+    )
+
+export const checkRule = (rule: ParamRule, callData: Hex) => {
+    const start = 4 + rule.offset
+    if (size(callData) < start + 32) return false
+    return checkCondition(
+        rule.condition,
+        hexToBigInt(slice(callData, start, start + 32)),
+        getRuleParams(rule)
+    )
+}
+
+/**
+ * Finds the first permission allowing a call, with its value and its
+ * arguments. The zero address target allows any target
+ */
+export const findCallPermission = <TPermission extends PermissionCore>(
+    permissions: TPermission[],
+    {
+        target,
+        value,
+        callData,
+        callType = CallType.CALL
+    }: { target: Address; value: bigint; callData: Hex; callType?: CallType }
+): TPermission | undefined => {
+    const selector =
+        size(callData) >= 4 ? slice(callData, 0, 4) : pad("0x", { size: 4 })
+    return permissions.find(
+        (permission) =>
+            (permission.callType ?? CallType.CALL).toLowerCase() === callType &&
+            (isAddressEqual(permission.target, target) ||
+                isAddressEqual(permission.target, zeroAddress)) &&
+            (permission.selector ?? pad("0x", { size: 4 })).toLowerCase() ===
+                selector.toLowerCase() &&
+            value <= BigInt(permission.valueLimit ?? 0n) &&
+            (permission.rules ?? []).every((rule) => checkRule(rule, callData))
+    )
+}
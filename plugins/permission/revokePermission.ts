@@ -0,0 +1,301 @@
+import {
+    constants,
+    type KernelAccountClient,
+    KernelError,
+    type KernelSmartAccount,
+    KernelV3AccountAbi,
+    KernelValidationError,
+    type SerializedAccountDecryption,
+    decryptSerializedAccount
+} from "@zerodev/sdk"
+import { waitForUserOperationReceipt } from "permissionless/actions"
+import type { ENTRYPOINT_ADDRESS_V07_TYPE } from "permissionless/types/entrypoint"
+import {
+    type BlockNumber,
+    type Chain,
+    type Client,
+    type Hash,
+    type Hex,
+    type Transport,
+    concatHex,
+    encodeAbiParameters,
+    encodeFunctionData,
+    pad,
+    zeroAddress
+} from "viem"
+import { readContract } from "viem/actions"
+import { getAction } from "viem/utils"
+import { toPermissionValidatorFromParams } from "./deserializePermissionAccount.js"
+import type { ModularSigner } from "./types.js"
+import { deserializePermissionAccountParams } from "./utils.js"
+
+export type RevokePermissionParameters = (
+    | {
+          /**
+           * The permission id, from `getIdentifier` of the permission validator
+           */
+          permissionId: Hex
+          serializedPermissionAccount?: never
+      }
+    | {
+          /**
+           * The output of `serializePermissionAccount`
+           */
+          serializedPermissionAccount: string
+          /**
+           * The signer of the permission, if the serialized account has no
+           * private key. Only its address is needed, e.g. `toEmptyECDSASigner`
+           */
+          modularSigner?: ModularSigner
+          decryption?: SerializedAccountDecryption
+          permissionId?: never
+      }
+) & {
+    /**
+     * Whether to wait for the UserOperation and check that the permissions
+     * are uninstalled. Defaults to true
+     */
+    waitForReceipt?: boolean
+}
+
+export type RevokeAllPermissionsParameters = {
+    /**
+     * The block range the installed permissions are searched in, from the
+     * deployment block of the account by default, see `getKernelAccountState`
+     */
+    fromBlock?: BlockNumber
+    toBlock?: BlockNumber
+    waitForReceipt?: boolean
+}
+
+export type RevokeAllPermissionsReturnType = {
+    userOpHash: Hash
+    permissionIds: Hex[]
+}
+
+export type RevokePermissionReturnType =
+    | (RevokeAllPermissionsReturnType & {
+          transactionHash?: never
+          invalidatedNonce?: never
+      })
+    | {
+          /**
+           * The transaction of `invalidateNonce`, sent instead of the
+           * uninstall when the permission is not installed yet
+           */
+          transactionHash: Hash
+          /**
+           * The nonce the pending enable signatures were signed with
+           */
+          invalidatedNonce: number
+          permissionIds: Hex[]
+          userOpHash?: never
+      }
+
+type PermissionAccountClient<
+    entryPoint extends ENTRYPOINT_ADDRESS_V07_TYPE,
+    TTransport extends Transport,
+    TChain extends Chain | undefined
+> = KernelAccountClient<
+    entryPoint,
+    TTransport,
+    TChain,
+    KernelSmartAccount<entryPoint, TTransport, TChain>
+>
+
+const getPermissionConfig = <entryPoint extends ENTRYPOINT_ADDRESS_V07_TYPE>(
+    account: KernelSmartAccount<entryPoint>,
+    permissionId: Hex
+) =>
+    getAction(
+        account.client,
+        readContract,
+        "readContract"
+    )({
+        abi: KernelV3AccountAbi,
+        address: account.address,
+        functionName: "permissionConfig",
+        args: [permissionId]
+    })
+
+const uninstallPermissions = async <
+    entryPoint extends ENTRYPOINT_ADDRESS_V07_TYPE,
+    TTransport extends Transport,
+    TChain extends Chain | undefined
+>(
+    accountClient: PermissionAccountClient<entryPoint, TTransport, TChain>,
+    permissionIds: Hex[],
+    waitForReceipt: boolean
+): Promise<RevokeAllPermissionsReturnType> => {
+    const { account } = accountClient
+    const calls = await Promise.all(
+        permissionIds.map(async (permissionId) => {
+            const { signer, policyData } = await getPermissionConfig(
+                account,
+                permissionId
+            )
+            if (signer === zeroAddress) {
+                throw new KernelValidationError(
+                    `The permission ${permissionId} is not installed on ${account.address}`,
+                    { code: "VALIDATOR_NOT_SET" }
+                )
+            }
+            // The policies and the signer are uninstalled with one entry each,
+            // the Kernel prefixes them with the permission id
+            const deinitData = encodeAbiParameters(
+                [{ name: "permissionDisableData", type: "bytes[]" }],
+                [Array(policyData.length + 1).fill("0x")]
+            )
+            return {
+                to: account.address,
+                value: 0n,
+                data: encodeFunctionData({
+                    abi: KernelV3AccountAbi,
+                    functionName: "uninstallValidation",
+                    args: [
+                        concatHex([
+                            constants.VALIDATOR_TYPE.PERMISSION,
+                            pad(permissionId, { size: 20, dir: "right" })
+                        ]),
+                        deinitData,
+                        "0x"
+                    ]
+                })
+            }
+        })
+    )
+
+    const userOpHash = await accountClient.sendUserOperation({
+        userOperation: {
+            callData: await account.encodeCallData(
+                calls.length === 1 ? calls[0] : calls
+            )
+        }
+    })
+    if (!waitForReceipt) return { userOpHash, permissionIds }
+
+    const { success } = await getAction(
+        accountClient,
+        waitForUserOperationReceipt,
+        "waitForUserOperationReceipt"
+    )({ hash: userOpHash })
+    if (!success) {
+        throw new KernelError(
+            `The revocation UserOperation ${userOpHash} reverted`,
+            { code: "EXECUTION_REVERTED" }
+        )
+    }
+    for (const permissionId of permissionIds) {
+        const { signer } = await getPermissionConfig(account, permissionId)
+        if (signer !== zeroAddress) {
+            throw new KernelError(
+                `The permission ${permissionId} is still installed on ${account.address}`,
+                { code: "EXECUTION_REVERTED" }
+            )
+        }
+    }
+    return { userOpHash, permissionIds }
+}
+
+/**
+ * Uninstalls a permission from a Kernel v3 account, with its policies and
+ * signer, so that its signer cannot use it anymore. A permission not
+ * installed yet would be installed with its enable signature, which signs
+ * the current nonce of the account: the nonce is invalidated instead, which
+ * also invalidates the other pending enable signatures
+ * @param accountClient - The client of the account, with a validator allowed to uninstall validations
+ * @param parameters - {@link RevokePermissionParameters}
+ * @returns {@link RevokePermissionReturnType}
+ */
+export const revokePermission = async <
+    entryPoint extends ENTRYPOINT_ADDRESS_V07_TYPE,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined
+>(
+    accountClient: PermissionAccountClient<entryPoint, TTransport, TChain>,
+    parameters: RevokePermissionParameters
+): Promise<RevokePermissionReturnType> => {
+    const { waitForReceipt = true } = parameters
+    let permissionId: Hex
+    if (parameters.permissionId) {
+        permissionId = parameters.permissionId
+    } else {
+        const { account } = accountClient
+        const params = deserializePermissionAccountParams(
+            await decryptSerializedAccount(
+                parameters.serializedPermissionAccount,
+                parameters.decryption
+            )
+        )
+        const permissionValidator = await toPermissionValidatorFromParams(
+            account.client as Client<TTransport, TChain, undefined>,
+            account.entryPoint,
+            account.kernelVersion,
+            params,
+            parameters.modularSigner
+        )
+        permissionId = permissionValidator.getIdentifier()
+    }
+
+    const { account } = accountClient
+    const { signer } = await getPermissionConfig(account, permissionId)
+    if (signer === zeroAddress) {
+        const invalidatedNonce = await getAction(
+            account.client,
+            readContract,
+            "readContract"
+        )({
+            abi: KernelV3AccountAbi,
+            address: account.address,
+            functionName: "currentNonce"
+        })
+        const transactionHash = await accountClient.invalidateNonce({
+            nonceToSet: invalidatedNonce + 1
+        } as Parameters<typeof accountClient.invalidateNonce>[0])
+        return {
+            transactionHash,
+            invalidatedNonce,
+            permissionIds: [permissionId]
+        }
+    }
+    return uninstallPermissions(accountClient, [permissionId], waitForReceipt)
+}
+
+/**
+ * Uninstalls all the valid permissions of a Kernel v3 account in one
+ * UserOperation, e.g. when their signers leaked
+ * @param accountClient - The client of the account, with a validator allowed to uninstall validations
+ * @param parameters - {@link RevokeAllPermissionsParameters}
+ * @returns {@link RevokeAllPermissionsReturnType}
+ */
+export const revokeAllPermissions = async <
+    entryPoint extends ENTRYPOINT_ADDRESS_V07_TYPE,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined
+>(
+    accountClient: PermissionAccountClient<entryPoint, TTransport, TChain>,
+    {
+        fromBlock,
+        toBlock,
+        waitForReceipt = true
+    }: RevokeAllPermissionsParameters = {}
+): Promise<RevokeAllPermissionsReturnType> => {
+    const { validations } = await accountClient.getKernelAccountState({
+        fromBlock,
+        toBlock
+    })
+    const permissionIds = validations.flatMap((validation) =>
+        validation.type === "permission" &&
+        validation.isValid &&
+        !validation.isRoot
+            ? [validation.permissionId]
+            : []
+    )
+    if (permissionIds.length === 0) {
+        throw new KernelValidationError(
+            `No permission is installed on ${accountClient.account.address}`,
+            { code: "VALIDATOR_NOT_SET" }
+        )
+    }
+    return uninstallPermissions(accountClient, permissionIds, waitForReceipt)
+}
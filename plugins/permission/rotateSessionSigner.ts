@@ -0,0 +1,165 @@
+import {
+    type KernelAccountClient,
+    KernelError,
+    type KernelSmartAccount
+} from "@zerodev/sdk"
+import { waitForUserOperationReceipt } from "permissionless/actions"
+import type { ENTRYPOINT_ADDRESS_V07_TYPE } from "permissionless/types/entrypoint"
+import {
+    type Address,
+    type Chain,
+    type Hash,
+    type Transport,
+    encodeFunctionData,
+    isAddressEqual,
+    pad
+} from "viem"
+import { getChainId, readContract } from "viem/actions"
+import { getAction } from "viem/utils"
+import { RotatableECDSASignerAbi } from "./abi/RotatableECDSASignerAbi.js"
+import type { Permission } from "./policies/types.js"
+import type { ModularSigner } from "./types.js"
+import { isPermissionValidatorPlugin } from "./utils.js"
+
+export type RotateSessionSignerParameters = {
+    /**
+     * The current signer of the permission, from `toRotatableECDSASigner`
+     */
+    signer: ModularSigner
+    newSignerAddress: Address
+    /**
+     * Whether to wait for the UserOperation and check that the signer was
+     * rotated. Defaults to true
+     */
+    waitForReceipt?: boolean
+}
+
+/**
+ * The call policy permission letting a session key rotate the signer of its
+ * permission. The rotation is authorized by a signature of the current
+ * signer, so the other permissions of the account cannot use it
+ * @param signerContractAddress - The address of the rotatable ECDSA signer
+ */
+export const toSignerRotationPermission = (
+    signerContractAddress: Address
+): Permission<typeof RotatableECDSASignerAbi, "rotate"> => ({
+    target: signerContractAddress,
+    abi: RotatableECDSASignerAbi,
+    functionName: "rotate"
+})
+
+/**
+ * Hands over a permission to a new session key, signed by the current one
+ * and sent with the permission itself, so the sudo validator isn't needed.
+ * The permission id, the policies and their state are kept, the rotation
+ * counts in the rate limit of the permission like any UserOperation. The permission
+ * must have been created with `toRotatableECDSASigner` and a call policy
+ * including `toSignerRotationPermission`. Use the new key with
+ * `toRotatableECDSASigner` and the `initialSignerAddress` of the permission
+ * @param accountClient - The client of the account, with the permission validator of the current signer
+ * @param parameters - {@link RotateSessionSignerParameters}
+ * @returns The hash of the UserOperation
+ */
+export const rotateSessionSigner = async <
+    entryPoint extends ENTRYPOINT_ADDRESS_V07_TYPE,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined
+>(
+    accountClient: KernelAccountClient<
+        entryPoint,
+        TTransport,
+        TChain,
+        KernelSmartAccount<entryPoint, TTransport, TChain>
+    >,
+    {
+        signer,
+        newSignerAddress,
+        waitForReceipt = true
+    }: RotateSessionSignerParameters
+): Promise<Hash> => {
+    const { account } = accountClient
+    if (!isPermissionValidatorPlugin(account.kernelPluginManager)) {
+        throw new Error("Account plugin is not a permission validator")
+    }
+    const { signerContractAddress } = signer
+    // The Kernel passes the permission id to the signer as bytes32
+    const id = pad(account.kernelPluginManager.getIdentifier(), {
+        size: 32,
+        dir: "right"
+    })
+    const readSigner = getAction(account.client, readContract, "readContract")
+
+    const nonce = await readSigner({
+        abi: RotatableECDSASignerAbi,
+        address: signerContractAddress,
+        functionName: "rotationNonce",
+        args: [id, account.address]
+    })
+    const signature = await signer.account.signTypedData({
+        domain: {
+            name: "RotatableECDSASigner",
+            version: "1",
+            chainId: await getAction(
+                account.client,
+                getChainId,
+                "getChainId"
+            )({}),
+            verifyingContract: signerContractAddress
+        },
+        types: {
+            Rotation: [
+                { name: "id", type: "bytes32" },
+                { name: "wallet", type: "address" },
+                { name: "newSigner", type: "address" },
+                { name: "nonce", type: "uint256" }
+            ]
+        },
+        primaryType: "Rotation",
+        message: {
+            id,
+            wallet: account.address,
+            newSigner: newSignerAddress,
+            nonce
+        }
+    })
+
+    const userOpHash = await accountClient.sendUserOperation({
+        userOperation: {
+            callData: await account.encodeCallData({
+                to: signerContractAddress,
+                value: 0n,
+                data: encodeFunctionData({
+                    abi: RotatableECDSASignerAbi,
+                    functionName: "rotate",
+                    args: [id, newSignerAddress, signature]
+                })
+            })
+        }
+    })
+    if (!waitForReceipt) return userOpHash
+
+    const { success } = await getAction(
+        accountClient,
+        waitForUserOperationReceipt,
+        "waitForUserOperationReceipt"
+    )({ hash: userOpHash })
+    if (!success) {
+        throw new KernelError(
+            `The rotation UserOperation ${userOpHash} reverted`,
+            { code: "EXECUTION_REVERTED" }
+        )
+    }
+    const currentSigner = await readSigner({
+        abi: RotatableECDSASignerAbi,
+        address: signerContractAddress,
+        functionName: "signer",
+        args: [id, account.address]
+    })
+    if (!isAddressEqual(currentSigner, newSignerAddress)) {
+        throw new KernelError(
+            `The signer of the permission is ${currentSigner}, not ${newSignerAddress}`,
+            { code: "EXECUTION_REVERTED" }
+        )
+    }
+    return userOpHash
+}
@@ -1,4 +1,8 @@
-import type { KernelSmartAccount } from "@zerodev/sdk"
+import {
+    type KernelSmartAccount,
+    type SerializedAccountEncryption,
+    encryptSerializedAccount
+} from "@zerodev/sdk"
 import { MerkleTree } from "merkletreejs"
 import type { EntryPoint } from "permissionless/types"
 import {
@@ -24,7 +28,8 @@ export type MultiChainPermissionAccountsParams<entryPoint extends EntryPoint> =
 export const serializeMultiChainPermissionAccounts = async <
     entryPoint extends EntryPoint
 >(
-    params: MultiChainPermissionAccountsParams<entryPoint>[]
+    params: MultiChainPermissionAccountsParams<entryPoint>[],
+    encryption?: SerializedAccountEncryption
 ): Promise<string[]> => {
     if (params.length === 0) return []
 
@@ -156,5 +161,11 @@ export const serializeMultiChainPermissionAccounts = async <
         })
     })
 
-    return paramsToBeSerialized
+    return encryption
+        ? Promise.all(
+              paramsToBeSerialized.map((serializedAccount) =>
+                  encryptSerializedAccount(serializedAccount, encryption)
+              )
+          )
+        : paramsToBeSerialized
 }
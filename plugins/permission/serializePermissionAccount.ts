@@ -1,15 +1,22 @@
-import type { KernelSmartAccount } from "@zerodev/sdk"
+import {
+    type KernelAccountExport,
+    type KernelSmartAccount,
+    type SerializedAccountEncryption,
+    encryptSerializedAccount,
+    toKernelAccountExport
+} from "@zerodev/sdk"
 import type { EntryPoint } from "permissionless/types"
 import type { Hex } from "viem"
+import type { PermissionAccountExportParams } from "./types.js"
 import {
     isPermissionValidatorPlugin,
     serializePermissionAccountParams
 } from "./utils.js"
 
-export const serializePermissionAccount = async <entryPoint extends EntryPoint>(
+const getPermissionAccountExportParams = async <entryPoint extends EntryPoint>(
     account: KernelSmartAccount<entryPoint>,
     privateKey?: Hex
-): Promise<string> => {
+): Promise<PermissionAccountExportParams> => {
     if (!isPermissionValidatorPlugin(account.kernelPluginManager))
         throw new Error("Account plugin is not a permission validator")
     const permissionParams =
@@ -20,6 +27,22 @@ export const serializePermissionAccount = async <entryPoint extends EntryPoint>(
         await account.kernelPluginManager.getPluginEnableSignature(
             account.address
         )
+    return {
+        permissionParams,
+        action,
+        validityData,
+        enableSignature,
+        privateKey
+    }
+}
+
+export const serializePermissionAccount = async <entryPoint extends EntryPoint>(
+    account: KernelSmartAccount<entryPoint>,
+    privateKey?: Hex,
+    encryption?: SerializedAccountEncryption
+): Promise<string> => {
+    const { permissionParams, action, validityData, enableSignature } =
+        await getPermissionAccountExportParams(account, privateKey)
     const accountParams = {
         initCode: await account.generateInitCode(),
         accountAddress: account.address
@@ -34,5 +57,24 @@ export const serializePermissionAccount = async <entryPoint extends EntryPoint>(
         privateKey
     }
 
-    return serializePermissionAccountParams(paramsToBeSerialized)
+    const serializedAccount =
+        serializePermissionAccountParams(paramsToBeSerialized)
+    return encryption
+        ? encryptSerializedAccount(serializedAccount, encryption)
+        : serializedAccount
 }
+
+/**
+ * Exports a permission account in the versioned Kernel account format, to
+ * serialize with `serializeKernelAccount`
+ * @param account - The account with the permission validator as regular validator
+ * @param privateKey - The private key of the ECDSA signer, to include in the export
+ */
+export const exportPermissionAccount = async <entryPoint extends EntryPoint>(
+    account: KernelSmartAccount<entryPoint>,
+    privateKey?: Hex
+): Promise<KernelAccountExport<"permission", PermissionAccountExportParams>> =>
+    toKernelAccountExport(account, {
+        type: "permission",
+        params: await getPermissionAccountExportParams(account, privateKey)
+    })
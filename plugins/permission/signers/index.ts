@@ -10,3 +10,16 @@ export {
 export { WebAuthnMode, toWebAuthnKey } from "@zerodev/webauthn-key"
 export { toSignerId } from "./utils/toSignerId.js"
 export { toEmptyECDSASigner } from "./toEmptyECDSASigner.js"
+export {
+    toRotatableECDSASigner,
+    type RotatableECDSAModularSignerParams
+} from "./toRotatableECDSASigner.js"
+export {
+    toWeightedSigner,
+    signWeightedSignatureRequest,
+    WeightedSignerType,
+    type WeightedModularSignerParams,
+    type WeightedSignerMember,
+    type WeightedSignatureRequest,
+    type WeightedSignature
+} from "./toWeightedSigner.js"
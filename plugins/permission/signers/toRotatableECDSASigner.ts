@@ -0,0 +1,45 @@
+import type { SmartAccountSigner } from "permissionless/accounts"
+import type { Address } from "viem"
+import type { ModularSigner } from "../types.js"
+import { toECDSASigner } from "./toECDSASigner.js"
+
+export type RotatableECDSAModularSignerParams<
+    TSource extends string = "custom",
+    TAddress extends Address = Address
+> = {
+    signer: SmartAccountSigner<TSource, TAddress>
+    /**
+     * The rotatable ECDSA signer contract, deployed by the caller: the SDK
+     * ships no deployment of it. It installs the address of the first signer
+     * as its signer data, checks the signatures against the current signer
+     * and rotates it with the functions of `RotatableECDSASignerAbi`
+     */
+    signerContractAddress: Address
+    /**
+     * The address of the first signer of the permission, which its id is
+     * derived from. Required once the signer was rotated
+     */
+    initialSignerAddress?: Address
+}
+
+/**
+ * An ECDSA signer whose key can be rotated with `rotateSessionSigner`
+ * without changing the permission id, so the permission keeps its policies
+ * and their state. The signer contract isn't deployed by the SDK, see
+ * `signerContractAddress`
+ */
+export function toRotatableECDSASigner<
+    TSource extends string = "custom",
+    TAddress extends Address = Address
+>({
+    signer,
+    signerContractAddress,
+    initialSignerAddress = signer.address
+}: RotatableECDSAModularSignerParams<TSource, TAddress>): ModularSigner {
+    return {
+        ...toECDSASigner({ signer, signerContractAddress }),
+        getSignerData: () => {
+            return initialSignerAddress
+        }
+    }
+}
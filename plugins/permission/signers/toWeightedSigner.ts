@@ -0,0 +1,249 @@
+import type { TypedData } from "abitype"
+import { SignTransactionNotSupportedBySmartAccount } from "permissionless/accounts"
+import {
+    type Address,
+    type Hex,
+    type SignableMessage,
+    type TypedDataDefinition,
+    concat,
+    encodeAbiParameters,
+    size,
+    toHex,
+    zeroAddress
+} from "viem"
+import { toAccount } from "viem/accounts"
+import type { ModularSigner } from "../types.js"
+
+export enum WeightedSignerType {
+    ECDSA = "0x01",
+    WEBAUTHN = "0x02"
+}
+
+export type WeightedSignerMember = {
+    /**
+     * The signer of the member. Use `toEmptyECDSASigner` for the ECDSA keys
+     * held elsewhere
+     */
+    signer: ModularSigner
+    weight: number
+    /**
+     * Whether the signature of the member is collected with
+     * `collectSignatures` instead of signed with its account
+     */
+    remote?: boolean
+}
+
+export type WeightedSignatureRequest =
+    | { type: "message"; message: SignableMessage }
+    | {
+          type: "typedData"
+          typedData: TypedDataDefinition<TypedData | Record<string, unknown>>
+      }
+
+export type WeightedSignature = {
+    /**
+     * The index of the member in `members`
+     */
+    index: number
+    signature: Hex
+}
+
+export type WeightedModularSignerParams = {
+    /**
+     * The weighted signer contract, deployed by the caller: the SDK ships no
+     * deployment of it. It installs the threshold and the members encoded by
+     * `getSignerData`, and checks the signatures of the members, each
+     * prefixed by its index, until their weights reach the threshold
+     */
+    signerContractAddress: Address
+    /**
+     * The total weight of the signatures a UserOperation needs
+     */
+    threshold: number
+    /**
+     * The members, in the order the signer contract indexes them. Changing
+     * it changes the permission id
+     */
+    members: WeightedSignerMember[]
+    /**
+     * Collects the signatures of the remote members, e.g. from other
+     * backends signing with `signWeightedSignatureRequest`
+     */
+    collectSignatures?: (
+        request: WeightedSignatureRequest,
+        members: number[]
+    ) => Promise<WeightedSignature[]>
+}
+
+const getSignerType = (signer: ModularSigner) =>
+    size(signer.getSignerData()) === 20
+        ? WeightedSignerType.ECDSA
+        : WeightedSignerType.WEBAUTHN
+
+const encodeWeightedSignatures = (signatures: WeightedSignature[]) =>
+    encodeAbiParameters(
+        [{ name: "signatures", type: "bytes[]" }],
+        [
+            [...signatures]
+                .sort((a, b) => a.index - b.index)
+                .map(({ index, signature }) =>
+                    concat([toHex(index, { size: 1 }), signature])
+                )
+        ]
+    )
+
+/**
+ * Signs a request of a weighted signer with the key of one of its members,
+ * on the backend of the member
+ * @param request - The request given to `collectSignatures`
+ * @param signer - The signer of the member
+ * @returns The signature of the member
+ */
+export const signWeightedSignatureRequest = (
+    request: WeightedSignatureRequest,
+    signer: ModularSigner
+): Promise<Hex> =>
+    request.type === "message"
+        ? signer.account.signMessage({ message: request.message })
+        : signer.account.signTypedData(request.typedData)
+
+/**
+ * A signer requiring the signatures of several members whose weights reach
+ * a threshold, e.g. 2-of-3 backend keys or a key and a passkey. The local
+ * members sign until the threshold is reached, after the remote members.
+ * The signer contract isn't deployed by the SDK, see `signerContractAddress`
+ */
+export function toWeightedSigner({
+    signerContractAddress,
+    threshold,
+    members,
+    collectSignatures
+}: WeightedModularSignerParams): ModularSigner {
+    if (members.length === 0 || members.length > 255) {
+        throw new Error("A weighted signer needs between 1 and 255 members")
+    }
+    if (
+        members.some(
+            ({ weight }) =>
+                !Number.isInteger(weight) || weight <= 0 || weight >= 2 ** 24
+        )
+    ) {
+        throw new Error("The member weights must be positive 24 bits integers")
+    }
+    const totalWeight = members.reduce((total, { weight }) => total + weight, 0)
+    if (threshold <= 0 || threshold > totalWeight) {
+        throw new Error(
+            `The threshold (${threshold}) must be positive and at most the sum of weights (${totalWeight})`
+        )
+    }
+
+    const remoteMembers = members.flatMap(({ remote }, index) =>
+        remote ? [index] : []
+    )
+
+    const sign = async (request: WeightedSignatureRequest) => {
+        const signatures: WeightedSignature[] = []
+        let weight = 0
+        if (remoteMembers.length > 0 && collectSignatures) {
+            for (const { index, signature } of await collectSignatures(
+                request,
+                remoteMembers
+            )) {
+                if (!remoteMembers.includes(index)) {
+                    throw new Error(`The member ${index} is not remote`)
+                }
+                if (signatures.some((collected) => collected.index === index)) {
+                    continue
+                }
+                signatures.push({ index, signature })
+                weight += members[index].weight
+            }
+        }
+        for (const [index, member] of members.entries()) {
+            if (weight >= threshold) break
+            if (member.remote) continue
+            signatures.push({
+                index,
+                signature: await signWeightedSignatureRequest(
+                    request,
+                    member.signer
+                )
+            })
+            weight += member.weight
+        }
+        if (weight < threshold) {
+            throw new Error(
+                `The signatures weigh ${weight}, below the threshold ${threshold}`
+            )
+        }
+        return encodeWeightedSignatures(signatures)
+    }
+
+    const account = toAccount({
+        // note that this address is not used
+        address: zeroAddress,
+        async signMessage({ message }) {
+            return sign({ type: "message", message })
+        },
+        async signTransaction(_, __) {
+            throw new SignTransactionNotSupportedBySmartAccount()
+        },
+        async signTypedData<
+            const TTypedData extends TypedData | Record<string, unknown>,
+            TPrimaryType extends
+                | keyof TTypedData
+                | "EIP712Domain" = keyof TTypedData
+        >(typedData: TypedDataDefinition<TTypedData, TPrimaryType>) {
+            return sign({
+                type: "typedData",
+                typedData: typedData as TypedDataDefinition<
+                    TypedData | Record<string, unknown>
+                >
+            })
+        }
+    })
+
+    return {
+        account,
+        signerContractAddress,
+        getSignerData: () => {
+            return concat([
+                toHex(threshold, { size: 3 }),
+                encodeAbiParameters(
+                    [{ name: "membersData", type: "bytes[]" }],
+                    [
+                        members.map(({ signer, weight }) =>
+                            concat([
+                                getSignerType(signer),
+                                toHex(weight, { size: 3 }),
+                                signer.getSignerData()
+                            ])
+                        )
+                    ]
+                )
+            ])
+        },
+        getDummySignature: () => {
+            // The most signatures that can be needed: the lightest members,
+            // the largest signatures first among the same weight
+            const dummySignatures: WeightedSignature[] = []
+            let weight = 0
+            for (const { index, member } of members
+                .map((member, index) => ({ index, member }))
+                .sort(
+                    (a, b) =>
+                        a.member.weight - b.member.weight ||
+                        size(b.member.signer.getDummySignature()) -
+                            size(a.member.signer.getDummySignature())
+                )) {
+                if (weight >= threshold) break
+                dummySignatures.push({
+                    index,
+                    signature: member.signer.getDummySignature()
+                })
+                weight += member.weight
+            }
+            return encodeWeightedSignatures(dummySignatures)
+        }
+    }
+}
@@ -0,0 +1,325 @@
+import type { KernelAccountClient, KernelSmartAccount } from "@zerodev/sdk"
+import type { GetKernelVersion } from "@zerodev/sdk/types"
+import type { ENTRYPOINT_ADDRESS_V07_TYPE } from "permissionless/types/entrypoint"
+import {
+    type Address,
+    type Chain,
+    type Client,
+    type Hash,
+    type Hex,
+    type Transport,
+    encodeFunctionData,
+    erc20Abi,
+    pad,
+    parseAbi
+} from "viem"
+import { readContract } from "viem/actions"
+import { getAction } from "viem/utils"
+import { RATE_LIMIT_POLICY_CONTRACT } from "./constants.js"
+import {
+    CallPolicyVersion,
+    ParamCondition,
+    toCallPolicy,
+    toRateLimitPolicy,
+    toTimestampPolicy
+} from "./policies/index.js"
+import { toPermissionValidator } from "./toPermissionValidator.js"
+import type { ModularSigner, Policy } from "./types.js"
+
+export type Subscription = {
+    /**
+     * The ERC-20 token the payee pulls
+     */
+    token: Address
+    /**
+     * The amount the payee can pull once per period
+     */
+    amount: bigint
+    /**
+     * The length of a period, in seconds
+     */
+    period: number
+    payee: Address
+    /**
+     * The unix timestamp, in seconds, the first period starts at
+     */
+    startAt: number
+    /**
+     * The unix timestamp, in seconds, the subscription ends at. The last
+     * period is cut at `until`
+     */
+    until: number
+}
+
+export type SubscriptionStatusParameters = {
+    subscription: Subscription
+    /**
+     * The account of the subscriber
+     */
+    account: Address
+    /**
+     * The permission id of the subscription, from `getIdentifier` of its
+     * permission validator
+     */
+    permissionId: Hex
+    /**
+     * The unix timestamp, in seconds, the status is computed at. Defaults to
+     * now
+     */
+    timestamp?: number
+}
+
+export type SubscriptionStatus = {
+    status: "pending" | "active" | "ended"
+    /**
+     * Whether a payment can be pulled
+     */
+    due: boolean
+    /**
+     * The index of the current period, from 0
+     */
+    currentPeriod?: number
+    /**
+     * The unix timestamp the next payment can be pulled from, undefined if no
+     * payment is left. It is in the past when payments are overdue
+     */
+    nextDueAt?: number
+    totalPeriods: number
+    paidPeriods: number
+    /**
+     * The payments left to pull, including the overdue ones. The missed
+     * periods can be caught up, one payment per UserOperation
+     */
+    remainingPeriods: number
+}
+
+const RateLimitPolicyAbi = parseAbi([
+    "function rateLimitConfigs(bytes32 id, address account) view returns (uint48 interval, uint48 count, uint48 startAt)"
+])
+
+const assertSubscription = ({
+    amount,
+    period,
+    startAt,
+    until
+}: Subscription) => {
+    if (amount <= 0n)
+        throw new Error("The subscription amount must be positive")
+    if (!Number.isInteger(period) || period <= 0)
+        throw new Error("The subscription period must be a positive integer")
+    if (until <= startAt)
+        throw new Error("The subscription must end after it starts")
+}
+
+const getTotalPeriods = ({ period, startAt, until }: Subscription) =>
+    Math.ceil((until - startAt) / period)
+
+/**
+ * Generates the policies letting the payee pull `amount` of the token once
+ * per period, between `startAt` and `until`:
+ * - a call policy allowing `approve(payee, amount)` on the token only. An
+ *   approval replaces the previous one, so a batch of calls can't allow more
+ *   than `amount`. The payee pulls the payment with `transferFrom`
+ * - a rate limit policy allowing one UserOperation per period from `startAt`,
+ *   for the number of periods of the subscription
+ * - a timestamp policy bounding the subscription
+ * @param subscription - {@link Subscription}
+ */
+export const toSubscriptionPolicies = (
+    subscription: Subscription
+): Policy[] => {
+    assertSubscription(subscription)
+    const { token, amount, period, payee, startAt, until } = subscription
+    return [
+        toCallPolicy({
+            policyVersion: CallPolicyVersion.V0_0_4,
+            permissions: [
+                {
+                    target: token,
+                    abi: erc20Abi,
+                    functionName: "approve",
+                    args: [
+                        { condition: ParamCondition.EQUAL, value: payee },
+                        {
+                            condition: ParamCondition.LESS_THAN_OR_EQUAL,
+                            value: amount
+                        }
+                    ]
+                }
+            ]
+        }),
+        toRateLimitPolicy({
+            count: getTotalPeriods(subscription),
+            interval: period,
+            startAt
+        }),
+        toTimestampPolicy({ validAfter: startAt, validUntil: until })
+    ]
+}
+
+/**
+ * Creates the permission validator of a subscription, to install on the
+ * account of the subscriber with the signer of the payee
+ * @param client
+ * @param parameters - The subscription and the signer of the payee
+ */
+export const toSubscriptionPermissionValidator = async <
+    entryPoint extends ENTRYPOINT_ADDRESS_V07_TYPE,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined
+>(
+    client: Client<TTransport, TChain, undefined>,
+    {
+        signer,
+        subscription,
+        entryPoint,
+        kernelVersion
+    }: {
+        signer: ModularSigner
+        subscription: Subscription
+        entryPoint: entryPoint
+        kernelVersion: GetKernelVersion<entryPoint>
+    }
+) =>
+    toPermissionValidator(client, {
+        signer,
+        policies: toSubscriptionPolicies(subscription),
+        entryPoint,
+        kernelVersion
+    })
+
+/**
+ * Reads the status of a subscription from the state of its rate limit
+ * policy, which counts the payments pulled. A permission that is not
+ * installed yet, as it is installed with the first payment, has no payment
+ * pulled
+ * @param client
+ * @param parameters - {@link SubscriptionStatusParameters}
+ * @returns {@link SubscriptionStatus}
+ */
+export const getSubscriptionStatus = async <
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined
+>(
+    client: Client<TTransport, TChain>,
+    {
+        subscription,
+        account,
+        permissionId,
+        timestamp = Math.floor(Date.now() / 1000)
+    }: SubscriptionStatusParameters
+): Promise<SubscriptionStatus> => {
+    assertSubscription(subscription)
+    const { period, startAt, until } = subscription
+    const totalPeriods = getTotalPeriods(subscription)
+
+    const [interval, count, nextStartAt] = await getAction(
+        client,
+        readContract,
+        "readContract"
+    )({
+        abi: RateLimitPolicyAbi,
+        address: RATE_LIMIT_POLICY_CONTRACT,
+        functionName: "rateLimitConfigs",
+        args: [pad(permissionId, { size: 32, dir: "right" }), account]
+    })
+    const installed = interval !== 0
+    // Each payment moves the start of the rate limit by one period
+    const nextDueAt = installed ? Math.max(nextStartAt, startAt) : startAt
+    const remainingPeriods = Math.min(
+        installed ? count : totalPeriods,
+        Math.max(Math.ceil((until - nextDueAt) / period), 0)
+    )
+    const paidPeriods = totalPeriods - (installed ? count : totalPeriods)
+
+    if (timestamp < startAt) {
+        return {
+            status: "pending",
+            due: false,
+            nextDueAt,
+            totalPeriods,
+            paidPeriods,
+            remainingPeriods
+        }
+    }
+    if (timestamp > until || remainingPeriods === 0) {
+        return {
+            status: "ended",
+            due: false,
+            totalPeriods,
+            paidPeriods,
+            remainingPeriods: 0
+        }
+    }
+    return {
+        status: "active",
+        due: timestamp >= nextDueAt,
+        currentPeriod: Math.min(
+            Math.floor((timestamp - startAt) / period),
+            totalPeriods - 1
+        ),
+        nextDueAt,
+        totalPeriods,
+        paidPeriods,
+        remainingPeriods
+    }
+}
+
+/**
+ * Approves the payment of the current period to the payee, who pulls it
+ * with `transferFrom(account, payee, amount)`. The account client must use
+ * the subscription permission validator, e.g. from
+ * `deserializePermissionAccount` with the key of the payee
+ * @param accountClient - The client of the subscriber's account
+ * @param parameters - The subscription and its permission id
+ * @returns The hash of the UserOperation
+ */
+export const collectSubscriptionPayment = async <
+    entryPoint extends ENTRYPOINT_ADDRESS_V07_TYPE,
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined
+>(
+    accountClient: KernelAccountClient<
+        entryPoint,
+        TTransport,
+        TChain,
+        KernelSmartAccount<entryPoint, TTransport, TChain>
+    >,
+    {
+        subscription,
+        permissionId,
+        timestamp
+    }: Omit<SubscriptionStatusParameters, "account">
+): Promise<Hash> => {
+    const { account } = accountClient
+    const { status, due, nextDueAt } = await getSubscriptionStatus(
+        account.client,
+        {
+            subscription,
+            account: account.address,
+            permissionId,
+            timestamp
+        }
+    )
+    if (!due) {
+        throw new Error(
+            status === "ended"
+                ? "The subscription has no payment left"
+                : `The next payment of the subscription is due at ${nextDueAt}`
+        )
+    }
+    const { token, amount, payee } = subscription
+    return accountClient.sendUserOperation({
+        userOperation: {
+            callData: await account.encodeCallData({
+                to: token,
+                value: 0n,
+                data: encodeFunctionData({
+                    abi: erc20Abi,
+                    functionName: "approve",
+                    args: [payee, amount]
+                })
+            })
+        }
+    })
+}
@@ -1,5 +1,6 @@
 import { KernelV3AccountAbi } from "@zerodev/sdk"
 import { getEntryPointVersion, getUserOperationHash } from "permissionless"
+import type { UserOperation } from "permissionless/types"
 import type { EntryPoint } from "permissionless/types/entrypoint"
 import {
     type Address,
@@ -10,7 +11,9 @@ import {
     concat,
     encodeAbiParameters,
     keccak256,
+    size,
     slice,
+    toHex,
     zeroAddress
 } from "viem"
 import { getChainId, readContract } from "viem/actions"
@@ -69,6 +72,19 @@ export async function toPermissionValidator<
         return enableData
     }
 
+    // The policies checking data along with the UserOperation read it from
+    // the signature, each prefixed with the policy index and its length
+    const getPolicySignatures = (userOperation: UserOperation<"v0.7">): Hex[] =>
+        policies.flatMap((policy, index) => {
+            const data = policy.getSignaturePolicyData?.(userOperation)
+            if (data === undefined) return []
+            return [
+                toHex(index, { size: 1 }),
+                toHex(size(data), { size: 8 }),
+                data
+            ]
+        })
+
     const getPermissionId = (): Hex => {
         const pIdData = encodeAbiParameters(
             [{ name: "policyAndSignerData", type: "bytes[]" }],
@@ -109,7 +125,11 @@ export async function toPermissionValidator<
             const signature = await signer.account.signMessage({
                 message: { raw: userOpHash }
             })
-            return concat(["0xff", signature])
+            return concat([
+                ...getPolicySignatures(userOperation as UserOperation<"v0.7">),
+                "0xff",
+                signature
+            ])
         },
 
         async getNonceKey(_accountAddress?: Address, customNonceKey?: bigint) {
@@ -119,8 +139,12 @@ export async function toPermissionValidator<
             return 0n
         },
 
-        async getDummySignature(_userOperation) {
-            return concat(["0xff", signer.getDummySignature()])
+        async getDummySignature(userOperation) {
+            return concat([
+                ...getPolicySignatures(userOperation as UserOperation<"v0.7">),
+                "0xff",
+                signer.getDummySignature()
+            ])
         },
         getPluginSerializationParams: (): PermissionData => {
             return {
@@ -4,14 +4,17 @@ import type {
     GetKernelVersion,
     PluginValidityData
 } from "@zerodev/sdk/types"
+import type { UserOperation } from "permissionless/types"
 import type { EntryPoint } from "permissionless/types/entrypoint"
 import type { Abi, Address, Hex, LocalAccount } from "viem"
 import type { PolicyFlags } from "./constants.js"
 import type {
     CallPolicyParams,
     GasPolicyParams,
+    MerkleCallPolicyParams,
     RateLimitPolicyParams,
     SignatureCallerPolicyParams,
+    SpendingLimitPolicyParams,
     SudoPolicyParams,
     TimestampPolicyParams
 } from "./policies/index.js"
@@ -41,14 +44,20 @@ export type ModularSigner = {
 export type Policy = {
     getPolicyData: () => Hex
     getPolicyInfoInBytes: () => Hex
+    // the data the policy checks along with each UserOperation
+    getSignaturePolicyData?: (userOperation: UserOperation<"v0.7">) => Hex
     // return params directly to serialize/deserialize Policy
     policyParams:
         | (CallPolicyParams<Abi | readonly unknown[], string> & {
               type: "call"
           })
         | (GasPolicyParams & { type: "gas" })
+        | (MerkleCallPolicyParams<Abi | readonly unknown[], string> & {
+              type: "merkle-call"
+          })
         | (RateLimitPolicyParams & { type: "rate-limit" })
         | (SignatureCallerPolicyParams & { type: "signature-caller" })
+        | (SpendingLimitPolicyParams & { type: "spending-limit" })
         | (SudoPolicyParams & { type: "sudo" })
         | (TimestampPolicyParams & { type: "timestamp" })
 }
@@ -78,3 +87,8 @@ export type PermissionAccountParams = {
     enableSignature?: Hex
     privateKey?: Hex
 }
+
+export type PermissionAccountExportParams = Omit<
+    PermissionAccountParams,
+    "accountParams"
+>
@@ -1,5 +1,7 @@
 export {
     toRemoteSigner,
     RemoteSignerMode,
+    RemoteSignerError,
+    type RemoteSignerErrorType,
     type RemoteSignerParams
 } from "./toRemoteSigner.js"
@@ -1,4 +1,4 @@
-import { fixSignedData } from "@zerodev/sdk"
+import { KernelError, fixSignedData } from "@zerodev/sdk"
 import type { TypedData } from "abitype"
 import { SignTransactionNotSupportedBySmartAccount } from "permissionless/accounts"
 import {
@@ -18,6 +18,44 @@ export enum RemoteSignerMode {
     Get = "get"
 }
 
+export type RemoteSignerErrorType = RemoteSignerError & {
+    name: "RemoteSignerError"
+}
+export class RemoteSignerError extends KernelError<"SIGNER_ERROR"> {
+    override name = "RemoteSignerError"
+    /**
+     * The HTTP status of the failed request to the remote key storage
+     */
+    status?: number
+
+    constructor(
+        message: string,
+        {
+            status,
+            retryable = status !== undefined && status >= 500,
+            cause
+        }: { status?: number; retryable?: boolean; cause?: Error } = {}
+    ) {
+        super(message, { code: "SIGNER_ERROR", retryable, cause })
+        this.status = status
+    }
+}
+
+// Network failures and server errors of the key storage are retryable
+const toRemoteSignerError = (error: unknown) => {
+    const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred"
+    return new RemoteSignerError(
+        `An unexpected error occurred: ${errorMessage}`,
+        error instanceof RemoteSignerError
+            ? { status: error.status, retryable: error.retryable, cause: error }
+            : {
+                  retryable: true,
+                  cause: error instanceof Error ? error : undefined
+              }
+    )
+}
+
 export type RemoteSignerParams = {
     apiKey: string
     keyAddress?: Hex
@@ -43,24 +81,23 @@ export async function toRemoteSigner({
 
             if (!response.ok) {
                 const errorBody = await response.json()
-                throw new Error(
-                    `Request failed with status code ${response.status}: ${errorBody.message}`
+                throw new RemoteSignerError(
+                    `Request failed with status code ${response.status}: ${errorBody.message}`,
+                    { status: response.status }
                 )
             }
 
             const createWalletResult = await response.json()
             keyAddress = createWalletResult.walletAddress
         } catch (error) {
-            const errorMessage =
-                error instanceof Error
-                    ? error.message
-                    : "An unknown error occurred"
-            throw new Error(`An unexpected error occurred: ${errorMessage}`)
+            throw toRemoteSignerError(error)
         }
     }
 
     if (!keyAddress) {
-        throw new Error("Wallet address should be provided on get mode")
+        throw new RemoteSignerError(
+            "Wallet address should be provided on get mode"
+        )
     }
 
     const signMessageWithRemoteSigner = async (message: SignableMessage) => {
@@ -82,21 +119,18 @@ export async function toRemoteSigner({
 
             if (!response.ok) {
                 const errorBody = await response.json()
-                throw new Error(
+                throw new RemoteSignerError(
                     `Request failed with status code ${response.status}: ${
                         errorBody.message || "An unknown error occurred"
-                    }`
+                    }`,
+                    { status: response.status }
                 )
             }
 
             const signMessageResult = await response.json()
             return signMessageResult.signature
         } catch (error) {
-            const errorMessage =
-                error instanceof Error
-                    ? error.message
-                    : "An unknown error occurred"
-            throw new Error(`An unexpected error occurred: ${errorMessage}`)
+            throw toRemoteSignerError(error)
         }
     }
 
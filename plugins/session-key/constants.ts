@@ -0,0 +1,15 @@
+export enum Operation {
+    Call = 0,
+    DelegateCall = 1
+}
+
+export enum ParamOperator {
+    EQUAL = 0,
+    GREATER_THAN = 1,
+    LESS_THAN = 2,
+    GREATER_THAN_OR_EQUAL = 3,
+    LESS_THAN_OR_EQUAL = 4,
+    NOT_EQUAL = 5
+}
+
+export const anyPaymaster = "0x0000000000000000000000000000000000000001"
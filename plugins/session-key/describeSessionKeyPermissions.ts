@@ -0,0 +1,79 @@
+import {
+    type ParamConstraintCondition,
+    type PermissionCapabilities,
+    toCallCapability,
+    toPermissionCapabilities
+} from "@zerodev/sdk"
+import { type Abi, type Address, isAddressEqual, zeroAddress } from "viem"
+import { Operation, ParamOperator, anyPaymaster } from "./constants.js"
+import type { SessionKeyData } from "./types.js"
+
+const conditions: Record<ParamOperator, ParamConstraintCondition> = {
+    [ParamOperator.EQUAL]: "equal",
+    [ParamOperator.GREATER_THAN]: "greaterThan",
+    [ParamOperator.LESS_THAN]: "lessThan",
+    [ParamOperator.GREATER_THAN_OR_EQUAL]: "greaterThanOrEqual",
+    [ParamOperator.LESS_THAN_OR_EQUAL]: "lessThanOrEqual",
+    [ParamOperator.NOT_EQUAL]: "notEqual"
+}
+
+/**
+ * Describes what a session key can do, for consent screens
+ * @param sessionKeyData - The `getPluginSerializationParams` of the session key validator
+ * @param options - ABIs of the targets keyed by address, and the ABI used for the other targets, to resolve the functions
+ * @returns {@link PermissionCapabilities}
+ */
+export const describeSessionKeyPermissions = (
+    {
+        validAfter,
+        validUntil,
+        paymaster = zeroAddress,
+        permissions = []
+    }: SessionKeyData<Abi | readonly unknown[], string>,
+    { abis, defaultAbi }: { abis?: Record<Address, Abi>; defaultAbi?: Abi } = {}
+): PermissionCapabilities =>
+    toPermissionCapabilities({
+        // Without permissions, the session key can send any call
+        sudo: permissions.length === 0,
+        calls: permissions.map((permission) =>
+            toCallCapability({
+                target: permission.target,
+                selector: permission.sig,
+                callType:
+                    permission.operation === Operation.DelegateCall
+                        ? "delegatecall"
+                        : "call",
+                // The value limit is a string once deserialized
+                valueLimit: BigInt(permission.valueLimit ?? 0n),
+                rules: (permission.rules ?? []).map(
+                    ({ offset, condition, param }) => ({
+                        offset,
+                        condition: conditions[condition],
+                        values: [param]
+                    })
+                ),
+                rateLimit: permission.executionRule?.runs
+                    ? {
+                          count: permission.executionRule.runs,
+                          interval: permission.executionRule.interval,
+                          startAt: permission.executionRule.validAfter
+                      }
+                    : undefined,
+                abi: permission.abi as Abi | undefined,
+                abis,
+                defaultAbi
+            })
+        ),
+        validAfter: validAfter || undefined,
+        validUntil: validUntil || undefined,
+        rateLimits: [],
+        gas: isAddressEqual(paymaster, zeroAddress)
+            ? undefined
+            : {
+                  paymaster: isAddressEqual(paymaster, anyPaymaster)
+                      ? undefined
+                      : paymaster,
+                  enforcePaymaster: true
+              },
+        spendingLimits: []
+    })
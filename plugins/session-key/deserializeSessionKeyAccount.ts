@@ -1,7 +1,10 @@
 import {
     KernelAccountAbi,
+    type KernelAccountExport,
     type KernelSmartAccount,
-    createKernelAccount
+    type SerializedAccountDecryption,
+    createKernelAccount,
+    decryptSerializedAccount
 } from "@zerodev/sdk"
 import { KernelFactoryAbi } from "@zerodev/sdk"
 import { toKernelPluginManager } from "@zerodev/sdk/accounts"
@@ -12,8 +15,13 @@ import type { EntryPoint } from "permissionless/types/entrypoint"
 import type { Address, Chain, Hex, Transport } from "viem"
 import { decodeFunctionData } from "viem"
 import { privateKeyToAccount } from "viem/accounts"
+import { createSessionKeyAccountV0_2 } from "./deserializeSessionKeyAccountV0_2.js"
 import { SESSION_KEY_VALIDATOR_ADDRESS } from "./index.js"
 import { signerToSessionKeyValidator } from "./toSessionKeyValidatorPlugin.js"
+import type {
+    SessionKeyAccountExportParams,
+    SessionKeyAccountParams
+} from "./types.js"
 import { deserializeSessionKeyAccountParams } from "./utils.js"
 
 export const deserializeSessionKeyAccount = async <
@@ -26,14 +34,92 @@ export const deserializeSessionKeyAccount = async <
     kernelVersion: GetKernelVersion<entryPoint>,
     sessionKeyAccountParams: string,
     sessionKeySigner?: SmartAccountSigner<TSource, TAddress>,
-    validatorAddress: Address = SESSION_KEY_VALIDATOR_ADDRESS
+    validatorAddress: Address = SESSION_KEY_VALIDATOR_ADDRESS,
+    decryption?: SerializedAccountDecryption
 ): Promise<KernelSmartAccount<entryPoint, Transport, Chain | undefined>> => {
     const entryPointVersion = getEntryPointVersion(entryPointAddress)
 
     if (entryPointVersion !== "v0.6") {
         throw new Error("Only EntryPoint 0.6 is supported")
     }
-    const params = deserializeSessionKeyAccountParams(sessionKeyAccountParams)
+    const params = deserializeSessionKeyAccountParams(
+        await decryptSerializedAccount(sessionKeyAccountParams, decryption)
+    )
+    return createSessionKeyAccount(
+        client,
+        entryPointAddress,
+        kernelVersion,
+        params,
+        sessionKeySigner,
+        validatorAddress
+    )
+}
+
+/**
+ * Creates a session key account from its versioned export, see
+ * `exportSessionKeyAccount`. Use it as the `session-key` deserializer of
+ * `deserializeKernelAccount`
+ * @param client
+ * @param accountExport - The parsed export
+ * @param sessionKeySigner - The signer, if the export has no private key
+ */
+export const importSessionKeyAccount = async <
+    TSource extends string = "custom",
+    TAddress extends Address = Address
+>(
+    client: Parameters<typeof createKernelAccount>[0],
+    accountExport: KernelAccountExport,
+    sessionKeySigner?: SmartAccountSigner<TSource, TAddress>
+): Promise<KernelSmartAccount<EntryPoint, Transport, Chain | undefined>> => {
+    if (accountExport.validator.type !== "session-key") {
+        throw new Error(
+            `Cannot import a ${accountExport.validator.type} account as a session key account`
+        )
+    }
+    const { entryPoint, kernelVersion, account, validator } = accountExport
+    const { validatorAddress, ...params } =
+        validator.params as SessionKeyAccountExportParams
+    const accountParams = {
+        ...params,
+        accountParams: {
+            initCode: account.initCode,
+            accountAddress: account.address
+        }
+    }
+    if (kernelVersion === "0.0.2") {
+        return createSessionKeyAccountV0_2(
+            client,
+            entryPoint,
+            accountParams,
+            sessionKeySigner,
+            validatorAddress
+        )
+    }
+    if (getEntryPointVersion(entryPoint) !== "v0.6") {
+        throw new Error("Only EntryPoint 0.6 is supported")
+    }
+    return createSessionKeyAccount(
+        client,
+        entryPoint,
+        kernelVersion as GetKernelVersion<EntryPoint>,
+        accountParams,
+        sessionKeySigner,
+        validatorAddress
+    )
+}
+
+const createSessionKeyAccount = async <
+    entryPoint extends EntryPoint,
+    TSource extends string = "custom",
+    TAddress extends Address = Address
+>(
+    client: Parameters<typeof createKernelAccount>[0],
+    entryPointAddress: entryPoint,
+    kernelVersion: GetKernelVersion<entryPoint>,
+    params: SessionKeyAccountParams,
+    sessionKeySigner?: SmartAccountSigner<TSource, TAddress>,
+    validatorAddress: Address = SESSION_KEY_VALIDATOR_ADDRESS
+): Promise<KernelSmartAccount<entryPoint, Transport, Chain | undefined>> => {
     let signer: SmartAccountSigner<string, Hex>
     if (params.privateKey) signer = privateKeyToAccount(params.privateKey)
     else if (sessionKeySigner) signer = sessionKeySigner
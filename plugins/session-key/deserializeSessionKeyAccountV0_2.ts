@@ -1,3 +1,7 @@
+import {
+    type SerializedAccountDecryption,
+    decryptSerializedAccount
+} from "@zerodev/sdk"
 import { toKernelPluginManager } from "@zerodev/sdk/accounts"
 import {
     KernelFactoryV2Abi,
@@ -12,6 +16,7 @@ import { decodeFunctionData } from "viem"
 import { privateKeyToAccount } from "viem/accounts"
 import { SESSION_KEY_VALIDATOR_ADDRESS } from "./index.js"
 import { signerToSessionKeyValidator } from "./toSessionKeyValidatorPlugin.js"
+import type { SessionKeyAccountParams } from "./types.js"
 import { deserializeSessionKeyAccountParams } from "./utils.js"
 
 export const deserializeSessionKeyAccountV0_2 = async <
@@ -23,9 +28,32 @@ export const deserializeSessionKeyAccountV0_2 = async <
     entryPointAddress: entryPoint,
     sessionKeyAccountParams: string,
     sessionKeySigner?: SmartAccountSigner<TSource, TAddress>,
+    validatorAddress: Address = SESSION_KEY_VALIDATOR_ADDRESS,
+    decryption?: SerializedAccountDecryption
+) => {
+    const params = deserializeSessionKeyAccountParams(
+        await decryptSerializedAccount(sessionKeyAccountParams, decryption)
+    )
+    return createSessionKeyAccountV0_2(
+        client,
+        entryPointAddress,
+        params,
+        sessionKeySigner,
+        validatorAddress
+    )
+}
+
+export const createSessionKeyAccountV0_2 = async <
+    entryPoint extends EntryPoint,
+    TSource extends string = "custom",
+    TAddress extends Address = Address
+>(
+    client: Parameters<typeof createKernelAccountV0_2>[0],
+    entryPointAddress: entryPoint,
+    params: SessionKeyAccountParams,
+    sessionKeySigner?: SmartAccountSigner<TSource, TAddress>,
     validatorAddress: Address = SESSION_KEY_VALIDATOR_ADDRESS
 ) => {
-    const params = deserializeSessionKeyAccountParams(sessionKeyAccountParams)
     let signer: SmartAccountSigner<string, Hex>
     if (params.privateKey) signer = privateKeyToAccount(params.privateKey)
     else if (sessionKeySigner) signer = sessionKeySigner
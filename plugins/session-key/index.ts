@@ -9,9 +9,16 @@ export * from "./utils.js"
 export type * from "./types.js"
 export const SESSION_KEY_VALIDATOR_ADDRESS =
     "0x8Df2bf61F849676f00C6883743E077d391da1dDA"
-export { serializeSessionKeyAccount } from "./serializeSessionKeyAccount.js"
-export { deserializeSessionKeyAccount } from "./deserializeSessionKeyAccount.js"
+export {
+    serializeSessionKeyAccount,
+    exportSessionKeyAccount
+} from "./serializeSessionKeyAccount.js"
+export {
+    deserializeSessionKeyAccount,
+    importSessionKeyAccount
+} from "./deserializeSessionKeyAccount.js"
 export { deserializeSessionKeyAccountV0_2 } from "./deserializeSessionKeyAccountV0_2.js"
 export { revokeSessionKey } from "./revokeSessionKey.js"
+export { describeSessionKeyPermissions } from "./describeSessionKeyPermissions.js"
 
 export const oneAddress = "0x0000000000000000000000000000000000000001"
@@ -1,15 +1,22 @@
-import type { KernelSmartAccount } from "@zerodev/sdk"
+import {
+    type KernelAccountExport,
+    type KernelSmartAccount,
+    type SerializedAccountEncryption,
+    encryptSerializedAccount,
+    toKernelAccountExport
+} from "@zerodev/sdk"
 import type { EntryPoint } from "permissionless/types/entrypoint"
 import type { Hex } from "viem"
+import type { SessionKeyAccountExportParams } from "./types.js"
 import {
     isSessionKeyValidatorPlugin,
     serializeSessionKeyAccountParams
 } from "./utils.js"
 
-export const serializeSessionKeyAccount = async <entryPoint extends EntryPoint>(
+const getSessionKeyAccountExportParams = async <entryPoint extends EntryPoint>(
     account: KernelSmartAccount<entryPoint>,
     privateKey?: Hex
-): Promise<string> => {
+): Promise<SessionKeyAccountExportParams> => {
     if (!isSessionKeyValidatorPlugin(account.kernelPluginManager))
         throw new Error("Account plugin is not a session key validator")
     const sessionKeyParams =
@@ -20,6 +27,23 @@ export const serializeSessionKeyAccount = async <entryPoint extends EntryPoint>(
         await account.kernelPluginManager.getPluginEnableSignature(
             account.address
         )
+    return {
+        sessionKeyParams,
+        action,
+        validityData,
+        enableSignature,
+        privateKey,
+        validatorAddress: account.kernelPluginManager.address
+    }
+}
+
+export const serializeSessionKeyAccount = async <entryPoint extends EntryPoint>(
+    account: KernelSmartAccount<entryPoint>,
+    privateKey?: Hex,
+    encryption?: SerializedAccountEncryption
+): Promise<string> => {
+    const { sessionKeyParams, action, validityData, enableSignature } =
+        await getSessionKeyAccountExportParams(account, privateKey)
     const accountParams = {
         initCode: await account.getInitCode(),
         accountAddress: account.address
@@ -34,5 +58,24 @@ export const serializeSessionKeyAccount = async <entryPoint extends EntryPoint>(
         privateKey
     }
 
-    return serializeSessionKeyAccountParams(paramsToBeSerialized)
+    const serializedAccount =
+        serializeSessionKeyAccountParams(paramsToBeSerialized)
+    return encryption
+        ? encryptSerializedAccount(serializedAccount, encryption)
+        : serializedAccount
 }
+
+/**
+ * Exports a session key account in the versioned Kernel account format, to
+ * serialize with `serializeKernelAccount`
+ * @param account - The account with the session key validator as regular validator
+ * @param privateKey - The private key of the session key, to include in the export
+ */
+export const exportSessionKeyAccount = async <entryPoint extends EntryPoint>(
+    account: KernelSmartAccount<entryPoint>,
+    privateKey?: Hex
+): Promise<KernelAccountExport<"session-key", SessionKeyAccountExportParams>> =>
+    toKernelAccountExport(account, {
+        type: "session-key",
+        params: await getSessionKeyAccountExportParams(account, privateKey)
+    })
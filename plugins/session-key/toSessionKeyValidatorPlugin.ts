@@ -33,6 +33,7 @@ import {
     type SmartAccountSigner
 } from "permissionless/accounts"
 import type { EntryPoint } from "permissionless/types/entrypoint"
+import { Operation } from "./constants.js"
 import { SESSION_KEY_VALIDATOR_ADDRESS } from "./index.js"
 import type {
     SessionKeyData,
@@ -46,21 +47,7 @@ import {
     getPermissionFromABI
 } from "./utils.js"
 
-export enum Operation {
-    Call = 0,
-    DelegateCall = 1
-}
-
-export enum ParamOperator {
-    EQUAL = 0,
-    GREATER_THAN = 1,
-    LESS_THAN = 2,
-    GREATER_THAN_OR_EQUAL = 3,
-    LESS_THAN_OR_EQUAL = 4,
-    NOT_EQUAL = 5
-}
-
-export const anyPaymaster = "0x0000000000000000000000000000000000000001"
+export { Operation, ParamOperator, anyPaymaster } from "./constants.js"
 
 export async function signerToSessionKeyValidator<
     entryPoint extends EntryPoint,
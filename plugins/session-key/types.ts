@@ -79,6 +79,17 @@ export type SessionKeyAccountParams = {
     privateKey?: Hex
 }
 
+export type SessionKeyAccountExportParams = Omit<
+    SessionKeyAccountParams,
+    "accountParams"
+> & {
+    /**
+     * Defaults to `SESSION_KEY_VALIDATOR_ADDRESS`, the legacy format doesn't
+     * record it
+     */
+    validatorAddress?: Address
+}
+
 export type SessionKeyPlugin<entryPoint extends EntryPoint> = KernelValidator<
     entryPoint,
     "SessionKeyValidator"
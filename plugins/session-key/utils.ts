@@ -18,8 +18,7 @@ import {
     toHex,
     zeroAddress
 } from "viem"
-import { ParamOperator } from "./index.js"
-import { Operation } from "./toSessionKeyValidatorPlugin.js"
+import { Operation, ParamOperator } from "./constants.js"
 import type {
     CombinedArgs,
     GeneratePermissionFromArgsParameters,
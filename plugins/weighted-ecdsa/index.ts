@@ -1,5 +1,11 @@
 import type { KernelValidator } from "@zerodev/sdk/types"
 import {
+    type WeightedECDSAAccountExportParams,
+    exportWeightedECDSAAccount,
+    importWeightedECDSAAccount
+} from "./kernelAccountExport.js"
+import {
+    type WeightedECDSAValidatorConfig,
     createWeightedECDSAValidator,
     getCurrentSigners,
     getUpdateConfigCall
@@ -9,6 +15,10 @@ export {
     createWeightedECDSAValidator,
     getUpdateConfigCall,
     getCurrentSigners,
-    type KernelValidator
+    type KernelValidator,
+    type WeightedECDSAValidatorConfig,
+    exportWeightedECDSAAccount,
+    importWeightedECDSAAccount,
+    type WeightedECDSAAccountExportParams
 }
 export * from "./constants.js"
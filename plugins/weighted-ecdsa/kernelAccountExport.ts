@@ -0,0 +1,116 @@
+import {
+    type KernelAccountExport,
+    type KernelSmartAccount,
+    createKernelAccount,
+    toKernelAccountExport
+} from "@zerodev/sdk"
+import type { GetKernelVersion } from "@zerodev/sdk/types"
+import type { SmartAccountSigner } from "permissionless/accounts"
+import type { EntryPoint } from "permissionless/types/entrypoint"
+import {
+    type Address,
+    type Chain,
+    type Client,
+    type Hex,
+    type Transport,
+    decodeAbiParameters
+} from "viem"
+import {
+    type WeightedECDSAValidatorConfig,
+    createWeightedECDSAValidator
+} from "./toWeightedECDSAValidatorPlugin.js"
+
+export type WeightedECDSAAccountExportParams = {
+    validatorAddress: Address
+    config: WeightedECDSAValidatorConfig
+}
+
+/**
+ * Exports an account owned by the weighted ECDSA validator in the versioned
+ * Kernel account format, to serialize with `serializeKernelAccount`. The
+ * config is decoded from the enable data of the validator
+ * @param account - The account with the weighted ECDSA validator as sudo validator
+ */
+export const exportWeightedECDSAAccount = async <entryPoint extends EntryPoint>(
+    account: KernelSmartAccount<entryPoint>
+): Promise<
+    KernelAccountExport<"weighted", WeightedECDSAAccountExportParams>
+> => {
+    const validator = account.kernelPluginManager.sudoValidator
+    if (validator?.source !== "WeightedECDSAValidator")
+        throw new Error(
+            "Account sudo validator is not a weighted ECDSA validator"
+        )
+    const enableData: Hex = await validator.getEnableData()
+    if (enableData === "0x")
+        throw new Error("The weighted ECDSA validator has no config")
+    const [guardians, weights, threshold, delay] = decodeAbiParameters(
+        [
+            { name: "_guardians", type: "address[]" },
+            { name: "_weights", type: "uint24[]" },
+            { name: "_threshold", type: "uint24" },
+            { name: "_delay", type: "uint48" }
+        ],
+        enableData
+    )
+    return toKernelAccountExport(account, {
+        type: "weighted",
+        params: {
+            validatorAddress: validator.address,
+            config: {
+                threshold,
+                signers: guardians.map((address, i) => ({
+                    address,
+                    weight: weights[i]
+                })),
+                delay
+            }
+        }
+    })
+}
+
+/**
+ * Creates an account owned by the weighted ECDSA validator from its
+ * versioned export. Use it as the `weighted` deserializer of
+ * `deserializeKernelAccount`
+ * @param client
+ * @param accountExport - The parsed export
+ * @param signers - The signers reaching the threshold of the config
+ */
+export const importWeightedECDSAAccount = async <
+    TTransport extends Transport = Transport,
+    TChain extends Chain | undefined = Chain | undefined,
+    TSource extends string = "custom",
+    TAddress extends Address = Address
+>(
+    client: Client<TTransport, TChain, undefined>,
+    accountExport: KernelAccountExport,
+    signers: Array<SmartAccountSigner<TSource, TAddress>>
+) => {
+    if (accountExport.validator.type !== "weighted") {
+        throw new Error(
+            `Cannot import a ${accountExport.validator.type} account as a weighted ECDSA account`
+        )
+    }
+    const { entryPoint, account, validator } = accountExport
+    const kernelVersion =
+        accountExport.kernelVersion as GetKernelVersion<EntryPoint>
+    const { validatorAddress, config } =
+        validator.params as WeightedECDSAAccountExportParams
+
+    return createKernelAccount(client, {
+        entryPoint,
+        kernelVersion,
+        plugins: {
+            sudo: await createWeightedECDSAValidator(client, {
+                config,
+                signers,
+                entryPoint,
+                kernelVersion,
+                validatorAddress
+            })
+        },
+        index: account.index,
+        deployedAccountAddress: account.address
+    })
+}
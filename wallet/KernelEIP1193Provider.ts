@@ -30,6 +30,8 @@ import type {
     UserOperation
 } from "permissionless/types"
 import type {
+    AddEthereumChainParameter,
+    Address,
     Chain,
     Client,
     EIP1193Parameters,
@@ -38,7 +40,14 @@ import type {
     SendTransactionParameters,
     Transport
 } from "viem"
-import { http, type Hex, isHex, toHex } from "viem"
+import {
+    http,
+    type Hex,
+    SwitchChainError,
+    defineChain,
+    isHex,
+    toHex
+} from "viem"
 import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
 import type {
     GetCallsParams,
@@ -49,57 +58,163 @@ import type {
     SendCallsResult,
     SessionType
 } from "./types"
-import { getPolicies, validatePermissions } from "./utils/permissions"
-import { KernelLocalStorage } from "./utils/storage"
-
-const WALLET_CAPABILITIES_STORAGE_KEY = "WALLET_CAPABILITIES"
-const WALLET_PERMISSION_STORAGE_KEY = "WALLET_PERMISSION"
-
-export class KernelEIP1193Provider<
-    entryPoint extends EntryPoint
-> extends EventEmitter {
-    private readonly storage = new KernelLocalStorage("ZDWALLET")
-    private kernelClient: KernelAccountClient<
+import {
+    WALLET_CAPABILITIES_STORAGE_KEY,
+    WALLET_PERMISSION_STORAGE_KEY,
+    WALLET_STORAGE_SCOPE
+} from "./utils/constants"
+import {
+    type KernelStorageEncryption,
+    decryptSecret,
+    encryptSecret
+} from "./utils/encryption"
+import {
+    PERMISSION_TYPES,
+    POLICY_TYPES,
+    getPolicies,
+    validatePermissions
+} from "./utils/permissions"
+import { KernelLocalStorage, type KernelStorage } from "./utils/storage"
+
+type ChainKernelAccountClient<entryPoint extends EntryPoint> =
+    KernelAccountClient<
         entryPoint,
         Transport,
         Chain,
         KernelSmartAccount<entryPoint>
     >
-    private bundlerClient: BundlerClient<entryPoint>
 
-    constructor(kernelClient: KernelAccountClient<entryPoint>) {
+export type KernelEIP1193ProviderOptions<entryPoint extends EntryPoint> = {
+    /**
+     * The other chains the wallet can switch to
+     */
+    chains?: readonly Chain[]
+    /**
+     * Creates the client of the account on a chain, with the same validator
+     * so that the account has the same address. Called the first time the
+     * wallet switches to a chain, or when a chain is added
+     */
+    createKernelClient?: (
+        chain: Chain
+    ) => Promise<KernelAccountClient<entryPoint>>
+    /**
+     * The storage of the capabilities and the granted permissions. Defaults
+     * to localStorage
+     */
+    storage?: KernelStorage
+    /**
+     * Encrypts the private keys of the granted permissions at rest
+     */
+    encryption?: KernelStorageEncryption
+}
+
+type Session = SessionType[Address][Hex][number]
+
+export class KernelEIP1193Provider<
+    entryPoint extends EntryPoint
+> extends EventEmitter {
+    private readonly storage: KernelStorage
+    private readonly encryption?: KernelStorageEncryption
+    private storageQueue: Promise<unknown> = Promise.resolve()
+    private readonly initialization: Promise<void>
+    private readonly kernelClients = new Map<
+        number,
+        ChainKernelAccountClient<entryPoint>
+    >()
+    // The clients being created, so that concurrent requests create one
+    private readonly pendingKernelClients = new Map<
+        number,
+        Promise<ChainKernelAccountClient<entryPoint>>
+    >()
+    private readonly chains = new Map<number, Chain>()
+    private readonly createKernelClient?: KernelEIP1193ProviderOptions<entryPoint>["createKernelClient"]
+    private chainId: number
+
+    constructor(
+        kernelClient: KernelAccountClient<entryPoint>,
+        {
+            chains = [],
+            createKernelClient,
+            storage = new KernelLocalStorage(WALLET_STORAGE_SCOPE),
+            encryption
+        }: KernelEIP1193ProviderOptions<entryPoint> = {}
+    ) {
         super()
+        const client = this.validateKernelClient(kernelClient)
+        this.chainId = client.chain.id
+        this.createKernelClient = createKernelClient
+        this.storage = storage
+        this.encryption = encryption
+        for (const chain of [client.chain, ...chains]) {
+            this.chains.set(chain.id, chain)
+        }
+        // The capabilities of the previous accounts are reset
+        this.initialization = Promise.all([
+            this.storeItemToStorage(WALLET_CAPABILITIES_STORAGE_KEY, {}),
+            this.addKernelClient(client)
+        ]).then(() => undefined)
+        // The failure is thrown by the requests, which await the initialization
+        this.initialization.catch(() => undefined)
+    }
+
+    private get kernelClient(): ChainKernelAccountClient<entryPoint> {
+        return this.kernelClients.get(
+            this.chainId
+        ) as ChainKernelAccountClient<entryPoint>
+    }
+
+    private get bundlerClient(): BundlerClient<entryPoint> {
+        return this.kernelClient.extend(
+            bundlerActions(this.kernelClient.account.entryPoint)
+        )
+    }
+
+    private validateKernelClient(
+        kernelClient: KernelAccountClient<entryPoint>
+    ): ChainKernelAccountClient<entryPoint> {
         if (
             typeof kernelClient.account !== "object" ||
             typeof kernelClient.chain !== "object"
         ) {
             throw new Error("invalid kernel client")
         }
-        this.kernelClient = kernelClient as KernelAccountClient<
-            entryPoint,
-            Transport,
-            Chain,
-            KernelSmartAccount<entryPoint>
-        >
+        const address = this.kernelClients.values().next().value
+            ?.account.address
+        if (
+            address &&
+            kernelClient.account.address.toLowerCase() !== address.toLowerCase()
+        ) {
+            throw new Error(
+                `the account on chain ${kernelClient.chain.id} has the address ${kernelClient.account.address} instead of ${address}`
+            )
+        }
+        return kernelClient as ChainKernelAccountClient<entryPoint>
+    }
+
+    // Stores the client of a chain with its capabilities
+    private async addKernelClient(
+        kernelClient: ChainKernelAccountClient<entryPoint>
+    ) {
+        this.kernelClients.set(kernelClient.chain.id, kernelClient)
 
         const permissions =
             kernelClient.account.entryPoint === ENTRYPOINT_ADDRESS_V07
                 ? {
                       supported: true,
-                      permissionTypes: [
-                          "sudo",
-                          "contract-call",
-                          "rate-limit",
-                          "gas-limit",
-                          "signature"
-                      ]
+                      permissionTypes: [...PERMISSION_TYPES, ...POLICY_TYPES]
                   }
                 : {
                       supported: false
                   }
 
-        const capabilities = {
-            [kernelClient.account.address]: {
+        const address = kernelClient.account.address
+        await this.updateItemInStorage<
+            // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+            Record<string, Record<string, any>>
+        >(WALLET_CAPABILITIES_STORAGE_KEY, (capabilities = {}) => ({
+            ...capabilities,
+            [address]: {
+                ...capabilities[address],
                 [toHex(kernelClient.chain.id)]: {
                     atomicBatch: {
                         supported: true
@@ -110,11 +225,48 @@ export class KernelEIP1193Provider<
                     permissions
                 }
             }
+        }))
+    }
+
+    // Returns the client of a configured chain, created on first use
+    private async getKernelClient(
+        chainId: number
+    ): Promise<ChainKernelAccountClient<entryPoint>> {
+        const kernelClient = this.kernelClients.get(chainId)
+        if (kernelClient) return kernelClient
+
+        let pendingKernelClient = this.pendingKernelClients.get(chainId)
+        if (!pendingKernelClient) {
+            pendingKernelClient = this.addChainKernelClient(chainId).finally(
+                () => this.pendingKernelClients.delete(chainId)
+            )
+            this.pendingKernelClients.set(chainId, pendingKernelClient)
+        }
+        return pendingKernelClient
+    }
+
+    private async addChainKernelClient(
+        chainId: number
+    ): Promise<ChainKernelAccountClient<entryPoint>> {
+        const chain = this.chains.get(chainId)
+        if (!chain) {
+            throw new Error(`chain ${chainId} is not configured`)
+        }
+        if (!this.createKernelClient) {
+            throw new Error(
+                `cannot create the account on chain ${chainId} without createKernelClient`
+            )
         }
-        this.storeItemToStorage(WALLET_CAPABILITIES_STORAGE_KEY, capabilities)
-        this.bundlerClient = kernelClient.extend(
-            bundlerActions(kernelClient.account.entryPoint)
+        const newKernelClient = this.validateKernelClient(
+            await this.createKernelClient(chain)
         )
+        if (newKernelClient.chain.id !== chainId) {
+            throw new Error(
+                `the client created for chain ${chainId} is on chain ${newKernelClient.chain.id}`
+            )
+        }
+        await this.addKernelClient(newKernelClient)
+        return newKernelClient
     }
 
     getChainId() {
@@ -125,6 +277,7 @@ export class KernelEIP1193Provider<
         method,
         params = []
     }: EIP1193Parameters): ReturnType<EIP1193RequestFn> {
+        await this.initialization
         switch (method) {
             case "eth_chainId":
                 return this.handleGetChainId()
@@ -154,7 +307,13 @@ export class KernelEIP1193Provider<
                     params as [GrantPermissionsParams]
                 )
             case "wallet_switchEthereumChain":
-                return this.handleSwitchEthereumChain()
+                return this.handleSwitchEthereumChain(
+                    params as [{ chainId: Hex }]
+                )
+            case "wallet_addEthereumChain":
+                return this.handleAddEthereumChain(
+                    params as [AddEthereumChainParameter]
+                )
             default:
                 return this.kernelClient.transport.request({ method, params })
         }
@@ -251,25 +410,73 @@ export class KernelEIP1193Provider<
         })
     }
 
-    private async handleSwitchEthereumChain() {
-        throw new Error("Not implemented.")
+    private async handleSwitchEthereumChain([{ chainId }]: [{ chainId: Hex }]) {
+        const id = Number(chainId)
+        if (!this.chains.has(id)) {
+            // 4902 tells the dapp to add the chain first
+            throw new SwitchChainError(
+                new Error(`Unrecognized chain ID ${chainId}`)
+            )
+        }
+        await this.getKernelClient(id)
+        if (id !== this.chainId) {
+            this.chainId = id
+            this.emit("chainChanged", toHex(id))
+        }
+        return null
+    }
+
+    private async handleAddEthereumChain([parameter]: [
+        AddEthereumChainParameter
+    ]) {
+        const id = Number(parameter.chainId)
+        if (!this.chains.has(id)) {
+            if (!this.createKernelClient) {
+                throw new Error("cannot add a chain without createKernelClient")
+            }
+            this.chains.set(
+                id,
+                defineChain({
+                    id,
+                    name: parameter.chainName,
+                    nativeCurrency: parameter.nativeCurrency ?? {
+                        name: "Ether",
+                        symbol: "ETH",
+                        decimals: 18
+                    },
+                    rpcUrls: { default: { http: parameter.rpcUrls } },
+                    blockExplorers: parameter.blockExplorerUrls?.[0]
+                        ? {
+                              default: {
+                                  name: parameter.chainName,
+                                  url: parameter.blockExplorerUrls[0]
+                              }
+                          }
+                        : undefined
+                })
+            )
+        }
+        // Like the injected wallets, switch to the added chain
+        return this.handleSwitchEthereumChain([{ chainId: toHex(id) }])
     }
 
     private async handleWalletSendcalls(
         params: [SendCallsParams]
     ): Promise<SendCallsResult> {
-        const accountAddress = this.kernelClient.account.address
-        const accountChainId = this.kernelClient.chain.id
-
         const { calls, capabilities, from, chainId } = params[0]
+        if (!this.chains.has(Number(chainId))) {
+            throw new Error("invalid chain id")
+        }
+        // The calls are sent on their chain, whatever the active chain
+        const chainKernelClient = await this.getKernelClient(Number(chainId))
+        const accountAddress = chainKernelClient.account.address
+        const accountChainId = chainKernelClient.chain.id
+
         if (from !== accountAddress) {
             throw new Error("invalid account address")
         }
-        if (Number(chainId) !== accountChainId) {
-            throw new Error("invalid chain id")
-        }
         if (
-            this.kernelClient.account.entryPoint !== ENTRYPOINT_ADDRESS_V07 &&
+            chainKernelClient.account.entryPoint !== ENTRYPOINT_ADDRESS_V07 &&
             capabilities?.permissions
         ) {
             throw new Error("Permissions not supported with kernel v2")
@@ -281,39 +488,41 @@ export class KernelEIP1193Provider<
             Chain,
             KernelSmartAccount<entryPoint>
         >
-        const permission = this.getItemFromStorage(
+        const permission = await this.getItemFromStorage<SessionType>(
             WALLET_PERMISSION_STORAGE_KEY
-        ) as SessionType
+        )
         const paymasterService = await this.getPaymasterService(
             capabilities?.paymasterService,
-            this.kernelClient.chain
+            chainKernelClient
         )
 
         const sessionId = capabilities?.permissions?.sessionId
         const session = permission?.[accountAddress]?.[
             toHex(accountChainId)
         ]?.find((session) => session.sessionId === sessionId)
-        if (session && this.kernelClient?.account?.client) {
+        if (session && chainKernelClient?.account?.client) {
             const sessionSigner = await toECDSASigner({
-                signer: privateKeyToAccount(session.signerPrivateKey)
+                signer: privateKeyToAccount(
+                    await this.getSessionPrivateKey(session)
+                )
             })
             const sessionKeyAccount = (await deserializePermissionAccount(
-                this.kernelClient.account.client as Client<
+                chainKernelClient.account.client as Client<
                     Transport,
                     Chain,
                     undefined
                 >,
-                this.kernelClient.account.entryPoint,
-                this.kernelClient.account.kernelVersion,
+                chainKernelClient.account.entryPoint,
+                chainKernelClient.account.kernelVersion,
                 session.approval,
                 sessionSigner
             )) as unknown as KernelSmartAccount<entryPoint, Transport, Chain>
 
             const kernelClient = createKernelAccountClient({
                 account: sessionKeyAccount,
-                chain: this.kernelClient.chain,
-                entryPoint: this.kernelClient.account.entryPoint,
-                bundlerTransport: http(this.kernelClient.transport.url),
+                chain: chainKernelClient.chain,
+                entryPoint: chainKernelClient.account.entryPoint,
+                bundlerTransport: http(chainKernelClient.transport.url),
                 middleware: {
                     sponsorUserOperation: paymasterService
                 }
@@ -322,10 +531,10 @@ export class KernelEIP1193Provider<
             kernelAccountClient = kernelClient
         } else {
             kernelAccountClient = createKernelAccountClient({
-                account: this.kernelClient.account,
-                chain: this.kernelClient.chain,
-                entryPoint: this.kernelClient.account.entryPoint,
-                bundlerTransport: http(this.kernelClient.transport.url),
+                account: chainKernelClient.account,
+                chain: chainKernelClient.chain,
+                entryPoint: chainKernelClient.account.entryPoint,
+                bundlerTransport: http(chainKernelClient.transport.url),
                 middleware: {
                     sponsorUserOperation: paymasterService
                 }
@@ -347,11 +556,11 @@ export class KernelEIP1193Provider<
         })
     }
 
-    private handleWalletCapabilities() {
-        const capabilities = this.getItemFromStorage(
-            WALLET_CAPABILITIES_STORAGE_KEY
+    private async handleWalletCapabilities() {
+        const capabilities = await this.getItemFromStorage<
             // biome-ignore lint/suspicious/noExplicitAny: <explanation>
-        ) as Record<string, any> | undefined
+            Record<string, any>
+        >(WALLET_CAPABILITIES_STORAGE_KEY)
 
         return capabilities
             ? capabilities[this.kernelClient.account.address]
@@ -368,9 +577,16 @@ export class KernelEIP1193Provider<
                 "Invalid params for wallet_getCallStatus: not a hex string"
             )
         }
-        const result = await this.bundlerClient.getUserOperationReceipt({
+        // The calls may have been sent on another chain than the active one
+        let result = await this.bundlerClient.getUserOperationReceipt({
             hash: userOpHash as Hex
         })
+        for (const kernelClient of this.kernelClients.values()) {
+            if (result || kernelClient.chain.id === this.chainId) continue
+            result = await kernelClient
+                .extend(bundlerActions(kernelClient.account.entryPoint))
+                .getUserOperationReceipt({ hash: userOpHash as Hex })
+        }
         if (!result?.success) {
             return {
                 status: "PENDING"
@@ -401,9 +617,9 @@ export class KernelEIP1193Provider<
         if (this.kernelClient.account.entryPoint !== ENTRYPOINT_ADDRESS_V07) {
             throw new Error("Permissions not supported with kernel v2")
         }
-        const capabilities =
-            this.handleWalletCapabilities()[toHex(this.kernelClient.chain.id)]
-                .permissions.permissionTypes
+        const capabilities = (await this.handleWalletCapabilities())[
+            toHex(this.kernelClient.chain.id)
+        ].permissions.permissionTypes
 
         validatePermissions(params[0], capabilities)
         const policies = getPolicies(params[0])
@@ -452,32 +668,39 @@ export class KernelEIP1193Provider<
             }
         })
 
-        const createdPermissions =
-            this.getItemFromStorage(WALLET_PERMISSION_STORAGE_KEY) || {}
-        const newPermission = {
+        const newPermission: Session = {
             sessionId: permissionValidator.getIdentifier(),
             entryPoint: this.kernelClient.account.entryPoint,
-            signerPrivateKey: sessionPrivateKey,
+            ...(this.encryption
+                ? {
+                      encryptedSignerPrivateKey: await encryptSecret(
+                          sessionPrivateKey,
+                          this.encryption
+                      )
+                  }
+                : { signerPrivateKey: sessionPrivateKey }),
             approval: await serializePermissionAccount(sessionKeyAccountWithSig)
         }
 
         const address = this.kernelClient.account.address
         const chainId = toHex(this.kernelClient.chain.id)
 
-        const mergedPermissions: SessionType = { ...createdPermissions }
+        await this.updateItemInStorage<SessionType>(
+            WALLET_PERMISSION_STORAGE_KEY,
+            (createdPermissions = {}) => {
+                const mergedPermissions: SessionType = { ...createdPermissions }
 
-        if (!mergedPermissions[address]) {
-            mergedPermissions[address] = {}
-        }
+                if (!mergedPermissions[address]) {
+                    mergedPermissions[address] = {}
+                }
 
-        if (!mergedPermissions[address][chainId]) {
-            mergedPermissions[address][chainId] = []
-        }
+                if (!mergedPermissions[address][chainId]) {
+                    mergedPermissions[address][chainId] = []
+                }
 
-        mergedPermissions[address][chainId].push(newPermission)
-        this.storeItemToStorage(
-            WALLET_PERMISSION_STORAGE_KEY,
-            mergedPermissions
+                mergedPermissions[address][chainId].push(newPermission)
+                return mergedPermissions
+            }
         )
         return {
             grantedPermissions: permissions.map((permission) => ({
@@ -492,9 +715,10 @@ export class KernelEIP1193Provider<
 
     private async getPaymasterService(
         paymaster: PaymasterServiceCapability | undefined,
-        chain: Chain
+        kernelClient: ChainKernelAccountClient<entryPoint>
     ) {
         if (!paymaster?.url) return undefined
+        const chain = kernelClient.chain
 
         // verifying paymaster
         return async ({
@@ -530,7 +754,7 @@ export class KernelEIP1193Provider<
             )
 
             // 2. estimate userOp gas
-            const gas = (await this.kernelClient.request({
+            const gas = (await kernelClient.request({
                 method: "eth_estimateUserOperationGas",
                 // biome-ignore lint/suspicious/noExplicitAny: <explanation>
                 params: [hexStubUserOperation as any, entryPoint]
@@ -589,12 +813,52 @@ export class KernelEIP1193Provider<
         // TODO: other paymaster services
     }
 
-    private getItemFromStorage<T>(key: string): T | undefined {
-        const item = this.storage.getItem(key)
+    private async getSessionPrivateKey(session: Session): Promise<Hex> {
+        if (session.signerPrivateKey) return session.signerPrivateKey
+        if (!session.encryptedSignerPrivateKey) {
+            throw new Error(`session ${session.sessionId} has no private key`)
+        }
+        if (!this.encryption) {
+            throw new Error(
+                `the private key of session ${session.sessionId} is encrypted, the encryption password is required`
+            )
+        }
+        return (await decryptSecret(
+            session.encryptedSignerPrivateKey,
+            this.encryption
+        )) as Hex
+    }
+
+    // The storage operations run one after the other, so that the updates
+    // of an item don't overwrite each other with an asynchronous storage
+    private withStorage<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.storageQueue.then(operation)
+        this.storageQueue = result.catch(() => undefined)
+        return result
+    }
+
+    private async readItem<T>(key: string): Promise<T | undefined> {
+        const item = await this.storage.getItem(key)
         return item ? JSON.parse(item) : undefined
     }
 
-    private storeItemToStorage<T>(key: string, item: T) {
-        this.storage.setItem(key, JSON.stringify(item))
+    private getItemFromStorage<T>(key: string): Promise<T | undefined> {
+        return this.withStorage(() => this.readItem<T>(key))
+    }
+
+    private storeItemToStorage<T>(key: string, item: T): Promise<void> {
+        return this.withStorage(async () => {
+            await this.storage.setItem(key, JSON.stringify(item))
+        })
+    }
+
+    private updateItemInStorage<T>(
+        key: string,
+        update: (item: T | undefined) => T
+    ): Promise<void> {
+        return this.withStorage(async () => {
+            const item = update(await this.readItem<T>(key))
+            await this.storage.setItem(key, JSON.stringify(item))
+        })
     }
 }
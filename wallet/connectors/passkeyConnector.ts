@@ -27,12 +27,14 @@ import {
 } from "viem"
 import {
     KernelEIP1193Provider,
+    type KernelEIP1193ProviderOptions,
     type KernelEIP1193Provider as KernelEIP1193ProviderType
 } from "../KernelEIP1193Provider"
 import type { ZeroDevVersion } from "../types"
 import { ZERODEV_BUNDLER_URL, ZERODEV_PASSKEY_URL } from "../utils/constants"
 import { getZerodevSigner, setZerodevSigner } from "../utils/passkey"
 import {
+    getBundlerUrl,
     getEntryPointFromZeroDevVersion,
     getKernelVersionFromZeroDevVersion
 } from "../utils/provider"
@@ -42,9 +44,27 @@ export function passkeyConnector(
     projectId: string,
     chain: Chain,
     version: ZeroDevVersion,
-    appName?: string
+    appName?: string,
+    {
+        storage,
+        encryption,
+        bundlerUrls
+    }: Pick<
+        KernelEIP1193ProviderOptions<EntryPoint>,
+        "storage" | "encryption"
+    > & {
+        /**
+         * The bundler URL of each chain of the config, keyed by chain id.
+         * The bundler of the project is used for `chain`
+         */
+        bundlerUrls?: Record<number, string>
+    } = {}
 ) {
     const passkeyName = appName ?? "ZeroDev Passkey Wallet"
+    const chainBundlerUrls = {
+        [chain.id]: `${ZERODEV_BUNDLER_URL}/${projectId}`,
+        ...bundlerUrls
+    }
 
     type Provider = KernelEIP1193ProviderType<EntryPoint> | undefined
     let walletProvider: Provider | undefined
@@ -53,6 +73,74 @@ export function passkeyConnector(
     let chainChanged: Connector["onChainChanged"] | undefined
     let disconnect: Connector["onDisconnect"] | undefined
 
+    // Creates the provider with the account on the initial chain, and on the
+    // other chains of the config when the wallet switches to them
+    const createProvider = async (
+        initialChain: Chain,
+        chains: readonly Chain[]
+    ) => {
+        const entryPoint = getEntryPointFromZeroDevVersion(version)
+        const kernelVersion = getKernelVersionFromZeroDevVersion(version)
+        const passkeySigner = await getZerodevSigner(storage)
+
+        const mode = passkeySigner ? WebAuthnMode.Login : WebAuthnMode.Register
+        const webAuthnKey = await toWebAuthnKey({
+            passkeyName: passkeyName,
+            passkeyServerUrl: `${ZERODEV_PASSKEY_URL}/${projectId}`,
+            mode
+        })
+
+        // The same passkey validates the account on every chain, so
+        // that it has the same address
+        const createKernelClient = async (chain: Chain) => {
+            const bundlerUrl = getBundlerUrl(chain, chainBundlerUrls)
+            const publicClient = createPublicClient({
+                chain,
+                transport: http()
+            })
+            const passkeyValidator = await toPasskeyValidator(publicClient, {
+                webAuthnKey,
+                entryPoint: entryPoint,
+                kernelVersion
+            })
+            const kernelAccount = await createKernelAccount(publicClient, {
+                entryPoint: entryPoint,
+                kernelVersion,
+                plugins: {
+                    sudo: passkeyValidator
+                }
+            })
+            const kernelClient = createKernelAccountClient({
+                account: kernelAccount,
+                chain,
+                entryPoint: entryPoint,
+                bundlerTransport: http(bundlerUrl)
+            })
+            return { passkeyValidator, kernelClient }
+        }
+
+        const { passkeyValidator, kernelClient } =
+            await createKernelClient(initialChain)
+        const passkeyData = (
+            passkeyValidator as KernelValidator<
+                EntryPoint,
+                "WebAuthnValidator"
+            > & {
+                getSerializedData: () => string
+            }
+        ).getSerializedData()
+        await setZerodevSigner(passkeyData, true, storage)
+
+        walletProvider = new KernelEIP1193Provider(kernelClient, {
+            chains,
+            createKernelClient: async (chain) =>
+                (await createKernelClient(chain)).kernelClient,
+            storage,
+            encryption
+        })
+        return walletProvider
+    }
+
     return createConnector<Provider>((config) => ({
         id: "zerodevPasskeySDK",
         name: "Passkey",
@@ -61,88 +149,41 @@ export function passkeyConnector(
 
         async connect({ chainId } = {}) {
             try {
-                if (chainId && chain.id !== chainId) {
-                    throw new Error(
-                        `Incorrect chain Id: ${chainId} should be ${chain.id}`
-                    )
+                // The default chain is used when no chain is requested
+                const connectChain =
+                    config.chains.find((chain) => chain.id === chainId) ?? chain
+                if (chainId && connectChain.id !== chainId) {
+                    throw new ChainNotConfiguredError()
                 }
 
-                const provider = await this.getProvider()
-                if (provider) {
-                    const accounts = (
-                        (await provider.request({
-                            method: "eth_requestAccounts"
-                        })) as string[]
-                    ).map((x) => getAddress(x))
-                    if (!accountsChanged) {
-                        accountsChanged = this.onAccountsChanged.bind(this)
-                        provider.on("accountsChanged", accountsChanged)
-                    }
-                    if (!chainChanged) {
-                        chainChanged = this.onChainChanged.bind(this)
-                        provider.on("chainChanged", chainChanged)
-                    }
-                    if (!disconnect) {
-                        disconnect = this.onDisconnect.bind(this)
-                        provider.on("disconnect", disconnect)
-                    }
-                    return { accounts, chainId: chain.id }
+                let provider = await this.getProvider()
+                if (!provider) {
+                    provider = await createProvider(connectChain, config.chains)
+                } else if (chainId && chainId !== (await this.getChainId())) {
+                    await provider.request({
+                        method: "wallet_switchEthereumChain",
+                        params: [{ chainId: numberToHex(chainId) }]
+                    })
                 }
 
-                const entryPoint = getEntryPointFromZeroDevVersion(version)
-                const kernelVersion =
-                    getKernelVersionFromZeroDevVersion(version)
-                const passkeySigner = getZerodevSigner()
-
-                const publicClient = createPublicClient({
-                    chain,
-                    transport: http()
-                })
-                const mode = passkeySigner
-                    ? WebAuthnMode.Login
-                    : WebAuthnMode.Register
-                const webAuthnKey = await toWebAuthnKey({
-                    passkeyName: passkeyName,
-                    passkeyServerUrl: `${ZERODEV_PASSKEY_URL}/${projectId}`,
-                    mode
-                })
-
-                const passkeyValidator = await toPasskeyValidator(
-                    publicClient,
-                    {
-                        webAuthnKey,
-                        entryPoint: entryPoint,
-                        kernelVersion
-                    }
-                )
-                const passkeyData = (
-                    passkeyValidator as KernelValidator<
-                        EntryPoint,
-                        "WebAuthnValidator"
-                    > & {
-                        getSerializedData: () => string
-                    }
-                ).getSerializedData()
-                setZerodevSigner(passkeyData, true)
-
-                const kernelAccount = await createKernelAccount(publicClient, {
-                    entryPoint: entryPoint,
-                    kernelVersion,
-                    plugins: {
-                        sudo: passkeyValidator
-                    }
-                })
-                const kernelClient = createKernelAccountClient({
-                    account: kernelAccount,
-                    chain,
-                    entryPoint: entryPoint,
-                    bundlerTransport: http(
-                        `${ZERODEV_BUNDLER_URL}/${projectId}`
-                    )
-                })
-                walletProvider = new KernelEIP1193Provider(kernelClient)
-
-                return { accounts: [kernelAccount.address], chainId: chain.id }
+                const accounts = (
+                    (await provider.request({
+                        method: "eth_requestAccounts"
+                    })) as string[]
+                ).map((x) => getAddress(x))
+                if (!accountsChanged) {
+                    accountsChanged = this.onAccountsChanged.bind(this)
+                    provider.on("accountsChanged", accountsChanged)
+                }
+                if (!chainChanged) {
+                    chainChanged = this.onChainChanged.bind(this)
+                    provider.on("chainChanged", chainChanged)
+                }
+                if (!disconnect) {
+                    disconnect = this.onDisconnect.bind(this)
+                    provider.on("disconnect", disconnect)
+                }
+                return { accounts, chainId: await this.getChainId() }
             } catch (error) {
                 if (
                     /(user closed modal|accounts received is empty|user denied account)/i.test(
@@ -169,9 +210,9 @@ export function passkeyConnector(
                 disconnect = undefined
             }
             walletProvider = undefined
-            const serializedData = getZerodevSigner()
+            const serializedData = await getZerodevSigner(storage)
             if (serializedData) {
-                setZerodevSigner(serializedData.signer, false)
+                await setZerodevSigner(serializedData.signer, false, storage)
             }
         },
 
@@ -301,9 +342,9 @@ export function passkeyConnector(
                 disconnect = undefined
             }
             walletProvider = undefined
-            const serializedData = getZerodevSigner()
+            const serializedData = await getZerodevSigner(storage)
             if (serializedData) {
-                setZerodevSigner(serializedData.signer, false)
+                await setZerodevSigner(serializedData.signer, false, storage)
             }
         }
     }))
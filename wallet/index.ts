@@ -1,8 +1,29 @@
 export {
     KernelEIP1193Provider,
-    type KernelEIP1193Provider as KernelEIP1193ProviderType
+    type KernelEIP1193Provider as KernelEIP1193ProviderType,
+    type KernelEIP1193ProviderOptions
 } from "./KernelEIP1193Provider.js"
 
 export { wrapSmartWallet } from "./wrapSmartWallet.js"
 
 export { passkeyConnector } from "./connectors/passkeyConnector.js"
+
+export {
+    type KernelStorage,
+    KernelLocalStorage,
+    KernelMemoryStorage,
+    KernelIndexedDBStorage,
+    type KernelIndexedDBStorageOptions,
+    KernelFileStorage
+} from "./utils/storage.js"
+
+export {
+    type KernelStorageEncryption,
+    encryptSecret,
+    decryptSecret
+} from "./utils/encryption.js"
+
+export {
+    migrateLocalStorage,
+    type MigrateLocalStorageParameters
+} from "./utils/migrateLocalStorage.js"
@@ -11,3 +11,7 @@ export type {
     SessionType,
     ZeroDevVersion
 } from "./provider.js"
+
+export type { Policy } from "./policy.js"
+
+export type { TokenPermission } from "./permission.js"
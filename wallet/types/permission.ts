@@ -0,0 +1,54 @@
+import type { Address, OneOf } from "viem"
+
+/** @internal */
+export type NativeTokenTransferPermission<amount = bigint> = {
+    type: "native-token-transfer"
+    data: {
+        /** Value of each transfer (in wei). */
+        allowance: amount
+    }
+}
+
+/** @internal */
+export type Erc20TokenTransferPermission<amount = bigint> = {
+    type: "erc20-token-transfer"
+    data: {
+        /** Address of the token. */
+        address: Address
+        /** Amount of each transfer or approval. */
+        allowance: amount
+    }
+}
+
+/** @internal */
+export type Erc20RecurringAllowancePermission<amount = bigint> = {
+    type: "erc20-recurring-allowance"
+    data: {
+        /** Address of the token. */
+        address: Address
+        /** Amount of the transfer or approval allowed in each period. */
+        allowance: amount
+        /** Period (in seconds). */
+        period: number
+        /** Start of the first period (unix timestamp), now if omitted. */
+        startTime?: number
+    }
+}
+
+/** @internal */
+export type Erc721TokenTransferPermission<amount = bigint> = {
+    type: "erc721-token-transfer"
+    data: {
+        /** Address of the collection. */
+        address: Address
+        /** Token allowed, any token of the collection if omitted. */
+        tokenIds?: amount[]
+    }
+}
+
+export type TokenPermission<amount = bigint> = OneOf<
+    | NativeTokenTransferPermission<amount>
+    | Erc20TokenTransferPermission<amount>
+    | Erc20RecurringAllowancePermission<amount>
+    | Erc721TokenTransferPermission<amount>
+>
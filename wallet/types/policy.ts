@@ -20,6 +20,17 @@ export type RateLimitPolicy = {
     }
 }
 
+/** @internal */
+export type TimestampPolicy = {
+    type: "timestamp"
+    data: {
+        /** Start of the validity (unix timestamp). */
+        validAfter?: number
+        /** End of the validity (unix timestamp), before the expiry. */
+        validUntil?: number
+    }
+}
+
 export type Policy<amount = bigint> = OneOf<
-    GasLimitPolicy<amount> | RateLimitPolicy
+    GasLimitPolicy<amount> | RateLimitPolicy | TimestampPolicy
 >
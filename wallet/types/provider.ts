@@ -67,7 +67,14 @@ export type SessionType = {
         [chainId: Hex]: {
             sessionId: Hex
             entryPoint: EntryPoint
-            signerPrivateKey: Hex
+            /**
+             * The private key of the session, when stored unencrypted
+             */
+            signerPrivateKey?: Hex
+            /**
+             * The private key of the session encrypted with `encryptSecret`
+             */
+            encryptedSignerPrivateKey?: string
             approval: string
         }[]
     }
@@ -1,3 +1,11 @@
 export const ZERODEV_PASSKEY_URL = "https://passkeys.zerodev.app/api/v3"
 
 export const ZERODEV_BUNDLER_URL = "https://rpc.zerodev.app/api/v2/bundler"
+
+export const WALLET_STORAGE_SCOPE = "ZDWALLET"
+
+export const WALLET_CAPABILITIES_STORAGE_KEY = "WALLET_CAPABILITIES"
+
+export const WALLET_PERMISSION_STORAGE_KEY = "WALLET_PERMISSION"
+
+export const ZERODEV_SIGNER_STORAGE_KEY = "zerodev_wallet_signer"
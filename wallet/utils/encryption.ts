@@ -0,0 +1,100 @@
+export type KernelStorageEncryption = {
+    /**
+     * The password the AES-GCM key encrypting the session keys is derived
+     * from, with PBKDF2
+     */
+    password: string
+    /**
+     * The PBKDF2 iterations of the new encryptions. Defaults to 600000
+     */
+    iterations?: number
+}
+
+type EncryptedSecret = {
+    version: 1
+    iterations: number
+    salt: string
+    iv: string
+    ciphertext: string
+}
+
+const DEFAULT_ITERATIONS = 600_000
+
+const toBase64 = (bytes: Uint8Array) =>
+    btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""))
+
+const fromBase64 = (base64: string) =>
+    Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+
+const deriveKey = async (
+    password: string,
+    salt: Uint8Array,
+    iterations: number
+) =>
+    crypto.subtle.deriveKey(
+        { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+        await crypto.subtle.importKey(
+            "raw",
+            new TextEncoder().encode(password),
+            "PBKDF2",
+            false,
+            ["deriveKey"]
+        ),
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+    )
+
+/**
+ * Encrypts a secret to store it, e.g. the private key of a session
+ * @param secret - The secret to encrypt
+ * @param encryption - {@link KernelStorageEncryption}
+ * @returns The encrypted secret, as a JSON string
+ */
+export const encryptSecret = async (
+    secret: string,
+    { password, iterations = DEFAULT_ITERATIONS }: KernelStorageEncryption
+): Promise<string> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16))
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv },
+        await deriveKey(password, salt, iterations),
+        new TextEncoder().encode(secret)
+    )
+    return JSON.stringify({
+        version: 1,
+        iterations,
+        salt: toBase64(salt),
+        iv: toBase64(iv),
+        ciphertext: toBase64(new Uint8Array(ciphertext))
+    } satisfies EncryptedSecret)
+}
+
+/**
+ * Decrypts a secret encrypted with `encryptSecret`
+ * @param encryptedSecret - The output of `encryptSecret`
+ * @param encryption - The password the secret was encrypted with
+ * @returns The secret
+ */
+export const decryptSecret = async (
+    encryptedSecret: string,
+    { password }: Pick<KernelStorageEncryption, "password">
+): Promise<string> => {
+    const { version, iterations, salt, iv, ciphertext } = JSON.parse(
+        encryptedSecret
+    ) as EncryptedSecret
+    if (version !== 1) {
+        throw new Error(`unsupported encryption version ${version}`)
+    }
+    try {
+        const secret = await crypto.subtle.decrypt(
+            { name: "AES-GCM", iv: fromBase64(iv) },
+            await deriveKey(password, fromBase64(salt), iterations),
+            fromBase64(ciphertext)
+        )
+        return new TextDecoder().decode(secret)
+    } catch {
+        throw new Error("cannot decrypt the secret, the password is invalid")
+    }
+}
@@ -0,0 +1,103 @@
+import type { SessionType } from "../types"
+import {
+    WALLET_PERMISSION_STORAGE_KEY,
+    WALLET_STORAGE_SCOPE,
+    ZERODEV_SIGNER_STORAGE_KEY
+} from "./constants"
+import { type KernelStorageEncryption, encryptSecret } from "./encryption"
+import { KernelLocalStorage, type KernelStorage } from "./storage"
+
+export type MigrateLocalStorageParameters = {
+    /**
+     * Encrypts the session keys stored unencrypted
+     */
+    encryption?: KernelStorageEncryption
+    /**
+     * Removes the migrated state from localStorage. Defaults to false
+     */
+    removeFromLocalStorage?: boolean
+}
+
+/**
+ * Moves the wallet state stored in localStorage by the previous versions,
+ * the granted permissions and the passkey signer, to another storage. The
+ * capabilities are not moved, the provider stores them again
+ * @param storage - The storage given to the provider and the connector
+ * @param parameters - {@link MigrateLocalStorageParameters}
+ * @returns Whether there was a state to migrate
+ */
+export const migrateLocalStorage = async (
+    storage: KernelStorage,
+    {
+        encryption,
+        removeFromLocalStorage = false
+    }: MigrateLocalStorageParameters = {}
+): Promise<boolean> => {
+    if (typeof window === "undefined") return false
+    const walletStorage = new KernelLocalStorage(WALLET_STORAGE_SCOPE)
+    const signerStorage = new KernelLocalStorage()
+    const permissions = walletStorage.getItem(WALLET_PERMISSION_STORAGE_KEY)
+    const signer = signerStorage.getItem(ZERODEV_SIGNER_STORAGE_KEY)
+
+    if (permissions) {
+        await storage.setItem(
+            WALLET_PERMISSION_STORAGE_KEY,
+            encryption
+                ? JSON.stringify(
+                      await encryptSessionKeys(
+                          JSON.parse(permissions),
+                          encryption
+                      )
+                  )
+                : permissions
+        )
+    }
+    if (signer) {
+        await storage.setItem(ZERODEV_SIGNER_STORAGE_KEY, signer)
+    }
+    // Removed once the state is stored, and kept when it was migrated to the
+    // same keys
+    if (removeFromLocalStorage) {
+        for (const [source, key] of [
+            [walletStorage, WALLET_PERMISSION_STORAGE_KEY],
+            [signerStorage, ZERODEV_SIGNER_STORAGE_KEY]
+        ] as const) {
+            if (
+                !(
+                    storage instanceof KernelLocalStorage &&
+                    storage.scopedKey(key) === source.scopedKey(key)
+                )
+            ) {
+                source.removeItem(key)
+            }
+        }
+    }
+    return !!permissions || !!signer
+}
+
+const encryptSessionKeys = async (
+    permissions: SessionType,
+    encryption: KernelStorageEncryption
+): Promise<SessionType> => {
+    const encrypted: SessionType = {}
+    for (const [address, chains] of Object.entries(permissions)) {
+        const encryptedChains: SessionType[keyof SessionType] = {}
+        for (const [chainId, sessions] of Object.entries(chains)) {
+            encryptedChains[chainId as keyof typeof chains] = await Promise.all(
+                sessions.map(async ({ signerPrivateKey, ...session }) =>
+                    signerPrivateKey
+                        ? {
+                              ...session,
+                              encryptedSignerPrivateKey: await encryptSecret(
+                                  signerPrivateKey,
+                                  encryption
+                              )
+                          }
+                        : session
+                )
+            )
+        }
+        encrypted[address as keyof SessionType] = encryptedChains
+    }
+    return encrypted
+}
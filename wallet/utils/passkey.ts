@@ -1,11 +1,24 @@
+import { ZERODEV_SIGNER_STORAGE_KEY } from "./constants"
+import { KernelLocalStorage, type KernelStorage } from "./storage"
+
 export type ZeroDevWalletSigner = {
     isConnected: boolean
     signer: string
 }
 
-export const getZerodevSigner = (): ZeroDevWalletSigner | null => {
-    if (typeof window === "undefined") return null
-    const signer = window.localStorage.getItem("zerodev_wallet_signer")
+// The signer is stored unscoped in localStorage by default
+const getSignerStorage = (storage?: KernelStorage) => {
+    if (storage) return storage
+    if (typeof window === "undefined") return undefined
+    return new KernelLocalStorage()
+}
+
+export const getZerodevSigner = async (
+    storage?: KernelStorage
+): Promise<ZeroDevWalletSigner | null> => {
+    const signerStorage = getSignerStorage(storage)
+    if (!signerStorage) return null
+    const signer = await signerStorage.getItem(ZERODEV_SIGNER_STORAGE_KEY)
     if (!signer) return null
 
     try {
@@ -24,11 +37,16 @@ export const getZerodevSigner = (): ZeroDevWalletSigner | null => {
     }
 }
 
-export const setZerodevSigner = (signer: string, isConnected: boolean) => {
-    if (typeof window === "undefined") return
+export const setZerodevSigner = async (
+    signer: string,
+    isConnected: boolean,
+    storage?: KernelStorage
+) => {
+    const signerStorage = getSignerStorage(storage)
+    if (!signerStorage) return
 
-    window.localStorage.setItem(
-        "zerodev_wallet_signer",
+    await signerStorage.setItem(
+        ZERODEV_SIGNER_STORAGE_KEY,
         JSON.stringify({ signer, isConnected })
     )
     return
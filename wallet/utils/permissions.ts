@@ -1,4 +1,6 @@
 import {
+    type CallPolicyParams,
+    ParamCondition,
     type SignatureCallerPolicyParams,
     toCallPolicy,
     toGasPolicy,
@@ -8,8 +10,126 @@ import {
     toTimestampPolicy
 } from "@zerodev/permissions/policies"
 import type { Policy } from "@zerodev/permissions/types"
-import { type Address, toHex } from "viem"
-import type { GrantPermissionsParams, Permission, SessionType } from "../types"
+import {
+    type Abi,
+    type Address,
+    type Hex,
+    isAddress,
+    pad,
+    toFunctionSelector,
+    toHex,
+    zeroAddress
+} from "viem"
+import type {
+    GrantPermissionsParams,
+    Permission,
+    SessionType,
+    TokenPermission
+} from "../types"
+
+export const PERMISSION_TYPES = [
+    "sudo",
+    "contract-call",
+    "signature",
+    "native-token-transfer",
+    "erc20-token-transfer",
+    "erc20-recurring-allowance",
+    "erc721-token-transfer"
+]
+
+export const POLICY_TYPES = ["rate-limit", "gas-limit", "timestamp"]
+
+type CallPermission = {
+    target: Address
+    selector: Hex
+    valueLimit?: bigint
+    rules?: { condition: ParamCondition; offset: number; param: Hex }[]
+}
+
+const ERC20_TRANSFER_SELECTORS = [
+    toFunctionSelector("transfer(address,uint256)"),
+    toFunctionSelector("approve(address,uint256)")
+]
+
+const ERC721_TRANSFER_SELECTORS = [
+    toFunctionSelector("transferFrom(address,address,uint256)"),
+    toFunctionSelector("safeTransferFrom(address,address,uint256)"),
+    toFunctionSelector("safeTransferFrom(address,address,uint256,bytes)")
+]
+
+const toAmount = (value: unknown, name: string): bigint => {
+    let amount: bigint | undefined
+    try {
+        amount = BigInt(value as string | number | bigint)
+    } catch {
+        amount = undefined
+    }
+    if (amount === undefined || amount < 0n) {
+        throw new Error(`Invalid ${name} ${value}`)
+    }
+    return amount
+}
+
+const toAddress = (value: unknown, name: string): Address => {
+    if (typeof value !== "string" || !isAddress(value)) {
+        throw new Error(`Invalid ${name} ${value}`)
+    }
+    return value
+}
+
+const toWord = (value: bigint) => pad(toHex(value), { size: 32 })
+
+// The call policy caps the amount of each call, the amounts of several calls
+// are only limited by the rate limit of the recurring allowance
+const getTokenCallPermissions = (permission: Permission): CallPermission[] => {
+    const { type, data } = permission as unknown as TokenPermission<unknown>
+    switch (type) {
+        case "native-token-transfer":
+            return [
+                {
+                    target: zeroAddress,
+                    selector: pad("0x", { size: 4 }),
+                    valueLimit: toAmount(data.allowance, "allowance")
+                }
+            ]
+        case "erc20-token-transfer":
+        case "erc20-recurring-allowance": {
+            const target = toAddress(data.address, "token address")
+            const allowance = toWord(toAmount(data.allowance, "allowance"))
+            return ERC20_TRANSFER_SELECTORS.map((selector) => ({
+                target,
+                selector,
+                rules: [
+                    {
+                        condition: ParamCondition.LESS_THAN_OR_EQUAL,
+                        offset: 32,
+                        param: allowance
+                    }
+                ]
+            }))
+        }
+        case "erc721-token-transfer": {
+            const target = toAddress(data.address, "collection address")
+            const tokenIds = data.tokenIds ?? []
+            if (tokenIds.length > 1) {
+                throw new Error(
+                    "Only one token id can be allowed by an erc721-token-transfer permission"
+                )
+            }
+            return ERC721_TRANSFER_SELECTORS.map((selector) => ({
+                target,
+                selector,
+                rules: tokenIds.map((tokenId) => ({
+                    condition: ParamCondition.EQUAL,
+                    offset: 64,
+                    param: toWord(toAmount(tokenId, "token id"))
+                }))
+            }))
+        }
+        default:
+            return []
+    }
+}
 
 export const validatePermissions = (
     permissionsParams: GrantPermissionsParams,
@@ -27,58 +147,154 @@ export const validatePermissions = (
         if (!supportedPolicies.includes(permission.type)) {
             throw new Error(`Unsupported policy ${permission.type}`)
         }
+        for (const policy of permission.policies) {
+            if (!supportedPolicies.includes(policy.type)) {
+                throw new Error(`Unsupported policy ${policy.type}`)
+            }
+        }
+    }
+
+    // check the policies installed once per session are requested once
+    const policyTypes = permissionsParams.permissions.flatMap((permission) => [
+        ...permission.policies.map((policy) => policy.type),
+        ...(permission.type === "erc20-recurring-allowance"
+            ? ["rate-limit"]
+            : [])
+    ])
+    for (const type of ["rate-limit", "gas-limit"]) {
+        if (
+            policyTypes.filter((policyType) => policyType === type).length > 1
+        ) {
+            throw new Error(`Only one ${type} policy can be granted at once`)
+        }
+    }
+
+    // check the token permissions and their calls
+    const calls = new Set<string>()
+    for (const permission of permissionsParams.permissions) {
+        for (const { target, selector } of getTokenCallPermissions(
+            permission
+        )) {
+            const call = `${target.toLowerCase()}:${selector}`
+            if (calls.has(call)) {
+                throw new Error(
+                    `Duplicate ${permission.type} permission for ${target}`
+                )
+            }
+            calls.add(call)
+        }
+        if (permission.type === "erc20-recurring-allowance") {
+            const { period, startTime } = permission.data
+            if (!Number.isInteger(period) || period <= 0) {
+                throw new Error(`Invalid period ${period}`)
+            }
+            if (
+                startTime !== undefined &&
+                (!Number.isInteger(startTime) ||
+                    startTime >= permissionsParams.expiry)
+            ) {
+                throw new Error(`Invalid start time ${startTime}`)
+            }
+        }
+        for (const policy of permission.policies) {
+            if (policy.type !== "timestamp") continue
+            const { validAfter = 0, validUntil = permissionsParams.expiry } =
+                policy.data
+            if (validAfter >= validUntil) {
+                throw new Error(
+                    `Invalid timestamp policy from ${validAfter} to ${validUntil}`
+                )
+            }
+        }
     }
 }
 
-export const getPermissionPoliciy = (permission: Permission): Policy[] => {
+export const getPolicies = (
+    permissionsParams: GrantPermissionsParams
+): Policy[] => {
     const policies: Policy[] = []
-    switch (permission.type) {
-        case "sudo":
-            policies.push(toSudoPolicy({}))
-            break
-        case "contract-call":
-            policies.push(toCallPolicy(permission.data))
-            break
-        case "signature":
-            policies.push(
-                toSignatureCallerPolicy(
-                    permission.data as SignatureCallerPolicyParams
+    // The calls of the permissions are allowed by a single call policy,
+    // a policy can only be installed once per session
+    let callPolicyParams: CallPolicyParams<Abi> | undefined
+    const callPermissions: NonNullable<CallPolicyParams<Abi>["permissions"]> =
+        []
+    // The timestamp policies narrow the validity of the session
+    let validAfter = Math.floor(new Date().valueOf() / 1000)
+    let validUntil = permissionsParams.expiry
+
+    for (const permission of permissionsParams.permissions) {
+        switch (permission.type) {
+            case "sudo":
+                policies.push(toSudoPolicy({}))
+                break
+            case "contract-call":
+                callPolicyParams ??= permission.data
+                callPermissions.push(...(permission.data.permissions ?? []))
+                break
+            case "signature":
+                policies.push(
+                    toSignatureCallerPolicy(
+                        permission.data as SignatureCallerPolicyParams
+                    )
                 )
-            )
-            break
-        default:
-            break
-    }
-    for (const policy of permission.policies) {
-        switch (policy.type) {
-            case "gas-limit":
+                break
+            case "erc20-recurring-allowance": {
+                callPermissions.push(...getTokenCallPermissions(permission))
+                // One UserOperation per period until the expiry, each moves
+                // the start of the next one by the period
+                const { period } = permission.data
+                const startAt =
+                    permission.data.startTime ??
+                    Math.floor(new Date().valueOf() / 1000)
                 policies.push(
-                    toGasPolicy({
-                        allowed: policy.data.limit
+                    toRateLimitPolicy({
+                        count: Math.ceil(
+                            (permissionsParams.expiry - startAt) / period
+                        ),
+                        interval: period,
+                        startAt
                     })
                 )
                 break
-            case "rate-limit":
-                policies.push(toRateLimitPolicy(policy.data))
-                break
+            }
             default:
+                callPermissions.push(...getTokenCallPermissions(permission))
                 break
         }
+        for (const policy of permission.policies) {
+            switch (policy.type) {
+                case "gas-limit":
+                    policies.push(
+                        toGasPolicy({
+                            allowed: policy.data.limit
+                        })
+                    )
+                    break
+                case "rate-limit":
+                    policies.push(toRateLimitPolicy(policy.data))
+                    break
+                case "timestamp":
+                    validAfter = Math.max(
+                        validAfter,
+                        policy.data.validAfter ?? 0
+                    )
+                    validUntil = Math.min(
+                        validUntil,
+                        policy.data.validUntil ?? validUntil
+                    )
+                    break
+                default:
+                    break
+            }
+        }
     }
-    return policies
-}
 
-export const getPolicies = (
-    permissionsParams: GrantPermissionsParams
-): Policy[] => {
-    const policies = permissionsParams.permissions
-        .flatMap((permission) => getPermissionPoliciy(permission))
-        .concat([
-            toTimestampPolicy({
-                validAfter: Math.floor(new Date().valueOf() / 1000),
-                validUntil: permissionsParams.expiry
-            })
-        ])
+    if (callPolicyParams || callPermissions.length > 0) {
+        policies.unshift(
+            toCallPolicy({ ...callPolicyParams, permissions: callPermissions })
+        )
+    }
+    policies.push(toTimestampPolicy({ validAfter, validUntil }))
     return policies
 }
 
@@ -1,5 +1,6 @@
 import { KERNEL_V2_4, KERNEL_V3_0, KERNEL_V3_1 } from "@zerodev/sdk/constants"
 import { ENTRYPOINT_ADDRESS_V06, ENTRYPOINT_ADDRESS_V07 } from "permissionless"
+import type { Chain } from "viem"
 import type { ZeroDevVersion } from "../types"
 
 export const getEntryPointFromZeroDevVersion = (version: ZeroDevVersion) => {
@@ -17,3 +18,16 @@ export const getKernelVersionFromZeroDevVersion = (version: ZeroDevVersion) => {
     }
     return KERNEL_V2_4
 }
+
+// A ZeroDev project serves a single chain, the other chains need their own
+// bundler URL
+export const getBundlerUrl = (
+    chain: Chain,
+    bundlerUrls: Record<number, string>
+) => {
+    const bundlerUrl = bundlerUrls[chain.id]
+    if (!bundlerUrl) {
+        throw new Error(`no bundler URL is configured for chain ${chain.id}`)
+    }
+    return bundlerUrl
+}
@@ -1,5 +1,20 @@
-export class KernelLocalStorage {
-    constructor(private scope: "ZDWALLET") {}
+/**
+ * The storage of the wallet state: the capabilities, the granted
+ * permissions with their session keys and the passkey signer. The methods
+ * can be synchronous or asynchronous
+ */
+export interface KernelStorage {
+    getItem(key: string): string | null | Promise<string | null>
+    setItem(key: string, value: string): void | Promise<void>
+    removeItem(key: string): void | Promise<void>
+}
+
+/**
+ * Stores the wallet state in `localStorage`, with the keys prefixed by the
+ * scope. The default storage in the browser
+ */
+export class KernelLocalStorage implements KernelStorage {
+    constructor(private scope?: string) {}
 
     public getItem(key: string): string | null {
         return localStorage.getItem(this.scopedKey(key))
@@ -14,6 +29,183 @@ export class KernelLocalStorage {
     }
 
     scopedKey(key: string): string {
-        return `${this.scope}:${key}`
+        return this.scope ? `${this.scope}:${key}` : key
+    }
+}
+
+/**
+ * Keeps the wallet state in memory, e.g. for tests or short-lived backends
+ */
+export class KernelMemoryStorage implements KernelStorage {
+    private readonly items = new Map<string, string>()
+
+    public getItem(key: string): string | null {
+        return this.items.get(key) ?? null
+    }
+
+    public setItem(key: string, value: string): void {
+        this.items.set(key, value)
+    }
+
+    public removeItem(key: string): void {
+        this.items.delete(key)
+    }
+}
+
+export type KernelIndexedDBStorageOptions = {
+    databaseName?: string
+    storeName?: string
+}
+
+/**
+ * Stores the wallet state in IndexedDB, available in the browsers and their
+ * workers
+ */
+export class KernelIndexedDBStorage implements KernelStorage {
+    private readonly databaseName: string
+    private readonly storeName: string
+    private database?: Promise<IDBDatabase>
+
+    constructor({
+        databaseName = "ZDWALLET",
+        storeName = "storage"
+    }: KernelIndexedDBStorageOptions = {}) {
+        this.databaseName = databaseName
+        this.storeName = storeName
+    }
+
+    public async getItem(key: string): Promise<string | null> {
+        const value = await this.request<string | undefined>(
+            "readonly",
+            (store) => store.get(key)
+        )
+        return value ?? null
+    }
+
+    public async setItem(key: string, value: string): Promise<void> {
+        await this.request("readwrite", (store) => store.put(value, key))
+    }
+
+    public async removeItem(key: string): Promise<void> {
+        await this.request("readwrite", (store) => store.delete(key))
+    }
+
+    private openDatabase(): Promise<IDBDatabase> {
+        if (!this.database) {
+            this.database = this.connect()
+        }
+        return this.database
+    }
+
+    // The database may have been created by a storage with another store
+    // name, the missing store is then created by upgrading the database
+    private async connect(): Promise<IDBDatabase> {
+        let database = await this.open()
+        while (!database.objectStoreNames.contains(this.storeName)) {
+            const version = database.version + 1
+            database.close()
+            database = await this.open(version).catch((error) => {
+                // Another storage upgraded the database first
+                if ((error as DOMException)?.name === "VersionError") {
+                    return this.open()
+                }
+                throw error
+            })
+        }
+        // Lets the other storages upgrade the database, it is reopened on
+        // the next request
+        database.onversionchange = () => {
+            database.close()
+            this.database = undefined
+        }
+        return database
+    }
+
+    private open(version?: number): Promise<IDBDatabase> {
+        return new Promise((resolve, reject) => {
+            const request = indexedDB.open(this.databaseName, version)
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(this.storeName)) {
+                    request.result.createObjectStore(this.storeName)
+                }
+            }
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => reject(request.error)
+        })
+    }
+
+    // Settles once the transaction completes, when the writes are committed
+    private async request<T>(
+        mode: IDBTransactionMode,
+        action: (store: IDBObjectStore) => IDBRequest
+    ): Promise<T> {
+        const database = await this.openDatabase()
+        return new Promise((resolve, reject) => {
+            const transaction = database.transaction(this.storeName, mode)
+            const request = action(transaction.objectStore(this.storeName))
+            transaction.oncomplete = () => resolve(request.result as T)
+            transaction.onerror = () =>
+                reject(request.error ?? transaction.error)
+            transaction.onabort = () =>
+                reject(transaction.error ?? request.error)
+        })
+    }
+}
+
+/**
+ * Stores the wallet state in a JSON file, for the wallets running in Node.js
+ */
+export class KernelFileStorage implements KernelStorage {
+    private items?: Promise<Record<string, string>>
+    private writing: Promise<void> = Promise.resolve()
+
+    constructor(private filePath: string) {}
+
+    public async getItem(key: string): Promise<string | null> {
+        return (await this.readItems())[key] ?? null
+    }
+
+    public async setItem(key: string, value: string): Promise<void> {
+        const items = await this.readItems()
+        items[key] = value
+        await this.writeItems(items)
+    }
+
+    public async removeItem(key: string): Promise<void> {
+        const items = await this.readItems()
+        delete items[key]
+        await this.writeItems(items)
+    }
+
+    // The file is read once, the items are then kept in memory
+    private readItems(): Promise<Record<string, string>> {
+        if (!this.items) {
+            this.items = import("fs/promises").then(async ({ readFile }) => {
+                try {
+                    return JSON.parse(await readFile(this.filePath, "utf8"))
+                } catch (error) {
+                    if ((error as { code?: string }).code === "ENOENT") {
+                        return {}
+                    }
+                    throw error
+                }
+            })
+        }
+        return this.items
+    }
+
+    // The writes are queued, and replace the file only once complete
+    private writeItems(items: Record<string, string>): Promise<void> {
+        const write = this.writing.then(async () => {
+            const { rename, writeFile } = await import("fs/promises")
+            const temporaryPath = `${this.filePath}.tmp`
+            await writeFile(temporaryPath, JSON.stringify(items), {
+                encoding: "utf8",
+                mode: 0o600
+            })
+            await rename(temporaryPath, this.filePath)
+        })
+        this.writing = write.catch(() => undefined)
+        return write
     }
 }
@@ -16,10 +16,13 @@ import {
 import type { CreateConnectorFn } from "wagmi"
 import {
     KernelEIP1193Provider,
+    type KernelEIP1193ProviderOptions,
     type KernelEIP1193Provider as KernelEIP1193ProviderType
 } from "./KernelEIP1193Provider"
 import type { ZeroDevVersion } from "./types"
+import { ZERODEV_BUNDLER_URL } from "./utils/constants"
 import {
+    getBundlerUrl,
     getEntryPointFromZeroDevVersion,
     getKernelVersionFromZeroDevVersion
 } from "./utils/provider"
@@ -27,7 +30,22 @@ import {
 export const wrapSmartWallet = (
     walletFunction: CreateConnectorFn,
     projectId: string,
-    version: ZeroDevVersion
+    version: ZeroDevVersion,
+    {
+        storage,
+        encryption,
+        bundlerUrls
+    }: Pick<
+        KernelEIP1193ProviderOptions<EntryPoint>,
+        "storage" | "encryption"
+    > & {
+        /**
+         * The bundler URL of each chain of the config, keyed by chain id.
+         * The bundler of the project is used for the chain the wallet is
+         * connected to
+         */
+        bundlerUrls?: Record<number, string>
+    } = {}
 ): CreateConnectorFn => {
     // biome-ignore lint/suspicious/noExplicitAny: <explanation>
     return (config: any) => {
@@ -77,44 +95,62 @@ export const wrapSmartWallet = (
                             Account
                         >
 
-                        const publicClient = createPublicClient({
-                            chain: connetedChain,
-                            transport: http(
-                                `https://rpc.zerodev.app/api/v2/bundler/${projectId}`
+                        // The same owner validates the account on every
+                        // chain, so that it has the same address
+                        const chainBundlerUrls = {
+                            [connetedChain.id]: `${ZERODEV_BUNDLER_URL}/${projectId}`,
+                            ...bundlerUrls
+                        }
+                        const createKernelClient = async (chain: Chain) => {
+                            const bundlerUrl = getBundlerUrl(
+                                chain,
+                                chainBundlerUrls
                             )
-                        })
-                        const ecdsaValidator = await signerToEcdsaValidator(
-                            publicClient,
-                            {
+                            const publicClient = createPublicClient({
+                                chain,
+                                transport: http(bundlerUrl)
+                            })
+                            const ecdsaValidator = await signerToEcdsaValidator(
+                                publicClient,
+                                {
+                                    entryPoint: entryPoint,
+                                    kernelVersion,
+                                    signer: walletClientToSmartAccountSigner(
+                                        walletClient
+                                    )
+                                }
+                            )
+                            const kernelAccount = await createKernelAccount(
+                                publicClient,
+                                {
+                                    entryPoint: entryPoint,
+                                    kernelVersion,
+                                    plugins: {
+                                        sudo: ecdsaValidator
+                                    }
+                                }
+                            )
+                            return createKernelAccountClient({
+                                account: kernelAccount,
+                                chain,
                                 entryPoint: entryPoint,
-                                kernelVersion,
-                                signer: walletClientToSmartAccountSigner(
-                                    walletClient
-                                )
-                            }
-                        )
-                        const kernelAccount = await createKernelAccount(
-                            publicClient,
+                                bundlerTransport: http(bundlerUrl)
+                            })
+                        }
+                        const kernelClient =
+                            await createKernelClient(connetedChain)
+                        kernelProvider = new KernelEIP1193Provider(
+                            kernelClient,
                             {
-                                entryPoint: entryPoint,
-                                kernelVersion,
-                                plugins: {
-                                    sudo: ecdsaValidator
-                                }
+                                chains: config.chains,
+                                createKernelClient,
+                                storage,
+                                encryption
                             }
                         )
-                        const kernelClient = createKernelAccountClient({
-                            account: kernelAccount,
-                            chain: connetedChain,
-                            entryPoint: entryPoint,
-                            bundlerTransport: http(
-                                `https://rpc.zerodev.app/api/v2/bundler/${projectId}`
-                            )
-                        })
-                        kernelProvider = new KernelEIP1193Provider(kernelClient)
 
                         return {
-                            accounts: [kernelAccount.address],
+                            accounts: [kernelClient.account.address],
                             chainId: connetedChain.id
                         }
                     }